@@ -1,13 +1,17 @@
 import { NeuButton, NeuCard, NeuIconButton, NeuInput } from '@/components/ui';
 import XPGainAnimation from '@/components/XPGainAnimation';
+import SplitEditor, { createSplitDraft, toSplitInputs, validateSplitDrafts } from '@/components/SplitEditor';
+import type { SplitDraft } from '@/components/SplitEditor';
+import ReceiptItemsSheet from '@/components/ReceiptItemsSheet';
 import { useDialog } from '@/contexts/DialogContext';
 import { useTheme } from '@/lib/ThemeContext';
-import { borderRadius, INCOME_SOURCES, PAYMENT_METHODS, spacing } from '@/lib/theme';
+import { borderRadius, INCOME_SOURCES, spacing } from '@/lib/theme';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
 import { showInterstitial } from '@/services/ads';
 import { donateAddExpenseShortcut } from '@/services/siriShortcuts';
 import { saveReceipt } from '@/lib/receipt';
-import { isOCRAvailable, extractReceiptData } from '@/services/ocr';
+import { isOCRAvailable, extractReceiptData, type ReceiptLineItem } from '@/services/ocr';
+import { findMatchingRule } from '@/services/rules';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useIncomeStore } from '@/stores/useIncomeStore';
@@ -16,7 +20,11 @@ import { useSubscriptionStore } from '@/stores/useSubscriptionStore';
 import { useGamificationStore } from '@/stores/useGamificationStore';
 import { useTemplateStore } from '@/stores/useTemplateStore';
 import { useTagStore } from '@/stores/useTagStore';
-import type { IncomeSource, PaymentMethod, RecurringFrequency } from '@/types';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { getCurrencySymbol, sumMoney } from '@/lib/money';
+import type { Account, IncomeSource, RecurringFrequency, SplitInput } from '@/types';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import * as Haptics from 'expo-haptics';
@@ -40,6 +48,9 @@ const expenseSchema = z.object({
 type FormData = z.infer<typeof expenseSchema>;
 type AddMode = 'expense' | 'income';
 
+// Below this the suggestion is more noise than help
+const MIN_SUGGESTION_CONFIDENCE = 0.15;
+
 export default function AddExpenseScreenWrapper() {
   return (
     <ErrorBoundary>
@@ -51,14 +62,17 @@ export default function AddExpenseScreenWrapper() {
 function AddExpenseScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { addExpense, incrementAddCount } = useExpenseStore();
+  const { addExpense, incrementAddCount, suggestCategories, revision } = useExpenseStore();
   const { addIncome, canAddIncome, getMonthlyCount } = useIncomeStore();
   const { categories } = useCategoryStore();
-  const { currencySymbol, defaultPaymentMethod, gamificationEnabled } = useSettingsStore();
+  const { currencySymbol, currency: homeCurrency, defaultAccountId, gamificationEnabled, formatAmount, applyRulesOnManualEntry } = useSettingsStore();
+  const { rates, convertToHome } = useExchangeRateStore();
+  const { accounts } = useAccountStore();
   const { lastXPGain } = useGamificationStore();
   const { isPremium } = useSubscriptionStore();
   const { templates: savedTemplates } = useTemplateStore();
   const { tags: allTags } = useTagStore();
+  const { rules } = useRuleStore();
   const { colors, typography } = useTheme();
 
   const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
@@ -67,7 +81,7 @@ function AddExpenseScreen() {
   const [selectedCategory, setSelectedCategory] = useState(categories[0]?.id || '');
   const [selectedSource, setSelectedSource] = useState<IncomeSource>('salary');
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(defaultPaymentMethod);
+  const [accountId, setAccountId] = useState<string | null>(defaultAccountId);
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurringFreq, setRecurringFreq] = useState<RecurringFrequency>('monthly');
   const [receiptUri, setReceiptUri] = useState<string | null>(null);
@@ -75,7 +89,16 @@ function AddExpenseScreen() {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isScanning, setIsScanning] = useState(false);
-  const { showDialog } = useDialog();
+  // Line items read from the receipt, kept so the sheet can be reopened
+  const [receiptItems, setReceiptItems] = useState<{ items: ReceiptLineItem[]; total: number } | null>(null);
+  const [showReceiptItems, setShowReceiptItems] = useState(false);
+  // null means the home currency
+  const [entryCurrency, setEntryCurrency] = useState<string | null>(null);
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>([]);
+  // Once the user picks a category themselves, rules stop changing it
+  const [categoryPicked, setCategoryPicked] = useState(false);
+  const { showDialog, showError } = useDialog();
   const successTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const incomeSuccessTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -88,10 +111,56 @@ function AddExpenseScreen() {
 
   const monthlyIncomeCount = getMonthlyCount();
 
-  const { control, handleSubmit, reset, formState: { errors } } = useForm<FormData>({
+  const { control, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<FormData>({
     defaultValues: { amount: '', description: '', notes: '' },
   });
 
+  const enteredAmount = parseFloat(watch('amount'));
+  const enteredDescription = watch('description') ?? '';
+  const convertedPreview = entryCurrency && enteredAmount > 0 ? convertToHome(enteredAmount, entryCurrency) : null;
+
+  // Rules bound amounts in the home currency, so foreign entries are converted first
+  const matchedRule = useMemo(() => {
+    if (!applyRulesOnManualEntry || mode !== 'expense' || isSplit || categoryPicked) return null;
+    const amount = enteredAmount > 0 ? (entryCurrency ? convertToHome(enteredAmount, entryCurrency) ?? 0 : enteredAmount) : 0;
+    return findMatchingRule(rules, enteredDescription, amount, new Set(categories.map((c) => c.id)));
+  }, [applyRulesOnManualEntry, mode, isSplit, categoryPicked, enteredAmount, entryCurrency, enteredDescription, rules, categories, convertToHome]);
+
+  useEffect(() => {
+    if (!matchedRule) return;
+    setSelectedCategory(matchedRule.categoryId);
+    const known = matchedRule.tagIds.filter((id) => allTags.some((t) => t.id === id));
+    setSelectedTags((prev) => [...prev, ...known.filter((id) => !prev.includes(id))]);
+  }, [matchedRule?.id]);
+
+  // A rule is the user's explicit choice, so suggestions only fill in without one
+  const suggestions = useMemo(() => {
+    if (mode !== 'expense' || isSplit || matchedRule) return [];
+    return suggestCategories(enteredDescription).filter((s) => s.confidence >= MIN_SUGGESTION_CONFIDENCE);
+  }, [mode, isSplit, matchedRule, enteredDescription, revision, suggestCategories]);
+
+  // Accounts held in a foreign currency default the entry currency to theirs
+  const handleSelectAccount = useCallback((account: Account) => {
+    setAccountId(account.id);
+    if (account.currency && account.currency !== homeCurrency && rates.some((r) => r.currency === account.currency)) {
+      setEntryCurrency(account.currency);
+    } else {
+      setEntryCurrency(null);
+    }
+  }, [homeCurrency, rates]);
+
+  const handleToggleSplit = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isSplit) {
+      setIsSplit(false);
+      setSplitDrafts([]);
+      return;
+    }
+    const other = categories.find((c) => c.id !== selectedCategory);
+    setSplitDrafts([createSplitDraft(selectedCategory), createSplitDraft(other?.id ?? selectedCategory)]);
+    setIsSplit(true);
+  }, [isSplit, categories, selectedCategory]);
+
   const imagePickerOptions: ImagePicker.ImagePickerOptions = {
     quality: 0.7,
     allowsEditing: true,
@@ -137,10 +206,21 @@ function AddExpenseScreen() {
     setIsScanning(true);
     try {
       const data = await extractReceiptData(receiptUri);
-      if (data.amount) {
-        reset({ amount: data.amount.toString(), description: data.merchant || '', notes: '' });
-      } else if (data.merchant) {
-        reset({ amount: '', description: data.merchant, notes: '' });
+      const itemsTotal = sumMoney(data.lineItems, (i) => i.amount);
+      const total = data.amount ?? (itemsTotal > 0 ? itemsTotal : null);
+      // Only fill what the receipt gave; notes and anything else typed stay
+      if (total) setValue('amount', total.toString(), { shouldValidate: true });
+      if (data.merchant) setValue('description', data.merchant, { shouldValidate: true });
+      if (data.date && data.date <= new Date()) setSelectedDate(data.date);
+      if (data.currency && data.currency !== homeCurrency && rates.some((r) => r.currency === data.currency)) {
+        setEntryCurrency(data.currency);
+      }
+      // Several items can be booked to different categories as a split
+      if (total && data.lineItems.length >= 2) {
+        setReceiptItems({ items: data.lineItems, total });
+        setShowReceiptItems(true);
+      } else {
+        setReceiptItems(null);
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch {
@@ -148,18 +228,41 @@ function AddExpenseScreen() {
     } finally {
       setIsScanning(false);
     }
-  }, [receiptUri, reset]);
+  }, [receiptUri, setValue, homeCurrency, rates]);
+
+  const handleApplyReceiptItems = useCallback((lines: SplitInput[]) => {
+    setShowReceiptItems(false);
+    setCategoryPicked(true);
+    if (lines.length > 1) {
+      setSplitDrafts(lines.map((l) => createSplitDraft(l.categoryId, l.amount.toFixed(2), l.note ?? '')));
+      setIsSplit(true);
+    } else if (lines.length === 1) {
+      setIsSplit(false);
+      setSplitDrafts([]);
+      setSelectedCategory(lines[0].categoryId);
+    }
+  }, []);
 
   const onSubmit = useCallback(async (data: FormData) => {
     const amount = parseFloat(data.amount);
     if (isNaN(amount) || amount <= 0) return;
 
+    if (isSplit) {
+      const splitError = validateSplitDrafts(splitDrafts, amount);
+      if (splitError) {
+        showError('Check Split', splitError);
+        return;
+      }
+    }
+
     const newExpense = addExpense({
       amount,
+      currency: entryCurrency,
       categoryId: selectedCategory,
+      splits: isSplit ? toSplitInputs(splitDrafts) : undefined,
       description: data.description || '',
       date: selectedDate,
-      paymentMethod,
+      accountId,
       isRecurring: isRecurring && isPremium,
       recurringFrequency: isRecurring && isPremium ? recurringFreq : undefined,
       notes: data.notes || undefined,
@@ -189,13 +292,18 @@ function AddExpenseScreen() {
       useGamificationStore.getState().dismissXPGain();
       reset();
       setSelectedCategory(categories[0]?.id || '');
-      setPaymentMethod(defaultPaymentMethod);
+      setAccountId(defaultAccountId);
       setSelectedDate(new Date());
       setIsRecurring(false);
       setReceiptUri(null);
       setSelectedTags([]);
+      setEntryCurrency(null);
+      setIsSplit(false);
+      setSplitDrafts([]);
+      setCategoryPicked(false);
+      setReceiptItems(null);
     }, 1500);
-  }, [selectedCategory, selectedDate, paymentMethod, isRecurring, recurringFreq, isPremium, categories, defaultPaymentMethod, addExpense, incrementAddCount, reset, receiptUri, selectedTags]);
+  }, [selectedCategory, selectedDate, accountId, isRecurring, recurringFreq, isPremium, categories, defaultAccountId, addExpense, incrementAddCount, reset, receiptUri, selectedTags, entryCurrency, isSplit, splitDrafts, showError]);
 
   const onSubmitIncome = useCallback(async (data: FormData) => {
     const amount = parseFloat(data.amount);
@@ -217,9 +325,11 @@ function AddExpenseScreen() {
 
     addIncome({
       amount,
+      currency: entryCurrency,
       source: selectedSource,
       description: data.description || '',
       date: selectedDate,
+      accountId,
       notes: data.notes || undefined,
     });
 
@@ -231,8 +341,10 @@ function AddExpenseScreen() {
       reset();
       setSelectedSource('salary');
       setSelectedDate(new Date());
+      setAccountId(defaultAccountId);
+      setEntryCurrency(null);
     }, 1500);
-  }, [selectedSource, selectedDate, isPremium, addIncome, canAddIncome, reset, showDialog, colors, router]);
+  }, [selectedSource, selectedDate, accountId, defaultAccountId, isPremium, addIncome, canAddIncome, reset, showDialog, colors, router, entryCurrency]);
 
   if (showSuccess) {
     return (
@@ -295,7 +407,8 @@ function AddExpenseScreen() {
                     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                     reset({ amount: t.amount.toString(), description: t.description, notes: t.notes || '' });
                     setSelectedCategory(t.categoryId);
-                    setPaymentMethod(t.paymentMethod);
+                    setCategoryPicked(true);
+                    setAccountId(t.accountId);
                   }}
                   style={[styles.templateChip, { borderColor: cat?.color || colors.border }]}
                 >
@@ -313,7 +426,7 @@ function AddExpenseScreen() {
           <NeuCard color={mode === 'income' ? colors.cardTintGreen : colors.cardTintPink} style={styles.amountCard}>
             <Text style={styles.amountLabel}>Amount</Text>
             <View style={styles.amountRow}>
-              <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+              <Text style={styles.currencySymbol}>{entryCurrency ? getCurrencySymbol(entryCurrency) : currencySymbol}</Text>
               <Controller
                 control={control}
                 name="amount"
@@ -332,6 +445,25 @@ function AddExpenseScreen() {
               />
             </View>
             {errors.amount && <Text style={styles.errorText}>{errors.amount.message}</Text>}
+            {convertedPreview !== null && (
+              <Text style={styles.convertedText}>≈ {formatAmount(convertedPreview)}</Text>
+            )}
+            {rates.length > 0 && (
+              <View style={styles.currencyRow}>
+                {[homeCurrency, ...rates.map((r) => r.currency)].map((code) => {
+                  const selected = (entryCurrency ?? homeCurrency) === code;
+                  return (
+                    <Pressable
+                      key={code}
+                      onPress={() => setEntryCurrency(code === homeCurrency ? null : code)}
+                      style={[styles.currencyChip, selected && styles.currencyChipSelected]}
+                    >
+                      <Text style={[styles.currencyChipText, selected && styles.currencyChipTextSelected]}>{code}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
           </NeuCard>
         </MotiView>
 
@@ -339,25 +471,75 @@ function AddExpenseScreen() {
         <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 400, delay: 100 }}>
           {mode === 'expense' ? (
             <>
-              <Text style={styles.sectionLabel}>Category</Text>
-              <View style={styles.categoryGrid}>
-                {categories.map((cat) => (
-                  <Pressable
-                    key={cat.id}
-                    onPress={() => {
-                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                      setSelectedCategory(cat.id);
-                    }}
-                    style={[
-                      styles.categoryItem,
-                      selectedCategory === cat.id && { backgroundColor: cat.color + '30', borderColor: cat.color },
-                    ]}
-                  >
-                    <MaterialCommunityIcons name={cat.icon as any} size={22} color={selectedCategory === cat.id ? cat.color : colors.textSecondary} />
-                    <Text style={styles.categoryName} numberOfLines={1}>{cat.name}</Text>
-                  </Pressable>
-                ))}
+              <View style={styles.sectionHeaderRow}>
+                <Text style={[styles.sectionLabel, { flex: 1 }]}>{isSplit ? 'Split' : 'Category'}</Text>
+                <Pressable onPress={handleToggleSplit} style={[styles.splitToggle, isSplit && styles.paymentItemSelected]}>
+                  <MaterialCommunityIcons name="call-split" size={14} color={isSplit ? colors.text : colors.textSecondary} />
+                  <Text style={[styles.paymentLabel, isSplit && styles.paymentLabelSelected]}>{isSplit ? 'Single' : 'Split'}</Text>
+                </Pressable>
               </View>
+              {isSplit ? (
+                <SplitEditor
+                  drafts={splitDrafts}
+                  onChange={setSplitDrafts}
+                  categories={categories}
+                  total={enteredAmount > 0 ? enteredAmount : 0}
+                  currencySymbol={entryCurrency ? getCurrencySymbol(entryCurrency) : currencySymbol}
+                />
+              ) : (
+                <>
+                  {suggestions.length > 0 && (
+                    <View style={styles.suggestionRow}>
+                      <MaterialCommunityIcons name="lightbulb-on-outline" size={14} color={colors.textSecondary} />
+                      {suggestions.map((s) => {
+                        const cat = categories.find((c) => c.id === s.categoryId);
+                        if (!cat) return null;
+                        const isSelected = selectedCategory === cat.id;
+                        return (
+                          <Pressable
+                            key={cat.id}
+                            onPress={() => {
+                              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                              setSelectedCategory(cat.id);
+                              setCategoryPicked(true);
+                            }}
+                            style={[styles.suggestionChip, isSelected && { backgroundColor: cat.color + '30', borderColor: cat.color }]}
+                          >
+                            <MaterialCommunityIcons name={cat.icon as any} size={14} color={cat.color} />
+                            <Text style={styles.templateChipText} numberOfLines={1}>{cat.name}</Text>
+                            <Text style={styles.suggestionConfidence}>{Math.round(s.confidence * 100)}%</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  )}
+                  <View style={styles.categoryGrid}>
+                    {categories.map((cat) => (
+                      <Pressable
+                        key={cat.id}
+                        onPress={() => {
+                          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                          setSelectedCategory(cat.id);
+                          setCategoryPicked(true);
+                        }}
+                        style={[
+                          styles.categoryItem,
+                          selectedCategory === cat.id && { backgroundColor: cat.color + '30', borderColor: cat.color },
+                        ]}
+                      >
+                        <MaterialCommunityIcons name={cat.icon as any} size={22} color={selectedCategory === cat.id ? cat.color : colors.textSecondary} />
+                        <Text style={styles.categoryName} numberOfLines={1}>{cat.name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+              {matchedRule && (
+                <View style={styles.freeHint}>
+                  <MaterialCommunityIcons name="auto-fix" size={14} color={colors.textLight} />
+                  <Text style={styles.freeHintText}>Set by your rule for "{matchedRule.pattern}"</Text>
+                </View>
+              )}
             </>
           ) : (
             <>
@@ -480,33 +662,34 @@ function AddExpenseScreen() {
           )}
         </MotiView>
 
-        {/* Payment Method — expense only */}
-        {mode === 'expense' && <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 400, delay: 300 }}>
-          <Text style={styles.sectionLabel}>Payment Method</Text>
-          <View style={styles.paymentRow}>
-            {PAYMENT_METHODS.map((pm) => (
+        {/* Account */}
+        {accounts.length > 0 && <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 400, delay: 300 }}>
+          <Text style={styles.sectionLabel}>Account</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginHorizontal: -spacing.xl }} contentContainerStyle={[styles.paymentRow, { paddingHorizontal: spacing.xl }]}>
+            {accounts.map((account) => (
               <Pressable
-                key={pm.id}
+                key={account.id}
                 onPress={() => {
                   Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                  setPaymentMethod(pm.id as PaymentMethod);
+                  handleSelectAccount(account);
                 }}
                 style={[
                   styles.paymentItem,
-                  paymentMethod === pm.id && styles.paymentItemSelected,
+                  styles.accountItem,
+                  accountId === account.id && styles.paymentItemSelected,
                 ]}
               >
                 <MaterialCommunityIcons
-                  name={pm.icon as any}
+                  name={account.icon as any}
                   size={18}
-                  color={paymentMethod === pm.id ? colors.text : colors.textSecondary}
+                  color={accountId === account.id ? colors.text : account.color}
                 />
-                <Text style={[styles.paymentLabel, paymentMethod === pm.id && styles.paymentLabelSelected]}>
-                  {pm.label}
+                <Text style={[styles.paymentLabel, accountId === account.id && styles.paymentLabelSelected]}>
+                  {account.name}
                 </Text>
               </Pressable>
             ))}
-          </View>
+          </ScrollView>
         </MotiView>}
 
         {/* Recurring Toggle — expense only */}
@@ -578,7 +761,10 @@ function AddExpenseScreen() {
               </NeuCard>
               <NeuIconButton
                 icon="close-circle"
-                onPress={() => setReceiptUri(null)}
+                onPress={() => {
+                  setReceiptUri(null);
+                  setReceiptItems(null);
+                }}
                 size={18}
                 bgColor={colors.cardTintRed}
                 color={colors.secondary}
@@ -596,6 +782,16 @@ function AddExpenseScreen() {
                   style={{ marginTop: spacing.sm }}
                 />
               )}
+              {receiptItems && (
+                <NeuButton
+                  title={`Assign ${receiptItems.items.length} Items`}
+                  onPress={() => setShowReceiptItems(true)}
+                  variant="outline"
+                  size="sm"
+                  icon={<MaterialCommunityIcons name="format-list-checks" size={16} color={colors.text} />}
+                  style={{ marginTop: spacing.sm }}
+                />
+              )}
             </View>
           ) : (
             <Pressable onPress={handlePickReceipt} style={styles.receiptPlaceholder}>
@@ -617,6 +813,18 @@ function AddExpenseScreen() {
 
         <View style={{ height: 120 }} />
       </ScrollView>
+      {receiptItems && (
+        <ReceiptItemsSheet
+          visible={showReceiptItems}
+          items={receiptItems.items}
+          total={enteredAmount > 0 ? enteredAmount : receiptItems.total}
+          categories={categories}
+          initialCategoryId={selectedCategory}
+          currencySymbol={entryCurrency ? getCurrencySymbol(entryCurrency) : currencySymbol}
+          onApply={handleApplyReceiptItems}
+          onClose={() => setShowReceiptItems(false)}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -631,7 +839,21 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
   currencySymbol: { fontSize: 32, fontWeight: '800', color: colors.text, marginRight: spacing.xs, fontFamily: 'SpaceMono_700Bold' },
   amountInput: { fontSize: 48, fontWeight: '800', color: colors.text, minWidth: 120, textAlign: 'center', fontFamily: 'SpaceMono_700Bold' },
   errorText: { ...typography.caption, color: colors.error, marginTop: spacing.xs },
+  convertedText: { ...typography.caption, color: colors.textSecondary, marginTop: spacing.xs, fontFamily: 'SpaceMono_400Regular' },
+  currencyRow: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', gap: spacing.xs, marginTop: spacing.md },
+  currencyChip: {
+    paddingHorizontal: spacing.sm, paddingVertical: 4, borderWidth: 2, borderColor: colors.border + '30',
+    borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
+  currencyChipSelected: { borderColor: colors.border, backgroundColor: colors.primary + '30' },
+  currencyChipText: { fontSize: 12, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+  currencyChipTextSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
   sectionLabel: { ...typography.label, marginBottom: spacing.sm },
+  sectionHeaderRow: { flexDirection: 'row', alignItems: 'center' },
+  splitToggle: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, marginBottom: spacing.sm, paddingHorizontal: spacing.sm, paddingVertical: 4,
+    borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
   categoryGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.xl },
   categoryItem: {
     width: '22%', alignItems: 'center', paddingVertical: spacing.md, borderWidth: 2.5,
@@ -650,6 +872,7 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
     paddingVertical: spacing.sm, borderWidth: 2.5, borderColor: colors.border + '30',
     borderRadius: borderRadius.md, backgroundColor: colors.surface,
   },
+  accountItem: { flex: 0, paddingHorizontal: spacing.md },
   paymentItemSelected: { borderColor: colors.border, backgroundColor: colors.primary + '30' },
   paymentLabel: { fontSize: 12, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
   paymentLabelSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
@@ -708,6 +931,12 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
   },
   templateChipText: { fontSize: 12, fontWeight: '600', color: colors.text, fontFamily: 'SpaceMono_400Regular', maxWidth: 80 },
   templateChipAmount: { fontSize: 12, fontWeight: '700', color: colors.textSecondary, fontFamily: 'SpaceMono_700Bold' },
+  suggestionRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: spacing.sm, marginBottom: spacing.md },
+  suggestionChip: {
+    flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: spacing.sm, paddingVertical: 4,
+    borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
+  suggestionConfidence: { fontSize: 11, fontWeight: '700', color: colors.textSecondary, fontFamily: 'SpaceMono_700Bold' },
   successContainer: { flex: 1, alignItems: 'center', justifyContent: 'center', backgroundColor: colors.background },
   successCard: { alignItems: 'center', paddingVertical: spacing['3xl'], paddingHorizontal: spacing['4xl'] },
   successTitle: { ...typography.h2, marginBottom: spacing.xs },
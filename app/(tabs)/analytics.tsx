@@ -1,20 +1,32 @@
 import { NeuButton, NeuCard, NeuChip, NeuEmptyState, NeuProgressBar } from '@/components/ui';
 import { useTheme } from '@/lib/ThemeContext';
-import { borderRadius, INCOME_SOURCES, PAYMENT_METHODS, spacing } from '@/lib/theme';
+import { borderRadius, INCOME_SOURCES, spacing } from '@/lib/theme';
 import type { ThemeBorders, ThemeColors, ThemeTypography } from '@/lib/theme';
+import { addMoney, sumMoney } from '@/lib/money';
+import { getRootCategoryId } from '@/lib/categories';
 import { useBudgetStore } from '@/stores/useBudgetStore';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useAccountStore } from '@/stores/useAccountStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useSubscriptionStore } from '@/stores/useSubscriptionStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import {
+  getAccountTotals,
+  getCategorySummary,
+  getLargestExpense,
+  getSpendingOverTime,
+  summarizeExpenses,
+} from '@/services/expenseQueries';
+import type { ExpenseQuery } from '@/services/expenseQueries';
 import type { ChartPeriod, IncomeBySource, IncomeSource, SpendingByCategory } from '@/types';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { eachDayOfInterval, endOfMonth, endOfWeek, endOfYear, format, getDate, getDaysInMonth, startOfMonth, startOfWeek, startOfYear, subMonths } from 'date-fns';
 import { useRouter } from 'expo-router';
 import { MotiView } from 'moti';
 import React, { useMemo, useState } from 'react';
-import { Dimensions, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Dimensions, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import ErrorBoundary from '@/components/ErrorBoundary';
 
@@ -31,8 +43,10 @@ export default function AnalyticsScreenWrapper() {
 function AnalyticsScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { expenses } = useExpenseStore();
+  const revision = useExpenseStore((s) => s.revision);
+  const { views } = useSavedViewStore();
   const { incomes } = useIncomeStore();
+  const { accounts } = useAccountStore();
   const { categories } = useCategoryStore();
   const { formatAmount } = useSettingsStore();
   const { isPremium } = useSubscriptionStore();
@@ -42,6 +56,10 @@ function AnalyticsScreen() {
   const styles = useMemo(() => createStyles(colors, borders, typography), [colors, borders, typography]);
 
   const [period, setPeriod] = useState<ChartPeriod>('month');
+  // Parent category whose sub-categories are shown, or null for the top level
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null);
+  // Saved view the charts are scoped to, or null for every expense
+  const [scopeViewId, setScopeViewId] = useState<string | null>(null);
 
   const dateRange = useMemo(() => {
     const now = new Date();
@@ -52,49 +70,71 @@ function AnalyticsScreen() {
     }
   }, [period]);
 
-  const periodExpenses = useMemo(() =>
-    expenses.filter((e) => e.date >= dateRange.start.getTime() && e.date <= dateRange.end.getTime()),
-    [expenses, dateRange]
-  );
+  const scopeView = views.find((v) => v.id === scopeViewId) ?? null;
+  // The period chips pick the dates, so the view's own date range is ignored
+  const scopeFilter = scopeView?.filter ?? null;
+
+  // Aggregated in SQL so ranges beyond the store's recent window stay exact;
+  // `revision` re-runs the queries after every expense write.
+  const periodQuery = useMemo((): ExpenseQuery => ({
+    start: dateRange.start.getTime(),
+    end: dateRange.end.getTime(),
+    advanced: scopeFilter,
+  }), [dateRange, scopeFilter]);
+
+  const periodSummary = useMemo(() => summarizeExpenses(periodQuery), [periodQuery, revision]);
+  const totalSpent = periodSummary.total;
 
-  const totalSpent = useMemo(() => periodExpenses.reduce((sum, e) => sum + e.amount, 0), [periodExpenses]);
+  const categoryTotals = useMemo(() => getCategorySummary(periodQuery), [periodQuery, revision]);
+  const spendingByDay = useMemo(() => getSpendingOverTime(periodQuery, 'day'), [periodQuery, revision]);
 
-  const categoryBreakdown = useMemo((): SpendingByCategory[] => {
+  // Sums category lines under `groupBy` (null drops the line); percentages are
+  // of the level's own total so a drilled-down view adds up to 100%.
+  const summarizeCategories = (groupBy: (categoryId: string) => string | null): SpendingByCategory[] => {
     const map = new Map<string, { total: number; count: number }>();
-    periodExpenses.forEach((e) => {
-      const existing = map.get(e.categoryId) || { total: 0, count: 0 };
-      map.set(e.categoryId, { total: existing.total + e.amount, count: existing.count + 1 });
+    categoryTotals.forEach((line, categoryId) => {
+      const key = groupBy(categoryId);
+      if (!key) return;
+      const existing = map.get(key) || { total: 0, count: 0 };
+      map.set(key, { total: addMoney(existing.total, line.total), count: existing.count + line.count });
     });
+    const levelTotal = sumMoney(Array.from(map.values()), (v) => v.total);
     return Array.from(map.entries())
       .map(([catId, { total, count }]) => {
         const cat = categories.find((c) => c.id === catId);
         return {
           categoryId: catId, categoryName: cat?.name || 'Unknown',
           categoryIcon: cat?.icon || 'cube-outline', categoryColor: cat?.color || '#9CA3AF',
-          total, percentage: totalSpent > 0 ? (total / totalSpent) * 100 : 0, count,
+          total, percentage: levelTotal > 0 ? (total / levelTotal) * 100 : 0, count,
         };
       })
       .sort((a, b) => b.total - a.total);
-  }, [periodExpenses, categories, totalSpent]);
+  };
+
+  const topLevelBreakdown = useMemo(
+    () => summarizeCategories((id) => getRootCategoryId(categories, id)),
+    [categoryTotals, categories]
+  );
+
+  const categoryBreakdown = useMemo(() => {
+    if (!drillCategoryId) return topLevelBreakdown;
+    return summarizeCategories((id) => (getRootCategoryId(categories, id) === drillCategoryId ? id : null));
+  }, [topLevelBreakdown, drillCategoryId, categoryTotals, categories]);
+
+  const drillCategory = drillCategoryId ? categories.find((c) => c.id === drillCategoryId) : undefined;
+  const parentIds = useMemo(() => new Set(categories.map((c) => c.parentId).filter(Boolean)), [categories]);
 
   const dailySpending = useMemo(() => {
-    const days = period === 'week'
-      ? eachDayOfInterval({ start: dateRange.start, end: dateRange.end })
-      : period === 'month'
-        ? eachDayOfInterval({ start: dateRange.start, end: new Date() })
-        : Array.from({ length: 12 }, (_, i) => new Date(new Date().getFullYear(), i, 1));
-
-    return days.map((day) => {
-      const dayStart = day.getTime();
-      const dayEnd = period === 'year'
-        ? new Date(day.getFullYear(), day.getMonth() + 1, 0).getTime()
-        : dayStart + 86400000;
-      const amount = periodExpenses
-        .filter((e) => e.date >= dayStart && e.date < dayEnd)
-        .reduce((sum, e) => sum + e.amount, 0);
-      return { date: day, amount };
-    });
-  }, [periodExpenses, dateRange, period]);
+    if (period === 'year') {
+      const monthTotals = getSpendingOverTime(periodQuery, 'month');
+      return Array.from({ length: 12 }, (_, i) => {
+        const month = new Date(new Date().getFullYear(), i, 1);
+        return { date: month, amount: monthTotals.get(format(month, 'yyyy-MM')) ?? 0 };
+      });
+    }
+    const days = eachDayOfInterval({ start: dateRange.start, end: period === 'week' ? dateRange.end : new Date() });
+    return days.map((day) => ({ date: day, amount: spendingByDay.get(format(day, 'yyyy-MM-dd')) ?? 0 }));
+  }, [spendingByDay, periodQuery, dateRange, period, revision]);
 
   const maxDailySpend = useMemo(() => Math.max(...dailySpending.map((d) => d.amount), 1), [dailySpending]);
   const avgDailySpend = useMemo(() => {
@@ -114,69 +154,58 @@ function AnalyticsScreen() {
     return { projectedTotal, dailyAvg, remainingDays };
   }, [period, totalSpent]);
 
-  const budgetProgress = useMemo(() => getBudgetsWithProgress(), [expenses, budgets]);
+  const budgetProgress = useMemo(() => getBudgetsWithProgress(), [revision, budgets]);
 
   const monthlyComparison = useMemo(() => {
     const now = new Date();
-    const currentMonth = expenses
-      .filter((e) => e.date >= startOfMonth(now).getTime() && e.date <= endOfMonth(now).getTime())
-      .reduce((sum, e) => sum + e.amount, 0);
     const lastMonthDate = subMonths(now, 1);
-    const lastMonth = expenses
-      .filter((e) => e.date >= startOfMonth(lastMonthDate).getTime() && e.date <= endOfMonth(lastMonthDate).getTime())
-      .reduce((sum, e) => sum + e.amount, 0);
+    const { total: currentMonth } = summarizeExpenses({
+      start: startOfMonth(now).getTime(), end: endOfMonth(now).getTime(), advanced: scopeFilter,
+    });
+    const { total: lastMonth } = summarizeExpenses({
+      start: startOfMonth(lastMonthDate).getTime(), end: endOfMonth(lastMonthDate).getTime(), advanced: scopeFilter,
+    });
     const percentChange = lastMonth > 0 ? ((currentMonth - lastMonth) / lastMonth) * 100 : 0;
     return { currentMonth, lastMonth, percentChange };
-  }, [expenses]);
+  }, [scopeFilter, revision]);
 
   const smartInsights = useMemo(() => {
-    if (periodExpenses.length === 0) return null;
-    const biggestExpense = periodExpenses.reduce(
-      (max, e) => (e.amount > max.amount ? e : max), periodExpenses[0]
-    );
-    const dayTotals = new Map<string, number>();
-    periodExpenses.forEach((e) => {
-      const dayKey = format(new Date(e.date), 'yyyy-MM-dd');
-      dayTotals.set(dayKey, (dayTotals.get(dayKey) || 0) + e.amount);
-    });
+    const biggestExpense = getLargestExpense(periodQuery);
+    if (!biggestExpense) return null;
     let busiestDay = '';
     let busiestDayAmount = 0;
-    dayTotals.forEach((amount, day) => {
+    spendingByDay.forEach((amount, day) => {
       if (amount > busiestDayAmount) { busiestDay = day; busiestDayAmount = amount; }
     });
-    const mostActive = categoryBreakdown.length > 0
-      ? categoryBreakdown.reduce((max, c) => (c.count > max.count ? c : max), categoryBreakdown[0])
+    const mostActive = topLevelBreakdown.length > 0
+      ? topLevelBreakdown.reduce((max, c) => (c.count > max.count ? c : max), topLevelBreakdown[0])
       : null;
-    const avgTransaction = totalSpent / periodExpenses.length;
+    const avgTransaction = totalSpent / periodSummary.count;
     return {
-      biggestExpense: { amount: biggestExpense.amount, description: biggestExpense.description },
+      biggestExpense,
       busiestDay: { date: busiestDay, amount: busiestDayAmount },
       mostActive,
       avgTransaction,
     };
-  }, [periodExpenses, categoryBreakdown, totalSpent]);
-
-  const paymentBreakdown = useMemo(() => {
-    const map = new Map<string, number>();
-    periodExpenses.forEach((e) => {
-      map.set(e.paymentMethod, (map.get(e.paymentMethod) || 0) + e.amount);
-    });
-    return PAYMENT_METHODS
-      .map((pm) => ({
-        id: pm.id,
-        label: pm.label,
-        icon: pm.icon,
-        amount: map.get(pm.id) || 0,
-        percentage: totalSpent > 0 ? ((map.get(pm.id) || 0) / totalSpent) * 100 : 0,
-      }))
-      .filter((pm) => pm.amount > 0)
+  }, [periodQuery, spendingByDay, topLevelBreakdown, totalSpent, periodSummary, revision]);
+
+  const accountBreakdown = useMemo(() => {
+    const map = getAccountTotals(periodQuery);
+    const rows = accounts.map((a) => ({ id: a.id, label: a.name, icon: a.icon, color: a.color, amount: map.get(a.id) || 0 }));
+    // Expenses without an account or whose account was deleted
+    const unassigned = sumMoney([...map].filter(([key]) => !accounts.some((a) => a.id === key)), ([, amount]) => amount);
+    rows.push({ id: '', label: 'No account', icon: 'help-circle-outline', color: colors.textLight, amount: unassigned });
+    return rows
+      .map((row) => ({ ...row, percentage: totalSpent > 0 ? (row.amount / totalSpent) * 100 : 0 }))
+      .filter((row) => row.amount > 0)
       .sort((a, b) => b.amount - a.amount);
-  }, [periodExpenses, totalSpent]);
+  }, [periodQuery, totalSpent, accounts, colors, revision]);
 
   const periodIncome = useMemo(() =>
-    incomes
-      .filter((i) => i.date >= dateRange.start.getTime() && i.date <= dateRange.end.getTime())
-      .reduce((sum, i) => sum + i.amount, 0),
+    sumMoney(
+      incomes.filter((i) => i.date >= dateRange.start.getTime() && i.date <= dateRange.end.getTime()),
+      (i) => i.amount,
+    ),
     [incomes, dateRange]
   );
 
@@ -192,7 +221,7 @@ function AnalyticsScreen() {
     const map = new Map<string, { total: number; count: number }>();
     periodIncomes.forEach((i) => {
       const existing = map.get(i.source) || { total: 0, count: 0 };
-      map.set(i.source, { total: existing.total + i.amount, count: existing.count + 1 });
+      map.set(i.source, { total: addMoney(existing.total, i.amount), count: existing.count + 1 });
     });
     return INCOME_SOURCES
       .map((src) => {
@@ -211,7 +240,7 @@ function AnalyticsScreen() {
       .sort((a, b) => b.total - a.total);
   }, [incomes, dateRange, periodIncome]);
 
-  if (periodExpenses.length === 0) {
+  if (periodSummary.count === 0) {
     return (
       <View style={[styles.container, { paddingTop: insets.top }]}>
         <Text style={styles.screenTitle}>Analytics</Text>
@@ -237,6 +266,22 @@ function AnalyticsScreen() {
         ))}
       </View>
 
+      {views.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.scopeScroll} contentContainerStyle={styles.scopeRow}>
+          <NeuChip label="All expenses" selected={scopeViewId === null} onPress={() => setScopeViewId(null)} color={colors.accent} />
+          {views.map((view) => (
+            <NeuChip
+              key={view.id}
+              label={view.name}
+              icon={<MaterialCommunityIcons name="filter-variant" size={14} color={scopeViewId === view.id ? colors.text : view.color} />}
+              selected={scopeViewId === view.id}
+              onPress={() => setScopeViewId(view.id)}
+              color={view.color}
+            />
+          ))}
+        </ScrollView>
+      )}
+
       {/* Total Card */}
       <MotiView from={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} transition={{ type: 'timing', duration: 400 }}>
         <NeuCard color={colors.cardTintTeal} style={styles.totalCard}>
@@ -244,7 +289,7 @@ function AnalyticsScreen() {
           <Text style={styles.totalAmount}>{formatAmount(totalSpent)}</Text>
           <View style={styles.statsRow}>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{periodExpenses.length}</Text>
+              <Text style={styles.statValue}>{periodSummary.count}</Text>
               <Text style={styles.statLabel}>Transactions</Text>
             </View>
             <View style={styles.statDivider} />
@@ -254,7 +299,7 @@ function AnalyticsScreen() {
             </View>
             <View style={styles.statDivider} />
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>{categoryBreakdown.length}</Text>
+              <Text style={styles.statValue}>{topLevelBreakdown.length}</Text>
               <Text style={styles.statLabel}>Categories</Text>
             </View>
           </View>
@@ -412,7 +457,17 @@ function AnalyticsScreen() {
 
       {/* Category Breakdown */}
       <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 500, delay: 200 }}>
-        <Text style={styles.sectionTitle}>By Category</Text>
+        <View style={styles.sectionHeaderRow}>
+          <Text style={[styles.sectionTitle, { flex: 1 }]} numberOfLines={1}>
+            {drillCategory ? drillCategory.name : 'By Category'}
+          </Text>
+          {drillCategoryId && (
+            <Pressable onPress={() => setDrillCategoryId(null)} style={styles.drillBack}>
+              <MaterialCommunityIcons name="arrow-left" size={14} color={colors.text} />
+              <Text style={styles.drillBackText}>All</Text>
+            </Pressable>
+          )}
+        </View>
 
         {/* Visual Pie-like breakdown */}
         <NeuCard style={styles.breakdownCard}>
@@ -431,18 +486,27 @@ function AnalyticsScreen() {
               animate={{ opacity: 1, translateX: 0 }}
               transition={{ type: 'timing', duration: 300, delay: 300 + index * 80 }}
             >
-              <View style={styles.categoryRow}>
+              <Pressable
+                disabled={!!drillCategoryId || !parentIds.has(cat.categoryId)}
+                onPress={() => setDrillCategoryId(cat.categoryId)}
+                style={styles.categoryRow}
+              >
                 <View style={[styles.catDot, { backgroundColor: cat.categoryColor }]} />
                 <MaterialCommunityIcons name={cat.categoryIcon as any} size={20} color={cat.categoryColor} />
                 <View style={styles.catInfo}>
-                  <Text style={styles.catName}>{cat.categoryName}</Text>
+                  <Text style={styles.catName}>
+                    {cat.categoryId === drillCategoryId ? `${cat.categoryName} (general)` : cat.categoryName}
+                  </Text>
                   <Text style={styles.catCount}>{cat.count} transactions</Text>
                 </View>
                 <View style={styles.catAmountCol}>
                   <Text style={styles.catAmount}>{formatAmount(cat.total)}</Text>
                   <Text style={styles.catPercent}>{cat.percentage.toFixed(1)}%</Text>
                 </View>
-              </View>
+                {!drillCategoryId && parentIds.has(cat.categoryId) && (
+                  <MaterialCommunityIcons name="chevron-right" size={18} color={colors.textSecondary} />
+                )}
+              </Pressable>
             </MotiView>
           ))}
         </NeuCard>
@@ -578,12 +642,12 @@ function AnalyticsScreen() {
         </MotiView>
       )}
 
-      {/* Payment Method Breakdown (Premium) */}
-      {isPremium && paymentBreakdown.length > 0 && (
+      {/* Account Breakdown (Premium) */}
+      {isPremium && accountBreakdown.length > 0 && (
         <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 500, delay: 300 }}>
-          <Text style={styles.sectionTitle}>By Payment Method</Text>
+          <Text style={styles.sectionTitle}>By Account</Text>
           <NeuCard style={styles.paymentCard}>
-            {paymentBreakdown.map((pm, index) => (
+            {accountBreakdown.map((pm, index) => (
               <MotiView
                 key={pm.id}
                 from={{ opacity: 0, translateX: -20 }}
@@ -593,7 +657,7 @@ function AnalyticsScreen() {
                 <View style={styles.pmRow}>
                   <View style={styles.pmInfo}>
                     <View style={styles.pmIconWrap}>
-                      <MaterialCommunityIcons name={pm.icon as any} size={18} color={colors.text} />
+                      <MaterialCommunityIcons name={pm.icon as any} size={18} color={pm.color} />
                     </View>
                     <Text style={styles.pmLabel}>{pm.label}</Text>
                   </View>
@@ -607,9 +671,7 @@ function AnalyticsScreen() {
                     from={{ width: '0%' as any }}
                     animate={{ width: `${Math.max(pm.percentage, 2)}%` as any }}
                     transition={{ type: 'timing', duration: 600, delay: 400 + index * 80 }}
-                    style={[styles.pmBarFill, {
-                      backgroundColor: pm.id === 'cash' ? colors.green : pm.id === 'card' ? colors.blue : pm.id === 'bank' ? colors.purple : colors.orange,
-                    }]}
+                    style={[styles.pmBarFill, { backgroundColor: pm.color }]}
                   />
                 </View>
               </MotiView>
@@ -684,6 +746,8 @@ const createStyles = (colors: ThemeColors, borders: ThemeBorders, typography: Th
   content: { paddingHorizontal: spacing.xl },
   screenTitle: { ...typography.h1, marginTop: spacing.md, marginBottom: spacing.lg, paddingHorizontal: spacing.xl },
   periodRow: { flexDirection: 'row', gap: spacing.sm, marginBottom: spacing.lg },
+  scopeScroll: { marginBottom: spacing.lg },
+  scopeRow: { gap: spacing.sm },
   totalCard: { marginBottom: spacing.lg },
   savingsRateCard: { marginBottom: spacing.lg },
   savingsRateRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
@@ -706,6 +770,12 @@ const createStyles = (colors: ThemeColors, borders: ThemeBorders, typography: Th
   bar: { width: '100%', borderRadius: 4, borderWidth: 1, borderColor: colors.border, minHeight: 2 },
   barLabel: { fontSize: 8, fontWeight: '600', color: colors.textSecondary, marginTop: 4, fontFamily: 'SpaceMono_400Regular' },
   sectionTitle: { ...typography.h3, marginBottom: spacing.md },
+  sectionHeaderRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+  drillBack: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, marginBottom: spacing.md, paddingHorizontal: spacing.sm, paddingVertical: 4,
+    borderWidth: 2, borderColor: colors.border, borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
+  drillBackText: { fontSize: 12, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
   breakdownCard: { marginBottom: spacing.lg },
   pieRow: { flexDirection: 'row', height: 24, borderRadius: 12, overflow: 'hidden', marginBottom: spacing.lg, borderWidth: 2.5, borderColor: colors.border },
   pieSegment: { flexDirection: 'row' },
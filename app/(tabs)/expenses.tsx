@@ -1,22 +1,29 @@
 import CategoryIcon from '@/components/CategoryIcon';
-import { NeuChip, NeuEmptyState, NeuInput } from '@/components/ui';
+import { NeuButton, NeuChip, NeuEmptyState, NeuInput } from '@/components/ui';
 import { useDialog } from '@/contexts/DialogContext';
 import { useTheme } from '@/lib/ThemeContext';
 import { borderRadius, spacing } from '@/lib/theme';
 import type { ThemeBorders, ThemeColors, ThemeTypography } from '@/lib/theme';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
+import { useDebtStore } from '@/stores/useDebtStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useSubscriptionStore } from '@/stores/useSubscriptionStore';
 import { useTagStore } from '@/stores/useTagStore';
-import type { DateFilter, ExpenseWithCategory } from '@/types';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import { countConditions } from '@/lib/filters';
+import type { BulkExpenseChanges, DateFilter, ExpenseWithCategory, Transfer, TransferEndpointType } from '@/types';
 import { AdBanner } from '@/services/ads';
+import { splitSnippet } from '@/services/search';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { format, isThisWeek, isToday, isYesterday } from 'date-fns';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
-import React, { useCallback, useMemo, useRef, useState } from 'react';
-import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FlatList, Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { Swipeable } from 'react-native-gesture-handler';
 import Animated, { FadeIn } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -31,6 +38,13 @@ function getDateGroup(timestamp: number): string {
   return format(date, 'MMMM d, yyyy');
 }
 
+type ListRow = ExpenseWithCategory | { type: 'transfer'; id: string; date: number; transfer: Transfer };
+
+type BulkSheet = 'category' | 'tags' | 'account' | 'date';
+type TagAction = 'add' | 'remove';
+
+const DATE_SHIFTS = [-7, -1, 1, 7];
+
 const DATE_FILTERS: { label: string; value: DateFilter }[] = [
   { label: 'Today', value: 'today' },
   { label: 'Week', value: 'week' },
@@ -41,46 +55,95 @@ const DATE_FILTERS: { label: string; value: DateFilter }[] = [
 export default function ExpensesScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const getFilteredExpenses = useExpenseStore((s) => s.getFilteredExpenses);
+  const list = useExpenseStore((s) => s.list);
+  const revision = useExpenseStore((s) => s.revision);
+  const loadList = useExpenseStore((s) => s.loadList);
+  const loadMoreList = useExpenseStore((s) => s.loadMoreList);
+  const getFilteredExpenseIds = useExpenseStore((s) => s.getFilteredExpenseIds);
+  const getSearchMatches = useExpenseStore((s) => s.getSearchMatches);
   const filters = useExpenseStore((s) => s.filters);
   const setFilter = useExpenseStore((s) => s.setFilter);
+  const applyView = useExpenseStore((s) => s.applyView);
+  const views = useSavedViewStore((s) => s.views);
   const deleteExpense = useExpenseStore((s) => s.deleteExpense);
-  const expenses = useExpenseStore((s) => s.expenses);
+  const bulkUpdateExpenses = useExpenseStore((s) => s.bulkUpdateExpenses);
+  const bulkDeleteExpenses = useExpenseStore((s) => s.bulkDeleteExpenses);
   const categories = useCategoryStore((s) => s.categories);
+  const accounts = useAccountStore((s) => s.accounts);
+  const transfers = useTransferStore((s) => s.transfers);
+  const deleteTransfer = useTransferStore((s) => s.deleteTransfer);
+  const getFilterDateRange = useExpenseStore((s) => s.getFilterDateRange);
+  const goals = useSavingsGoalStore((s) => s.goals);
+  const debts = useDebtStore((s) => s.debts);
   const formatAmount = useSettingsStore((s) => s.formatAmount);
   const isPremium = useSubscriptionStore((s) => s.isPremium);
-  const { showConfirm } = useDialog();
+  const { showConfirm, showError } = useDialog();
   const [selectedCategoryFilter, setSelectedCategoryFilter] = useState<string | null>(null);
-  const [selectedTagFilter, setSelectedTagFilter] = useState<string | null>(null);
-  const { tags, getTagsForExpense } = useTagStore();
+  const { tags } = useTagStore();
   const swipeableRefs = useRef<Map<string, Swipeable>>(new Map());
   const openSwipeableId = useRef<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkSheet, setBulkSheet] = useState<BulkSheet | null>(null);
+  const [tagActions, setTagActions] = useState<Map<string, TagAction>>(new Map());
+  const [customShift, setCustomShift] = useState('');
+  const isSelecting = selectedIds.size > 0;
   const { colors, borders, typography } = useTheme();
 
   const styles = useMemo(() => createStyles(colors, borders, typography), [colors, borders, typography]);
 
-  const filteredExpenses = useMemo(() => {
-    const base = getFilteredExpenses();
-    if (!selectedTagFilter) return base;
-    return base.filter((e) => {
-      const eTags = getTagsForExpense(e.id);
-      return eTags.some((t) => t.id === selectedTagFilter);
+  useEffect(() => {
+    loadList();
+  }, [loadList]);
+
+  const filteredExpenses = list.items;
+
+  // Transfers are listed alongside expenses but never counted in the total.
+  // Category, tag and advanced filters only apply to expenses, so they hide transfers.
+  // While more expense pages remain, older transfers wait for them to load.
+  const filteredTransfers = useMemo(() => {
+    if (selectedCategoryFilter || filters.tagId || filters.advanced) return [];
+    const { start, end } = getFilterDateRange();
+    const query = filters.searchQuery.toLowerCase();
+    return transfers.filter((t) => {
+      if (t.date < start || t.date > end) return false;
+      if (list.cursor && t.date < list.cursor.date) return false;
+      if (filters.accountId) {
+        const touchesAccount = (t.fromType === 'account' && t.fromId === filters.accountId)
+          || (t.toType === 'account' && t.toId === filters.accountId);
+        if (!touchesAccount) return false;
+      }
+      if (query && !t.description.toLowerCase().includes(query)) return false;
+      return true;
     });
-  }, [filters, expenses, selectedTagFilter]);
+  }, [transfers, filters, selectedCategoryFilter, list.cursor, getFilterDateRange]);
+
+  const searchMatches = useMemo(() => getSearchMatches(), [filters, revision]);
 
   const groupedExpenses = useMemo(() => {
-    const groups: { title: string; data: ExpenseWithCategory[] }[] = [];
-    const groupMap = new Map<string, ExpenseWithCategory[]>();
-    filteredExpenses.forEach((expense) => {
-      const group = getDateGroup(expense.date);
+    // Search results keep their ranking instead of being grouped by date
+    if (searchMatches) {
+      const count = filteredExpenses.length;
+      const rows: ListRow[] = [
+        ...filteredExpenses,
+        ...filteredTransfers.map((t) => ({ type: 'transfer' as const, id: t.id, date: t.date, transfer: t })),
+      ];
+      return rows.length > 0 ? [{ title: `${count} best match${count === 1 ? '' : 'es'}`, data: rows }] : [];
+    }
+    const rows: ListRow[] = [
+      ...filteredExpenses,
+      ...filteredTransfers.map((t) => ({ type: 'transfer' as const, id: t.id, date: t.date, transfer: t })),
+    ].sort((a, b) => b.date - a.date);
+    const groups: { title: string; data: ListRow[] }[] = [];
+    const groupMap = new Map<string, ListRow[]>();
+    rows.forEach((row) => {
+      const group = getDateGroup(row.date);
       if (!groupMap.has(group)) groupMap.set(group, []);
-      groupMap.get(group)!.push(expense);
+      groupMap.get(group)!.push(row);
     });
     groupMap.forEach((data, title) => groups.push({ title, data }));
     return groups;
-  }, [filteredExpenses]);
+  }, [filteredExpenses, filteredTransfers, searchMatches]);
 
-  const totalFiltered = useMemo(() => filteredExpenses.reduce((sum, e) => sum + e.amount, 0), [filteredExpenses]);
 
   const handleDelete = useCallback((id: string) => {
     showConfirm({
@@ -93,12 +156,138 @@ export default function ExpensesScreen() {
     });
   }, [deleteExpense, showConfirm]);
 
+  const handleDeleteTransfer = useCallback((id: string) => {
+    showConfirm({
+      title: 'Delete Transfer',
+      message: 'Delete this transfer? Any savings goal or debt it touched will be adjusted back.',
+      onConfirm: () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        deleteTransfer(id);
+      },
+    });
+  }, [deleteTransfer, showConfirm]);
+
+  // Selection: long-press starts it, taps toggle while it is active, and it
+  // ends when the last row is deselected. Transfers are not selectable.
+  const toggleSelected = useCallback((id: string) => {
+    Haptics.selectionAsync();
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => setSelectedIds(new Set()), []);
+
+  // Includes pages that have not been scrolled to yet
+  const selectAllFiltered = useCallback(() => {
+    setSelectedIds(new Set(getFilteredExpenseIds()));
+  }, [getFilteredExpenseIds]);
+
+  // Drop ids that disappeared from the list (deleted elsewhere or filtered out)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      if (prev.size === 0) return prev;
+      const matching = new Set(getFilteredExpenseIds());
+      const next = new Set([...prev].filter((id) => matching.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [list, getFilteredExpenseIds]);
+
+  const applyBulkChanges = useCallback((changes: BulkExpenseChanges) => {
+    const ids = [...selectedIds];
+    try {
+      bulkUpdateExpenses(ids, changes);
+    } catch (error) {
+      console.error('Failed to bulk update expenses:', error);
+      showError('Update Failed', 'The selected expenses could not be updated.');
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setBulkSheet(null);
+    clearSelection();
+  }, [selectedIds, bulkUpdateExpenses, clearSelection, showError]);
+
+  const handleBulkDelete = useCallback(() => {
+    const ids = [...selectedIds];
+    showConfirm({
+      title: 'Delete Expenses',
+      message: `Delete ${ids.length} selected expense${ids.length === 1 ? '' : 's'}?`,
+      onConfirm: () => {
+        try {
+          bulkDeleteExpenses(ids);
+        } catch (error) {
+          console.error('Failed to bulk delete expenses:', error);
+          showError('Delete Failed', 'The selected expenses could not be deleted.');
+          return;
+        }
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        clearSelection();
+      },
+    });
+  }, [selectedIds, bulkDeleteExpenses, clearSelection, showConfirm, showError]);
+
+  const openBulkSheet = useCallback((sheet: BulkSheet) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setTagActions(new Map());
+    setCustomShift('');
+    setBulkSheet(sheet);
+  }, []);
+
+  const cycleTagAction = useCallback((tagId: string) => {
+    setTagActions((prev) => {
+      const next = new Map(prev);
+      const current = next.get(tagId);
+      if (!current) next.set(tagId, 'add');
+      else if (current === 'add') next.set(tagId, 'remove');
+      else next.delete(tagId);
+      return next;
+    });
+  }, []);
+
+  const handleApplyTags = useCallback(() => {
+    const addTagIds = [...tagActions].filter(([, action]) => action === 'add').map(([id]) => id);
+    const removeTagIds = [...tagActions].filter(([, action]) => action === 'remove').map(([id]) => id);
+    if (addTagIds.length === 0 && removeTagIds.length === 0) {
+      setBulkSheet(null);
+      return;
+    }
+    applyBulkChanges({ addTagIds, removeTagIds });
+  }, [tagActions, applyBulkChanges]);
+
+  const handleShiftDates = useCallback((days: number) => {
+    if (!Number.isInteger(days) || days === 0) {
+      showError('Invalid Shift', 'Enter a whole number of days, e.g. 3 or -3.');
+      return;
+    }
+    applyBulkChanges({ dateShiftDays: days });
+  }, [applyBulkChanges, showError]);
+
+  const endpointName = useCallback((type: TransferEndpointType, id: string) => {
+    if (type === 'account') return accounts.find((a) => a.id === id)?.name ?? 'Deleted account';
+    if (type === 'goal') return goals.find((g) => g.id === id)?.title ?? 'Deleted goal';
+    return debts.find((d) => d.id === id)?.name ?? 'Deleted debt';
+  }, [accounts, goals, debts]);
+
   const handleCategoryFilter = useCallback((catId: string | null) => {
     setSelectedCategoryFilter(catId);
     setFilter('categoryId', catId);
   }, [setFilter]);
 
+  const pinnedViews = useMemo(() => views.filter((v) => v.isPinned), [views]);
+  const advancedCount = countConditions(filters.advanced);
+
+  const handleViewPress = useCallback((viewId: string) => {
+    Haptics.selectionAsync();
+    const view = views.find((v) => v.id === viewId);
+    applyView(!view || filters.viewId === viewId ? null : view);
+  }, [views, filters.viewId, applyView]);
+
   type FilterItem =
+    | { type: 'view'; id: string; name: string; color: string }
+    | { type: 'custom'; count: number }
     | { type: 'date'; label: string; value: DateFilter }
     | { type: 'divider' }
     | { type: 'category'; id: string | null; name: string; icon: string; color: string }
@@ -106,6 +295,10 @@ export default function ExpensesScreen() {
 
   const filterItems = useMemo((): FilterItem[] => {
     const items: FilterItem[] = [];
+    // An edited or unsaved filter shows as its own chip ahead of the saved views
+    if (advancedCount > 0 && !filters.viewId) items.push({ type: 'custom', count: advancedCount });
+    pinnedViews.forEach(v => items.push({ type: 'view', id: v.id, name: v.name, color: v.color }));
+    if (items.length > 0) items.push({ type: 'divider' });
     DATE_FILTERS.forEach(f => items.push({ type: 'date', ...f }));
     items.push({ type: 'divider' });
     items.push({ type: 'category', id: null, name: 'All', icon: 'view-grid-outline', color: colors.accent });
@@ -116,7 +309,7 @@ export default function ExpensesScreen() {
       tags.forEach(t => items.push({ type: 'tag', id: t.id, name: t.name, color: t.color }));
     }
     return items;
-  }, [categories, tags, colors]);
+  }, [categories, tags, colors, pinnedViews, advancedCount, filters.viewId]);
 
   const closePreviousSwipeable = useCallback((currentId: string) => {
     if (openSwipeableId.current && openSwipeableId.current !== currentId) {
@@ -126,56 +319,117 @@ export default function ExpensesScreen() {
     openSwipeableId.current = currentId;
   }, []);
 
-  const renderRightActions = useCallback((id: string) => (
+  const accountNames = useMemo(() => new Map(accounts.map((a) => [a.id, a.name])), [accounts]);
+
+  const renderRightActions = useCallback((id: string, onDelete: (id: string) => void) => (
     <Pressable
       onPress={() => {
         swipeableRefs.current.get(id)?.close();
-        handleDelete(id);
+        onDelete(id);
       }}
       style={styles.swipeDeleteAction}
     >
       <MaterialCommunityIcons name="delete-outline" size={22} color="#FFF" />
       <Text style={styles.swipeDeleteText}>Delete</Text>
     </Pressable>
-  ), [handleDelete, styles]);
+  ), [styles]);
+
+  const renderExpenseItem = useCallback(({ item }: { item: ExpenseWithCategory }) => {
+    const isSelected = selectedIds.has(item.id);
+    // Only worth showing when the match is somewhere other than the title
+    const match = searchMatches?.get(item.id);
+    const snippet = match && match.snippet !== item.description ? match.snippet : null;
+    return (
+      <Animated.View entering={FadeIn.duration(200)}>
+        <Swipeable
+          enabled={!isSelecting}
+          ref={(ref) => {
+            if (ref) swipeableRefs.current.set(item.id, ref);
+            else swipeableRefs.current.delete(item.id);
+          }}
+          renderRightActions={() => renderRightActions(item.id, handleDelete)}
+          onSwipeableWillOpen={() => closePreviousSwipeable(item.id)}
+          overshootRight={false}
+          friction={2}
+        >
+          <Pressable
+            onPress={() => (isSelecting ? toggleSelected(item.id) : router.push(`/expense/${item.id}`))}
+            onLongPress={() => toggleSelected(item.id)}
+            style={[styles.expenseItem, isSelected && styles.expenseItemSelected]}
+          >
+            {isSelecting ? (
+              <MaterialCommunityIcons
+                name={isSelected ? 'checkbox-marked-circle' : 'checkbox-blank-circle-outline'}
+                size={24}
+                color={isSelected ? colors.blue : colors.textLight}
+              />
+            ) : (
+              <CategoryIcon icon={item.category.icon} color={item.category.color} />
+            )}
+            <View style={styles.expenseDetails}>
+              <Text style={styles.expenseDesc} numberOfLines={1}>
+                {item.description || item.category.name}
+              </Text>
+              <View style={styles.expenseMeta}>
+                <Text style={styles.expenseTime}>{format(new Date(item.date), searchMatches ? 'MMM d, yyyy' : 'h:mm a')}</Text>
+                <View style={styles.dot} />
+                <Text style={styles.expensePayment}>{accountNames.get(item.accountId ?? '') ?? 'No account'}</Text>
+              </View>
+              {snippet && (
+                <Text style={styles.snippet} numberOfLines={1}>
+                  {splitSnippet(snippet).map((part, i) => (
+                    <Text key={i} style={part.highlighted ? styles.snippetMatch : undefined}>{part.text}</Text>
+                  ))}
+                </Text>
+              )}
+            </View>
+            <View style={styles.amountCol}>
+              <Text style={styles.expenseAmount}>-{formatAmount(item.amount)}</Text>
+              {item.isRecurring === 1 && (
+                <MaterialCommunityIcons name="repeat" size={12} color={colors.accent} />
+              )}
+              {item.splits.length > 0 && (
+                <MaterialCommunityIcons name="call-split" size={12} color={colors.textSecondary} />
+              )}
+            </View>
+          </Pressable>
+        </Swipeable>
+      </Animated.View>
+    );
+  }, [router, handleDelete, formatAmount, renderRightActions, closePreviousSwipeable, styles, colors, accountNames, selectedIds, isSelecting, toggleSelected, searchMatches]);
 
-  const renderExpenseItem = useCallback(({ item }: { item: ExpenseWithCategory }) => (
+  const renderTransferItem = useCallback((transfer: Transfer) => (
     <Animated.View entering={FadeIn.duration(200)}>
       <Swipeable
+        enabled={!isSelecting}
         ref={(ref) => {
-          if (ref) swipeableRefs.current.set(item.id, ref);
-          else swipeableRefs.current.delete(item.id);
+          if (ref) swipeableRefs.current.set(transfer.id, ref);
+          else swipeableRefs.current.delete(transfer.id);
         }}
-        renderRightActions={() => renderRightActions(item.id)}
-        onSwipeableWillOpen={() => closePreviousSwipeable(item.id)}
+        renderRightActions={() => renderRightActions(transfer.id, handleDeleteTransfer)}
+        onSwipeableWillOpen={() => closePreviousSwipeable(transfer.id)}
         overshootRight={false}
         friction={2}
       >
-        <Pressable
-          onPress={() => router.push(`/expense/${item.id}`)}
-          style={styles.expenseItem}
-        >
-          <CategoryIcon icon={item.category.icon} color={item.category.color} />
+        <View style={[styles.expenseItem, styles.transferItem, isSelecting && styles.transferItemDimmed]}>
+          <CategoryIcon icon="bank-transfer" color={colors.blue} />
           <View style={styles.expenseDetails}>
             <Text style={styles.expenseDesc} numberOfLines={1}>
-              {item.description || item.category.name}
+              {transfer.description || 'Transfer'}
             </Text>
             <View style={styles.expenseMeta}>
-              <Text style={styles.expenseTime}>{format(new Date(item.date), 'h:mm a')}</Text>
+              <Text style={styles.expenseTime}>{format(new Date(transfer.date), 'h:mm a')}</Text>
               <View style={styles.dot} />
-              <Text style={styles.expensePayment}>{item.paymentMethod}</Text>
+              <Text style={styles.expensePayment} numberOfLines={1}>
+                {endpointName(transfer.fromType, transfer.fromId)} → {endpointName(transfer.toType, transfer.toId)}
+              </Text>
             </View>
           </View>
-          <View style={styles.amountCol}>
-            <Text style={styles.expenseAmount}>-{formatAmount(item.amount)}</Text>
-            {item.isRecurring === 1 && (
-              <MaterialCommunityIcons name="repeat" size={12} color={colors.accent} />
-            )}
-          </View>
-        </Pressable>
+          <Text style={styles.transferAmount}>{formatAmount(transfer.amount)}</Text>
+        </View>
       </Swipeable>
     </Animated.View>
-  ), [router, handleDelete, formatAmount, renderRightActions, closePreviousSwipeable, styles, colors]);
+  ), [handleDeleteTransfer, formatAmount, renderRightActions, closePreviousSwipeable, endpointName, styles, colors, isSelecting]);
 
   const renderSectionHeader = useCallback((title: string) => (
     <View style={styles.sectionHeader}>
@@ -184,7 +438,7 @@ export default function ExpensesScreen() {
   ), [styles]);
 
   const flatData = useMemo(() => {
-    const items: (ExpenseWithCategory | { type: 'header'; title: string })[] = [];
+    const items: (ListRow | { type: 'header'; title: string })[] = [];
     groupedExpenses.forEach((group) => {
       items.push({ type: 'header', title: group.title } as any);
       items.push(...group.data);
@@ -195,32 +449,79 @@ export default function ExpensesScreen() {
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {/* Header */}
-      <View style={styles.header}>
-        <Text style={styles.screenTitle}>Expenses</Text>
-        <Text style={styles.totalText}>{formatAmount(totalFiltered)}</Text>
-      </View>
+      {isSelecting ? (
+        <View style={styles.header}>
+          <Pressable onPress={clearSelection} hitSlop={8} style={styles.selectionCancel}>
+            <MaterialCommunityIcons name="close" size={22} color={colors.text} />
+            <Text style={styles.selectionCount}>{selectedIds.size} selected</Text>
+          </Pressable>
+          {selectedIds.size < list.count && (
+            <Pressable onPress={selectAllFiltered} hitSlop={8}>
+              <Text style={styles.selectAllText}>Select all ({list.count})</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <Text style={styles.screenTitle}>Expenses</Text>
+          <Text style={styles.totalText}>{formatAmount(list.total)}</Text>
+        </View>
+      )}
 
       {/* Search */}
       <View style={styles.searchContainer}>
         <NeuInput
-          placeholder="Search expenses..."
+          placeholder="Search notes, tags, categories..."
           value={filters.searchQuery}
           onChangeText={(text) => setFilter('searchQuery', text)}
           icon={<MaterialCommunityIcons name="magnify" size={18} color={colors.textSecondary} />}
-          containerStyle={{ marginBottom: spacing.sm }}
+          containerStyle={{ marginBottom: spacing.sm, flex: 1 }}
         />
+        <Pressable
+          onPress={() => router.push(filters.viewId ? { pathname: '/filters', params: { viewId: filters.viewId } } : '/filters')}
+          style={[styles.filterButton, advancedCount > 0 && styles.filterButtonActive]}
+        >
+          <MaterialCommunityIcons name="tune-variant" size={20} color={colors.text} />
+          {advancedCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{advancedCount}</Text>
+            </View>
+          )}
+        </Pressable>
       </View>
 
       {/* Filters */}
       <FlatList
         horizontal
         data={filterItems}
-        keyExtractor={(item, i) => item.type === 'divider' ? `divider-${i}` : item.type === 'date' ? item.value : item.type === 'tag' ? `tag-${item.id || 'all'}` : (item.id || 'all')}
+        keyExtractor={(item, i) => item.type === 'view' ? `view-${item.id}` : item.type === 'custom' ? 'custom' : item.type === 'divider' ? `divider-${i}` : item.type === 'date' ? item.value : item.type === 'tag' ? `tag-${item.id || 'all'}` : (item.id || 'all')}
         showsHorizontalScrollIndicator={false}
         style={styles.filterList}
         contentContainerStyle={styles.filterListContent}
         renderItem={({ item }) => {
           if (item.type === 'divider') return <View style={styles.filterDivider} />;
+          if (item.type === 'custom') return (
+            <NeuChip
+              label={`${item.count} filter${item.count === 1 ? '' : 's'} ×`}
+              icon={<MaterialCommunityIcons name="filter-variant" size={14} color={colors.text} />}
+              selected
+              onPress={() => applyView(null)}
+              color={colors.blue}
+              size="sm"
+            />
+          );
+          if (item.type === 'view') return (
+            <Pressable onLongPress={() => router.push({ pathname: '/filters', params: { viewId: item.id } })}>
+              <NeuChip
+                label={item.name}
+                icon={<MaterialCommunityIcons name="filter-variant" size={14} color={filters.viewId === item.id ? colors.text : item.color} />}
+                selected={filters.viewId === item.id}
+                onPress={() => handleViewPress(item.id)}
+                color={item.color}
+                size="sm"
+              />
+            </Pressable>
+          );
           if (item.type === 'date') return (
             <NeuChip
               label={item.label}
@@ -233,9 +534,9 @@ export default function ExpensesScreen() {
           if (item.type === 'tag') return (
             <NeuChip
               label={item.name}
-              icon={<MaterialCommunityIcons name="tag-outline" size={14} color={selectedTagFilter === item.id ? colors.text : item.color} />}
-              selected={selectedTagFilter === item.id}
-              onPress={() => setSelectedTagFilter(item.id)}
+              icon={<MaterialCommunityIcons name="tag-outline" size={14} color={filters.tagId === item.id ? colors.text : item.color} />}
+              selected={filters.tagId === item.id}
+              onPress={() => setFilter('tagId', item.id)}
               color={item.color}
               size="sm"
             />
@@ -257,14 +558,17 @@ export default function ExpensesScreen() {
       {flatData.length > 0 ? (
         <FlatList
           data={flatData}
-          keyExtractor={(item: any) => item.type === 'header' ? `header-${item.title}` : item.id}
+          keyExtractor={(item: any) => item.type === 'header' ? `header-${item.title}` : item.type === 'transfer' ? `transfer-${item.id}` : item.id}
           renderItem={({ item }: { item: any }) => {
             if (item.type === 'header') return renderSectionHeader(item.title);
+            if (item.type === 'transfer') return renderTransferItem(item.transfer);
             return renderExpenseItem({ item });
           }}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
           ItemSeparatorComponent={ListSeparator}
+          onEndReached={loadMoreList}
+          onEndReachedThreshold={0.5}
           initialNumToRender={15}
           maxToRenderPerBatch={10}
           windowSize={10}
@@ -280,9 +584,139 @@ export default function ExpensesScreen() {
         />
       )}
 
-      {!isPremium && (
+      {isSelecting ? (
+        <View style={styles.bulkBar}>
+          {([
+            { key: 'category', icon: 'shape-outline', label: 'Category' },
+            { key: 'tags', icon: 'tag-multiple-outline', label: 'Tags' },
+            { key: 'account', icon: 'wallet-outline', label: 'Account' },
+            { key: 'date', icon: 'calendar-arrow-right', label: 'Date' },
+          ] as const).map((action) => (
+            <Pressable key={action.key} onPress={() => openBulkSheet(action.key)} style={styles.bulkAction}>
+              <MaterialCommunityIcons name={action.icon} size={20} color={colors.text} />
+              <Text style={styles.bulkActionText}>{action.label}</Text>
+            </Pressable>
+          ))}
+          <Pressable onPress={handleBulkDelete} style={styles.bulkAction}>
+            <MaterialCommunityIcons name="delete-outline" size={20} color={colors.error} />
+            <Text style={[styles.bulkActionText, { color: colors.error }]}>Delete</Text>
+          </Pressable>
+        </View>
+      ) : !isPremium && (
         <AdBanner style={styles.adBanner} />
       )}
+
+      <Modal visible={bulkSheet !== null} transparent animationType="slide" onRequestClose={() => setBulkSheet(null)}>
+        <Pressable style={styles.sheetOverlay} onPress={() => setBulkSheet(null)}>
+          <Pressable style={[styles.sheet, { paddingBottom: insets.bottom + spacing.lg }]} onPress={() => {}}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>
+                {bulkSheet === 'category' && 'Set Category'}
+                {bulkSheet === 'tags' && 'Edit Tags'}
+                {bulkSheet === 'account' && 'Set Account'}
+                {bulkSheet === 'date' && 'Shift Dates'}
+              </Text>
+              <Pressable onPress={() => setBulkSheet(null)} hitSlop={8}>
+                <MaterialCommunityIcons name="close" size={22} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+
+            {bulkSheet === 'category' && (
+              <ScrollView style={styles.sheetScroll} contentContainerStyle={styles.sheetChips}>
+                {categories.map((cat) => (
+                  <NeuChip
+                    key={cat.id}
+                    label={cat.parentId ? `↳ ${cat.name}` : cat.name}
+                    icon={<MaterialCommunityIcons name={cat.icon as any} size={14} color={cat.color} />}
+                    onPress={() => applyBulkChanges({ categoryId: cat.id })}
+                    color={cat.color}
+                    size="sm"
+                  />
+                ))}
+                <Text style={styles.sheetHint}>Split expenses are booked wholly to the chosen category.</Text>
+              </ScrollView>
+            )}
+
+            {bulkSheet === 'tags' && (
+              <>
+                {tags.length === 0 ? (
+                  <Text style={styles.sheetHint}>No tags yet. Create tags from an expense first.</Text>
+                ) : (
+                  <>
+                    <Text style={styles.sheetHint}>Tap once to add a tag, twice to remove it.</Text>
+                    <ScrollView style={styles.sheetScroll} contentContainerStyle={styles.sheetChips}>
+                      {tags.map((tag) => {
+                        const action = tagActions.get(tag.id);
+                        return (
+                          <NeuChip
+                            key={tag.id}
+                            label={action === 'add' ? `+ ${tag.name}` : action === 'remove' ? `− ${tag.name}` : tag.name}
+                            icon={<MaterialCommunityIcons name="tag-outline" size={14} color={action === 'remove' ? colors.error : tag.color} />}
+                            selected={action !== undefined}
+                            onPress={() => cycleTagAction(tag.id)}
+                            color={action === 'remove' ? colors.error : tag.color}
+                            size="sm"
+                          />
+                        );
+                      })}
+                    </ScrollView>
+                  </>
+                )}
+                <NeuButton title="Apply" onPress={handleApplyTags} fullWidth disabled={tagActions.size === 0} />
+              </>
+            )}
+
+            {bulkSheet === 'account' && (
+              <ScrollView style={styles.sheetScroll} contentContainerStyle={styles.sheetChips}>
+                {accounts.map((account) => (
+                  <NeuChip
+                    key={account.id}
+                    label={account.name}
+                    icon={<MaterialCommunityIcons name={account.icon as any} size={14} color={account.color} />}
+                    onPress={() => applyBulkChanges({ accountId: account.id })}
+                    color={account.color}
+                    size="sm"
+                  />
+                ))}
+                <NeuChip
+                  label="No account"
+                  icon={<MaterialCommunityIcons name="wallet-outline" size={14} color={colors.textSecondary} />}
+                  onPress={() => applyBulkChanges({ accountId: null })}
+                  color={colors.textSecondary}
+                  size="sm"
+                />
+              </ScrollView>
+            )}
+
+            {bulkSheet === 'date' && (
+              <>
+                <View style={styles.sheetChips}>
+                  {DATE_SHIFTS.map((days) => (
+                    <NeuChip
+                      key={days}
+                      label={`${days > 0 ? '+' : '−'}${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`}
+                      onPress={() => handleShiftDates(days)}
+                      color={colors.blue}
+                      size="sm"
+                    />
+                  ))}
+                </View>
+                <View style={styles.customShiftRow}>
+                  <TextInput
+                    style={styles.customShiftInput}
+                    value={customShift}
+                    onChangeText={setCustomShift}
+                    placeholder="Days, e.g. -3"
+                    placeholderTextColor={colors.textLight}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                  <NeuButton title="Shift" size="sm" onPress={() => handleShiftDates(Number(customShift))} disabled={!customShift.trim()} />
+                </View>
+              </>
+            )}
+          </Pressable>
+        </Pressable>
+      </Modal>
     </View>
   );
 }
@@ -292,7 +726,17 @@ const createStyles = (colors: ThemeColors, borders: ThemeBorders, typography: Th
   header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingHorizontal: spacing.xl, marginTop: spacing.md, marginBottom: spacing.md },
   screenTitle: { ...typography.h1 },
   totalText: { ...typography.h3, color: colors.secondary },
-  searchContainer: { paddingHorizontal: spacing.xl },
+  searchContainer: { paddingHorizontal: spacing.xl, flexDirection: 'row', alignItems: 'flex-start', gap: spacing.sm },
+  filterButton: {
+    width: 48, height: 48, alignItems: 'center', justifyContent: 'center', backgroundColor: colors.surface,
+    borderWidth: borders.medium, borderColor: borders.color, borderRadius: borderRadius.md,
+  },
+  filterButtonActive: { backgroundColor: colors.cardTintBlue },
+  filterBadge: {
+    position: 'absolute', top: -6, right: -6, minWidth: 18, height: 18, borderRadius: 9, paddingHorizontal: 4,
+    backgroundColor: colors.blue, alignItems: 'center', justifyContent: 'center',
+  },
+  filterBadgeText: { fontSize: 10, fontWeight: '700', color: '#FFF', fontFamily: 'SpaceMono_700Bold' },
   filterList: { flexGrow: 0, height: 44, marginBottom: spacing.sm },
   filterListContent: { paddingHorizontal: spacing.xl, gap: spacing.md, alignItems: 'center' },
   filterDivider: { width: 1.5, height: 24, backgroundColor: colors.border + '20', marginHorizontal: spacing.xs },
@@ -308,10 +752,41 @@ const createStyles = (colors: ThemeColors, borders: ThemeBorders, typography: Th
   expenseDesc: { ...typography.body, fontWeight: '600' },
   expenseMeta: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 2 },
   expenseTime: { ...typography.caption },
+  snippet: { ...typography.caption, marginTop: 2 },
+  snippetMatch: { color: colors.text, fontWeight: '700', backgroundColor: colors.accent + '40' },
   dot: { width: 3, height: 3, borderRadius: 2, backgroundColor: colors.textLight },
-  expensePayment: { ...typography.caption, textTransform: 'capitalize' },
+  expensePayment: { ...typography.caption },
   amountCol: { alignItems: 'flex-end', gap: 2 },
   expenseAmount: { ...typography.body, fontWeight: '800', color: colors.secondary },
+  transferItem: { borderStyle: 'dashed', borderColor: colors.blue + '60', backgroundColor: colors.cardTintBlue },
+  transferAmount: { ...typography.body, fontWeight: '800', color: colors.blue },
+  transferItemDimmed: { opacity: 0.4 },
+  expenseItemSelected: { borderColor: colors.blue, backgroundColor: colors.cardTintBlue },
+  selectionCancel: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+  selectionCount: { ...typography.h3 },
+  selectAllText: { ...typography.label, color: colors.blue },
+  bulkBar: {
+    flexDirection: 'row', justifyContent: 'space-around', backgroundColor: colors.surface,
+    borderWidth: borders.medium, borderColor: borders.color, borderRadius: borderRadius.md,
+    marginHorizontal: spacing.xl, marginBottom: spacing.sm, paddingVertical: spacing.sm,
+  },
+  bulkAction: { alignItems: 'center', gap: 2, paddingHorizontal: spacing.xs },
+  bulkActionText: { fontSize: 10, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+  sheetOverlay: { flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.4)' },
+  sheet: {
+    backgroundColor: colors.surface, borderTopLeftRadius: 20, borderTopRightRadius: 20,
+    paddingHorizontal: spacing.xl, paddingTop: spacing.lg, gap: spacing.md, maxHeight: '70%',
+  },
+  sheetHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sheetTitle: { ...typography.h3 },
+  sheetScroll: { flexGrow: 0 },
+  sheetChips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
+  sheetHint: { ...typography.caption, width: '100%' },
+  customShiftRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+  customShiftInput: {
+    flex: 1, paddingHorizontal: spacing.md, paddingVertical: spacing.sm, fontSize: 14, color: colors.text,
+    borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, fontFamily: 'SpaceMono_400Regular',
+  },
   swipeDeleteAction: {
     backgroundColor: colors.secondary,
     justifyContent: 'center',
@@ -3,7 +3,7 @@ import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { format, subMonths } from 'date-fns';
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
 import { MotiView } from 'moti';
 import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useIncomeStore } from '@/stores/useIncomeStore';
@@ -22,6 +22,7 @@ import CategoryIcon from '@/components/CategoryIcon';
 import { AdBanner } from '@/services/ads';
 import { generateInsights } from '@/services/insights';
 import { ACHIEVEMENTS } from '@/services/achievements';
+import { getCategoryTotals } from '@/services/expenseQueries';
 import { spacing, borderRadius } from '@/lib/theme';
 import { useTheme } from '@/lib/ThemeContext';
 import type { ThemeColors, ThemeBorders, ThemeTypography } from '@/lib/theme';
@@ -53,7 +54,9 @@ export default function DashboardScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const expenses = useExpenseStore((s) => s.expenses);
+  const revision = useExpenseStore((s) => s.revision);
   const getMonthlyTotal = useExpenseStore((s) => s.getMonthlyTotal);
+  const getExpenseCount = useExpenseStore((s) => s.getExpenseCount);
   const getOverallBudgetProgress = useBudgetStore((s) => s.getOverallBudgetProgress);
   const getBudgetsWithProgress = useBudgetStore((s) => s.getBudgetsWithProgress);
   const budgets = useBudgetStore((s) => s.budgets);
@@ -77,13 +80,14 @@ export default function DashboardScreen() {
   const getMonthlyIncomeTotal = useIncomeStore((s) => s.getMonthlyTotal);
   const getMonthlyCount = useIncomeStore((s) => s.getMonthlyCount);
 
-  const currentMonthTotal = useMemo(() => getMonthlyTotal(), [expenses]);
-  const lastMonthTotal = useMemo(() => getMonthlyTotal(subMonths(new Date(), 1)), [expenses]);
+  const currentMonthTotal = useMemo(() => getMonthlyTotal(), [revision]);
+  const lastMonthTotal = useMemo(() => getMonthlyTotal(subMonths(new Date(), 1)), [revision]);
+  const expenseCount = useMemo(() => getExpenseCount(), [revision]);
   const currentMonthIncome = useMemo(() => getMonthlyIncomeTotal(), [incomes]);
   const lastMonthIncome = useMemo(() => getMonthlyIncomeTotal(subMonths(new Date(), 1)), [incomes]);
   const monthlyIncomeCount = useMemo(() => getMonthlyCount(), [incomes]);
   const netBalance = useMemo(() => currentMonthIncome - currentMonthTotal, [currentMonthIncome, currentMonthTotal]);
-  const budgetProgress = useMemo(() => getOverallBudgetProgress(), [expenses]);
+  const budgetProgress = useMemo(() => getOverallBudgetProgress(), [revision, budgets]);
   const percentChange = useMemo(() => {
     if (lastMonthTotal === 0) return 0;
     return ((currentMonthTotal - lastMonthTotal) / lastMonthTotal) * 100;
@@ -91,10 +95,10 @@ export default function DashboardScreen() {
   const recentExpenses = useMemo(() => expenses.slice(0, 5), [expenses]);
   const activeGoals = useMemo(() => goals.filter((g) => g.currentAmount < g.targetAmount).slice(0, 2), [goals]);
 
-  const budgetsWithProgress = useMemo(() => getBudgetsWithProgress(), [expenses, budgets]);
+  const budgetsWithProgress = useMemo(() => getBudgetsWithProgress(), [revision, budgets]);
   const insights = useMemo(() => generateInsights(
-    expenses, budgetsWithProgress, currentMonthIncome, lastMonthIncome, streak?.currentStreak ?? 0, expenses.length, currencySymbol,
-  ), [expenses, budgetsWithProgress, currentMonthIncome, lastMonthIncome, streak, currencySymbol]);
+    budgetsWithProgress, currentMonthIncome, lastMonthIncome, streak?.currentStreak ?? 0, expenseCount, currencySymbol, categories,
+  ), [revision, budgetsWithProgress, currentMonthIncome, lastMonthIncome, streak, expenseCount, currencySymbol, categories]);
 
   const recurringExpenses = useMemo(() => expenses.filter((e) => e.isRecurring === 1), [expenses]);
   const monthlyRecurringCost = useMemo(() => {
@@ -115,12 +119,8 @@ export default function DashboardScreen() {
   const earnedCount = useMemo(() => Object.keys(earnedAchievements).length, [earnedAchievements]);
 
   const categoryBreakdown = useMemo((): SpendingByCategory[] => {
-    const spendingMap = new Map<string, number>();
     const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
-    expenses
-      .filter((e) => e.date >= monthStart)
-      .forEach((e) => { spendingMap.set(e.categoryId, (spendingMap.get(e.categoryId) || 0) + e.amount); });
+    const spendingMap = getCategoryTotals(startOfMonth(now).getTime(), endOfMonth(now).getTime());
     const categoryMap = new Map(categories.map((c) => [c.id, c]));
     return Array.from(spendingMap.entries())
       .map(([catId, total]) => {
@@ -132,7 +132,7 @@ export default function DashboardScreen() {
         };
       })
       .sort((a, b) => b.total - a.total).slice(0, 5);
-  }, [expenses, categories, currentMonthTotal]);
+  }, [revision, categories, currentMonthTotal]);
 
   const handleExpensePress = useCallback((id: string) => {
     router.push(`/expense/${id}`);
@@ -322,7 +322,7 @@ export default function DashboardScreen() {
       <MotiView from={{ opacity: 0, translateY: 20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 500, delay: 400 }}>
         <View style={styles.sectionHeaderRow}>
           <Text style={styles.sectionTitle}>Recent Transactions</Text>
-          {expenses.length > 0 && (
+          {expenseCount > 0 && (
             <Pressable onPress={() => router.push('/(tabs)/expenses')}><Text style={styles.seeAll}>See All</Text></Pressable>
           )}
         </View>
@@ -6,9 +6,17 @@ import { useTheme } from '@/lib/ThemeContext';
 import { requestNotificationPermissions, scheduleBudgetAlerts, scheduleRecurringReminders, cancelAllNotifications, scheduleDailyReminder, cancelDailyReminder, scheduleDailySummary, cancelDailySummary } from '@/services/notifications';
 import { useIncomeStore } from '@/stores/useIncomeStore';
 import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useTransferStore } from '@/stores/useTransferStore';
 import { useDebtStore } from '@/stores/useDebtStore';
 import { useTagStore } from '@/stores/useTagStore';
 import { useTemplateStore } from '@/stores/useTemplateStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { useImportBatchStore } from '@/stores/useImportBatchStore';
+import { useTrashStore } from '@/stores/useTrashStore';
+import { useUndoStore } from '@/stores/useUndoStore';
 import { useGamificationStore } from '@/stores/useGamificationStore';
 import { useBudgetStore } from '@/stores/useBudgetStore';
 import { useCategoryStore } from '@/stores/useCategoryStore';
@@ -49,7 +57,8 @@ export default function SettingsScreen() {
     currency, currencySymbol, notificationsEnabled, budgetAlerts, dailyReminderEnabled, dailySummaryEnabled, theme, gamificationEnabled, updateSetting,
   } = useSettingsStore();
   const { isPremium } = useSubscriptionStore();
-  const { expenses, clearAllExpenses } = useExpenseStore();
+  const { revision, getExpenseCount, clearAllExpenses } = useExpenseStore();
+  const expenseCount = useMemo(() => getExpenseCount(), [revision, getExpenseCount]);
   const { resetCategories } = useCategoryStore();
   const { clearAllBudgets } = useBudgetStore();
   const { showConfirm, showSuccess } = useDialog();
@@ -60,23 +69,61 @@ export default function SettingsScreen() {
   const handleClearData = () => {
     showConfirm({
       title: 'Clear All Data',
-      message: 'This will permanently delete all your expenses, income, savings goals, categories, budgets, debts, tags, and templates. This action cannot be undone.',
+      message: 'This will delete all your expenses, income, savings goals, categories, budgets, debts, tags, templates, and saved views. The trash is emptied too. This cannot be undone.',
       confirmLabel: 'Clear All',
       onConfirm: () => {
         clearAllExpenses();
+        // Trashed expenses and undo entries refer to the categories and tags
+        // about to be replaced
+        useTrashStore.getState().emptyTrash();
+        useUndoStore.getState().clearHistory();
         clearAllBudgets();
         resetCategories();
         useDebtStore.getState().clearAllDebts();
         useTagStore.getState().clearAllTags();
         useTemplateStore.getState().clearAllTemplates();
+        useSavedViewStore.getState().clearAllViews();
+        useRuleStore.getState().clearAllRules();
+        useImportBatchStore.getState().clearAllBatches();
         useIncomeStore.getState().clearAllIncome();
         useSavingsGoalStore.getState().clearAllGoals();
+        useExchangeRateStore.getState().clearAllRates();
+        useTransferStore.getState().clearAllTransfers();
+        useAccountStore.getState().resetAccounts();
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
         showSuccess('Data Cleared', 'All data has been removed.');
       },
     });
   };
 
+  // Stored amounts are in the home currency and rates are quoted against it,
+  // so neither means the same after a switch. Amounts are left as they are,
+  // with a warning; rates are dropped so they have to be entered again.
+  const handleCurrencyChange = (c: { code: string; symbol: string }) => {
+    setShowCurrencyPicker(false);
+    if (c.code === currency) return;
+    const apply = () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      useExchangeRateStore.getState().clearAllRates();
+      updateSetting('currency', c.code);
+      updateSetting('currencySymbol', c.symbol);
+    };
+    const rateCount = useExchangeRateStore.getState().rates.length;
+    if (expenseCount === 0 && rateCount === 0) {
+      apply();
+      return;
+    }
+    const rateNote = rateCount > 0
+      ? ` Your ${rateCount} exchange rate${rateCount === 1 ? ' is' : 's are'} quoted in ${currency} and will be removed; enter ${rateCount === 1 ? 'it' : 'them'} again against ${c.code} and foreign-currency transactions are converted again.`
+      : '';
+    showConfirm({
+      title: 'Change Currency',
+      message: `Amounts you have already recorded are not converted: ${currencySymbol}10 will show as ${c.symbol}10.${rateNote}`,
+      confirmLabel: 'Change',
+      onConfirm: apply,
+    });
+  };
+
   return (
     <ScrollView style={[styles.container, { paddingTop: insets.top }]} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
       <Text style={styles.screenTitle}>Settings</Text>
@@ -140,12 +187,7 @@ export default function SettingsScreen() {
               {CURRENCIES.map((c) => (
                 <Pressable
                   key={c.code}
-                  onPress={() => {
-                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                    updateSetting('currency', c.code);
-                    updateSetting('currencySymbol', c.symbol);
-                    setShowCurrencyPicker(false);
-                  }}
+                  onPress={() => handleCurrencyChange(c)}
                   style={[styles.currencyItem, currency === c.code && styles.currencyItemSelected]}
                 >
                   <Text style={styles.currencySymbol}>{c.symbol}</Text>
@@ -158,6 +200,12 @@ export default function SettingsScreen() {
           <View style={styles.divider} />
           <SettingsRow icon="folder-outline" label="Categories" onPress={() => router.push('/category')} color={colors.purple} colors={colors} styles={styles} />
           <View style={styles.divider} />
+          <SettingsRow icon="auto-fix" label="Categorization Rules" onPress={() => router.push('/rules')} color={colors.purple} colors={colors} styles={styles} />
+          <View style={styles.divider} />
+          <SettingsRow icon="wallet-outline" label="Accounts" onPress={() => router.push('/accounts')} color={colors.blue} colors={colors} styles={styles} />
+          <View style={styles.divider} />
+          <SettingsRow icon="swap-horizontal" label="Exchange Rates" onPress={() => router.push('/currency')} color={colors.accent} colors={colors} styles={styles} />
+          <View style={styles.divider} />
           <SettingsRow icon="flag-outline" label="Budgets" onPress={() => {
             if (!isPremium) { router.push('/paywall'); return; }
             router.push('/budget');
@@ -256,7 +304,7 @@ export default function SettingsScreen() {
           <SettingsRow
             icon="export-variant"
             label="Export Data"
-            value={`${expenses.length} expenses`}
+            value={`${expenseCount} expenses`}
             onPress={() => {
               if (!isPremium) { router.push('/paywall'); return; }
               router.push('/export');
@@ -268,7 +316,7 @@ export default function SettingsScreen() {
           <View style={styles.divider} />
           <SettingsRow
             icon="file-import-outline"
-            label="Import CSV"
+            label="Import Transactions"
             onPress={() => {
               if (!isPremium) { router.push('/paywall'); return; }
               router.push('/import');
@@ -290,6 +338,10 @@ export default function SettingsScreen() {
             styles={styles}
           />
           <View style={styles.divider} />
+          <SettingsRow icon="delete-restore" label="Trash" onPress={() => router.push('/trash')} color={colors.orange} colors={colors} styles={styles} />
+          <View style={styles.divider} />
+          <SettingsRow icon="harddisk" label="Storage" onPress={() => router.push('/storage')} color={colors.blue} colors={colors} styles={styles} />
+          <View style={styles.divider} />
           <SettingsRow
             icon="delete-outline"
             label="Clear All Data"
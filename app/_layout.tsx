@@ -23,8 +23,17 @@ import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
 import { useDebtStore } from '@/stores/useDebtStore';
 import { useTagStore } from '@/stores/useTagStore';
 import { useTemplateStore } from '@/stores/useTemplateStore';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useTrashStore } from '@/stores/useTrashStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import { useImportProfileStore } from '@/stores/useImportProfileStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { useImportBatchStore } from '@/stores/useImportBatchStore';
 import AnimatedSplash from '@/components/AnimatedSplash';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import UndoSnackbar from '@/components/UndoSnackbar';
 import { DialogProvider } from '@/contexts/DialogContext';
 import { ThemeProvider, useTheme } from '@/lib/ThemeContext';
 
@@ -74,6 +83,12 @@ function RootLayoutInner() {
         <Stack.Screen name="subscriptions/index" />
         <Stack.Screen name="debts/index" />
         <Stack.Screen name="achievements/index" />
+        <Stack.Screen name="currency/index" />
+        <Stack.Screen name="accounts/index" />
+        <Stack.Screen name="transfer/index" />
+        <Stack.Screen name="trash/index" />
+        <Stack.Screen name="storage/index" />
+        <Stack.Screen name="rules/index" />
         <Stack.Screen
           name="backup/index"
           options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
@@ -86,7 +101,12 @@ function RootLayoutInner() {
           name="report/index"
           options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
         />
+        <Stack.Screen
+          name="filters/index"
+          options={{ presentation: 'modal', animation: 'slide_from_bottom' }}
+        />
       </Stack>
+      <UndoSnackbar />
     </>
   );
 }
@@ -112,6 +132,9 @@ export default function RootLayout() {
         initializeDatabase();
         await useSettingsStore.getState().loadSettings();
         useCategoryStore.getState().loadCategories();
+        useExchangeRateStore.getState().loadRates();
+        useAccountStore.getState().loadAccounts();
+        useTransferStore.getState().loadTransfers();
         useExpenseStore.getState().loadExpenses();
         const generated = processRecurringExpenses();
         if (generated > 0) useExpenseStore.getState().loadExpenses();
@@ -121,6 +144,11 @@ export default function RootLayout() {
         useDebtStore.getState().loadDebts();
         useTagStore.getState().loadTags();
         useTemplateStore.getState().loadTemplates();
+        useSavedViewStore.getState().loadViews();
+        useImportProfileStore.getState().loadProfiles();
+        useRuleStore.getState().loadRules();
+        useImportBatchStore.getState().loadBatches();
+        useTrashStore.getState().purgeExpired();
         await useGamificationStore.getState().loadGamification();
         useGamificationStore.getState().checkStreakOnAppOpen();
       } catch (error) {
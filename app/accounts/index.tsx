@@ -0,0 +1,291 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, Pressable, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+import { useDialog } from '@/contexts/DialogContext';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { NeuCard, NeuButton, NeuIconButton } from '@/components/ui';
+import CategoryIcon from '@/components/CategoryIcon';
+import { sumMoney } from '@/lib/money';
+import { spacing, borderRadius, ACCOUNT_TYPES, ACCOUNT_COLORS } from '@/lib/theme';
+import { useTheme } from '@/lib/ThemeContext';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import type { Account, AccountType } from '@/types';
+
+export default function AccountsScreen() {
+  const { colors, typography } = useTheme();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { accounts, addAccount, updateAccount, deleteAccount, getBalances } = useAccountStore();
+  const expenses = useExpenseStore((s) => s.expenses);
+  const incomes = useIncomeStore((s) => s.incomes);
+  const transfers = useTransferStore((s) => s.transfers);
+  const { rates } = useExchangeRateStore();
+  const { formatAmount, currency: homeCurrency, defaultAccountId, updateSetting } = useSettingsStore();
+  const { showError, showConfirm } = useDialog();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('cash');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [color, setColor] = useState<string>(ACCOUNT_COLORS[0]);
+
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  // Recomputed whenever transactions change so balances stay current
+  const balances = useMemo(() => getBalances(), [accounts, expenses, incomes, transfers, getBalances]);
+  const netWorth = useMemo(() => sumMoney(Object.values(balances), (b) => b), [balances]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setType('cash');
+    setOpeningBalance('');
+    setCurrency(null);
+    setColor(ACCOUNT_COLORS[0]);
+    setShowForm(false);
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingId(account.id);
+    setName(account.name);
+    setType(account.type);
+    setOpeningBalance(account.openingBalance ? String(account.openingBalance) : '');
+    setCurrency(account.currency);
+    setColor(account.color);
+    setShowForm(true);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      showError('Error', 'Please enter an account name.');
+      return;
+    }
+    const opening = openingBalance.trim() ? parseFloat(openingBalance) : 0;
+    if (isNaN(opening)) {
+      showError('Invalid Balance', 'Please enter a valid opening balance.');
+      return;
+    }
+    const icon = ACCOUNT_TYPES.find((t) => t.id === type)?.icon ?? 'wallet-outline';
+    const data = { name: name.trim(), type, openingBalance: opening, currency, icon, color };
+    if (editingId) {
+      updateAccount(editingId, data);
+    } else {
+      addAccount(data);
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    resetForm();
+  };
+
+  const handleDelete = (account: Account) => {
+    showConfirm({
+      title: 'Delete Account',
+      message: `Delete "${account.name}"? Its transactions are kept but will no longer belong to an account.`,
+      onConfirm: () => {
+        try {
+          deleteAccount(account.id);
+        } catch (e) {
+          showError('Cannot Delete Account', e instanceof Error ? e.message : 'This account could not be deleted.');
+          return;
+        }
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        if (defaultAccountId === account.id) updateSetting('defaultAccountId', null);
+      },
+    });
+  };
+
+  const currencyOptions = [homeCurrency, ...rates.map((r) => r.currency)];
+
+  return (
+    <ScrollView style={[styles.container, { paddingTop: insets.top }]} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>Accounts</Text>
+        <NeuIconButton icon="bank-transfer" onPress={() => router.push('/transfer')} />
+        <NeuIconButton
+          icon="plus"
+          onPress={() => (showForm ? resetForm() : setShowForm(true))}
+          bgColor={colors.primary}
+          color={colors.onPrimary}
+        />
+      </View>
+
+      <NeuCard color={colors.cardTintBlue} style={styles.totalCard}>
+        <Text style={styles.totalLabel}>Total Balance</Text>
+        <Text style={styles.totalAmount}>{formatAmount(netWorth)}</Text>
+      </NeuCard>
+
+      {/* Add / Edit Account Form */}
+      {showForm && (
+        <MotiView from={{ opacity: 0, translateY: -20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 300 }}>
+          <NeuCard color={colors.cardTintCream} style={styles.addCard}>
+            <Text style={styles.addTitle}>{editingId ? 'Edit Account' : 'New Account'}</Text>
+            <TextInput
+              style={[styles.input, { marginBottom: spacing.md }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="Account name"
+              placeholderTextColor={colors.textLight}
+              autoFocus
+            />
+
+            <Text style={styles.pickerLabel}>Type</Text>
+            <View style={styles.chipRow}>
+              {ACCOUNT_TYPES.map((t) => (
+                <Pressable
+                  key={t.id}
+                  onPress={() => setType(t.id)}
+                  style={[styles.chip, type === t.id && styles.chipSelected]}
+                >
+                  <MaterialCommunityIcons name={t.icon as any} size={14} color={type === t.id ? colors.text : colors.textSecondary} />
+                  <Text style={[styles.chipText, type === t.id && styles.chipTextSelected]}>{t.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={styles.pickerLabel}>Opening Balance ({homeCurrency})</Text>
+            <TextInput
+              style={[styles.input, { marginBottom: spacing.md }]}
+              value={openingBalance}
+              onChangeText={setOpeningBalance}
+              placeholder="0.00"
+              placeholderTextColor={colors.textLight}
+              keyboardType="numbers-and-punctuation"
+            />
+
+            {currencyOptions.length > 1 && (
+              <>
+                <Text style={styles.pickerLabel}>Default Currency</Text>
+                <View style={styles.chipRow}>
+                  {currencyOptions.map((code) => {
+                    const selected = (currency ?? homeCurrency) === code;
+                    return (
+                      <Pressable
+                        key={code}
+                        onPress={() => setCurrency(code === homeCurrency ? null : code)}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{code}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.pickerLabel}>Color</Text>
+            <View style={styles.colorGrid}>
+              {ACCOUNT_COLORS.map((c) => (
+                <Pressable
+                  key={c}
+                  onPress={() => setColor(c)}
+                  style={[styles.colorItem, { backgroundColor: c }, color === c && styles.colorSelected]}
+                />
+              ))}
+            </View>
+
+            <View style={styles.addActions}>
+              <NeuButton title="Cancel" onPress={resetForm} variant="outline" size="sm" />
+              <NeuButton title={editingId ? 'Save' : 'Add Account'} onPress={handleSave} variant="primary" size="sm" />
+            </View>
+          </NeuCard>
+        </MotiView>
+      )}
+
+      {/* Account List */}
+      {accounts.map((account, index) => {
+        const balance = balances[account.id] ?? account.openingBalance;
+        const isDefault = defaultAccountId === account.id;
+        return (
+          <MotiView
+            key={account.id}
+            from={{ opacity: 0, translateX: -20 }}
+            animate={{ opacity: 1, translateX: 0 }}
+            transition={{ type: 'timing', duration: 300, delay: index * 50 }}
+          >
+            <NeuCard style={styles.accountCard}>
+              <Pressable style={styles.accountRow} onPress={() => handleEdit(account)}>
+                <CategoryIcon icon={account.icon} color={account.color} size={22} containerSize={44} />
+                <View style={styles.accountInfo}>
+                  <Text style={styles.accountName}>{account.name}</Text>
+                  <Text style={styles.accountMeta}>
+                    {ACCOUNT_TYPES.find((t) => t.id === account.type)?.label ?? 'Other'}
+                    {account.currency ? ` · ${account.currency}` : ''}
+                    {isDefault ? ' · Default' : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.balance, balance < 0 && { color: colors.error }]}>{formatAmount(balance)}</Text>
+              </Pressable>
+              <View style={styles.accountActions}>
+                <NeuIconButton
+                  icon={isDefault ? 'star' : 'star-outline'}
+                  onPress={() => updateSetting('defaultAccountId', account.id)}
+                  size={16}
+                  bgColor={colors.cardTintYellow}
+                  style={styles.actionBtn}
+                />
+                <NeuIconButton
+                  icon="delete-outline"
+                  onPress={() => handleDelete(account)}
+                  size={16}
+                  bgColor={colors.secondary + '20'}
+                  color={colors.secondary}
+                  style={styles.actionBtn}
+                />
+              </View>
+            </NeuCard>
+          </MotiView>
+        );
+      })}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  content: { paddingHorizontal: spacing.xl },
+  headerRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm, marginBottom: spacing.xl, gap: spacing.md },
+  headerTitle: { ...typography.h2, flex: 1 },
+  totalCard: { alignItems: 'center', marginBottom: spacing.lg },
+  totalLabel: { ...typography.caption, marginBottom: spacing.xs },
+  totalAmount: { fontSize: 28, fontWeight: '800', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+  addCard: { marginBottom: spacing.lg },
+  addTitle: { ...typography.h3, marginBottom: spacing.md },
+  input: {
+    ...typography.body, borderWidth: 2.5, borderColor: colors.border, borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md, paddingVertical: spacing.sm, backgroundColor: colors.surface,
+  },
+  pickerLabel: { ...typography.label, marginBottom: spacing.sm },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.md },
+  chip: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: spacing.md, paddingVertical: spacing.xs,
+    borderWidth: 2.5, borderColor: colors.border + '30', borderRadius: borderRadius.md, backgroundColor: colors.surface,
+  },
+  chipSelected: { borderColor: colors.border, backgroundColor: colors.primary + '30' },
+  chipText: { fontSize: 12, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+  chipTextSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+  colorGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.lg },
+  colorItem: { width: 32, height: 32, borderRadius: borderRadius.sm, borderWidth: 2.5, borderColor: 'transparent' },
+  colorSelected: { borderColor: colors.border, borderWidth: 2.5 },
+  addActions: { flexDirection: 'row', gap: spacing.sm, justifyContent: 'flex-end' },
+  accountCard: { marginBottom: spacing.sm },
+  accountRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+  accountInfo: { flex: 1 },
+  accountName: { ...typography.body, fontWeight: '700' },
+  accountMeta: { ...typography.caption, color: colors.textLight },
+  balance: { fontSize: 16, fontWeight: '800', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+  accountActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: spacing.sm, marginTop: spacing.sm },
+  actionBtn: { width: 36, height: 36 },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,8 +11,17 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MotiView } from 'moti';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
-import { NeuCard, NeuButton, NeuIconButton } from '@/components/ui';
-import { shareBackup, parseBackupFile, importBackup } from '@/services/backup';
+import { NeuCard, NeuButton, NeuIconButton, NeuSwitch } from '@/components/ui';
+import {
+  shareBackup,
+  parseBackupFile,
+  importBackup,
+  buildFullBackup,
+  estimateBackupSize,
+  snapshotOverwrittenFiles,
+  restoreOverwrittenFiles,
+} from '@/services/backup';
+import type { BackupSizeEstimate, ParsedBackup } from '@/services/backup';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
@@ -22,10 +31,20 @@ import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
 import { useDebtStore } from '@/stores/useDebtStore';
 import { useTagStore } from '@/stores/useTagStore';
 import { useTemplateStore } from '@/stores/useTemplateStore';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import { useImportProfileStore } from '@/stores/useImportProfileStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { useImportBatchStore } from '@/stores/useImportBatchStore';
+import { useTrashStore } from '@/stores/useTrashStore';
 import { useGamificationStore } from '@/stores/useGamificationStore';
+import { useUndoStore } from '@/stores/useUndoStore';
 import { useTheme } from '@/lib/ThemeContext';
 import { useDialog } from '@/contexts/DialogContext';
 import { spacing } from '@/lib/theme';
+import { formatBytes } from '@/lib/files';
 import { format } from 'date-fns';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
 
@@ -46,10 +65,24 @@ export default function BackupScreen() {
   const { loadDebts } = useDebtStore();
   const { loadTags } = useTagStore();
   const { loadTemplates } = useTemplateStore();
+  const { loadRates } = useExchangeRateStore();
+  const { loadAccounts } = useAccountStore();
+  const { loadTransfers } = useTransferStore();
+  const { loadViews } = useSavedViewStore();
+  const { loadProfiles } = useImportProfileStore();
+  const { loadRules } = useRuleStore();
+  const { loadBatches } = useImportBatchStore();
+  const { loadTrash } = useTrashStore();
   const { loadGamification } = useGamificationStore();
 
   const [isExporting, setIsExporting] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [estimate, setEstimate] = useState<BackupSizeEstimate | null>(null);
+
+  useEffect(() => {
+    estimateBackupSize().then(setEstimate).catch(() => setEstimate(null));
+  }, []);
 
   const lastBackupText = useMemo(() => {
     if (!lastBackupDate) return 'Never';
@@ -65,6 +98,14 @@ export default function BackupScreen() {
     loadDebts();
     loadTags();
     loadTemplates();
+    loadRates();
+    loadAccounts();
+    loadTransfers();
+    loadViews();
+    loadProfiles();
+    loadRules();
+    loadBatches();
+    loadTrash();
     loadGamification();
     loadSettings();
   }
@@ -72,7 +113,7 @@ export default function BackupScreen() {
   async function handleCreateBackup() {
     setIsExporting(true);
     try {
-      await shareBackup();
+      await shareBackup(includeFiles && (estimate?.fileCount ?? 0) > 0);
       await updateSetting('lastBackupDate', Date.now());
       showSuccess('Backup Created', 'Your data has been exported and is ready to save.');
     } catch (err: any) {
@@ -89,7 +130,7 @@ export default function BackupScreen() {
     let pickerResult;
     try {
       pickerResult = await DocumentPicker.getDocumentAsync({
-        type: 'application/json',
+        type: ['application/json', 'application/zip', 'application/x-zip-compressed'],
         copyToCacheDirectory: true,
       });
     } catch {
@@ -101,9 +142,9 @@ export default function BackupScreen() {
 
     const uri = pickerResult.assets[0].uri;
 
-    let backupData;
+    let backup: ParsedBackup;
     try {
-      backupData = await parseBackupFile(uri);
+      backup = await parseBackupFile(uri);
     } catch {
       showError('Invalid Backup', 'The selected file is not a valid Ledgr backup.');
       return;
@@ -112,13 +153,41 @@ export default function BackupScreen() {
     showConfirm({
       title: 'Restore Backup',
       message:
-        'This will replace ALL current data with the backup. This action cannot be undone. Are you sure?',
+        'This will replace ALL current data with the backup and empty the trash. You can undo this until you leave the app. Are you sure?',
       confirmLabel: 'Restore',
       onConfirm: async () => {
         setIsRestoring(true);
         try {
-          await importBackup(backupData);
+          // Keep what is being replaced so the restore can be undone: the rows
+          // in memory, and any receipts and attachments the backup's files of
+          // the same name would overwrite in a temporary folder
+          const previous = await buildFullBackup();
+          const overwritten = snapshotOverwrittenFiles(backup.files);
+          try {
+            await importBackup(backup.data, backup.files);
+          } catch (error) {
+            overwritten?.delete();
+            throw error;
+          }
           reloadAllStores();
+          // Earlier history refers to rows the restore just replaced
+          const undoStore = useUndoStore.getState();
+          undoStore.clearHistory();
+          undoStore.record({
+            label: 'Backup restored',
+            undo: async () => {
+              if (overwritten) restoreOverwrittenFiles(overwritten);
+              await importBackup(previous);
+              reloadAllStores();
+            },
+            redo: async () => {
+              await importBackup(backup.data, backup.files);
+              reloadAllStores();
+            },
+            dispose: () => {
+              if (overwritten?.exists) overwritten.delete();
+            },
+          });
           showSuccess(
             'Restore Complete',
             'Your data has been restored successfully.',
@@ -214,11 +283,25 @@ export default function BackupScreen() {
                 <Text style={styles.actionTitle}>Export All Data</Text>
                 <Text style={styles.actionDesc}>
                   Exports expenses, categories, budgets, goals, debts, tags and settings to a JSON
-                  file.
+                  file, or a zip that also holds your receipts and attachments.
                 </Text>
               </View>
             </View>
 
+            {estimate && estimate.fileCount > 0 && (
+              <NeuSwitch
+                value={includeFiles}
+                onValueChange={setIncludeFiles}
+                label="Include receipts & attachments"
+                description={`${estimate.fileCount} file${estimate.fileCount === 1 ? '' : 's'}, ${formatBytes(estimate.fileBytes)}`}
+              />
+            )}
+            {estimate && (
+              <Text style={styles.estimateText}>
+                Estimated size: {formatBytes(estimate.dataBytes + (includeFiles ? estimate.fileBytes : 0))}
+              </Text>
+            )}
+
             {isExporting ? (
               <View style={styles.loadingWrap}>
                 <ActivityIndicator color={colors.primary} />
@@ -264,7 +347,7 @@ export default function BackupScreen() {
               <View style={styles.actionInfo}>
                 <Text style={styles.actionTitle}>Import from File</Text>
                 <Text style={styles.actionDesc}>
-                  Select a previously exported Ledgr backup (.json) to restore your data.
+                  Select a previously exported Ledgr backup (.json or .zip) to restore your data.
                 </Text>
               </View>
             </View>
@@ -301,7 +384,7 @@ export default function BackupScreen() {
                 color={colors.error}
               />
               <Text style={styles.warningText}>
-                Restoring will replace all current data. This cannot be undone.
+                Restoring will replace all current data. You can undo it until you leave the app.
               </Text>
             </View>
           </NeuCard>
@@ -394,6 +477,11 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
 
     // Action cards
     actionCard: { marginBottom: spacing.sm },
+    estimateText: {
+      ...typography.caption,
+      color: colors.textSecondary,
+      marginTop: spacing.sm,
+    },
     actionRow: {
       flexDirection: 'row',
       alignItems: 'flex-start',
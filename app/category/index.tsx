@@ -12,14 +12,16 @@ import { NeuCard, NeuButton, NeuIconButton } from '@/components/ui';
 import CategoryIcon from '@/components/CategoryIcon';
 import { spacing, borderRadius, CATEGORY_ICON_OPTIONS } from '@/lib/theme';
 import { useTheme } from '@/lib/ThemeContext';
+import { buildCategoryTree } from '@/lib/categories';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import type { Category } from '@/types';
 const COLOR_OPTIONS = ['#FF6B6B', '#60A5FA', '#A855F7', '#FF69B4', '#FFD60A', '#34D399', '#4ECDC4', '#FB923C', '#9CA3AF', '#EF4444'];
 
 export default function CategoryManagementScreen() {
   const { colors, typography } = useTheme();
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { categories, addCategory, deleteCategory } = useCategoryStore();
+  const { categories, addCategory, moveCategory, deleteCategory } = useCategoryStore();
   const { isPremium } = useSubscriptionStore();
 
   const { showError, showConfirm, showDialog } = useDialog();
@@ -27,22 +29,39 @@ export default function CategoryManagementScreen() {
   const [newName, setNewName] = useState('');
   const [newIcon, setNewIcon] = useState('cube-outline');
   const [newColor, setNewColor] = useState('#FF6B6B');
+  const [newParentId, setNewParentId] = useState<string | null>(null);
+  // Category whose "move under" picker is open
+  const [movingId, setMovingId] = useState<string | null>(null);
 
   const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  // The free tier limit counts top-level categories only
+  const atFreeLimit = !isPremium && tree.length >= 8;
 
   const handleAdd = () => {
     if (!newName.trim()) {
       showError('Error', 'Please enter a category name.');
       return;
     }
-    addCategory({ name: newName.trim(), icon: newIcon, color: newColor });
+    addCategory({ name: newName.trim(), icon: newIcon, color: newColor, parentId: newParentId });
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     setNewName('');
     setNewIcon('cube-outline');
     setNewColor('#FF6B6B');
+    setNewParentId(null);
     setShowAdd(false);
   };
 
+  const handleMove = (id: string, parentId: string | null) => {
+    try {
+      moveCategory(id, parentId);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setMovingId(null);
+    } catch (e) {
+      showError('Cannot Move', e instanceof Error ? e.message : 'This category cannot be moved there.');
+    }
+  };
+
   const handleDelete = (id: string, name: string, isDefault: number) => {
     if (isDefault) {
       showDialog({
@@ -56,7 +75,7 @@ export default function CategoryManagementScreen() {
     }
     showConfirm({
       title: 'Delete Category',
-      message: `Delete "${name}"? Expenses in this category will need to be reassigned.`,
+      message: `Delete "${name}"? Expenses in this category will need to be reassigned, and its sub-categories will move to the top level.`,
       onConfirm: () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
         deleteCategory(id);
@@ -64,6 +83,68 @@ export default function CategoryManagementScreen() {
     });
   };
 
+  const renderCategoryCard = (cat: Category, childCount: number) => {
+    // Only categories without children can move under another top-level one
+    const targets = childCount > 0
+      ? []
+      : tree.map((node) => node.category).filter((c) => c.id !== cat.id && c.id !== cat.parentId);
+    const isMoving = movingId === cat.id;
+    return (
+      <NeuCard style={[styles.catCard, cat.parentId ? styles.childCard : undefined]}>
+        <View style={styles.catRow}>
+          <CategoryIcon icon={cat.icon} color={cat.color} size={cat.parentId ? 18 : 22} containerSize={cat.parentId ? 36 : 44} />
+          <View style={styles.catInfo}>
+            <Text style={styles.catName}>{cat.name}</Text>
+            {cat.isDefault === 1 ? (
+              <Text style={styles.catDefault}>Default</Text>
+            ) : childCount > 0 ? (
+              <Text style={styles.catDefault}>{childCount} sub-categories</Text>
+            ) : null}
+          </View>
+          <View style={[styles.colorDot, { backgroundColor: cat.color }]} />
+          {(cat.parentId || targets.length > 0) && (
+            <NeuIconButton
+              icon="file-tree-outline"
+              onPress={() => setMovingId(isMoving ? null : cat.id)}
+              size={16}
+              bgColor={isMoving ? colors.cardTintYellow : colors.surface}
+              color={colors.text}
+              style={styles.deleteBtn}
+            />
+          )}
+          {cat.isDefault === 0 && (
+            <NeuIconButton
+              icon="delete-outline"
+              onPress={() => handleDelete(cat.id, cat.name, cat.isDefault)}
+              size={16}
+              bgColor={colors.secondary + '20'}
+              color={colors.secondary}
+              style={styles.deleteBtn}
+            />
+          )}
+        </View>
+        {isMoving && (
+          <View style={styles.moveSection}>
+            <Text style={styles.pickerLabel}>Move under</Text>
+            <View style={styles.parentRow}>
+              {cat.parentId && (
+                <Pressable onPress={() => handleMove(cat.id, null)} style={styles.parentChip}>
+                  <Text style={styles.parentChipText}>Top level</Text>
+                </Pressable>
+              )}
+              {targets.map((target) => (
+                <Pressable key={target.id} onPress={() => handleMove(cat.id, target.id)} style={styles.parentChip}>
+                  <MaterialCommunityIcons name={target.icon as any} size={14} color={target.color} />
+                  <Text style={styles.parentChipText} numberOfLines={1}>{target.name}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+      </NeuCard>
+    );
+  };
+
   return (
     <ScrollView style={[styles.container, { paddingTop: insets.top }]} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
       <View style={styles.headerRow}>
@@ -72,7 +153,7 @@ export default function CategoryManagementScreen() {
         <NeuIconButton
           icon="plus"
           onPress={() => {
-            if (!isPremium && categories.length >= 8) {
+            if (atFreeLimit) {
               router.push('/paywall');
               return;
             }
@@ -126,6 +207,24 @@ export default function CategoryManagementScreen() {
               ))}
             </View>
 
+            <Text style={styles.pickerLabel}>Parent</Text>
+            <View style={styles.parentRow}>
+              {[null, ...tree.map((node) => node.category)].map((parent) => {
+                const selected = newParentId === (parent?.id ?? null);
+                return (
+                  <Pressable
+                    key={parent?.id ?? 'none'}
+                    onPress={() => setNewParentId(parent?.id ?? null)}
+                    style={[styles.parentChip, selected && styles.parentChipSelected]}
+                  >
+                    <Text style={[styles.parentChipText, selected && styles.parentChipTextSelected]} numberOfLines={1}>
+                      {parent ? parent.name : 'None'}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
             <View style={styles.addActions}>
               <NeuButton title="Cancel" onPress={() => setShowAdd(false)} variant="outline" size="sm" />
               <NeuButton title="Add Category" onPress={handleAdd} variant="primary" size="sm" />
@@ -134,40 +233,24 @@ export default function CategoryManagementScreen() {
         </MotiView>
       )}
 
-      {/* Category List */}
-      {categories.map((cat, index) => (
+      {/* Category Tree */}
+      {tree.map((node, index) => (
         <MotiView
-          key={cat.id}
+          key={node.category.id}
           from={{ opacity: 0, translateX: -20 }}
           animate={{ opacity: 1, translateX: 0 }}
           transition={{ type: 'timing', duration: 300, delay: index * 50 }}
         >
-          <NeuCard style={styles.catCard}>
-            <View style={styles.catRow}>
-              <CategoryIcon icon={cat.icon} color={cat.color} size={22} containerSize={44} />
-              <View style={styles.catInfo}>
-                <Text style={styles.catName}>{cat.name}</Text>
-                {cat.isDefault === 1 && (
-                  <Text style={styles.catDefault}>Default</Text>
-                )}
-              </View>
-              <View style={[styles.colorDot, { backgroundColor: cat.color }]} />
-              {cat.isDefault === 0 && (
-                <NeuIconButton
-                  icon="delete-outline"
-                  onPress={() => handleDelete(cat.id, cat.name, cat.isDefault)}
-                  size={16}
-                  bgColor={colors.secondary + '20'}
-                  color={colors.secondary}
-                  style={styles.deleteBtn}
-                />
-              )}
+          {renderCategoryCard(node.category, node.children.length)}
+          {node.children.map((child) => (
+            <View key={child.id} style={styles.childWrap}>
+              {renderCategoryCard(child, 0)}
             </View>
-          </NeuCard>
+          ))}
         </MotiView>
       ))}
 
-      {!isPremium && categories.length >= 8 && (
+      {atFreeLimit && (
         <NeuCard color={colors.cardTintPurple} style={styles.limitCard}>
           <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.xs }}>
             <MaterialCommunityIcons name="star" size={16} color={colors.primary} />
@@ -204,6 +287,17 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
   colorSelected: { borderColor: colors.border, borderWidth: 2.5 },
   addActions: { flexDirection: 'row', gap: spacing.sm, justifyContent: 'flex-end' },
   catCard: { marginBottom: spacing.sm },
+  childWrap: { marginLeft: spacing.xl },
+  childCard: { paddingVertical: spacing.sm },
+  moveSection: { marginTop: spacing.md },
+  parentRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginBottom: spacing.md },
+  parentChip: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, maxWidth: '100%', paddingHorizontal: spacing.sm, paddingVertical: 4,
+    borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
+  parentChipSelected: { borderColor: colors.border, backgroundColor: colors.primary + '30' },
+  parentChipText: { fontSize: 12, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+  parentChipTextSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
   catRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
   catInfo: { flex: 1 },
   catName: { ...typography.body, fontWeight: '700' },
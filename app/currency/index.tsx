@@ -0,0 +1,241 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { format } from 'date-fns';
+import { useDialog } from '@/contexts/DialogContext';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { parseExchangeRates } from '@/services/exchangeRates';
+import { NeuCard, NeuButton, NeuIconButton, NeuEmptyState } from '@/components/ui';
+import { spacing, borderRadius } from '@/lib/theme';
+import { useTheme } from '@/lib/ThemeContext';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+
+export default function ExchangeRatesScreen() {
+  const { colors, typography } = useTheme();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { rates, setRate, deleteRate, importRates } = useExchangeRateStore();
+  const { currency: homeCurrency } = useSettingsStore();
+  const { showError, showConfirm, showSuccess } = useDialog();
+
+  const [showAdd, setShowAdd] = useState(false);
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [editRate, setEditRate] = useState('');
+
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  const handleAdd = () => {
+    const code = newCode.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      showError('Invalid Currency', 'Enter a 3-letter currency code, e.g. EUR.');
+      return;
+    }
+    if (code === homeCurrency) {
+      showError('Home Currency', `${code} is your home currency and always has a rate of 1.`);
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      showError('Invalid Rate', 'Please enter a rate greater than 0.');
+      return;
+    }
+    setRate(code, rate);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setNewCode('');
+    setNewRate('');
+    setShowAdd(false);
+  };
+
+  const handleSaveEdit = (code: string) => {
+    const rate = parseFloat(editRate);
+    if (isNaN(rate) || rate <= 0) {
+      showError('Invalid Rate', 'Please enter a rate greater than 0.');
+      return;
+    }
+    setRate(code, rate);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setEditingCode(null);
+  };
+
+  const handleDelete = (code: string) => {
+    showConfirm({
+      title: 'Remove Rate',
+      message: `Remove the ${code} rate? Existing ${code} transactions keep their last converted amount.`,
+      onConfirm: () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        deleteRate(code);
+      },
+    });
+  };
+
+  const handleImport = async () => {
+    let pickerResult;
+    try {
+      pickerResult = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+    } catch {
+      showError('File Picker Error', 'Could not open the file picker. Please try again.');
+      return;
+    }
+    if (pickerResult.canceled || !pickerResult.assets?.length) return;
+
+    try {
+      const content = await new File(pickerResult.assets[0].uri).text();
+      const parsed = parseExchangeRates(content);
+      const count = importRates(parsed);
+      if (count === 0) {
+        showError('No Rates Found', 'The file did not contain any currency codes with valid rates.');
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showSuccess('Rates Imported', `Updated ${count} exchange rate${count !== 1 ? 's' : ''}.`);
+    } catch {
+      showError('Import Failed', 'Could not read the rate file. Use CSV (code,rate) or JSON.');
+    }
+  };
+
+  return (
+    <ScrollView style={[styles.container, { paddingTop: insets.top }]} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>Exchange Rates</Text>
+        <NeuIconButton icon="plus" onPress={() => setShowAdd(!showAdd)} bgColor={colors.primary} color={colors.onPrimary} />
+      </View>
+
+      <Text style={styles.hint}>
+        Rates are in {homeCurrency} per one unit of the foreign currency. Editing a rate re-converts every transaction in that currency.
+      </Text>
+
+      {showAdd && (
+        <MotiView from={{ opacity: 0, translateY: -20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 300 }}>
+          <NeuCard color={colors.cardTintCream} style={styles.addCard}>
+            <Text style={styles.addTitle}>New Rate</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                value={newCode}
+                onChangeText={setNewCode}
+                placeholder="EUR"
+                placeholderTextColor={colors.textLight}
+                autoCapitalize="characters"
+                maxLength={3}
+                autoFocus
+              />
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                value={newRate}
+                onChangeText={setNewRate}
+                placeholder={`${homeCurrency} per unit`}
+                placeholderTextColor={colors.textLight}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.addActions}>
+              <NeuButton title="Cancel" onPress={() => setShowAdd(false)} variant="outline" size="sm" />
+              <NeuButton title="Add Rate" onPress={handleAdd} variant="primary" size="sm" />
+            </View>
+          </NeuCard>
+        </MotiView>
+      )}
+
+      {rates.length === 0 && !showAdd ? (
+        <NeuEmptyState
+          icon="swap-horizontal"
+          title="No exchange rates"
+          description="Add a rate to record expenses and income in other currencies."
+          actionTitle="Add Rate"
+          onAction={() => setShowAdd(true)}
+        />
+      ) : (
+        rates.map((r, index) => (
+          <MotiView
+            key={r.currency}
+            from={{ opacity: 0, translateX: -20 }}
+            animate={{ opacity: 1, translateX: 0 }}
+            transition={{ type: 'timing', duration: 300, delay: index * 50 }}
+          >
+            <NeuCard style={styles.rateCard}>
+              <View style={styles.rateRow}>
+                <Text style={styles.rateCode}>{r.currency}</Text>
+                {editingCode === r.currency ? (
+                  <TextInput
+                    style={[styles.input, { flex: 1 }]}
+                    value={editRate}
+                    onChangeText={setEditRate}
+                    keyboardType="decimal-pad"
+                    autoFocus
+                    onSubmitEditing={() => handleSaveEdit(r.currency)}
+                  />
+                ) : (
+                  <View style={styles.rateInfo}>
+                    <Text style={styles.rateValue}>1 {r.currency} = {r.rate} {homeCurrency}</Text>
+                    <Text style={styles.rateUpdated}>Updated {format(new Date(r.updatedAt), 'MMM d, yyyy')}</Text>
+                  </View>
+                )}
+                {editingCode === r.currency ? (
+                  <NeuIconButton icon="check" onPress={() => handleSaveEdit(r.currency)} size={16} bgColor={colors.cardTintGreen} color={colors.green} style={styles.rowBtn} />
+                ) : (
+                  <NeuIconButton
+                    icon="pencil-outline"
+                    onPress={() => { setEditingCode(r.currency); setEditRate(String(r.rate)); }}
+                    size={16}
+                    bgColor={colors.cardTintYellow}
+                    style={styles.rowBtn}
+                  />
+                )}
+                <NeuIconButton icon="delete-outline" onPress={() => handleDelete(r.currency)} size={16} bgColor={colors.secondary + '20'} color={colors.secondary} style={styles.rowBtn} />
+              </View>
+            </NeuCard>
+          </MotiView>
+        ))
+      )}
+
+      <NeuButton
+        title="Import from File"
+        onPress={handleImport}
+        variant="outline"
+        size="md"
+        fullWidth
+        icon={<MaterialCommunityIcons name="file-import-outline" size={18} color={colors.text} />}
+        style={{ marginTop: spacing.lg }}
+      />
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  content: { paddingHorizontal: spacing.xl },
+  headerRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm, marginBottom: spacing.md, gap: spacing.md },
+  headerTitle: { ...typography.h2, flex: 1 },
+  hint: { ...typography.caption, color: colors.textSecondary, marginBottom: spacing.lg },
+  addCard: { marginBottom: spacing.lg },
+  addTitle: { ...typography.h3, marginBottom: spacing.md },
+  inputRow: { flexDirection: 'row', gap: spacing.sm, marginBottom: spacing.md },
+  input: {
+    ...typography.body, borderWidth: 2.5, borderColor: colors.border, borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md, paddingVertical: spacing.sm, backgroundColor: colors.surface,
+  },
+  codeInput: { width: 80, textAlign: 'center', fontFamily: 'SpaceMono_700Bold' },
+  addActions: { flexDirection: 'row', gap: spacing.sm, justifyContent: 'flex-end' },
+  rateCard: { marginBottom: spacing.sm },
+  rateRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+  rateCode: { fontSize: 16, fontWeight: '800', color: colors.text, fontFamily: 'SpaceMono_700Bold', width: 48 },
+  rateInfo: { flex: 1 },
+  rateValue: { ...typography.body, fontWeight: '600' },
+  rateUpdated: { ...typography.caption, color: colors.textLight },
+  rowBtn: { width: 36, height: 36 },
+});
@@ -24,6 +24,7 @@ import { useTheme } from '@/lib/ThemeContext';
 import { useDialog } from '@/contexts/DialogContext';
 import { spacing, borderRadius } from '@/lib/theme';
 import type { ThemeColors, ThemeTypography, ThemeBorders } from '@/lib/theme';
+import { sumMoney } from '@/lib/money';
 import type { Debt } from '@/types';
 
 const DEBT_ICONS = [
@@ -89,7 +90,7 @@ export default function DebtsScreen() {
   const atFreeLimit = !canAddDebt(isPremium);
   const totalDebt = useMemo(() => getTotalDebt(), [debts]);
   const totalMinPayment = useMemo(
-    () => debts.reduce((sum, d) => sum + d.minimumPayment, 0),
+    () => sumMoney(debts, (d) => d.minimumPayment),
     [debts],
   );
   const selectedDebt = useMemo(
@@ -1,24 +1,35 @@
+import AttachmentViewer from '@/components/AttachmentViewer';
+import type { ViewerImage } from '@/components/AttachmentViewer';
 import CategoryIcon from '@/components/CategoryIcon';
+import SplitEditor, { createSplitDraft, toSplitInputs, validateSplitDrafts } from '@/components/SplitEditor';
+import type { SplitDraft } from '@/components/SplitEditor';
 import { NeuButton, NeuCard, NeuIconButton, NeuInput } from '@/components/ui';
 import { useDialog } from '@/contexts/DialogContext';
 import { saveReceipt, deleteReceipt } from '@/lib/receipt';
+import { suggestRulePattern } from '@/services/rules';
+import { addAttachment, deleteAttachment, getAttachments } from '@/services/attachments';
+import type { AttachmentSource } from '@/services/attachments';
+import { allocateMoney, formatMoney, getCurrencySymbol } from '@/lib/money';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
-import { borderRadius, PAYMENT_METHODS, spacing } from '@/lib/theme';
+import { borderRadius, spacing } from '@/lib/theme';
 import { useTheme } from '@/lib/ThemeContext';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useAccountStore } from '@/stores/useAccountStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useTemplateStore } from '@/stores/useTemplateStore';
 import { useTagStore } from '@/stores/useTagStore';
 import { useSubscriptionStore } from '@/stores/useSubscriptionStore';
-import type { PaymentMethod } from '@/types';
+import type { Attachment } from '@/types';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { format } from 'date-fns';
+import * as DocumentPicker from 'expo-document-picker';
 import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
+import * as Sharing from 'expo-sharing';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
-import { Image, KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { Image, KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 export default function ExpenseDetailScreen() {
@@ -29,6 +40,7 @@ export default function ExpenseDetailScreen() {
   const { getExpenseById, updateExpense, deleteExpense } = useExpenseStore();
   const { categories } = useCategoryStore();
   const { formatAmount, currencySymbol } = useSettingsStore();
+  const { accounts, getAccountById } = useAccountStore();
   const { addTemplate, canAddTemplate } = useTemplateStore();
   const { getTagsForExpense } = useTagStore();
   const { isPremium } = useSubscriptionStore();
@@ -38,13 +50,24 @@ export default function ExpenseDetailScreen() {
   const expenseTags = useMemo(() => id ? getTagsForExpense(id) : [], [id]);
 
   const [isEditing, setIsEditing] = useState(false);
-  const [editAmount, setEditAmount] = useState(expense?.amount.toString() || '');
+  // Foreign-currency expenses are edited in the currency they were paid in
+  const [editAmount, setEditAmount] = useState((expense?.originalAmount ?? expense?.amount)?.toString() || '');
   const [editDescription, setEditDescription] = useState(expense?.description || '');
   const [editCategory, setEditCategory] = useState(expense?.categoryId || '');
-  const [editPayment, setEditPayment] = useState<PaymentMethod>((expense?.paymentMethod as PaymentMethod) || 'cash');
+  const [editAccount, setEditAccount] = useState<string | null>(expense?.accountId ?? null);
   const [editNotes, setEditNotes] = useState(expense?.notes || '');
   const [editReceiptUri, setEditReceiptUri] = useState(expense?.receiptUri || null);
-  const [showReceiptModal, setShowReceiptModal] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>(() => (id ? getAttachments(id) : []));
+  const [isAttaching, setIsAttaching] = useState(false);
+  // Index into viewerImages; null while the viewer is closed
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [isSplit, setIsSplit] = useState((expense?.splits.length ?? 0) > 0);
+  // Split lines are stored in the home currency but edited in the paid currency
+  const [splitDrafts, setSplitDrafts] = useState<SplitDraft[]>(() => {
+    if (!expense || expense.splits.length === 0) return [];
+    const amounts = allocateMoney(expense.originalAmount ?? expense.amount, expense.splits.map((s) => s.amount));
+    return expense.splits.map((s, i) => createSplitDraft(s.categoryId, amounts[i].toString(), s.note ?? ''));
+  });
 
   const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
 
@@ -101,24 +124,127 @@ export default function ExpenseDetailScreen() {
     });
   };
 
+  const attachFile = async (source: AttachmentSource) => {
+    setIsAttaching(true);
+    try {
+      const attachment = await addAttachment(id, source);
+      setAttachments((prev) => [...prev, attachment]);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      showError('Attach Failed', 'Could not save the file. Please try again.');
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  const handleAddAttachment = () => {
+    showDialog({
+      title: 'Add Attachment',
+      message: 'Keep an invoice, warranty or another receipt page with this expense.',
+      icon: 'paperclip',
+      iconColor: colors.accent,
+      buttons: [
+        {
+          text: 'Take Photo',
+          style: 'default',
+          onPress: async () => {
+            const result = await ImagePicker.launchCameraAsync({ quality: 0.8 });
+            if (!result.canceled && result.assets[0]) {
+              await attachFile({ uri: result.assets[0].uri, kind: 'image', name: result.assets[0].fileName });
+            }
+          },
+        },
+        {
+          text: 'Choose from Library',
+          style: 'default',
+          onPress: async () => {
+            const result = await ImagePicker.launchImageLibraryAsync({ quality: 0.8 });
+            if (!result.canceled && result.assets[0]) {
+              await attachFile({ uri: result.assets[0].uri, kind: 'image', name: result.assets[0].fileName });
+            }
+          },
+        },
+        {
+          text: 'Choose PDF',
+          style: 'default',
+          onPress: async () => {
+            const result = await DocumentPicker.getDocumentAsync({ type: 'application/pdf', copyToCacheDirectory: true });
+            if (!result.canceled && result.assets[0]) {
+              await attachFile({ uri: result.assets[0].uri, kind: 'pdf', name: result.assets[0].name });
+            }
+          },
+        },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+    });
+  };
+
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    showConfirm({
+      title: 'Remove Attachment',
+      message: `Delete "${attachment.name}" from this expense?`,
+      confirmLabel: 'Remove',
+      onConfirm: () => {
+        deleteAttachment(attachment.id);
+        setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+      },
+    });
+  };
+
+  const handleOpenAttachment = async (attachment: Attachment) => {
+    if (attachment.kind === 'image') {
+      setViewerIndex(viewerImages.findIndex((img) => img.key === attachment.id));
+      return;
+    }
+    // PDFs open in whatever viewer the system offers
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(attachment.uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: attachment.name });
+    }
+  };
+
+  const handleToggleSplit = () => {
+    if (isSplit) {
+      setIsSplit(false);
+      return;
+    }
+    if (splitDrafts.length === 0) {
+      const other = categories.find((c) => c.id !== editCategory);
+      setSplitDrafts([createSplitDraft(editCategory, editAmount), createSplitDraft(other?.id ?? editCategory)]);
+    }
+    setIsSplit(true);
+  };
+
   const handleSave = async () => {
     const amount = parseFloat(editAmount);
     if (isNaN(amount) || amount <= 0) {
       showError('Invalid Amount', 'Please enter a valid amount.');
       return;
     }
+    if (isSplit) {
+      const splitError = validateSplitDrafts(splitDrafts, amount);
+      if (splitError) {
+        showError('Check Split', splitError);
+        return;
+      }
+    }
     // Clean up old receipt if it was replaced or removed
     if (expense.receiptUri && expense.receiptUri !== editReceiptUri) {
       await deleteReceipt(expense.receiptUri);
     }
-    updateExpense(id, {
-      amount,
-      description: editDescription,
-      categoryId: editCategory,
-      paymentMethod: editPayment,
-      notes: editNotes || null,
-      receiptUri: editReceiptUri,
-    });
+    try {
+      updateExpense(id, {
+        amount,
+        description: editDescription,
+        categoryId: editCategory,
+        splits: isSplit ? toSplitInputs(splitDrafts) : [],
+        accountId: editAccount,
+        notes: editNotes || null,
+        receiptUri: editReceiptUri,
+      });
+    } catch (e) {
+      showError('Missing Exchange Rate', e instanceof Error ? e.message : 'Could not convert this amount.');
+      return;
+    }
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     setIsEditing(false);
   };
@@ -127,9 +253,9 @@ export default function ExpenseDetailScreen() {
     showConfirm({
       title: 'Delete Expense',
       message: 'Are you sure you want to delete this expense?',
-      onConfirm: async () => {
+      onConfirm: () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        if (expense.receiptUri) await deleteReceipt(expense.receiptUri);
+        // The receipt moves to the trash with the expense
         deleteExpense(id);
         router.back();
       },
@@ -147,14 +273,30 @@ export default function ExpenseDetailScreen() {
       amount: expense.amount,
       categoryId: expense.categoryId,
       description: expense.description,
-      paymentMethod: (expense.paymentMethod as PaymentMethod) || 'cash',
+      accountId: expense.accountId,
       notes: expense.notes,
     });
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     showSuccess('Template Saved', `"${name}" added to your quick templates.`);
   };
 
+  // Starts from the expense's category, which for a split is its largest line's
+  const handleCreateRule = () => {
+    router.push({
+      pathname: '/rules',
+      params: {
+        pattern: suggestRulePattern(expense.description),
+        categoryId: expense.categoryId,
+        tagIds: expenseTags.map((t) => t.id).join(','),
+      },
+    });
+  };
+
   const category = categories.find((c) => c.id === (isEditing ? editCategory : expense.categoryId));
+  const viewerImages: ViewerImage[] = [
+    ...(expense.receiptUri ? [{ key: 'receipt', uri: expense.receiptUri, label: 'Receipt' }] : []),
+    ...attachments.filter((a) => a.kind === 'image').map((a) => ({ key: a.id, uri: a.uri, label: a.name })),
+  ];
 
   return (
     <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
@@ -183,7 +325,7 @@ export default function ExpenseDetailScreen() {
           </View>
           {isEditing ? (
             <View style={styles.editAmountRow}>
-              <Text style={styles.editCurrency}>{currencySymbol}</Text>
+              <Text style={styles.editCurrency}>{expense.currency ? getCurrencySymbol(expense.currency) : currencySymbol}</Text>
               <TextInput
                 style={styles.editAmountInput}
                 value={editAmount}
@@ -202,28 +344,44 @@ export default function ExpenseDetailScreen() {
         {isEditing ? (
           <>
             <NeuInput label="Description" value={editDescription} onChangeText={setEditDescription} placeholder="Description" />
-            <Text style={styles.fieldLabel}>Category</Text>
-            <View style={styles.categoryGrid}>
-              {categories.map((cat) => (
-                <Pressable
-                  key={cat.id}
-                  onPress={() => setEditCategory(cat.id)}
-                  style={[styles.catItem, editCategory === cat.id && { backgroundColor: colors.cardTintGray, borderColor: cat.color }]}
-                >
-                  <MaterialCommunityIcons name={cat.icon as any} size={20} color={cat.color} />
-                  <Text style={styles.catItemName} numberOfLines={1}>{cat.name}</Text>
-                </Pressable>
-              ))}
+            <View style={styles.fieldHeaderRow}>
+              <Text style={[styles.fieldLabel, { flex: 1 }]}>{isSplit ? 'Split' : 'Category'}</Text>
+              <Pressable onPress={handleToggleSplit} style={[styles.splitToggle, isSplit && styles.paymentSelected]}>
+                <MaterialCommunityIcons name="call-split" size={14} color={colors.text} />
+                <Text style={styles.paymentLabel}>{isSplit ? 'Single' : 'Split'}</Text>
+              </Pressable>
             </View>
-            <Text style={styles.fieldLabel}>Payment Method</Text>
+            {isSplit ? (
+              <SplitEditor
+                drafts={splitDrafts}
+                onChange={setSplitDrafts}
+                categories={categories}
+                total={parseFloat(editAmount) || 0}
+                currencySymbol={expense.currency ? getCurrencySymbol(expense.currency) : currencySymbol}
+              />
+            ) : (
+              <View style={styles.categoryGrid}>
+                {categories.map((cat) => (
+                  <Pressable
+                    key={cat.id}
+                    onPress={() => setEditCategory(cat.id)}
+                    style={[styles.catItem, editCategory === cat.id && { backgroundColor: colors.cardTintGray, borderColor: cat.color }]}
+                  >
+                    <MaterialCommunityIcons name={cat.icon as any} size={20} color={cat.color} />
+                    <Text style={styles.catItemName} numberOfLines={1}>{cat.name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <Text style={styles.fieldLabel}>Account</Text>
             <View style={styles.paymentRow}>
-              {PAYMENT_METHODS.map((pm) => (
+              {accounts.map((account) => (
                 <Pressable
-                  key={pm.id}
-                  onPress={() => setEditPayment(pm.id as PaymentMethod)}
-                  style={[styles.paymentItem, editPayment === pm.id && styles.paymentSelected]}
+                  key={account.id}
+                  onPress={() => setEditAccount(account.id)}
+                  style={[styles.paymentItem, editAccount === account.id && styles.paymentSelected]}
                 >
-                  <Text style={styles.paymentLabel}>{pm.label}</Text>
+                  <Text style={styles.paymentLabel}>{account.name}</Text>
                 </Pressable>
               ))}
             </View>
@@ -255,7 +413,17 @@ export default function ExpenseDetailScreen() {
                 <View style={styles.divider} />
               </>
             ) : null}
-            <DetailRow label="Payment" value={expense.paymentMethod} capitalize styles={styles} />
+            {expense.currency && expense.originalAmount !== null ? (
+              <>
+                <DetailRow
+                  label="Paid"
+                  value={formatMoney(expense.originalAmount, getCurrencySymbol(expense.currency), expense.currency)}
+                  styles={styles}
+                />
+                <View style={styles.divider} />
+              </>
+            ) : null}
+            <DetailRow label="Account" value={getAccountById(expense.accountId)?.name ?? 'None'} styles={styles} />
             <View style={styles.divider} />
             <DetailRow label="Date" value={format(new Date(expense.date), 'MMM d, yyyy')} styles={styles} />
             <View style={styles.divider} />
@@ -275,6 +443,31 @@ export default function ExpenseDetailScreen() {
           </NeuCard>
         )}
 
+        {/* Split lines (view mode) */}
+        {!isEditing && expense.splits.length > 0 && (
+          <View style={styles.tagsSection}>
+            <Text style={styles.fieldLabel}>Split</Text>
+            <NeuCard padded={false}>
+              {expense.splits.map((split, index) => {
+                const splitCategory = categories.find((c) => c.id === split.categoryId);
+                return (
+                  <View key={split.id}>
+                    {index > 0 && <View style={styles.divider} />}
+                    <View style={styles.splitRow}>
+                      <CategoryIcon icon={splitCategory?.icon || 'cube-outline'} color={splitCategory?.color || '#9CA3AF'} size={16} containerSize={32} />
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.splitName}>{splitCategory?.name || 'Unknown'}</Text>
+                        {split.note ? <Text style={styles.splitNote} numberOfLines={2}>{split.note}</Text> : null}
+                      </View>
+                      <Text style={styles.splitAmount}>{formatAmount(split.amount)}</Text>
+                    </View>
+                  </View>
+                );
+              })}
+            </NeuCard>
+          </View>
+        )}
+
         {/* Tags (view mode) */}
         {!isEditing && expenseTags.length > 0 && (
           <View style={styles.tagsSection}>
@@ -302,11 +495,24 @@ export default function ExpenseDetailScreen() {
           />
         )}
 
+        {/* Create Rule (view mode) */}
+        {!isEditing && expense.description.trim() !== '' && (
+          <NeuButton
+            title="Create Rule"
+            onPress={handleCreateRule}
+            variant="outline"
+            size="md"
+            fullWidth
+            icon={<MaterialCommunityIcons name="auto-fix" size={18} color={colors.text} />}
+            style={{ marginTop: spacing.sm }}
+          />
+        )}
+
         {/* Receipt (view mode) */}
         {!isEditing && expense.receiptUri && (
           <>
             <Text style={[styles.fieldLabel, { marginTop: spacing.xl }]}>Receipt</Text>
-            <Pressable onPress={() => setShowReceiptModal(true)}>
+            <Pressable onPress={() => setViewerIndex(0)}>
               <NeuCard style={styles.receiptCard} padded={false}>
                 <Image source={{ uri: expense.receiptUri }} style={styles.receiptImage} />
                 <View style={styles.receiptOverlay}>
@@ -318,20 +524,47 @@ export default function ExpenseDetailScreen() {
           </>
         )}
 
+        {/* Attachments (view mode) */}
+        {!isEditing && (
+          <>
+            <Text style={[styles.fieldLabel, { marginTop: spacing.xl }]}>
+              Attachments{attachments.length > 0 ? ` (${attachments.length})` : ''}
+            </Text>
+            <View style={styles.attachmentGrid}>
+              {attachments.map((attachment) => (
+                <Pressable
+                  key={attachment.id}
+                  onPress={() => handleOpenAttachment(attachment)}
+                  onLongPress={() => handleRemoveAttachment(attachment)}
+                  style={styles.attachmentTile}
+                >
+                  {attachment.kind === 'image' ? (
+                    <Image source={{ uri: attachment.thumbnailUri ?? attachment.uri }} style={styles.attachmentThumb} />
+                  ) : (
+                    <View style={[styles.attachmentThumb, styles.attachmentPdf]}>
+                      <MaterialCommunityIcons name="file-pdf-box" size={32} color={colors.secondary} />
+                    </View>
+                  )}
+                  <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+                </Pressable>
+              ))}
+              <Pressable onPress={handleAddAttachment} disabled={isAttaching} style={styles.attachmentTile}>
+                <View style={[styles.attachmentThumb, styles.attachmentAdd]}>
+                  <MaterialCommunityIcons name={isAttaching ? 'progress-upload' : 'plus'} size={24} color={colors.textLight} />
+                </View>
+                <Text style={styles.attachmentName}>{isAttaching ? 'Saving…' : 'Add'}</Text>
+              </Pressable>
+            </View>
+            {attachments.length > 0 && (
+              <Text style={styles.attachmentHint}>Long-press a file to remove it.</Text>
+            )}
+          </>
+        )}
+
         <View style={{ height: 60 }} />
       </ScrollView>
 
-      {/* Full-screen receipt modal */}
-      <Modal visible={showReceiptModal} transparent animationType="fade">
-        <View style={styles.modalBackdrop}>
-          <View style={[styles.modalCloseRow, { paddingTop: insets.top + spacing.sm }]}>
-            <NeuIconButton icon="close" onPress={() => setShowReceiptModal(false)} bgColor={colors.surface} />
-          </View>
-          {expense.receiptUri && (
-            <Image source={{ uri: expense.receiptUri }} style={styles.modalImage} resizeMode="contain" />
-          )}
-        </View>
-      </Modal>
+      <AttachmentViewer images={viewerImages} initialIndex={viewerIndex} onClose={() => setViewerIndex(null)} />
     </KeyboardAvoidingView>
   );
 }
@@ -368,13 +601,22 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
     borderColor: colors.border + '30', borderRadius: borderRadius.md, backgroundColor: colors.surface,
   },
   catItemName: { fontSize: 9, fontWeight: '600', color: colors.text, textAlign: 'center', fontFamily: 'SpaceMono_400Regular' },
-  paymentRow: { flexDirection: 'row', gap: spacing.sm, marginBottom: spacing.lg },
+  paymentRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.lg },
   paymentItem: {
-    flex: 1, alignItems: 'center', paddingVertical: spacing.sm, borderWidth: 2.5,
+    flexGrow: 1, minWidth: '22%', alignItems: 'center', paddingVertical: spacing.sm, paddingHorizontal: spacing.sm, borderWidth: 2.5,
     borderColor: colors.border + '30', borderRadius: borderRadius.md, backgroundColor: colors.surface,
   },
   paymentSelected: { borderColor: colors.border, backgroundColor: colors.cardTintYellow },
   paymentLabel: { fontSize: 12, fontWeight: '600', color: colors.text, fontFamily: 'SpaceMono_400Regular' },
+  fieldHeaderRow: { flexDirection: 'row', alignItems: 'center' },
+  splitToggle: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: spacing.md, marginBottom: spacing.sm, paddingHorizontal: spacing.sm,
+    paddingVertical: 4, borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+  },
+  splitRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md, paddingHorizontal: spacing.lg, paddingVertical: spacing.md },
+  splitName: { ...typography.body, fontWeight: '600' },
+  splitNote: { ...typography.caption, color: colors.textSecondary },
+  splitAmount: { ...typography.body, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
   detailRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingHorizontal: spacing.lg, paddingVertical: spacing.md },
   detailLabel: { ...typography.bodySmall, color: colors.textSecondary },
   detailValue: { ...typography.body, fontWeight: '600' },
@@ -396,11 +638,18 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
     paddingVertical: spacing.sm, backgroundColor: colors.overlayLight,
   },
   receiptOverlayText: { color: '#FFF', fontSize: 12, fontWeight: '600', fontFamily: 'SpaceMono_400Regular' },
+  attachmentGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
+  attachmentTile: { width: '31%' },
+  attachmentThumb: {
+    width: '100%', aspectRatio: 1, borderRadius: borderRadius.md, borderWidth: 2, borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  attachmentPdf: { alignItems: 'center', justifyContent: 'center', backgroundColor: colors.cardTintPink },
+  attachmentAdd: { alignItems: 'center', justifyContent: 'center', borderColor: colors.border + '30', borderStyle: 'dashed' },
+  attachmentName: { fontSize: 10, color: colors.textSecondary, marginTop: 4, fontFamily: 'SpaceMono_400Regular' },
+  attachmentHint: { ...typography.caption, color: colors.textLight, marginTop: spacing.sm },
   tagsSection: { marginTop: spacing.lg },
   tagsRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
   tagChip: { paddingHorizontal: spacing.md, paddingVertical: spacing.xs, borderRadius: borderRadius.full, borderWidth: 1.5 },
   tagChipText: { fontSize: 12, fontWeight: '600', fontFamily: 'SpaceMono_400Regular' },
-  modalBackdrop: { flex: 1, backgroundColor: colors.overlayHeavy, justifyContent: 'center' },
-  modalCloseRow: { position: 'absolute', top: 0, left: spacing.xl, zIndex: 10 },
-  modalImage: { flex: 1, width: '100%' },
 });
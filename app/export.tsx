@@ -1,34 +1,75 @@
 import React, { useState, useMemo } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { useDialog } from '@/contexts/DialogContext';
 import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useCategoryStore } from '@/stores/useCategoryStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { NeuCard, NeuButton, NeuIconButton } from '@/components/ui';
-import { exportToCSV } from '@/services/export';
+import { NeuCard, NeuButton, NeuChip, NeuIconButton } from '@/components/ui';
+import { exportToCSV, exportToQIF } from '@/services/export';
+import { queryExpenses } from '@/services/expenseQueries';
 import { spacing } from '@/lib/theme';
 import { useTheme } from '@/lib/ThemeContext';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
 
+type ExportFormat = 'csv' | 'qif';
+
+const FORMATS: { id: ExportFormat; label: string; title: string; description: string; fields: string }[] = [
+  {
+    id: 'csv',
+    label: 'CSV',
+    title: 'Export to CSV',
+    description: 'Export all your expense data as a CSV file that you can open in Excel, Google Sheets, or any spreadsheet application.',
+    fields: 'Date, Category, Description, Amount, Account, Notes',
+  },
+  {
+    id: 'qif',
+    label: 'QIF',
+    title: 'Export to QIF',
+    description: 'Export your expenses as a QIF file for Quicken, GnuCash, Moneydance and other finance apps.',
+    fields: 'Date, Amount, Payee, Memo, Category path, Split lines, one section per account',
+  },
+];
+
 export default function ExportScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const { colors, typography } = useTheme();
-  const { expenses } = useExpenseStore();
+  const { revision, getExpensesInView, getExpenseCount } = useExpenseStore();
   const { currencySymbol } = useSettingsStore();
+  const { accounts } = useAccountStore();
+  const { categories } = useCategoryStore();
+  const { views } = useSavedViewStore();
   const { showDialog, showError } = useDialog();
   const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const formatInfo = FORMATS.find((f) => f.id === exportFormat) ?? FORMATS[0];
+  // Saved view to export, or null for every expense
+  const [scopeViewId, setScopeViewId] = useState<string | null>(null);
+
+  const scopeView = views.find((v) => v.id === scopeViewId) ?? null;
+  // Every expense is only read from the database once the export starts
+  const viewExpenses = useMemo(
+    () => (scopeView ? getExpensesInView(scopeView) : null),
+    [scopeView, revision, getExpensesInView]
+  );
+  const expenseCount = useMemo(
+    () => viewExpenses?.length ?? getExpenseCount(),
+    [viewExpenses, revision, getExpenseCount]
+  );
 
   const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
 
   const handleExport = async () => {
-    if (expenses.length === 0) {
+    if (expenseCount === 0) {
       showDialog({
         title: 'No Data',
-        message: 'There are no expenses to export.',
+        message: scopeView ? 'No expenses match this view.' : 'There are no expenses to export.',
         icon: 'information-outline',
         iconColor: colors.blue,
         buttons: [{ text: 'OK', style: 'default' }],
@@ -37,7 +78,12 @@ export default function ExportScreen() {
     }
     setIsExporting(true);
     try {
-      await exportToCSV(expenses, currencySymbol);
+      const data = viewExpenses ?? queryExpenses();
+      if (exportFormat === 'qif') {
+        await exportToQIF(data, accounts, categories);
+      } else {
+        await exportToCSV(data, currencySymbol, accounts, categories);
+      }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch {
       showError('Error', 'Failed to export data. Please try again.');
@@ -58,30 +104,47 @@ export default function ExportScreen() {
         <View style={styles.infoIconWrap}>
           <MaterialCommunityIcons name="export-variant" size={36} color={colors.blue} />
         </View>
-        <Text style={styles.infoTitle}>Export to CSV</Text>
-        <Text style={styles.infoDesc}>
-          Export all your expense data as a CSV file that you can open in Excel, Google Sheets, or any spreadsheet application.
-        </Text>
+        <Text style={styles.infoTitle}>{formatInfo.title}</Text>
+        <Text style={styles.infoDesc}>{formatInfo.description}</Text>
+        <View style={styles.formatRow}>
+          {FORMATS.map((f) => (
+            <NeuChip key={f.id} label={f.label} selected={exportFormat === f.id} onPress={() => setExportFormat(f.id)} color={colors.blue} size="sm" />
+          ))}
+        </View>
+        {views.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.scopeScroll} contentContainerStyle={styles.scopeRow}>
+            <NeuChip label="All expenses" selected={scopeViewId === null} onPress={() => setScopeViewId(null)} color={colors.blue} size="sm" />
+            {views.map((view) => (
+              <NeuChip
+                key={view.id}
+                label={view.name}
+                icon={<MaterialCommunityIcons name="filter-variant" size={14} color={scopeViewId === view.id ? colors.text : view.color} />}
+                selected={scopeViewId === view.id}
+                onPress={() => setScopeViewId(view.id)}
+                color={view.color}
+                size="sm"
+              />
+            ))}
+          </ScrollView>
+        )}
         <View style={styles.statsRow}>
           <NeuCard style={styles.statCard}>
-            <Text style={styles.statValue}>{expenses.length}</Text>
+            <Text style={styles.statValue}>{expenseCount}</Text>
             <Text style={styles.statLabel}>Expenses</Text>
           </NeuCard>
         </View>
         <Text style={styles.fieldsTitle}>Exported fields:</Text>
-        <Text style={styles.fieldsList}>
-          Date, Category, Description, Amount, Payment Method, Notes
-        </Text>
+        <Text style={styles.fieldsList}>{formatInfo.fields}</Text>
       </NeuCard>
 
       <NeuButton
-        title={isExporting ? 'Exporting...' : 'Export CSV'}
+        title={isExporting ? 'Exporting...' : `Export ${formatInfo.label}`}
         onPress={handleExport}
         variant="primary"
         size="lg"
         fullWidth
         loading={isExporting}
-        disabled={isExporting || expenses.length === 0}
+        disabled={isExporting || expenseCount === 0}
       />
     </View>
   );
@@ -95,6 +158,9 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) => Style
   infoIconWrap: { width: 72, height: 72, borderRadius: 20, backgroundColor: colors.blue + '15', alignItems: 'center', justifyContent: 'center', marginBottom: spacing.md },
   infoTitle: { ...typography.h3, marginBottom: spacing.sm },
   infoDesc: { ...typography.bodySmall, textAlign: 'center', marginBottom: spacing.lg, lineHeight: 22 },
+  formatRow: { flexDirection: 'row', gap: spacing.sm, marginBottom: spacing.lg },
+  scopeScroll: { alignSelf: 'stretch', marginBottom: spacing.lg },
+  scopeRow: { gap: spacing.sm },
   statsRow: { flexDirection: 'row', gap: spacing.md, marginBottom: spacing.lg },
   statCard: { alignItems: 'center', paddingVertical: spacing.md, paddingHorizontal: spacing.xl },
   statValue: { ...typography.h2, color: colors.blue },
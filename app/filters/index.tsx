@@ -0,0 +1,491 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, TextInput, StyleSheet, Pressable, KeyboardAvoidingView, Platform } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { NeuCard, NeuButton, NeuIconButton, NeuChip, NeuSwitch } from '@/components/ui';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useSavedViewStore } from '@/stores/useSavedViewStore';
+import { useCategoryStore } from '@/stores/useCategoryStore';
+import { useTagStore } from '@/stores/useTagStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useTheme } from '@/lib/ThemeContext';
+import { useDialog } from '@/contexts/DialogContext';
+import { spacing, borderRadius, VIEW_COLORS } from '@/lib/theme';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { EMPTY_FILTER, countConditions, createEmptyGroup, isFilterEmpty } from '@/lib/filters';
+import type { AdvancedFilter, Category, FilterCondition, FilterMatch, Tag } from '@/types';
+
+const CONDITION_TYPES: { type: FilterCondition['type']; label: string; icon: string }[] = [
+  { type: 'categories', label: 'Categories', icon: 'shape-outline' },
+  { type: 'tags', label: 'Tags', icon: 'tag-outline' },
+  { type: 'amount', label: 'Amount', icon: 'cash' },
+  { type: 'recurring', label: 'Recurring', icon: 'repeat' },
+  { type: 'hasReceipt', label: 'Receipt', icon: 'receipt' },
+  { type: 'notes', label: 'Notes', icon: 'note-text-outline' },
+];
+
+function createCondition(type: FilterCondition['type']): FilterCondition {
+  switch (type) {
+    case 'categories': return { type, categoryIds: [] };
+    case 'tags': return { type, tagIds: [], mode: 'include' };
+    case 'amount': return { type, min: null, max: null };
+    case 'notes': return { type, text: '' };
+    default: return { type };
+  }
+}
+
+function parseAmount(text: string): number | null {
+  const value = parseFloat(text);
+  return isNaN(value) ? null : value;
+}
+
+function toggleId(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id];
+}
+
+export default function FilterBuilderScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { viewId } = useLocalSearchParams<{ viewId?: string }>();
+  const { colors, typography } = useTheme();
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+  const { showError, showConfirm } = useDialog();
+
+  const filters = useExpenseStore((s) => s.filters);
+  const setFilter = useExpenseStore((s) => s.setFilter);
+  const applyView = useExpenseStore((s) => s.applyView);
+  const { views, addView, updateView, deleteView } = useSavedViewStore();
+  const { categories } = useCategoryStore();
+  const { tags } = useTagStore();
+  const { currencySymbol } = useSettingsStore();
+
+  const editingView = viewId ? views.find((v) => v.id === viewId) : undefined;
+  const [draft, setDraft] = useState<AdvancedFilter>(() => {
+    const initial = editingView?.filter ?? filters.advanced ?? EMPTY_FILTER;
+    return initial.groups.length > 0 ? initial : { ...initial, groups: [createEmptyGroup()] };
+  });
+  const [viewName, setViewName] = useState(editingView?.name ?? '');
+  const [viewColor, setViewColor] = useState<string>(editingView?.color ?? VIEW_COLORS[0]);
+  const [pinned, setPinned] = useState(editingView?.isPinned ?? true);
+  const [keepDates, setKeepDates] = useState(editingView ? editingView.dateFilter !== null : false);
+  const [showSave, setShowSave] = useState(!!editingView);
+
+  const updateGroup = (index: number, patch: Partial<AdvancedFilter['groups'][number]>) => {
+    setDraft((d) => ({ ...d, groups: d.groups.map((g, i) => (i === index ? { ...g, ...patch } : g)) }));
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: FilterCondition) => {
+    const group = draft.groups[groupIndex];
+    updateGroup(groupIndex, { conditions: group.conditions.map((c, i) => (i === conditionIndex ? condition : c)) });
+  };
+
+  const removeCondition = (groupIndex: number, conditionIndex: number) => {
+    const group = draft.groups[groupIndex];
+    updateGroup(groupIndex, { conditions: group.conditions.filter((_, i) => i !== conditionIndex) });
+  };
+
+  const addCondition = (groupIndex: number, type: FilterCondition['type']) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const group = draft.groups[groupIndex];
+    updateGroup(groupIndex, { conditions: [...group.conditions, createCondition(type)] });
+  };
+
+  const addGroup = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft((d) => ({ ...d, groups: [...d.groups, createEmptyGroup()] }));
+  };
+
+  const removeGroup = (index: number) => {
+    setDraft((d) => ({ ...d, groups: d.groups.filter((_, i) => i !== index) }));
+  };
+
+  // Conditions that would match nothing useful are dropped before saving
+  const cleanedDraft = (): AdvancedFilter => ({
+    match: draft.match,
+    groups: draft.groups
+      .map((g) => ({
+        ...g,
+        conditions: g.conditions.filter((c) => {
+          if (c.type === 'categories') return c.categoryIds.length > 0;
+          if (c.type === 'tags') return c.tagIds.length > 0;
+          if (c.type === 'amount') return c.min !== null || c.max !== null;
+          if (c.type === 'notes') return c.text.trim().length > 0;
+          return true;
+        }),
+      }))
+      .filter((g) => g.conditions.length > 0),
+  });
+
+  const validate = (filter: AdvancedFilter): string | null => {
+    for (const group of filter.groups) {
+      for (const c of group.conditions) {
+        if (c.type === 'amount' && c.min !== null && c.max !== null && c.min > c.max) {
+          return 'The minimum amount is larger than the maximum.';
+        }
+      }
+    }
+    return null;
+  };
+
+  const handleApply = () => {
+    const filter = cleanedDraft();
+    const error = validate(filter);
+    if (error) {
+      showError('Check Filter', error);
+      return;
+    }
+    if (editingView) {
+      applyView({ ...editingView, filter });
+    } else {
+      setFilter('advanced', isFilterEmpty(filter) ? null : filter);
+      setFilter('viewId', null);
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.back();
+  };
+
+  const handleClear = () => {
+    setDraft({ match: 'all', groups: [createEmptyGroup()] });
+  };
+
+  const handleSaveView = () => {
+    const filter = cleanedDraft();
+    const error = validate(filter);
+    if (error) {
+      showError('Check Filter', error);
+      return;
+    }
+    if (!viewName.trim()) {
+      showError('Name Required', 'Give this view a name.');
+      return;
+    }
+    if (isFilterEmpty(filter)) {
+      showError('No Conditions', 'Add at least one condition to save a view.');
+      return;
+    }
+    const dateFilter = keepDates ? (editingView?.dateFilter ?? filters.dateFilter) : null;
+    if (editingView) {
+      updateView(editingView.id, { name: viewName, color: viewColor, filter, dateFilter, isPinned: pinned });
+      applyView({ ...editingView, name: viewName, filter, dateFilter });
+    } else {
+      const view = addView({ name: viewName, icon: 'filter-variant', color: viewColor, filter, dateFilter, isPinned: pinned });
+      applyView(view);
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.back();
+  };
+
+  const handleDeleteView = () => {
+    if (!editingView) return;
+    showConfirm({
+      title: 'Delete View',
+      message: `Delete the view "${editingView.name}"? Your expenses are not affected.`,
+      onConfirm: () => {
+        if (filters.viewId === editingView.id) applyView(null);
+        deleteView(editingView.id);
+        router.back();
+      },
+    });
+  };
+
+  const conditionCount = countConditions(cleanedDraft());
+
+  const matchToggle = (value: FilterMatch, onChange: (m: FilterMatch) => void) => (
+    <View style={styles.matchToggle}>
+      {(['all', 'any'] as const).map((m) => (
+        <Pressable key={m} onPress={() => onChange(m)} style={[styles.matchOption, value === m && styles.matchOptionActive]}>
+          <Text style={[styles.matchText, value === m && styles.matchTextActive]}>{m === 'all' ? 'ALL' : 'ANY'}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <NeuIconButton icon="close" onPress={() => router.back()} />
+          <Text style={styles.headerTitle}>{editingView ? 'Edit View' : 'Filters'}</Text>
+          {editingView ? (
+            <NeuIconButton icon="delete-outline" onPress={handleDeleteView} color={colors.error} />
+          ) : (
+            <NeuIconButton icon="filter-remove-outline" onPress={handleClear} />
+          )}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+          {draft.groups.length > 1 && (
+            <View style={styles.rowBetween}>
+              <Text style={styles.sectionLabel}>Match groups</Text>
+              {matchToggle(draft.match, (match) => setDraft((d) => ({ ...d, match })))}
+            </View>
+          )}
+
+          {draft.groups.map((group, groupIndex) => (
+            <View key={groupIndex}>
+              {groupIndex > 0 && (
+                <Text style={styles.joinLabel}>{draft.match === 'all' ? 'AND' : 'OR'}</Text>
+              )}
+              <NeuCard shadow="small" color={colors.cardTintCream} style={styles.groupCard}>
+                <View style={styles.rowBetween}>
+                  <Text style={styles.groupTitle}>Group {groupIndex + 1}</Text>
+                  <View style={styles.groupActions}>
+                    {group.conditions.length > 1 && matchToggle(group.match, (match) => updateGroup(groupIndex, { match }))}
+                    {draft.groups.length > 1 && (
+                      <Pressable onPress={() => removeGroup(groupIndex)} hitSlop={8}>
+                        <MaterialCommunityIcons name="close-circle-outline" size={20} color={colors.textSecondary} />
+                      </Pressable>
+                    )}
+                  </View>
+                </View>
+
+                {group.conditions.map((condition, conditionIndex) => (
+                  <View key={conditionIndex}>
+                    {conditionIndex > 0 && (
+                      <Text style={styles.joinLabelSmall}>{group.match === 'all' ? 'and' : 'or'}</Text>
+                    )}
+                    <ConditionEditor
+                      condition={condition}
+                      onChange={(c) => updateCondition(groupIndex, conditionIndex, c)}
+                      onRemove={() => removeCondition(groupIndex, conditionIndex)}
+                      categories={categories}
+                      tags={tags}
+                      currencySymbol={currencySymbol}
+                      colors={colors}
+                      styles={styles}
+                    />
+                  </View>
+                ))}
+
+                <Text style={styles.addLabel}>Add condition</Text>
+                <View style={styles.chipWrap}>
+                  {CONDITION_TYPES.map((t) => (
+                    <NeuChip
+                      key={t.type}
+                      label={t.label}
+                      icon={<MaterialCommunityIcons name={t.icon as any} size={14} color={colors.textSecondary} />}
+                      onPress={() => addCondition(groupIndex, t.type)}
+                      size="sm"
+                    />
+                  ))}
+                </View>
+              </NeuCard>
+            </View>
+          ))}
+
+          <Pressable onPress={addGroup} style={styles.addGroup}>
+            <MaterialCommunityIcons name="plus" size={16} color={colors.text} />
+            <Text style={styles.addGroupText}>Add group</Text>
+          </Pressable>
+
+          {/* Save as view */}
+          {showSave ? (
+            <NeuCard shadow="small" color={colors.cardTintBlue} style={styles.saveCard}>
+              <Text style={styles.sectionLabel}>{editingView ? 'View' : 'Save as view'}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={viewName}
+                onChangeText={setViewName}
+                placeholder="View name, e.g. Work trips"
+                placeholderTextColor={colors.textLight}
+                maxLength={40}
+              />
+              <View style={styles.colorRow}>
+                {VIEW_COLORS.map((c) => (
+                  <Pressable
+                    key={c}
+                    onPress={() => setViewColor(c)}
+                    style={[styles.colorDot, { backgroundColor: c }, viewColor === c && styles.colorDotSelected]}
+                  />
+                ))}
+              </View>
+              <NeuSwitch value={pinned} onValueChange={setPinned} label="Pin to expenses tab" />
+              <NeuSwitch
+                value={keepDates}
+                onValueChange={setKeepDates}
+                label="Include date range"
+                description="Also switch to the currently selected date preset when the view is used"
+              />
+              <NeuButton title={editingView ? 'Update View' : 'Save View'} onPress={handleSaveView} variant="secondary" fullWidth />
+            </NeuCard>
+          ) : (
+            <Pressable onPress={() => setShowSave(true)} style={styles.saveLink}>
+              <MaterialCommunityIcons name="content-save-outline" size={16} color={colors.blue} />
+              <Text style={styles.saveLinkText}>Save as view…</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + spacing.md }]}>
+          <NeuButton
+            title={conditionCount > 0 ? `Apply ${conditionCount} condition${conditionCount === 1 ? '' : 's'}` : 'Show all'}
+            onPress={handleApply}
+            fullWidth
+          />
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+interface ConditionEditorProps {
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+  categories: Category[];
+  tags: Tag[];
+  currencySymbol: string;
+  colors: ThemeColors;
+  styles: ReturnType<typeof createStyles>;
+}
+
+function ConditionEditor({ condition, onChange, onRemove, categories, tags, currencySymbol, colors, styles }: ConditionEditorProps) {
+  const title = CONDITION_TYPES.find((t) => t.type === condition.type)?.label ?? condition.type;
+
+  return (
+    <View style={styles.condition}>
+      <View style={styles.rowBetween}>
+        <Text style={styles.conditionTitle}>{title}</Text>
+        <Pressable onPress={onRemove} hitSlop={8}>
+          <MaterialCommunityIcons name="close" size={18} color={colors.textSecondary} />
+        </Pressable>
+      </View>
+
+      {condition.type === 'categories' && (
+        <View style={styles.chipWrap}>
+          {categories.map((cat) => (
+            <NeuChip
+              key={cat.id}
+              label={cat.parentId ? `↳ ${cat.name}` : cat.name}
+              icon={<MaterialCommunityIcons name={cat.icon as any} size={14} color={cat.color} />}
+              selected={condition.categoryIds.includes(cat.id)}
+              onPress={() => onChange({ ...condition, categoryIds: toggleId(condition.categoryIds, cat.id) })}
+              color={cat.color}
+              size="sm"
+            />
+          ))}
+        </View>
+      )}
+
+      {condition.type === 'tags' && (
+        <>
+          <View style={styles.chipWrap}>
+            <NeuChip label="Has any of" selected={condition.mode === 'include'} onPress={() => onChange({ ...condition, mode: 'include' })} size="sm" />
+            <NeuChip label="Has none of" selected={condition.mode === 'exclude'} onPress={() => onChange({ ...condition, mode: 'exclude' })} size="sm" />
+          </View>
+          {tags.length === 0 ? (
+            <Text style={styles.hint}>No tags yet.</Text>
+          ) : (
+            <View style={styles.chipWrap}>
+              {tags.map((tag) => (
+                <NeuChip
+                  key={tag.id}
+                  label={tag.name}
+                  icon={<MaterialCommunityIcons name="tag-outline" size={14} color={tag.color} />}
+                  selected={condition.tagIds.includes(tag.id)}
+                  onPress={() => onChange({ ...condition, tagIds: toggleId(condition.tagIds, tag.id) })}
+                  color={tag.color}
+                  size="sm"
+                />
+              ))}
+            </View>
+          )}
+        </>
+      )}
+
+      {condition.type === 'amount' && (
+        <View style={styles.amountRow}>
+          <TextInput
+            style={[styles.textInput, styles.amountInput]}
+            defaultValue={condition.min?.toString() ?? ''}
+            onChangeText={(text) => onChange({ ...condition, min: parseAmount(text) })}
+            placeholder={`Min ${currencySymbol}`}
+            placeholderTextColor={colors.textLight}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.hint}>to</Text>
+          <TextInput
+            style={[styles.textInput, styles.amountInput]}
+            defaultValue={condition.max?.toString() ?? ''}
+            onChangeText={(text) => onChange({ ...condition, max: parseAmount(text) })}
+            placeholder={`Max ${currencySymbol}`}
+            placeholderTextColor={colors.textLight}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      )}
+
+      {condition.type === 'recurring' && <Text style={styles.hint}>Only recurring expenses.</Text>}
+      {condition.type === 'hasReceipt' && <Text style={styles.hint}>Only expenses with a receipt or an attachment.</Text>}
+
+      {condition.type === 'notes' && (
+        <TextInput
+          style={styles.textInput}
+          value={condition.text}
+          onChangeText={(text) => onChange({ ...condition, text })}
+          placeholder="Text the notes contain"
+          placeholderTextColor={colors.textLight}
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.xl,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: { ...typography.h2 },
+    content: { paddingHorizontal: spacing.xl, paddingBottom: 40 },
+    rowBetween: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    sectionLabel: { ...typography.label, marginBottom: spacing.sm },
+    groupCard: { padding: spacing.md, gap: spacing.sm },
+    groupTitle: { ...typography.label },
+    groupActions: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+    joinLabel: { ...typography.label, textAlign: 'center', color: colors.blue, marginVertical: spacing.sm },
+    joinLabelSmall: { ...typography.caption, textAlign: 'center', marginVertical: 2 },
+    matchToggle: {
+      flexDirection: 'row', borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, overflow: 'hidden',
+    },
+    matchOption: { paddingHorizontal: spacing.sm, paddingVertical: 2, backgroundColor: colors.surface },
+    matchOptionActive: { backgroundColor: colors.blue },
+    matchText: { fontSize: 11, fontWeight: '700', color: colors.textSecondary, fontFamily: 'SpaceMono_700Bold' },
+    matchTextActive: { color: '#FFF' },
+    condition: {
+      padding: spacing.sm, gap: spacing.sm, borderWidth: 2, borderColor: colors.border + '20',
+      borderRadius: borderRadius.md, backgroundColor: colors.surface,
+    },
+    conditionTitle: { fontSize: 13, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs },
+    addLabel: { ...typography.caption, marginTop: spacing.xs },
+    hint: { ...typography.caption },
+    amountRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+    amountInput: { flex: 1 },
+    textInput: {
+      paddingHorizontal: spacing.md, paddingVertical: spacing.sm, fontSize: 14, color: colors.text,
+      borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm,
+      backgroundColor: colors.surface, fontFamily: 'SpaceMono_400Regular',
+    },
+    addGroup: {
+      flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 4, marginTop: spacing.md,
+      paddingVertical: spacing.sm, borderWidth: 2, borderStyle: 'dashed', borderColor: colors.border + '40',
+      borderRadius: borderRadius.md,
+    },
+    addGroupText: { fontSize: 13, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    saveCard: { marginTop: spacing.xl, padding: spacing.md, gap: spacing.md },
+    saveLink: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: spacing.xl, alignSelf: 'center' },
+    saveLinkText: { fontSize: 13, fontWeight: '700', color: colors.blue, fontFamily: 'SpaceMono_700Bold' },
+    colorRow: { flexDirection: 'row', gap: spacing.sm },
+    colorDot: { width: 24, height: 24, borderRadius: 12, borderWidth: 2, borderColor: 'transparent' },
+    colorDotSelected: { borderColor: colors.text },
+    footer: { paddingHorizontal: spacing.xl, paddingTop: spacing.md },
+  });
@@ -15,93 +15,145 @@ import { MotiView } from 'moti';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 
-import { NeuCard, NeuButton, NeuIconButton, NeuBadge } from '@/components/ui';
+import { NeuCard, NeuButton, NeuIconButton, NeuBadge, NeuChip, NeuInput, NeuSwitch } from '@/components/ui';
 import { useTheme } from '@/lib/ThemeContext';
-import { spacing, borderRadius } from '@/lib/theme';
+import { spacing, borderRadius, INCOME_SOURCES } from '@/lib/theme';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
 import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useImportProfileStore } from '@/stores/useImportProfileStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { useTagStore } from '@/stores/useTagStore';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useImportBatchStore } from '@/stores/useImportBatchStore';
+import { useDialog } from '@/contexts/DialogContext';
 import {
   parseCSV,
   autoMapColumns,
-  matchCategory,
+  detectCsvFormat,
+  findProfileForFile,
+  headerFingerprint,
+  mapImportRows,
+  mapOfxTransactions,
+  mapQifTransactions,
+  flagTransfers,
+  applyRules,
+  applySuggestions,
+  skipImported,
+  findDuplicates,
   executeImport,
-  parseDate,
-  parseAmount,
+  DATE_FORMATS,
+  type ImportResult,
+  type ImportRow,
 } from '@/services/import';
+import { isOFX, parseOFX } from '@/services/ofx';
+import { isQIF, parseQIF } from '@/services/qif';
+import type { AmountSign, CsvColumnMapping, CsvDelimiter, CsvFormat, ImportBatch, ImportFileKind } from '@/types';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 type Step = 1 | 2 | 3 | 4;
 
-interface ColumnMapping {
-  dateCol: number;
-  amountCol: number;
-  descCol: number;
-  catCol: number;
-}
-
-interface MappedRow {
-  date: Date;
-  amount: number;
-  description: string;
-  categoryId: string;
-  rawCategory: string;
-  categoryMatched: boolean;
-}
+type TransferAction = 'record' | 'skip';
 
 interface ParsedCSV {
   headers: string[];
   rows: string[][];
 }
 
+// ---------------------------------------------------------------------------
+// Format options
+// ---------------------------------------------------------------------------
+const EMPTY_MAPPING: CsvColumnMapping = { dateCol: -1, amountCol: -1, descCol: -1, catCol: -1, debitCol: -1, creditCol: -1 };
+
+const DEFAULT_FORMAT: CsvFormat = {
+  delimiter: ',',
+  headerRow: 0,
+  mapping: EMPTY_MAPPING,
+  dateFormat: null,
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  amountSign: 'all_expenses',
+};
+
+const DELIMITER_OPTIONS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+const NUMBER_FORMAT_OPTIONS: Pick<CsvFormat, 'decimalSeparator' | 'thousandsSeparator'>[] = [
+  { decimalSeparator: '.', thousandsSeparator: ',' },
+  { decimalSeparator: ',', thousandsSeparator: '.' },
+  { decimalSeparator: ',', thousandsSeparator: ' ' },
+  { decimalSeparator: '.', thousandsSeparator: "'" },
+  { decimalSeparator: '.', thousandsSeparator: '' },
+  { decimalSeparator: ',', thousandsSeparator: '' },
+];
+
+const DUPLICATE_WINDOWS = [0, 1, 3, 7];
+const DUPLICATES_PREVIEW = 10;
+const HISTORY_PREVIEW = 5;
+
+const FILE_KIND_ICONS: Record<ImportFileKind, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  csv: 'file-delimited-outline',
+  ofx: 'bank-outline',
+  qif: 'file-document-outline',
+};
+// Learned suggestions below this are left for the user to categorize
+const SUGGESTION_CONFIDENCE = 0.6;
+
+const SIGN_OPTIONS: { value: AmountSign; label: string }[] = [
+  { value: 'all_expenses', label: 'All spending' },
+  { value: 'negative_is_expense', label: 'Negative is spending' },
+  { value: 'positive_is_expense', label: 'Positive is spending' },
+];
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
-function buildMappedRows(
-  parsed: ParsedCSV,
-  mapping: ColumnMapping,
-  categories: ReturnType<typeof useCategoryStore['getState']>['categories'],
-  fallbackCategoryId: string
-): { rows: MappedRow[]; warnings: string[] } {
-  const { headers, rows } = parsed;
-  const mappedRows: MappedRow[] = [];
-  const warnings: string[] = [];
-
-  rows.forEach((row, idx) => {
-    const rawDate = mapping.dateCol >= 0 ? (row[mapping.dateCol] ?? '') : '';
-    const rawAmount = mapping.amountCol >= 0 ? (row[mapping.amountCol] ?? '') : '';
-    const rawDesc = mapping.descCol >= 0 ? (row[mapping.descCol] ?? '') : '';
-    const rawCat = mapping.catCol >= 0 ? (row[mapping.catCol] ?? '') : '';
-
-    const date = parseDate(rawDate);
-    const amount = parseAmount(rawAmount);
-
-    if (!date) {
-      warnings.push(`Row ${idx + 1}: Could not parse date "${rawDate}" — skipped.`);
-      return;
-    }
-    if (amount === null || isNaN(amount)) {
-      warnings.push(`Row ${idx + 1}: Could not parse amount "${rawAmount}" — skipped.`);
-      return;
-    }
+// Copies just the format fields, so a profile's id and name do not leak into
+// the wizard's working state.
+function formatOf(source: CsvFormat): CsvFormat {
+  return {
+    delimiter: source.delimiter,
+    headerRow: source.headerRow,
+    mapping: { ...source.mapping },
+    dateFormat: source.dateFormat,
+    decimalSeparator: source.decimalSeparator,
+    thousandsSeparator: source.thousandsSeparator,
+    amountSign: source.amountSign,
+  };
+}
 
-    const absAmount = Math.abs(amount);
-    const catId = matchCategory(rawCat, categories) ?? fallbackCategoryId;
-    const matched = !!matchCategory(rawCat, categories);
-
-    mappedRows.push({
-      date,
-      amount: absAmount,
-      description: rawDesc || 'Imported expense',
-      categoryId: catId,
-      rawCategory: rawCat,
-      categoryMatched: matched,
-    });
-  });
+function numberFormatLabel(option: Pick<CsvFormat, 'decimalSeparator' | 'thousandsSeparator'>): string {
+  return `1${option.thousandsSeparator}234${option.decimalSeparator}56`;
+}
+
+// "3 expenses and 1 income entry"
+function describeCounts(expenseCount: number, incomeCount: number, transferCount = 0): string {
+  const parts: string[] = [];
+  if (expenseCount > 0 || (incomeCount === 0 && transferCount === 0)) {
+    parts.push(`${expenseCount} expense${expenseCount !== 1 ? 's' : ''}`);
+  }
+  if (incomeCount > 0) parts.push(`${incomeCount} income entr${incomeCount !== 1 ? 'ies' : 'y'}`);
+  if (transferCount > 0) parts.push(`${transferCount} transfer${transferCount !== 1 ? 's' : ''}`);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+}
 
-  return { rows: mappedRows, warnings };
+// "Chase_Activity_20240131.csv" → "Chase Activity"
+function suggestProfileName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\S*\d\S*/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
 
 // ---------------------------------------------------------------------------
@@ -199,7 +251,14 @@ export default function ImportScreen() {
   const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
 
   const { categories } = useCategoryStore();
-  const { loadExpenses } = useExpenseStore();
+  const { loadExpenses, suggestCategories } = useExpenseStore();
+  const { importDuplicateWindowDays, importTransferKeywords, defaultAccountId, updateSetting } = useSettingsStore();
+  const { accounts } = useAccountStore();
+  const { profiles, addProfile, updateProfile, markUsed, deleteProfile } = useImportProfileStore();
+  const { rules } = useRuleStore();
+  const { tags } = useTagStore();
+  const { batches, rollbackBatch } = useImportBatchStore();
+  const { showConfirm, showSuccess } = useDialog();
 
   // Find the "other" / fallback category id
   const fallbackCategoryId = useMemo(() => {
@@ -213,25 +272,172 @@ export default function ImportScreen() {
   // ---- State ----
   const [step, setStep] = useState<Step>(1);
   const [fileName, setFileName] = useState<string>('');
-  const [parsed, setParsed] = useState<ParsedCSV | null>(null);
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    dateCol: -1,
-    amountCol: -1,
-    descCol: -1,
-    catCol: -1,
-  });
-  const [mappedRows, setMappedRows] = useState<MappedRow[]>([]);
+  const [fileKind, setFileKind] = useState<ImportFileKind>('csv');
+  const [fileText, setFileText] = useState<string>('');
+  const [csvFormat, setCsvFormat] = useState<CsvFormat>(DEFAULT_FORMAT);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileDetected, setProfileDetected] = useState(false);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [mappedRows, setMappedRows] = useState<ImportRow[]>([]);
   const [warnings, setWarnings] = useState<string[]>([]);
+  const [alreadyImported, setAlreadyImported] = useState(0);
+  // Flagged duplicates the user chose to import anyway, by row index
+  const [keptRows, setKeptRows] = useState<Set<number>>(new Set());
+  const [showAllDuplicates, setShowAllDuplicates] = useState(false);
+  // Suggested categories the user turned down, by row index
+  const [rejectedSuggestions, setRejectedSuggestions] = useState<Set<number>>(new Set());
+  const [showAllSuggestions, setShowAllSuggestions] = useState(false);
+  // Flagged transfers the user says are ordinary spending or income, by row index
+  const [notTransfers, setNotTransfers] = useState<Set<number>>(new Set());
+  const [transferAction, setTransferAction] = useState<TransferAction>('record');
+  const [transferAccountId, setTransferAccountId] = useState<string | null>(null);
+  const [showAllTransfers, setShowAllTransfers] = useState(false);
+  const [newKeyword, setNewKeyword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isImporting, setIsImporting] = useState(false);
-  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+  const [skippedDuplicates, setSkippedDuplicates] = useState(0);
+  const [skippedTransfers, setSkippedTransfers] = useState(0);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+
+  const { mapping } = csvFormat;
+  const parsed = useMemo<ParsedCSV | null>(
+    () => (fileText ? parseCSV(fileText, { delimiter: csvFormat.delimiter, headerRow: csvFormat.headerRow }) : null),
+    [fileText, csvFormat.delimiter, csvFormat.headerRow]
+  );
+  const activeProfile = profiles.find((p) => p.id === profileId) ?? null;
+
+  // Likely duplicates are skipped unless the user keeps them
+  const duplicates = useMemo(
+    () => (step === 3 ? findDuplicates(mappedRows, importDuplicateWindowDays) : []),
+    [step, mappedRows, importDuplicateWindowDays]
+  );
+  const skippedRows = useMemo(
+    () => new Set(duplicates.filter((d) => !keptRows.has(d.rowIndex)).map((d) => d.rowIndex)),
+    [duplicates, keptRows]
+  );
+  // Money moving between the user's own accounts is recorded as a transfer
+  // or left out, never counted as spending or income
+  const flaggedRows = useMemo(
+    () =>
+      flagTransfers(mappedRows, importTransferKeywords).map((r, i) =>
+        notTransfers.has(i) ? { ...r, isTransfer: false } : r
+      ),
+    [mappedRows, importTransferKeywords, notTransfers]
+  );
+  const transferIndexes = useMemo(
+    () =>
+      flagTransfers(mappedRows, importTransferKeywords).flatMap((r, i) =>
+        r.isTransfer && !skippedRows.has(i) ? [i] : []
+      ),
+    [mappedRows, importTransferKeywords, skippedRows]
+  );
+  const otherAccounts = accounts.filter((a) => a.id !== defaultAccountId);
+  const canRecordTransfers = !!defaultAccountId && otherAccounts.length > 0;
+  const recordTransfers = canRecordTransfers && transferAction === 'record';
+  const transferTarget = otherAccounts.find((a) => a.id === transferAccountId) ?? otherAccounts[0] ?? null;
+  // Rows the file and rules left uncategorized get a category learned from past expenses
+  const suggestedRows = useMemo(
+    () => (step === 3 ? applySuggestions(flaggedRows, suggestCategories, SUGGESTION_CONFIDENCE) : flaggedRows),
+    [step, flaggedRows, suggestCategories]
+  );
+  const suggestionIndexes = useMemo(
+    () => suggestedRows.flatMap((r, i) => (r.confidence !== null && !skippedRows.has(i) ? [i] : [])),
+    [suggestedRows, skippedRows]
+  );
+  const rowsToImport = useMemo(
+    () =>
+      suggestedRows
+        .map((r, i) => (rejectedSuggestions.has(i) ? flaggedRows[i] : r))
+        .filter((r, i) => !skippedRows.has(i) && (recordTransfers || !r.isTransfer)),
+    [suggestedRows, flaggedRows, rejectedSuggestions, skippedRows, recordTransfers]
+  );
+  const transferCount = flaggedRows.filter((r, i) => r.isTransfer && !skippedRows.has(i)).length;
+
+  const toggleTransfer = (rowIndex: number) => {
+    setNotTransfers((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowIndex)) next.delete(rowIndex);
+      else next.add(rowIndex);
+      return next;
+    });
+  };
+
+  const addKeyword = () => {
+    const keyword = newKeyword.trim().toLowerCase();
+    if (keyword && !importTransferKeywords.includes(keyword)) {
+      updateSetting('importTransferKeywords', [...importTransferKeywords, keyword]);
+    }
+    setNewKeyword('');
+  };
+
+  const removeKeyword = (keyword: string) => {
+    updateSetting('importTransferKeywords', importTransferKeywords.filter((k) => k !== keyword));
+  };
+
+  const toggleSuggestion = (rowIndex: number) => {
+    setRejectedSuggestions((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowIndex)) next.delete(rowIndex);
+      else next.add(rowIndex);
+      return next;
+    });
+  };
+
+  const toggleKeep = (rowIndex: number) => {
+    setKeptRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowIndex)) next.delete(rowIndex);
+      else next.add(rowIndex);
+      return next;
+    });
+  };
+
+  const setAllKept = (keep: boolean) => {
+    setKeptRows(keep ? new Set(duplicates.map((d) => d.rowIndex)) : new Set());
+  };
+
+  const setMapping = (update: (m: CsvColumnMapping) => CsvColumnMapping) =>
+    setCsvFormat((f) => ({ ...f, mapping: update(f.mapping) }));
+
+  // A new delimiter or header line changes the columns, so the mapping is
+  // guessed again from the new headers.
+  const changeLayout = (layout: Partial<Pick<CsvFormat, 'delimiter' | 'headerRow'>>) => {
+    const next = { ...csvFormat, ...layout };
+    const { headers } = parseCSV(fileText, { delimiter: next.delimiter, headerRow: next.headerRow });
+    setCsvFormat({ ...next, mapping: autoMapColumns(headers) });
+  };
+
+  const applyProfile = (id: string | null) => {
+    const profile = profiles.find((p) => p.id === id);
+    setProfileId(profile?.id ?? null);
+    setProfileDetected(false);
+    if (profile) {
+      setCsvFormat(formatOf(profile));
+      setProfileName(profile.name);
+    }
+  };
 
   // ---- Handlers ----
   const handlePickFile = async () => {
     setError(null);
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ['text/csv', 'text/comma-separated-values', 'application/csv', 'public.comma-separated-values'],
+        type: [
+          'text/csv',
+          'text/comma-separated-values',
+          'application/csv',
+          'public.comma-separated-values',
+          'application/x-ofx',
+          'application/ofx',
+          'application/vnd.intu.qfx',
+          'application/x-qfx',
+          'application/qif',
+          'application/x-qif',
+          // Android often reports .ofx/.qfx files without a specific type
+          'application/octet-stream',
+        ],
         copyToCacheDirectory: true,
       });
 
@@ -249,7 +455,19 @@ export default function ImportScreen() {
         return;
       }
 
-      const csvData = parseCSV(text);
+      if (isOFX(text)) {
+        loadOfx(text);
+        return;
+      }
+      if (isQIF(text)) {
+        loadQif(text);
+        return;
+      }
+
+      // A saved profile whose header row matches wins over guessing
+      const profile = findProfileForFile(text, profiles);
+      const detected = profile ? formatOf(profile) : detectCsvFormat(text);
+      const csvData = parseCSV(text, { delimiter: detected.delimiter, headerRow: detected.headerRow });
 
       if (csvData.headers.length === 0) {
         setError('Could not parse any columns from the file. Make sure it is a valid CSV.');
@@ -261,9 +479,13 @@ export default function ImportScreen() {
         return;
       }
 
-      const autoMap = autoMapColumns(csvData.headers);
-      setParsed(csvData);
-      setMapping(autoMap);
+      setFileKind('csv');
+      setFileText(text);
+      setCsvFormat(detected);
+      setProfileId(profile?.id ?? null);
+      setProfileDetected(!!profile);
+      setSaveProfile(!profile);
+      setProfileName(profile?.name ?? suggestProfileName(asset.name ?? ''));
       setStep(2);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (e: unknown) {
@@ -272,6 +494,40 @@ export default function ImportScreen() {
     }
   };
 
+  // OFX and QIF files carry their own structure, so there is nothing to map:
+  // straight to the review step, minus anything imported before.
+  const showReview = (kind: ImportFileKind, all: ImportRow[], warns: string[]) => {
+    if (all.length === 0) {
+      setError(warns[0] ?? 'The file contains no transactions.');
+      return;
+    }
+    const { rows, skipped } = skipImported(all);
+    if (rows.length === 0) {
+      setError('Every transaction in this file has already been imported.');
+      return;
+    }
+    setFileKind(kind);
+    setMappedRows(applyRules(rows, rules, categories, tags));
+    setWarnings(warns);
+    setAlreadyImported(skipped);
+    setKeptRows(new Set());
+    setShowAllDuplicates(false);
+    setRejectedSuggestions(new Set());
+    setShowAllSuggestions(false);
+    setNotTransfers(new Set());
+    setShowAllTransfers(false);
+    setStep(3);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const loadOfx = (text: string) => {
+    showReview('ofx', mapOfxTransactions(parseOFX(text), fallbackCategoryId), []);
+  };
+
+  const loadQif = (text: string) => {
+    showReview('qif', mapQifTransactions(parseQIF(text), categories, fallbackCategoryId), []);
+  };
+
   const handleConfirmMapping = () => {
     if (!parsed) return;
     setError(null);
@@ -280,25 +536,41 @@ export default function ImportScreen() {
       setError('Please select a column for Date.');
       return;
     }
-    if (mapping.amountCol < 0) {
-      setError('Please select a column for Amount.');
+    if (mapping.amountCol < 0 && mapping.debitCol < 0 && mapping.creditCol < 0) {
+      setError('Please select a column for Amount, or for Debit and Credit.');
+      return;
+    }
+    if (!profileId && saveProfile && !profileName.trim()) {
+      setError('Enter a name for the profile, or turn off saving.');
       return;
     }
 
-    const { rows: built, warnings: warns } = buildMappedRows(
-      parsed,
-      mapping,
-      categories,
-      fallbackCategoryId
-    );
+    const { rows: built, warnings: warns } = mapImportRows(parsed.rows, csvFormat, categories, fallbackCategoryId);
 
     if (built.length === 0) {
       setError('No valid rows found. Check your column mapping and date/amount formats.');
       return;
     }
 
-    setMappedRows(built);
+    // Remember the settings for the next file with these headers
+    const fingerprint = headerFingerprint(parsed.headers);
+    if (profileId) {
+      updateProfile(profileId, { ...csvFormat, fingerprint });
+      markUsed(profileId);
+    } else if (saveProfile) {
+      const profile = addProfile({ ...csvFormat, name: profileName, fingerprint });
+      setProfileId(profile.id);
+    }
+
+    setMappedRows(applyRules(built, rules, categories, tags));
     setWarnings(warns);
+    setAlreadyImported(0);
+    setKeptRows(new Set());
+    setShowAllDuplicates(false);
+    setRejectedSuggestions(new Set());
+    setShowAllSuggestions(false);
+    setNotTransfers(new Set());
+    setShowAllTransfers(false);
     setStep(3);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   };
@@ -307,9 +579,23 @@ export default function ImportScreen() {
     setError(null);
     setIsImporting(true);
     try {
-      const count = executeImport(mappedRows);
-      setImportedCount(count);
-      loadExpenses();
+      const result = executeImport(
+        rowsToImport,
+        { fileName, fileKind, profileId: fileKind === 'csv' ? profileId : null },
+        useSettingsStore.getState().defaultAccountId,
+        recordTransfers ? (transferTarget?.id ?? null) : null
+      );
+      setImported(result);
+      setSkippedDuplicates(skippedRows.size);
+      setSkippedTransfers(recordTransfers ? 0 : transferCount);
+      if (result.expenses > 0) {
+        loadExpenses();
+        // Rules may have tagged the new expenses
+        useTagStore.getState().loadTags();
+      }
+      if (result.income > 0) useIncomeStore.getState().loadIncome();
+      if (result.transfers > 0) useTransferStore.getState().loadTransfers();
+      if (result.batchId) useImportBatchStore.getState().loadBatches();
       setStep(4);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (e: unknown) {
@@ -323,12 +609,50 @@ export default function ImportScreen() {
   const handleReset = () => {
     setStep(1);
     setFileName('');
-    setParsed(null);
-    setMapping({ dateCol: -1, amountCol: -1, descCol: -1, catCol: -1 });
+    setFileKind('csv');
+    setFileText('');
+    setCsvFormat(DEFAULT_FORMAT);
+    setProfileId(null);
+    setProfileDetected(false);
+    setSaveProfile(true);
+    setProfileName('');
     setMappedRows([]);
     setWarnings([]);
+    setAlreadyImported(0);
+    setKeptRows(new Set());
+    setShowAllDuplicates(false);
+    setRejectedSuggestions(new Set());
+    setShowAllSuggestions(false);
+    setNotTransfers(new Set());
+    setShowAllTransfers(false);
     setError(null);
-    setImportedCount(null);
+    setImported(null);
+    setSkippedDuplicates(0);
+    setSkippedTransfers(0);
+  };
+
+  const handleRollback = (batch: ImportBatch) => {
+    showConfirm({
+      title: 'Undo Import',
+      message: `Delete the ${batch.rowCount} row${batch.rowCount !== 1 ? 's' : ''} imported from "${batch.fileName}" on ${format(batch.importedAt, 'MMM d, yyyy')}? Expenses go to the trash; income and transfers are deleted.`,
+      confirmLabel: 'Undo Import',
+      onConfirm: () => {
+        const removed = rollbackBatch(batch.id);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        showSuccess(
+          'Import Undone',
+          `Removed ${describeCounts(removed.expenses, removed.income, removed.transfers)}.`
+        );
+      },
+    });
+  };
+
+  const handleDeleteProfile = (id: string, name: string) => {
+    showConfirm({
+      title: 'Delete Profile',
+      message: `Delete the import profile "${name}"? Expenses already imported are not affected.`,
+      onConfirm: () => deleteProfile(id),
+    });
   };
 
   // ---- Step indicator ----
@@ -382,13 +706,13 @@ export default function ImportScreen() {
         <View style={styles.iconWrap}>
           <MaterialCommunityIcons name="file-import-outline" size={48} color={colors.blue} />
         </View>
-        <Text style={[typography.h3, styles.cardTitle]}>Import from CSV</Text>
+        <Text style={[typography.h3, styles.cardTitle]}>Import Transactions</Text>
         <Text style={[typography.bodySmall, styles.cardDesc]}>
-          Select a CSV file exported from your bank, another expense app, or a spreadsheet.
-          The file must contain at least a date column and an amount column.
+          Select a CSV, OFX, QFX or QIF file exported from your bank, another finance app, or a spreadsheet.
+          A CSV file must contain at least a date column and an amount column.
         </Text>
         <NeuButton
-          title="Choose CSV File"
+          title="Choose File"
           onPress={handlePickFile}
           variant="secondary"
           size="lg"
@@ -401,10 +725,79 @@ export default function ImportScreen() {
         <View style={styles.tipRow}>
           <MaterialCommunityIcons name="lightbulb-outline" size={20} color={colors.accent} />
           <Text style={[typography.bodySmall, styles.tipText]}>
-            Supported formats: Bank exports, Ledgr CSV exports, Excel/Google Sheets saved as CSV.
+            Supported formats: Bank exports (CSV, OFX, QFX), QIF files from Quicken and similar apps, Ledgr
+            CSV exports, Excel/Google Sheets saved as CSV.
+            Transactions already imported from an OFX file are skipped.
           </Text>
         </View>
       </NeuCard>
+
+      {profiles.length > 0 && (
+        <NeuCard style={styles.stepCard}>
+          <Text style={[typography.h3, { marginBottom: spacing.xs }]}>Saved Profiles</Text>
+          <Text style={[typography.bodySmall, { marginBottom: spacing.md, color: colors.textSecondary }]}>
+            Files whose header row matches a profile are read with its settings automatically.
+          </Text>
+          {profiles.map((profile, i) => (
+            <View key={profile.id}>
+              {i > 0 && <View style={styles.divider} />}
+              <View style={styles.profileRow}>
+                <MaterialCommunityIcons name="bank-outline" size={18} color={colors.textSecondary} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[typography.body, { fontWeight: '700' }]} numberOfLines={1}>
+                    {profile.name}
+                  </Text>
+                  <Text style={[typography.caption, { color: colors.textSecondary }]}>
+                    {profile.lastUsedAt ? `Last used ${format(profile.lastUsedAt, 'MMM d, yyyy')}` : 'Never used'}
+                  </Text>
+                </View>
+                <Pressable onPress={() => handleDeleteProfile(profile.id, profile.name)} hitSlop={8}>
+                  <MaterialCommunityIcons name="trash-can-outline" size={20} color={colors.error} />
+                </Pressable>
+              </View>
+            </View>
+          ))}
+        </NeuCard>
+      )}
+
+      {batches.length > 0 && (
+        <NeuCard style={styles.stepCard}>
+          <Text style={[typography.h3, { marginBottom: spacing.xs }]}>Import History</Text>
+          <Text style={[typography.bodySmall, { marginBottom: spacing.md, color: colors.textSecondary }]}>
+            Undo an import to remove exactly the rows it added.
+          </Text>
+          {(showAllHistory ? batches : batches.slice(0, HISTORY_PREVIEW)).map((batch, i) => {
+            const profile = profiles.find((p) => p.id === batch.profileId);
+            return (
+              <View key={batch.id}>
+                {i > 0 && <View style={styles.divider} />}
+                <View style={styles.profileRow}>
+                  <MaterialCommunityIcons name={FILE_KIND_ICONS[batch.fileKind]} size={18} color={colors.textSecondary} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[typography.body, { fontWeight: '700' }]} numberOfLines={1}>
+                      {batch.fileName}
+                    </Text>
+                    <Text style={[typography.caption, { color: colors.textSecondary }]} numberOfLines={1}>
+                      {format(batch.importedAt, 'MMM d, yyyy')} · {batch.rowCount} row{batch.rowCount !== 1 ? 's' : ''}
+                      {profile ? ` · ${profile.name}` : ''}
+                    </Text>
+                  </View>
+                  <Pressable onPress={() => handleRollback(batch)} hitSlop={8}>
+                    <MaterialCommunityIcons name="undo-variant" size={20} color={colors.error} />
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })}
+          {batches.length > HISTORY_PREVIEW && (
+            <Pressable onPress={() => setShowAllHistory((v) => !v)} hitSlop={8}>
+              <Text style={[typography.caption, { color: colors.blue, fontWeight: '700', marginTop: spacing.sm }]}>
+                {showAllHistory ? 'Show fewer' : `Show all ${batches.length}`}
+              </Text>
+            </Pressable>
+          )}
+        </NeuCard>
+      )}
     </MotiView>
   );
 
@@ -432,6 +825,149 @@ export default function ImportScreen() {
           </View>
         </NeuCard>
 
+        {/* Profile */}
+        <NeuCard style={styles.stepCard} color={activeProfile ? colors.cardTintBlue : undefined}>
+          {activeProfile ? (
+            <>
+              <View style={styles.profileRow}>
+                <MaterialCommunityIcons name="bank-check" size={20} color={colors.blue} />
+                <Text style={[typography.body, { flex: 1, fontWeight: '700' }]} numberOfLines={1}>
+                  {activeProfile.name}
+                </Text>
+                <NeuButton title="Don't use" onPress={() => applyProfile(null)} variant="outline" size="sm" />
+              </View>
+              <Text style={[typography.bodySmall, { marginTop: spacing.sm, color: colors.textSecondary }]}>
+                {profileDetected ? 'Recognised from the header row. ' : ''}
+                Changes below are saved to this profile.
+              </Text>
+            </>
+          ) : (
+            <>
+              <NeuSwitch
+                value={saveProfile}
+                onValueChange={setSaveProfile}
+                label="Save as import profile"
+                description="Next time a file with these headers is picked, these settings are used."
+              />
+              {saveProfile && (
+                <NeuInput
+                  label="PROFILE NAME"
+                  value={profileName}
+                  onChangeText={setProfileName}
+                  placeholder="e.g. Chase Checking"
+                  containerStyle={{ marginTop: spacing.md, marginBottom: 0 }}
+                />
+              )}
+              {profiles.length > 0 && (
+                <>
+                  <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>OR USE A SAVED PROFILE</Text>
+                  <View style={styles.chipWrap}>
+                    {profiles.map((p) => (
+                      <NeuChip key={p.id} label={p.name} size="sm" onPress={() => applyProfile(p.id)} />
+                    ))}
+                  </View>
+                </>
+              )}
+            </>
+          )}
+        </NeuCard>
+
+        {/* File format */}
+        <NeuCard style={styles.stepCard}>
+          <Text style={[typography.h3, { marginBottom: spacing.md }]}>File Format</Text>
+
+          <Text style={styles.optionLabel}>DELIMITER</Text>
+          <View style={styles.chipWrap}>
+            {DELIMITER_OPTIONS.map((o) => (
+              <NeuChip
+                key={o.label}
+                label={o.label}
+                size="sm"
+                selected={csvFormat.delimiter === o.value}
+                onPress={() => changeLayout({ delimiter: o.value })}
+              />
+            ))}
+          </View>
+
+          <View style={[styles.profileRow, { marginTop: spacing.md }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.optionLabel}>HEADER ROW</Text>
+              <Text style={[typography.caption, { color: colors.textSecondary }]}>
+                {csvFormat.headerRow === 0
+                  ? 'First line of the file'
+                  : `Line ${csvFormat.headerRow + 1}, after ${csvFormat.headerRow} skipped`}
+              </Text>
+            </View>
+            <Pressable
+              onPress={() => changeLayout({ headerRow: Math.max(0, csvFormat.headerRow - 1) })}
+              hitSlop={8}
+              style={pickerStyles(colors).arrowBtn}
+            >
+              <MaterialCommunityIcons name="minus" size={18} color={colors.text} />
+            </Pressable>
+            <Pressable
+              onPress={() => changeLayout({ headerRow: csvFormat.headerRow + 1 })}
+              hitSlop={8}
+              style={pickerStyles(colors).arrowBtn}
+            >
+              <MaterialCommunityIcons name="plus" size={18} color={colors.text} />
+            </Pressable>
+          </View>
+
+          <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>DATE FORMAT</Text>
+          <View style={styles.chipWrap}>
+            <NeuChip
+              label="Auto"
+              size="sm"
+              selected={csvFormat.dateFormat === null}
+              onPress={() => setCsvFormat((f) => ({ ...f, dateFormat: null }))}
+            />
+            {DATE_FORMATS.map((fmt) => (
+              <NeuChip
+                key={fmt}
+                label={fmt}
+                size="sm"
+                selected={csvFormat.dateFormat === fmt}
+                onPress={() => setCsvFormat((f) => ({ ...f, dateFormat: fmt }))}
+              />
+            ))}
+          </View>
+
+          <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>NUMBER FORMAT</Text>
+          <View style={styles.chipWrap}>
+            {NUMBER_FORMAT_OPTIONS.map((o) => (
+              <NeuChip
+                key={numberFormatLabel(o)}
+                label={numberFormatLabel(o)}
+                size="sm"
+                selected={
+                  csvFormat.decimalSeparator === o.decimalSeparator &&
+                  csvFormat.thousandsSeparator === o.thousandsSeparator
+                }
+                onPress={() => setCsvFormat((f) => ({ ...f, ...o }))}
+              />
+            ))}
+          </View>
+
+          <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>AMOUNTS</Text>
+          <View style={styles.chipWrap}>
+            {SIGN_OPTIONS.map((o) => (
+              <NeuChip
+                key={o.value}
+                label={o.label}
+                size="sm"
+                selected={csvFormat.amountSign === o.value}
+                onPress={() => setCsvFormat((f) => ({ ...f, amountSign: o.value }))}
+              />
+            ))}
+          </View>
+          {csvFormat.amountSign !== 'all_expenses' && (
+            <Text style={[typography.caption, { marginTop: spacing.xs, color: colors.textSecondary }]}>
+              Rows with the opposite sign are money coming in and are imported as income.
+            </Text>
+          )}
+        </NeuCard>
+
         {/* Column mapping */}
         <NeuCard style={styles.stepCard}>
           <Text style={[typography.h3, { marginBottom: spacing.md }]}>Map Columns</Text>
@@ -449,13 +985,38 @@ export default function ImportScreen() {
           />
           <View style={styles.divider} />
           <ColumnPicker
-            label="AMOUNT *"
+            label="AMOUNT"
             colIndex={mapping.amountCol}
             headers={parsed.headers}
             onChange={(v) => setMapping((m) => ({ ...m, amountCol: v }))}
             colors={colors}
             typography={typography}
           />
+          <Text style={[typography.caption, { marginBottom: spacing.sm, color: colors.textSecondary }]}>
+            Statements without a single amount column can use Debit and Credit instead.
+          </Text>
+          {mapping.amountCol < 0 && (
+            <>
+              <View style={styles.divider} />
+              <ColumnPicker
+                label="DEBIT (MONEY OUT)"
+                colIndex={mapping.debitCol}
+                headers={parsed.headers}
+                onChange={(v) => setMapping((m) => ({ ...m, debitCol: v }))}
+                colors={colors}
+                typography={typography}
+              />
+              <View style={styles.divider} />
+              <ColumnPicker
+                label="CREDIT (MONEY IN)"
+                colIndex={mapping.creditCol}
+                headers={parsed.headers}
+                onChange={(v) => setMapping((m) => ({ ...m, creditCol: v }))}
+                colors={colors}
+                typography={typography}
+              />
+            </>
+          )}
           <View style={styles.divider} />
           <ColumnPicker
             label="DESCRIPTION"
@@ -510,8 +1071,16 @@ export default function ImportScreen() {
 
   // ---- Step 3: Preview mapped data ----
   const renderStep3 = () => {
-    const previewRows = mappedRows.slice(0, 5);
-    const unmatchedCount = mappedRows.filter((r) => !r.categoryMatched && r.rawCategory).length;
+    const previewRows = rowsToImport.slice(0, 5);
+    const unmatchedCount = rowsToImport.filter((r) => r.kind === 'expense' && !r.categoryMatched && r.rawCategory).length;
+    const ruleCount = rowsToImport.filter((r) => r.ruleId !== null).length;
+    const suggestedCount = rowsToImport.filter((r) => r.confidence !== null).length;
+    const visibleSuggestions = showAllSuggestions ? suggestionIndexes : suggestionIndexes.slice(0, DUPLICATES_PREVIEW);
+    const importedTransfers = rowsToImport.filter((r) => r.isTransfer).length;
+    const incomeCount = rowsToImport.filter((r) => r.kind === 'income' && !r.isTransfer).length;
+    const expenseCount = rowsToImport.length - incomeCount - importedTransfers;
+    const visibleTransfers = showAllTransfers ? transferIndexes : transferIndexes.slice(0, DUPLICATES_PREVIEW);
+    const visibleDuplicates = showAllDuplicates ? duplicates : duplicates.slice(0, DUPLICATES_PREVIEW);
 
     return (
       <MotiView
@@ -523,15 +1092,51 @@ export default function ImportScreen() {
         <NeuCard color={colors.cardTintBlue} style={styles.summaryCard}>
           <View style={styles.summaryRow}>
             <View style={styles.summaryItem}>
-              <Text style={[typography.h2, { color: colors.blue }]}>{mappedRows.length}</Text>
+              <Text style={[typography.h2, { color: colors.blue }]}>{expenseCount}</Text>
               <Text style={typography.caption}>Expenses</Text>
             </View>
+            {incomeCount > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.green }]}>{incomeCount}</Text>
+                <Text style={typography.caption}>Income</Text>
+              </View>
+            )}
+            {skippedRows.size > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.orange }]}>{skippedRows.size}</Text>
+                <Text style={typography.caption}>Duplicates</Text>
+              </View>
+            )}
+            {alreadyImported > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.textSecondary }]}>{alreadyImported}</Text>
+                <Text style={typography.caption}>Already Imported</Text>
+              </View>
+            )}
             {warnings.length > 0 && (
               <View style={styles.summaryItem}>
                 <Text style={[typography.h2, { color: colors.warning }]}>{warnings.length}</Text>
                 <Text style={typography.caption}>Skipped</Text>
               </View>
             )}
+            {transferCount > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.blue }]}>{transferCount}</Text>
+                <Text style={typography.caption}>Transfers</Text>
+              </View>
+            )}
+            {ruleCount > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.purple }]}>{ruleCount}</Text>
+                <Text style={typography.caption}>By Rules</Text>
+              </View>
+            )}
+            {suggestedCount > 0 && (
+              <View style={styles.summaryItem}>
+                <Text style={[typography.h2, { color: colors.purple }]}>{suggestedCount}</Text>
+                <Text style={typography.caption}>Suggested</Text>
+              </View>
+            )}
             {unmatchedCount > 0 && (
               <View style={styles.summaryItem}>
                 <Text style={[typography.h2, { color: colors.orange }]}>{unmatchedCount}</Text>
@@ -561,12 +1166,259 @@ export default function ImportScreen() {
           </NeuCard>
         )}
 
+        {/* Possible duplicates */}
+        {duplicates.length > 0 && (
+          <NeuCard color={colors.cardTintOrange} style={styles.stepCard}>
+            <View style={styles.warnHeader}>
+              <MaterialCommunityIcons name="content-duplicate" size={18} color={colors.orange} />
+              <Text style={[typography.label, { flex: 1, fontSize: 11, color: colors.orange, marginLeft: spacing.xs }]}>
+                {duplicates.length} possible duplicate{duplicates.length !== 1 ? 's' : ''}
+              </Text>
+              <Pressable onPress={() => setAllKept(skippedRows.size > 0)} hitSlop={8}>
+                <Text style={[typography.caption, { color: colors.blue, fontWeight: '700' }]}>
+                  {skippedRows.size > 0 ? 'Keep all' : 'Skip all'}
+                </Text>
+              </Pressable>
+            </View>
+            <Text style={[typography.bodySmall, styles.warnText]}>
+              Same amount, a similar description and dated close together. Tap a row to keep or skip it.
+            </Text>
+
+            <Text style={[styles.optionLabel, { marginTop: spacing.xs }]}>DATES WITHIN</Text>
+            <View style={[styles.chipWrap, { marginBottom: spacing.md }]}>
+              {DUPLICATE_WINDOWS.map((days) => (
+                <NeuChip
+                  key={days}
+                  label={days === 0 ? 'Same day' : `${days} day${days !== 1 ? 's' : ''}`}
+                  size="sm"
+                  selected={importDuplicateWindowDays === days}
+                  onPress={() => updateSetting('importDuplicateWindowDays', days)}
+                />
+              ))}
+            </View>
+
+            {visibleDuplicates.map((d) => {
+              const row = mappedRows[d.rowIndex];
+              const skip = skippedRows.has(d.rowIndex);
+              return (
+                <Pressable key={d.rowIndex} onPress={() => toggleKeep(d.rowIndex)} style={styles.duplicateRow}>
+                  <MaterialCommunityIcons
+                    name={skip ? 'close-circle-outline' : 'check-circle'}
+                    size={22}
+                    color={skip ? colors.textLight : colors.green}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <View style={styles.previewTop}>
+                      <Text
+                        style={[typography.bodySmall, { flex: 1, fontWeight: '700' }, skip && styles.skippedText]}
+                        numberOfLines={1}
+                      >
+                        {row.description}
+                      </Text>
+                      <Text style={[typography.bodySmall, { fontWeight: '700' }, skip && styles.skippedText]}>
+                        {row.amount.toFixed(2)}
+                      </Text>
+                    </View>
+                    <Text style={[typography.caption, { color: colors.textSecondary }]} numberOfLines={2}>
+                      {format(row.date, 'MMM d')} ·{' '}
+                      {d.source === 'existing'
+                        ? `Matches "${d.description}" on ${format(d.date, 'MMM d, yyyy')}`
+                        : `Repeats "${d.description}" earlier in this file`}
+                    </Text>
+                  </View>
+                  <Text style={[typography.caption, { fontWeight: '700', color: skip ? colors.textLight : colors.green }]}>
+                    {skip ? 'SKIP' : 'KEEP'}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            {duplicates.length > DUPLICATES_PREVIEW && (
+              <Pressable onPress={() => setShowAllDuplicates((v) => !v)} hitSlop={8}>
+                <Text style={[typography.caption, { color: colors.blue, fontWeight: '700', marginTop: spacing.sm }]}>
+                  {showAllDuplicates ? 'Show fewer' : `Show all ${duplicates.length}`}
+                </Text>
+              </Pressable>
+            )}
+          </NeuCard>
+        )}
+
+        {/* Transfers between own accounts */}
+        {transferIndexes.length > 0 && (
+          <NeuCard color={colors.cardTintTeal} style={styles.stepCard}>
+            <View style={styles.warnHeader}>
+              <MaterialCommunityIcons name="swap-horizontal" size={18} color={colors.blue} />
+              <Text style={[typography.label, { flex: 1, fontSize: 11, color: colors.blue, marginLeft: spacing.xs }]}>
+                {transferIndexes.length} likely transfer{transferIndexes.length !== 1 ? 's' : ''}
+              </Text>
+            </View>
+            <Text style={[typography.bodySmall, styles.warnText]}>
+              Money moving between your own accounts is not spending or income. Tap a row to import it normally.
+            </Text>
+
+            <View style={[styles.chipWrap, { marginTop: spacing.xs }]}>
+              <NeuChip
+                label="Record as transfers"
+                size="sm"
+                selected={recordTransfers}
+                onPress={() => canRecordTransfers && setTransferAction('record')}
+              />
+              <NeuChip
+                label="Skip them"
+                size="sm"
+                selected={!recordTransfers}
+                onPress={() => setTransferAction('skip')}
+              />
+            </View>
+            {!canRecordTransfers && (
+              <Text style={[typography.caption, { marginTop: spacing.xs, color: colors.textSecondary }]}>
+                Set a default account and add a second one to record transfers.
+              </Text>
+            )}
+            {recordTransfers && (
+              <>
+                <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>OTHER ACCOUNT</Text>
+                <View style={styles.chipWrap}>
+                  {otherAccounts.map((a) => (
+                    <NeuChip
+                      key={a.id}
+                      label={a.name}
+                      size="sm"
+                      color={a.color}
+                      selected={transferTarget?.id === a.id}
+                      onPress={() => setTransferAccountId(a.id)}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <View style={{ marginTop: spacing.md }}>
+              {visibleTransfers.map((i) => {
+                const row = mappedRows[i];
+                const normal = notTransfers.has(i);
+                return (
+                  <Pressable key={i} onPress={() => toggleTransfer(i)} style={styles.duplicateRow}>
+                    <MaterialCommunityIcons
+                      name={normal ? 'close-circle-outline' : 'check-circle'}
+                      size={22}
+                      color={normal ? colors.textLight : colors.blue}
+                    />
+                    <View style={{ flex: 1 }}>
+                      <View style={styles.previewTop}>
+                        <Text
+                          style={[typography.bodySmall, { flex: 1, fontWeight: '700' }, normal && styles.skippedText]}
+                          numberOfLines={1}
+                        >
+                          {row.description}
+                        </Text>
+                        <Text style={[typography.bodySmall, { fontWeight: '700' }, normal && styles.skippedText]}>
+                          {row.kind === 'income' ? '+' : ''}
+                          {row.amount.toFixed(2)}
+                        </Text>
+                      </View>
+                      <Text style={[typography.caption, { color: colors.textSecondary }]}>
+                        {format(row.date, 'MMM d')} · {row.kind === 'income' ? 'Money in' : 'Money out'}
+                      </Text>
+                    </View>
+                    <Text style={[typography.caption, { fontWeight: '700', color: normal ? colors.textLight : colors.blue }]}>
+                      {normal ? 'NORMAL' : 'TRANSFER'}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            {transferIndexes.length > DUPLICATES_PREVIEW && (
+              <Pressable onPress={() => setShowAllTransfers((v) => !v)} hitSlop={8}>
+                <Text style={[typography.caption, { color: colors.blue, fontWeight: '700', marginTop: spacing.sm }]}>
+                  {showAllTransfers ? 'Show fewer' : `Show all ${transferIndexes.length}`}
+                </Text>
+              </Pressable>
+            )}
+
+            <Text style={[styles.optionLabel, { marginTop: spacing.md }]}>TRANSFER KEYWORDS</Text>
+            <View style={styles.chipWrap}>
+              {importTransferKeywords.map((k) => (
+                <NeuChip
+                  key={k}
+                  label={k}
+                  size="sm"
+                  icon={<MaterialCommunityIcons name="close" size={12} color={colors.text} />}
+                  onPress={() => removeKeyword(k)}
+                />
+              ))}
+            </View>
+            <View style={styles.keywordRow}>
+              <NeuInput
+                placeholder="Add a keyword"
+                value={newKeyword}
+                onChangeText={setNewKeyword}
+                onSubmitEditing={addKeyword}
+                autoCapitalize="none"
+                containerStyle={{ flex: 1, marginBottom: 0 }}
+              />
+              <NeuIconButton icon="plus" onPress={addKeyword} disabled={!newKeyword.trim()} />
+            </View>
+          </NeuCard>
+        )}
+
+        {/* Suggested categories */}
+        {suggestionIndexes.length > 0 && (
+          <NeuCard color={colors.cardTintPurple} style={styles.stepCard}>
+            <View style={styles.warnHeader}>
+              <MaterialCommunityIcons name="lightbulb-on-outline" size={18} color={colors.purple} />
+              <Text style={[typography.label, { flex: 1, fontSize: 11, color: colors.purple, marginLeft: spacing.xs }]}>
+                {suggestionIndexes.length} suggested categor{suggestionIndexes.length !== 1 ? 'ies' : 'y'}
+              </Text>
+            </View>
+            <Text style={[typography.bodySmall, styles.warnText]}>
+              Learned from your past expenses. Tap a row to import it uncategorized instead.
+            </Text>
+
+            {visibleSuggestions.map((i) => {
+              const row = suggestedRows[i];
+              const cat = categories.find((c) => c.id === row.categoryId);
+              const rejected = rejectedSuggestions.has(i);
+              return (
+                <Pressable key={i} onPress={() => toggleSuggestion(i)} style={styles.duplicateRow}>
+                  <MaterialCommunityIcons
+                    name={rejected ? 'close-circle-outline' : 'check-circle'}
+                    size={22}
+                    color={rejected ? colors.textLight : colors.purple}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text
+                      style={[typography.bodySmall, { fontWeight: '700' }, rejected && styles.skippedText]}
+                      numberOfLines={1}
+                    >
+                      {row.description}
+                    </Text>
+                    <Text style={[typography.caption, { color: colors.textSecondary }]} numberOfLines={1}>
+                      {cat?.name ?? 'Unknown'} · {Math.round((row.confidence ?? 0) * 100)}% sure
+                    </Text>
+                  </View>
+                  <Text style={[typography.caption, { fontWeight: '700', color: rejected ? colors.textLight : colors.purple }]}>
+                    {rejected ? 'SKIP' : 'USE'}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            {suggestionIndexes.length > DUPLICATES_PREVIEW && (
+              <Pressable onPress={() => setShowAllSuggestions((v) => !v)} hitSlop={8}>
+                <Text style={[typography.caption, { color: colors.blue, fontWeight: '700', marginTop: spacing.sm }]}>
+                  {showAllSuggestions ? 'Show fewer' : `Show all ${suggestionIndexes.length}`}
+                </Text>
+              </Pressable>
+            )}
+          </NeuCard>
+        )}
+
         {/* Preview rows */}
         <Text style={[typography.label, { fontSize: 11, marginBottom: spacing.sm }]}>
           Preview (first 5)
         </Text>
         {previewRows.map((row, i) => {
           const cat = useCategoryStore.getState().categories.find((c) => c.id === row.categoryId);
+          const source = row.kind === 'income' ? INCOME_SOURCES.find((src) => src.id === row.source) : undefined;
           return (
             <MotiView
               key={i}
@@ -579,7 +1431,13 @@ export default function ImportScreen() {
                   <Text style={[typography.body, { flex: 1 }]} numberOfLines={1}>
                     {row.description}
                   </Text>
-                  <Text style={[typography.body, { color: colors.secondary, fontWeight: '700' }]}>
+                  <Text
+                    style={[
+                      typography.body,
+                      { color: row.kind === 'income' ? colors.green : colors.secondary, fontWeight: '700' },
+                    ]}
+                  >
+                    {row.kind === 'income' ? '+' : ''}
                     {row.amount.toFixed(2)}
                   </Text>
                 </View>
@@ -587,9 +1445,30 @@ export default function ImportScreen() {
                   <Text style={[typography.caption, { color: colors.textSecondary }]}>
                     {format(row.date, 'MMM d, yyyy')}
                   </Text>
-                  {cat ? (
+                  {row.isTransfer ? (
+                    <NeuBadge
+                      label="Transfer"
+                      color={colors.cardTintTeal}
+                      textColor={colors.blue}
+                      size="sm"
+                    />
+                  ) : source ? (
                     <NeuBadge
-                      label={cat.name}
+                      label={source.label}
+                      color={source.color + '40'}
+                      textColor={source.color}
+                      size="sm"
+                    />
+                  ) : row.splits.length > 0 ? (
+                    <NeuBadge
+                      label={`Split · ${row.splits.length}`}
+                      color={colors.cardTintBlue}
+                      textColor={colors.blue}
+                      size="sm"
+                    />
+                  ) : cat ? (
+                    <NeuBadge
+                      label={row.confidence !== null ? `${cat.name} · ${Math.round(row.confidence * 100)}%` : cat.name}
                       color={cat.color + '40'}
                       textColor={cat.color}
                       size="sm"
@@ -608,26 +1487,26 @@ export default function ImportScreen() {
           );
         })}
 
-        {mappedRows.length > 5 && (
+        {rowsToImport.length > 5 && (
           <Text style={[typography.caption, styles.moreText]}>
-            +{mappedRows.length - 5} more expenses will be imported
+            +{rowsToImport.length - 5} more will be imported
           </Text>
         )}
 
         <NeuButton
-          title={`Import ${mappedRows.length} Expense${mappedRows.length !== 1 ? 's' : ''}`}
+          title={`Import ${describeCounts(expenseCount, incomeCount, importedTransfers)}`}
           onPress={handleImport}
           variant="primary"
           size="lg"
           fullWidth
           loading={isImporting}
-          disabled={isImporting || mappedRows.length === 0}
+          disabled={isImporting || rowsToImport.length === 0}
           icon={<MaterialCommunityIcons name="database-import-outline" size={18} color={colors.text} />}
           style={{ marginTop: spacing.md }}
         />
         <NeuButton
           title="Back"
-          onPress={() => setStep(2)}
+          onPress={() => (fileKind === 'csv' ? setStep(2) : handleReset())}
           variant="outline"
           size="md"
           fullWidth
@@ -638,45 +1517,65 @@ export default function ImportScreen() {
   };
 
   // ---- Step 4: Done ----
-  const renderStep4 = () => (
-    <MotiView
-      from={{ opacity: 0, scale: 0.9 }}
-      animate={{ opacity: 1, scale: 1 }}
-      transition={{ type: 'spring', stiffness: 200, damping: 20 }}
-    >
-      <NeuCard color={colors.cardTintGreen} style={styles.doneCard}>
-        <View style={styles.doneIconWrap}>
-          <MaterialCommunityIcons name="check-circle-outline" size={64} color={colors.green} />
-        </View>
-        <Text style={[typography.h2, { marginBottom: spacing.sm, textAlign: 'center' }]}>
-          Import Complete!
-        </Text>
-        <Text style={[typography.body, { textAlign: 'center', color: colors.textSecondary, marginBottom: spacing.lg }]}>
-          Successfully imported{' '}
-          <Text style={{ color: colors.green, fontWeight: '700' }}>
-            {importedCount} expense{importedCount !== 1 ? 's' : ''}
-          </Text>{' '}
-          into Ledgr.
-        </Text>
+  const renderStep4 = () => {
+    const skipped = [
+      { count: skippedDuplicates, one: 'likely duplicate', many: 'likely duplicates' },
+      { count: alreadyImported, one: 'already imported', many: 'already imported' },
+      { count: skippedTransfers, one: 'transfer', many: 'transfers' },
+      { count: warnings.length, one: 'unreadable row', many: 'unreadable rows' },
+    ].filter((s) => s.count > 0);
 
-        <NeuButton
-          title="Done"
-          onPress={() => router.back()}
-          variant="primary"
-          size="lg"
-          fullWidth
-          style={{ marginBottom: spacing.sm }}
-        />
-        <NeuButton
-          title="Import Another File"
-          onPress={handleReset}
-          variant="outline"
-          size="md"
-          fullWidth
-        />
-      </NeuCard>
-    </MotiView>
-  );
+    return (
+      <MotiView
+        from={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ type: 'spring', stiffness: 200, damping: 20 }}
+      >
+        <NeuCard color={colors.cardTintGreen} style={styles.doneCard}>
+          <View style={styles.doneIconWrap}>
+            <MaterialCommunityIcons name="check-circle-outline" size={64} color={colors.green} />
+          </View>
+          <Text style={[typography.h2, { marginBottom: spacing.sm, textAlign: 'center' }]}>
+            Import Complete!
+          </Text>
+          <Text style={[typography.body, { textAlign: 'center', color: colors.textSecondary, marginBottom: spacing.lg }]}>
+            Successfully imported{' '}
+            <Text style={{ color: colors.green, fontWeight: '700' }}>
+              {describeCounts(imported?.expenses ?? 0, imported?.income ?? 0, imported?.transfers ?? 0)}
+            </Text>{' '}
+            into Ledgr.
+          </Text>
+
+          {skipped.length > 0 && (
+            <View style={styles.skippedSummary}>
+              <Text style={[styles.optionLabel, { textAlign: 'center' }]}>SKIPPED</Text>
+              {skipped.map((s) => (
+                <Text key={s.one} style={[typography.bodySmall, { textAlign: 'center', color: colors.textSecondary }]}>
+                  {s.count} {s.count === 1 ? s.one : s.many}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <NeuButton
+            title="Done"
+            onPress={() => router.back()}
+            variant="primary"
+            size="lg"
+            fullWidth
+            style={{ marginBottom: spacing.sm }}
+          />
+          <NeuButton
+            title="Import Another File"
+            onPress={handleReset}
+            variant="outline"
+            size="md"
+            fullWidth
+          />
+        </NeuCard>
+      </MotiView>
+    );
+  };
 
   // ---- Render ----
   return (
@@ -684,7 +1583,7 @@ export default function ImportScreen() {
       {/* Header */}
       <View style={styles.headerRow}>
         <NeuIconButton icon="close" onPress={() => router.back()} />
-        <Text style={styles.headerTitle}>Import CSV</Text>
+        <Text style={styles.headerTitle}>Import</Text>
         <View style={{ width: 44 }} />
       </View>
 
@@ -842,6 +1741,29 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
       alignItems: 'center',
       gap: spacing.sm,
     },
+    profileRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+      paddingVertical: spacing.xs,
+    },
+    optionLabel: {
+      ...typography.label,
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginBottom: spacing.sm,
+    },
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: spacing.sm,
+    },
+    keywordRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+      marginTop: spacing.sm,
+    },
     divider: {
       height: 1,
       backgroundColor: colors.border + '30',
@@ -869,7 +1791,9 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
     },
     summaryRow: {
       flexDirection: 'row',
+      flexWrap: 'wrap',
       justifyContent: 'space-around',
+      rowGap: spacing.md,
     },
     summaryItem: {
       alignItems: 'center',
@@ -888,6 +1812,20 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
       lineHeight: 18,
     },
 
+    // Duplicates
+    duplicateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+      paddingVertical: spacing.sm,
+      borderTopWidth: 1,
+      borderTopColor: colors.border + '20',
+    },
+    skippedText: {
+      color: colors.textLight,
+      textDecorationLine: 'line-through',
+    },
+
     // Preview rows
     previewRow: {
       marginBottom: spacing.sm,
@@ -914,6 +1852,11 @@ const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
       alignItems: 'center',
       marginBottom: spacing.lg,
     },
+    skippedSummary: {
+      alignSelf: 'stretch',
+      gap: spacing.xs,
+      marginBottom: spacing.lg,
+    },
     doneIconWrap: {
       marginBottom: spacing.lg,
     },
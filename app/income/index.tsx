@@ -2,6 +2,7 @@ import { NeuCard, NeuChip, NeuEmptyState, NeuIconButton } from '@/components/ui'
 import { useTheme } from '@/lib/ThemeContext';
 import { INCOME_SOURCES, borderRadius, spacing } from '@/lib/theme';
 import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { sumMoney } from '@/lib/money';
 import { useIncomeStore } from '@/stores/useIncomeStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useDialog } from '@/contexts/DialogContext';
@@ -37,7 +38,7 @@ export default function IncomeListScreen() {
     return incomes.filter((i) => i.date >= start && i.date <= end);
   }, [incomes, period]);
 
-  const total = useMemo(() => filtered.reduce((s, i) => s + i.amount, 0), [filtered]);
+  const total = useMemo(() => sumMoney(filtered, (i) => i.amount), [filtered]);
 
   const getSourceMeta = (source: string) =>
     INCOME_SOURCES.find((s) => s.id === source) ?? INCOME_SOURCES[INCOME_SOURCES.length - 1];
@@ -10,11 +10,14 @@ import { NeuCard, NeuButton, NeuIconButton, NeuProgressBar } from '@/components/
 import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useIncomeStore } from '@/stores/useIncomeStore';
 import { useBudgetStore } from '@/stores/useBudgetStore';
+import { useCategoryStore } from '@/stores/useCategoryStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useGamificationStore } from '@/stores/useGamificationStore';
 import { useTheme } from '@/lib/ThemeContext';
 import { spacing, borderRadius } from '@/lib/theme';
 import type { ThemeColors, ThemeTypography, ThemeBorders } from '@/lib/theme';
+import { addMoney, sumMoney } from '@/lib/money';
+import { getCategoryAmounts } from '@/lib/splits';
 
 let captureRef: any = null;
 try {
@@ -34,6 +37,7 @@ export default function ReportScreen() {
   const { expenses } = useExpenseStore();
   const { getMonthlyTotal: getMonthlyIncome } = useIncomeStore();
   const { getOverallBudgetProgress } = useBudgetStore();
+  const { categories } = useCategoryStore();
   const { formatAmount } = useSettingsStore();
   const { streak, currentLevel, xpData } = useGamificationStore();
 
@@ -49,7 +53,7 @@ export default function ReportScreen() {
   );
 
   const totalExpenses = useMemo(
-    () => monthlyExpenses.reduce((sum, e) => sum + e.amount, 0),
+    () => sumMoney(monthlyExpenses, (e) => e.amount),
     [monthlyExpenses],
   );
 
@@ -65,22 +69,23 @@ export default function ReportScreen() {
 
   const topCategories = useMemo(() => {
     const categoryMap: Record<string, { name: string; icon: string; color: string; total: number }> = {};
-    for (const expense of monthlyExpenses) {
-      const catId = expense.categoryId;
+    for (const line of monthlyExpenses.flatMap(getCategoryAmounts)) {
+      const catId = line.categoryId;
       if (!categoryMap[catId]) {
+        const cat = categories.find((c) => c.id === catId);
         categoryMap[catId] = {
-          name: expense.category.name,
-          icon: expense.category.icon,
-          color: expense.category.color,
+          name: cat?.name ?? 'Unknown',
+          icon: cat?.icon ?? 'cube-outline',
+          color: cat?.color ?? '#9CA3AF',
           total: 0,
         };
       }
-      categoryMap[catId].total += expense.amount;
+      categoryMap[catId].total = addMoney(categoryMap[catId].total, line.amount);
     }
     return Object.values(categoryMap)
       .sort((a, b) => b.total - a.total)
       .slice(0, 3);
-  }, [monthlyExpenses]);
+  }, [monthlyExpenses, categories]);
 
   const budgetProgress = useMemo(() => getOverallBudgetProgress(), [getOverallBudgetProgress]);
 
@@ -0,0 +1,403 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useDialog } from '@/contexts/DialogContext';
+import { useCategoryStore } from '@/stores/useCategoryStore';
+import { useRuleStore } from '@/stores/useRuleStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useTagStore } from '@/stores/useTagStore';
+import { NeuCard, NeuButton, NeuIconButton, NeuChip, NeuInput, NeuSwitch, NeuEmptyState } from '@/components/ui';
+import { isValidPattern } from '@/services/rules';
+import { spacing, borderRadius } from '@/lib/theme';
+import { useTheme } from '@/lib/ThemeContext';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import type { CategoryRule, RuleMatchType } from '@/types';
+
+interface RuleDraft {
+  matchType: RuleMatchType;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  categoryId: string;
+  tagIds: string[];
+}
+
+const EMPTY_DRAFT: RuleDraft = { matchType: 'contains', pattern: '', minAmount: '', maxAmount: '', categoryId: '', tagIds: [] };
+
+const MATCH_TYPES: { id: RuleMatchType; label: string }[] = [
+  { id: 'contains', label: 'Contains' },
+  { id: 'regex', label: 'Regex' },
+];
+
+function draftFromRule(rule: CategoryRule): RuleDraft {
+  return {
+    matchType: rule.matchType,
+    pattern: rule.pattern,
+    minAmount: rule.minAmount?.toString() ?? '',
+    maxAmount: rule.maxAmount?.toString() ?? '',
+    categoryId: rule.categoryId,
+    tagIds: rule.tagIds,
+  };
+}
+
+// Empty means no bound; anything else must be a non-negative number.
+function parseBound(raw: string): number | null | undefined {
+  const text = raw.trim().replace(',', '.');
+  if (!text) return null;
+  const value = Number(text);
+  return isNaN(value) || value < 0 ? undefined : value;
+}
+
+export default function RulesScreen() {
+  const { colors, typography } = useTheme();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  // Set when opened from an expense's "Create Rule"
+  const params = useLocalSearchParams<{ pattern?: string; categoryId?: string; tagIds?: string }>();
+  const { rules, addRule, updateRule, moveRule, deleteRule } = useRuleStore();
+  const { categories } = useCategoryStore();
+  const { tags } = useTagStore();
+  const { applyRulesOnManualEntry, updateSetting, formatAmount } = useSettingsStore();
+  const { showError, showConfirm } = useDialog();
+
+  const [showEditor, setShowEditor] = useState(false);
+  // Rule being edited; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  useEffect(() => {
+    if (!params.pattern) return;
+    setDraft({
+      ...EMPTY_DRAFT,
+      pattern: params.pattern,
+      categoryId: params.categoryId ?? '',
+      tagIds: params.tagIds ? params.tagIds.split(',') : [],
+    });
+    setEditingId(null);
+    setShowEditor(true);
+  }, [params.pattern, params.categoryId, params.tagIds]);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const openEditor = (rule: CategoryRule | null) => {
+    setDraft(rule ? draftFromRule(rule) : { ...EMPTY_DRAFT, categoryId: categories[0]?.id ?? '' });
+    setEditingId(rule?.id ?? null);
+    setShowEditor(true);
+  };
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = () => {
+    if (!draft.pattern.trim()) {
+      showError('Error', 'Enter the text to look for in the description.');
+      return;
+    }
+    if (!isValidPattern(draft.matchType, draft.pattern)) {
+      showError('Invalid Pattern', 'This regular expression cannot be read. Check for unbalanced brackets or parentheses.');
+      return;
+    }
+    const minAmount = parseBound(draft.minAmount);
+    const maxAmount = parseBound(draft.maxAmount);
+    if (minAmount === undefined || maxAmount === undefined) {
+      showError('Error', 'Amounts must be positive numbers, or left empty.');
+      return;
+    }
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      showError('Error', 'The minimum amount is larger than the maximum.');
+      return;
+    }
+    if (!categories.some((c) => c.id === draft.categoryId)) {
+      showError('Error', 'Choose a category for matching expenses.');
+      return;
+    }
+
+    const data = {
+      matchType: draft.matchType,
+      pattern: draft.pattern,
+      minAmount,
+      maxAmount,
+      categoryId: draft.categoryId,
+      tagIds: draft.tagIds.filter((id) => tags.some((t) => t.id === id)),
+    };
+    if (editingId) updateRule(editingId, data);
+    else addRule(data);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    closeEditor();
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    showConfirm({
+      title: 'Delete Rule',
+      message: `Delete the rule for "${rule.pattern}"? Expenses it already categorized are not changed.`,
+      onConfirm: () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        if (editingId === rule.id) closeEditor();
+        deleteRule(rule.id);
+      },
+    });
+  };
+
+  const handleMove = (id: string, direction: -1 | 1) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    moveRule(id, direction);
+  };
+
+  const describeAmount = (rule: CategoryRule): string | null => {
+    if (rule.minAmount !== null && rule.maxAmount !== null) {
+      return `${formatAmount(rule.minAmount)} – ${formatAmount(rule.maxAmount)}`;
+    }
+    if (rule.minAmount !== null) return `${formatAmount(rule.minAmount)} or more`;
+    if (rule.maxAmount !== null) return `Up to ${formatAmount(rule.maxAmount)}`;
+    return null;
+  };
+
+  const renderEditor = () => (
+    <MotiView from={{ opacity: 0, translateY: -20 }} animate={{ opacity: 1, translateY: 0 }} transition={{ type: 'timing', duration: 300 }}>
+      <NeuCard color={colors.cardTintCream} style={styles.editorCard}>
+        <Text style={styles.editorTitle}>{editingId ? 'Edit Rule' : 'New Rule'}</Text>
+
+        <Text style={styles.pickerLabel}>Description</Text>
+        <View style={styles.chipRow}>
+          {MATCH_TYPES.map((type) => (
+            <NeuChip
+              key={type.id}
+              label={type.label}
+              size="sm"
+              selected={draft.matchType === type.id}
+              onPress={() => updateDraft({ matchType: type.id })}
+            />
+          ))}
+        </View>
+        <NeuInput
+          value={draft.pattern}
+          onChangeText={(pattern) => updateDraft({ pattern })}
+          placeholder={draft.matchType === 'regex' ? '^(UBER|LYFT)\\b' : 'STARBUCKS'}
+          autoCapitalize="none"
+          autoCorrect={false}
+          error={draft.pattern && !isValidPattern(draft.matchType, draft.pattern) ? 'Not a valid regular expression' : undefined}
+        />
+
+        <View style={styles.amountRow}>
+          <NeuInput
+            label="Min Amount"
+            value={draft.minAmount}
+            onChangeText={(minAmount) => updateDraft({ minAmount })}
+            placeholder="Any"
+            keyboardType="decimal-pad"
+            containerStyle={styles.amountInput}
+          />
+          <NeuInput
+            label="Max Amount"
+            value={draft.maxAmount}
+            onChangeText={(maxAmount) => updateDraft({ maxAmount })}
+            placeholder="Any"
+            keyboardType="decimal-pad"
+            containerStyle={styles.amountInput}
+          />
+        </View>
+
+        <Text style={styles.pickerLabel}>Category</Text>
+        <View style={styles.chipRow}>
+          {categories.map((cat) => (
+            <NeuChip
+              key={cat.id}
+              label={cat.name}
+              size="sm"
+              color={cat.color}
+              selected={draft.categoryId === cat.id}
+              onPress={() => updateDraft({ categoryId: cat.id })}
+              icon={<MaterialCommunityIcons name={cat.icon as any} size={14} color={cat.color} />}
+            />
+          ))}
+        </View>
+
+        {tags.length > 0 && (
+          <>
+            <Text style={styles.pickerLabel}>Tags</Text>
+            <View style={styles.chipRow}>
+              {tags.map((tag) => {
+                const selected = draft.tagIds.includes(tag.id);
+                return (
+                  <NeuChip
+                    key={tag.id}
+                    label={tag.name}
+                    size="sm"
+                    color={tag.color}
+                    selected={selected}
+                    onPress={() =>
+                      updateDraft({
+                        tagIds: selected ? draft.tagIds.filter((id) => id !== tag.id) : [...draft.tagIds, tag.id],
+                      })
+                    }
+                  />
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        <View style={styles.editorActions}>
+          <NeuButton title="Cancel" onPress={closeEditor} variant="outline" size="sm" />
+          <NeuButton title={editingId ? 'Save Rule' : 'Add Rule'} onPress={handleSave} variant="primary" size="sm" />
+        </View>
+      </NeuCard>
+    </MotiView>
+  );
+
+  const renderRule = (rule: CategoryRule, index: number) => {
+    const category = categories.find((c) => c.id === rule.categoryId);
+    const ruleTags = tags.filter((t) => rule.tagIds.includes(t.id));
+    const amount = describeAmount(rule);
+    return (
+      <MotiView
+        key={rule.id}
+        from={{ opacity: 0, translateX: -20 }}
+        animate={{ opacity: 1, translateX: 0 }}
+        transition={{ type: 'timing', duration: 300, delay: index * 50 }}
+      >
+        <NeuCard style={[styles.ruleCard, !rule.isEnabled && styles.ruleDisabled]}>
+          <Pressable onPress={() => openEditor(rule)} style={styles.ruleRow}>
+            <Text style={styles.ruleOrder}>{index + 1}</Text>
+            <View style={styles.ruleInfo}>
+              <Text style={styles.rulePattern} numberOfLines={1}>
+                {rule.matchType === 'regex' ? `/${rule.pattern}/` : `"${rule.pattern}"`}
+              </Text>
+              {amount && <Text style={styles.ruleMeta}>{amount}</Text>}
+              <View style={styles.ruleTarget}>
+                <MaterialCommunityIcons name="arrow-right" size={14} color={colors.textSecondary} />
+                {category ? (
+                  <>
+                    <MaterialCommunityIcons name={category.icon as any} size={14} color={category.color} />
+                    <Text style={styles.ruleCategory} numberOfLines={1}>{category.name}</Text>
+                  </>
+                ) : (
+                  <Text style={[styles.ruleCategory, { color: colors.error }]}>Category deleted</Text>
+                )}
+                {ruleTags.map((tag) => (
+                  <View key={tag.id} style={[styles.tagChip, { backgroundColor: tag.color + '20', borderColor: tag.color }]}>
+                    <Text style={[styles.tagChipText, { color: tag.color }]}>{tag.name}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          </Pressable>
+          <View style={styles.ruleActions}>
+            <NeuSwitch value={rule.isEnabled} onValueChange={(isEnabled) => updateRule(rule.id, { isEnabled })} />
+            <View style={{ flex: 1 }} />
+            <NeuIconButton
+              icon="arrow-up"
+              onPress={() => handleMove(rule.id, -1)}
+              size={16}
+              disabled={index === 0}
+              style={styles.actionBtn}
+            />
+            <NeuIconButton
+              icon="arrow-down"
+              onPress={() => handleMove(rule.id, 1)}
+              size={16}
+              disabled={index === rules.length - 1}
+              style={styles.actionBtn}
+            />
+            <NeuIconButton
+              icon="delete-outline"
+              onPress={() => handleDelete(rule)}
+              size={16}
+              bgColor={colors.secondary + '20'}
+              color={colors.secondary}
+              style={styles.actionBtn}
+            />
+          </View>
+        </NeuCard>
+      </MotiView>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { paddingTop: insets.top }]}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.headerRow}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>Rules</Text>
+        <NeuIconButton
+          icon="plus"
+          onPress={() => (showEditor ? closeEditor() : openEditor(null))}
+          bgColor={colors.primary}
+          color={colors.onPrimary}
+        />
+      </View>
+
+      <NeuCard style={styles.settingCard}>
+        <NeuSwitch
+          value={applyRulesOnManualEntry}
+          onValueChange={(value) => updateSetting('applyRulesOnManualEntry', value)}
+          label="Use when adding expenses"
+          description="Rules always run on imports. When on, they also pick the category and tags as you type a description."
+        />
+      </NeuCard>
+
+      {showEditor && renderEditor()}
+
+      {rules.length > 0 ? (
+        <>
+          <Text style={styles.hint}>Rules are tried from the top; the first one that matches wins.</Text>
+          {rules.map(renderRule)}
+        </>
+      ) : (
+        !showEditor && (
+          <NeuEmptyState
+            icon="auto-fix"
+            title="No Rules Yet"
+            description='Rules categorize expenses by their description, like "STARBUCKS" → Coffee.'
+            actionTitle="Add Rule"
+            onAction={() => openEditor(null)}
+          />
+        )
+      )}
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  content: { paddingHorizontal: spacing.xl },
+  headerRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm, marginBottom: spacing.xl, gap: spacing.md },
+  headerTitle: { ...typography.h2, flex: 1 },
+  settingCard: { marginBottom: spacing.lg },
+  editorCard: { marginBottom: spacing.lg },
+  editorTitle: { ...typography.h3, marginBottom: spacing.md },
+  pickerLabel: { ...typography.label, marginBottom: spacing.sm },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs, marginBottom: spacing.md },
+  amountRow: { flexDirection: 'row', gap: spacing.sm },
+  amountInput: { flex: 1 },
+  editorActions: { flexDirection: 'row', gap: spacing.sm, justifyContent: 'flex-end' },
+  hint: { ...typography.caption, color: colors.textSecondary, marginBottom: spacing.sm },
+  ruleCard: { marginBottom: spacing.sm },
+  ruleDisabled: { opacity: 0.5 },
+  ruleRow: { flexDirection: 'row', alignItems: 'flex-start', gap: spacing.md },
+  ruleOrder: { ...typography.h3, color: colors.textLight, width: 24, textAlign: 'center' },
+  ruleInfo: { flex: 1 },
+  rulePattern: { ...typography.body, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+  ruleMeta: { ...typography.caption, color: colors.textSecondary, marginTop: 2 },
+  ruleTarget: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: spacing.xs, marginTop: spacing.xs },
+  ruleCategory: { ...typography.bodySmall, fontWeight: '600' },
+  tagChip: { paddingHorizontal: spacing.sm, paddingVertical: 2, borderRadius: borderRadius.sm, borderWidth: 1.5 },
+  tagChipText: { fontSize: 11, fontWeight: '700' },
+  ruleActions: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm, marginTop: spacing.md },
+  actionBtn: { width: 36, height: 36 },
+});
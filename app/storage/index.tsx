@@ -0,0 +1,187 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { NeuCard, NeuButton, NeuChip, NeuIconButton } from '@/components/ui';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useTheme } from '@/lib/ThemeContext';
+import { useDialog } from '@/contexts/DialogContext';
+import { spacing } from '@/lib/theme';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { formatBytes } from '@/lib/files';
+import {
+  clearReceiptsOlderThan,
+  countReceiptsOlderThan,
+  deleteOrphanedFiles,
+  getStorageUsage,
+} from '@/services/storage';
+import type { StorageGroup } from '@/services/storage';
+
+const AGE_OPTIONS = [3, 6, 12, 24];
+
+function describeGroup(group: StorageGroup): string {
+  return `${group.count} file${group.count === 1 ? '' : 's'} · ${formatBytes(group.bytes)}`;
+}
+
+export default function StorageScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  const { loadExpenses } = useExpenseStore();
+  const { showConfirm, showSuccess } = useDialog();
+
+  const [usage, setUsage] = useState(getStorageUsage);
+  const [months, setMonths] = useState(12);
+  // Recounted after each clear, which also refreshes `usage`
+  const oldReceiptCount = useMemo(() => countReceiptsOlderThan(months), [months, usage]);
+
+  const refresh = useCallback(() => setUsage(getStorageUsage()), []);
+
+  const total = usage.receipts.bytes + usage.attachments.bytes + usage.trash.bytes + usage.orphans.bytes;
+
+  const rows: { icon: string; label: string; group: StorageGroup; color: string }[] = [
+    { icon: 'receipt', label: 'Receipts', group: usage.receipts, color: colors.blue },
+    { icon: 'paperclip', label: 'Attachments', group: usage.attachments, color: colors.purple },
+    { icon: 'delete-restore', label: 'In trash', group: usage.trash, color: colors.orange },
+    { icon: 'file-question-outline', label: 'Orphaned', group: usage.orphans, color: colors.secondary },
+  ];
+
+  const handleDeleteOrphans = () => {
+    showConfirm({
+      title: 'Delete Orphaned Files',
+      message: `${describeGroup(usage.orphans)} belong to no expense and will be deleted.`,
+      confirmLabel: 'Delete',
+      onConfirm: () => {
+        const removed = deleteOrphanedFiles();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        refresh();
+        showSuccess('Files Deleted', `Removed ${removed} orphaned file${removed === 1 ? '' : 's'}.`);
+      },
+    });
+  };
+
+  const handleClearOldReceipts = () => {
+    showConfirm({
+      title: 'Clear Old Receipts',
+      message: `Delete the receipt photos of ${oldReceiptCount} expense${oldReceiptCount === 1 ? '' : 's'} older than ${months} months? The expenses and their attachments are kept. This cannot be undone.`,
+      confirmLabel: 'Clear',
+      onConfirm: () => {
+        const cleared = clearReceiptsOlderThan(months);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        loadExpenses();
+        refresh();
+        showSuccess('Receipts Cleared', `Removed ${cleared} receipt${cleared === 1 ? '' : 's'}.`);
+      },
+    });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>Storage</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Usage */}
+        <NeuCard color={colors.cardTintBlue} style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Receipts & files</Text>
+          <Text style={styles.totalValue}>{formatBytes(total)}</Text>
+          <Text style={styles.hint}>
+            New receipt photos are scaled down and saved as JPEG to keep this small.
+          </Text>
+        </NeuCard>
+
+        <NeuCard padded={false} style={styles.card}>
+          {rows.map((row, index) => (
+            <View key={row.label}>
+              {index > 0 && <View style={styles.divider} />}
+              <View style={styles.usageRow}>
+                <MaterialCommunityIcons name={row.icon as any} size={20} color={row.color} />
+                <Text style={styles.usageLabel}>{row.label}</Text>
+                <Text style={styles.usageValue}>{describeGroup(row.group)}</Text>
+              </View>
+            </View>
+          ))}
+        </NeuCard>
+
+        {/* Orphaned files */}
+        {usage.orphans.count > 0 && (
+          <NeuCard style={styles.card}>
+            <Text style={styles.cardTitle}>Orphaned files</Text>
+            <Text style={styles.hint}>
+              These files are not linked to any expense, usually receipts picked for an expense that was
+              never saved.
+            </Text>
+            <NeuButton
+              title={`Delete ${usage.orphans.count} file${usage.orphans.count === 1 ? '' : 's'}`}
+              onPress={handleDeleteOrphans}
+              variant="outline"
+              size="sm"
+              fullWidth
+              icon={<MaterialCommunityIcons name="broom" size={16} color={colors.text} />}
+            />
+          </NeuCard>
+        )}
+
+        {/* Old receipts */}
+        <NeuCard style={styles.card}>
+          <Text style={styles.cardTitle}>Clear old receipts</Text>
+          <Text style={styles.hint}>Remove receipt photos from expenses older than:</Text>
+          <View style={styles.chipRow}>
+            {AGE_OPTIONS.map((option) => (
+              <NeuChip
+                key={option}
+                label={`${option} months`}
+                selected={months === option}
+                onPress={() => setMonths(option)}
+                color={colors.blue}
+                size="sm"
+              />
+            ))}
+          </View>
+          <NeuButton
+            title={oldReceiptCount > 0 ? `Clear ${oldReceiptCount} receipt${oldReceiptCount === 1 ? '' : 's'}` : 'No receipts that old'}
+            onPress={handleClearOldReceipts}
+            variant="danger"
+            size="sm"
+            fullWidth
+            disabled={oldReceiptCount === 0}
+          />
+        </NeuCard>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.xl,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: { ...typography.h2 },
+    headerSpacer: { width: 44 },
+    content: { paddingHorizontal: spacing.xl, paddingBottom: 60 },
+    hint: { ...typography.caption, marginBottom: spacing.md },
+    totalCard: { marginBottom: spacing.md },
+    totalLabel: { ...typography.label, color: colors.textSecondary },
+    totalValue: { ...typography.amount, marginVertical: spacing.xs },
+    card: { marginBottom: spacing.md },
+    cardTitle: { ...typography.body, fontWeight: '700', marginBottom: spacing.xs },
+    usageRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md, paddingHorizontal: spacing.lg, paddingVertical: spacing.md },
+    usageLabel: { ...typography.body, fontWeight: '600', flex: 1 },
+    usageValue: { ...typography.bodySmall, color: colors.textSecondary },
+    divider: { height: 1, backgroundColor: colors.border + '15', marginHorizontal: spacing.lg },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.md },
+  });
@@ -0,0 +1,173 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, Pressable, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useDialog } from '@/contexts/DialogContext';
+import { useAccountStore } from '@/stores/useAccountStore';
+import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
+import { useDebtStore } from '@/stores/useDebtStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { NeuCard, NeuButton, NeuIconButton, NeuInput } from '@/components/ui';
+import { spacing, borderRadius } from '@/lib/theme';
+import { useTheme } from '@/lib/ThemeContext';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import type { TransferEndpoint, TransferEndpointType } from '@/types';
+
+interface EndpointOption extends TransferEndpoint {
+  name: string;
+  icon: string;
+  color: string;
+}
+
+const GROUP_LABELS: Record<TransferEndpointType, string> = {
+  account: 'Accounts',
+  goal: 'Savings Goals',
+  debt: 'Debts',
+};
+
+export default function TransferScreen() {
+  const { colors, typography } = useTheme();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { accounts } = useAccountStore();
+  const { goals } = useSavingsGoalStore();
+  const { debts } = useDebtStore();
+  const { addTransfer } = useTransferStore();
+  const { currencySymbol, defaultAccountId } = useSettingsStore();
+  const { showError } = useDialog();
+
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [from, setFrom] = useState<TransferEndpoint | null>(
+    defaultAccountId ? { type: 'account', id: defaultAccountId } : null
+  );
+  const [to, setTo] = useState<TransferEndpoint | null>(null);
+
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  const options = useMemo((): EndpointOption[] => [
+    ...accounts.map((a) => ({ type: 'account' as const, id: a.id, name: a.name, icon: a.icon, color: a.color })),
+    ...goals.map((g) => ({ type: 'goal' as const, id: g.id, name: g.title, icon: g.icon, color: g.color })),
+    ...debts.map((d) => ({ type: 'debt' as const, id: d.id, name: d.name, icon: d.icon, color: d.color })),
+  ], [accounts, goals, debts]);
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      showError('Invalid Amount', 'Please enter an amount greater than 0.');
+      return;
+    }
+    if (!from || !to) {
+      showError('Missing Details', 'Choose where the money comes from and where it goes.');
+      return;
+    }
+    if (from.type === to.type && from.id === to.id) {
+      showError('Same Source', 'The source and destination must be different.');
+      return;
+    }
+    addTransfer({ amount: value, date: new Date(), from, to, description: description.trim() });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    router.back();
+  };
+
+  const renderPicker = (selected: TransferEndpoint | null, onSelect: (e: TransferEndpoint) => void) => (
+    (['account', 'goal', 'debt'] as TransferEndpointType[]).map((type) => {
+      const group = options.filter((o) => o.type === type);
+      if (group.length === 0) return null;
+      return (
+        <View key={type}>
+          <Text style={styles.groupLabel}>{GROUP_LABELS[type]}</Text>
+          <View style={styles.chipRow}>
+            {group.map((o) => {
+              const isSelected = selected?.type === o.type && selected.id === o.id;
+              return (
+                <Pressable
+                  key={`${o.type}-${o.id}`}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    onSelect({ type: o.type, id: o.id });
+                  }}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                >
+                  <MaterialCommunityIcons name={o.icon as any} size={14} color={isSelected ? colors.text : o.color} />
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]} numberOfLines={1}>{o.name}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      );
+    })
+  );
+
+  return (
+    <ScrollView style={[styles.container, { paddingTop: insets.top }]} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View style={styles.headerRow}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>New Transfer</Text>
+      </View>
+
+      <Text style={styles.hint}>Transfers move money between your accounts, savings goals and debts. They are not counted as spending or income.</Text>
+
+      <NeuCard color={colors.cardTintBlue} style={styles.amountCard}>
+        <Text style={styles.amountLabel}>Amount</Text>
+        <View style={styles.amountRow}>
+          <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+          <TextInput
+            style={styles.amountInput}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="0.00"
+            placeholderTextColor={colors.textLight}
+            keyboardType="decimal-pad"
+            autoFocus
+          />
+        </View>
+      </NeuCard>
+
+      <Text style={styles.sectionLabel}>From</Text>
+      {renderPicker(from, setFrom)}
+
+      <Text style={[styles.sectionLabel, { marginTop: spacing.md }]}>To</Text>
+      {renderPicker(to, setTo)}
+
+      <NeuInput
+        label="Note"
+        value={description}
+        onChangeText={setDescription}
+        placeholder="e.g. Card payment"
+        containerStyle={{ marginTop: spacing.md }}
+      />
+
+      <NeuButton title="Save Transfer" onPress={handleSave} variant="primary" size="lg" fullWidth />
+
+      <View style={{ height: 40 }} />
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) => StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  content: { paddingHorizontal: spacing.xl },
+  headerRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm, marginBottom: spacing.md, gap: spacing.md },
+  headerTitle: { ...typography.h2, flex: 1 },
+  hint: { ...typography.caption, color: colors.textSecondary, marginBottom: spacing.lg },
+  amountCard: { marginBottom: spacing.xl, alignItems: 'center' },
+  amountLabel: { ...typography.caption, marginBottom: spacing.sm },
+  amountRow: { flexDirection: 'row', alignItems: 'center' },
+  currencySymbol: { fontSize: 28, fontWeight: '800', color: colors.text, marginRight: spacing.xs, fontFamily: 'SpaceMono_700Bold' },
+  amountInput: { fontSize: 40, fontWeight: '800', color: colors.text, minWidth: 120, textAlign: 'center', fontFamily: 'SpaceMono_700Bold' },
+  sectionLabel: { ...typography.label, marginBottom: spacing.sm },
+  groupLabel: { ...typography.caption, color: colors.textLight, marginBottom: spacing.xs },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.md },
+  chip: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, maxWidth: '100%', paddingHorizontal: spacing.md, paddingVertical: spacing.xs,
+    borderWidth: 2.5, borderColor: colors.border + '30', borderRadius: borderRadius.md, backgroundColor: colors.surface,
+  },
+  chipSelected: { borderColor: colors.border, backgroundColor: colors.primary + '30' },
+  chipText: { fontSize: 12, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+  chipTextSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+});
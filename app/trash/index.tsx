@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useCallback } from 'react';
+import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { MotiView } from 'moti';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { differenceInCalendarDays, format } from 'date-fns';
+import CategoryIcon from '@/components/CategoryIcon';
+import { NeuCard, NeuButton, NeuIconButton, NeuEmptyState } from '@/components/ui';
+import { useTrashStore } from '@/stores/useTrashStore';
+import { useCategoryStore } from '@/stores/useCategoryStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useTheme } from '@/lib/ThemeContext';
+import { useDialog } from '@/contexts/DialogContext';
+import { spacing, borderRadius } from '@/lib/theme';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { TRASH_RETENTION_DAYS } from '@/services/trash';
+import type { TrashedExpense } from '@/types';
+
+export default function TrashScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { colors, typography } = useTheme();
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  const { items, loadTrash, restoreItems, deleteItems, emptyTrash } = useTrashStore();
+  const { categories } = useCategoryStore();
+  const { formatAmount } = useSettingsStore();
+  const { showConfirm, showError } = useDialog();
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const categoryById = useMemo(() => new Map(categories.map((c) => [c.id, c])), [categories]);
+
+  const daysLeft = useCallback((item: TrashedExpense) => {
+    const left = TRASH_RETENTION_DAYS - differenceInCalendarDays(new Date(), new Date(item.deletedAt));
+    return Math.max(left, 0);
+  }, []);
+
+  const handleRestore = useCallback((ids: string[]) => {
+    try {
+      const { restored, skipped } = restoreItems(ids);
+      if (skipped > 0) {
+        showError(
+          'Some Expenses Not Restored',
+          `${skipped} expense${skipped === 1 ? ' exists' : 's exist'} again, for example after a backup restore or re-import, and ${skipped === 1 ? 'was' : 'were'} left in the trash.`,
+        );
+      }
+      if (restored > 0) Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      showError('Restore Failed', 'The expense could not be restored.');
+    }
+  }, [restoreItems, showError]);
+
+  const handleDeleteForever = useCallback((item: TrashedExpense) => {
+    showConfirm({
+      title: 'Delete Forever',
+      message: 'This expense and its receipt will be permanently deleted.',
+      onConfirm: () => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        deleteItems([item.id]);
+      },
+    });
+  }, [deleteItems, showConfirm]);
+
+  const handleEmpty = useCallback(() => {
+    showConfirm({
+      title: 'Empty Trash',
+      message: `Permanently delete ${items.length} expense${items.length === 1 ? '' : 's'}? This cannot be undone.`,
+      confirmLabel: 'Empty',
+      onConfirm: () => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        emptyTrash();
+      },
+    });
+  }, [items.length, emptyTrash, showConfirm]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <NeuIconButton icon="arrow-left" onPress={() => router.back()} />
+        <Text style={styles.headerTitle}>Trash</Text>
+        {items.length > 0 ? (
+          <NeuIconButton icon="delete-sweep-outline" onPress={handleEmpty} />
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      {items.length === 0 ? (
+        <NeuEmptyState
+          icon="delete-empty-outline"
+          title="Trash is empty"
+          description={`Deleted expenses stay here for ${TRASH_RETENTION_DAYS} days before they are removed for good.`}
+        />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={styles.hint}>
+            Deleted expenses are kept for {TRASH_RETENTION_DAYS} days, along with their tags, splits and receipts.
+          </Text>
+          {items.length > 1 && (
+            <NeuButton
+              title={`Restore all (${items.length})`}
+              onPress={() => handleRestore(items.map((i) => i.id))}
+              variant="outline"
+              size="sm"
+              style={{ marginBottom: spacing.md }}
+            />
+          )}
+          {items.map((item, index) => {
+            const category = categoryById.get(item.expense.categoryId);
+            const left = daysLeft(item);
+            return (
+              <MotiView
+                key={item.id}
+                from={{ opacity: 0, translateY: 10 }}
+                animate={{ opacity: 1, translateY: 0 }}
+                transition={{ type: 'timing', duration: 250, delay: Math.min(index, 10) * 40 }}
+              >
+                <NeuCard shadow="small" style={styles.itemCard}>
+                  <View style={styles.itemRow}>
+                    <CategoryIcon icon={category?.icon ?? 'help-circle-outline'} color={category?.color ?? colors.textSecondary} />
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemTitle} numberOfLines={1}>
+                        {item.expense.description || category?.name || 'Expense'}
+                      </Text>
+                      <Text style={styles.itemMeta} numberOfLines={1}>
+                        {format(new Date(item.expense.date), 'MMM d, yyyy')}
+                        {item.expense.receiptUri ? ' · receipt' : ''}
+                        {item.attachmentCount > 0 ? ` · ${item.attachmentCount} file${item.attachmentCount === 1 ? '' : 's'}` : ''}
+                        {item.splitCount > 0 ? ` · ${item.splitCount} splits` : ''}
+                        {item.tagCount > 0 ? ` · ${item.tagCount} tag${item.tagCount === 1 ? '' : 's'}` : ''}
+                      </Text>
+                      <Text style={[styles.itemMeta, left <= 3 && { color: colors.error }]}>
+                        {left === 0 ? 'Removed today' : `${left} day${left === 1 ? '' : 's'} left`}
+                      </Text>
+                    </View>
+                    <Text style={styles.itemAmount}>-{formatAmount(item.expense.amount)}</Text>
+                  </View>
+                  <View style={styles.itemActions}>
+                    <Pressable onPress={() => handleRestore([item.id])} style={styles.actionButton}>
+                      <MaterialCommunityIcons name="restore" size={16} color={colors.text} />
+                      <Text style={styles.actionText}>Restore</Text>
+                    </Pressable>
+                    <Pressable onPress={() => handleDeleteForever(item)} style={styles.actionButton}>
+                      <MaterialCommunityIcons name="delete-forever-outline" size={16} color={colors.error} />
+                      <Text style={[styles.actionText, { color: colors.error }]}>Delete</Text>
+                    </Pressable>
+                  </View>
+                </NeuCard>
+              </MotiView>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.background },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.xl,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: { ...typography.h2 },
+    headerSpacer: { width: 44 },
+    content: { paddingHorizontal: spacing.xl, paddingBottom: 60 },
+    hint: { ...typography.caption, marginBottom: spacing.md },
+    itemCard: { marginBottom: spacing.sm, padding: spacing.md },
+    itemRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+    itemDetails: { flex: 1 },
+    itemTitle: { ...typography.body, fontWeight: '600' },
+    itemMeta: { ...typography.caption, marginTop: 2 },
+    itemAmount: { ...typography.body, fontWeight: '800', color: colors.secondary },
+    itemActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: spacing.sm, marginTop: spacing.sm },
+    actionButton: {
+      flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: spacing.md, paddingVertical: spacing.xs,
+      borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+    },
+    actionText: { fontSize: 12, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+  });
@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Image, FlatList, Modal, StyleSheet, useWindowDimensions } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { NeuIconButton } from '@/components/ui';
+import { useTheme } from '@/lib/ThemeContext';
+import { spacing } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+
+export interface ViewerImage {
+  key: string;
+  uri: string;
+  /** Shown under the image, e.g. "Receipt" or the attachment's file name. */
+  label: string;
+}
+
+interface AttachmentViewerProps {
+  images: ViewerImage[];
+  /** Index of the image to open at; null keeps the viewer closed. */
+  initialIndex: number | null;
+  onClose: () => void;
+}
+
+/** Full-screen pager over an expense's receipt and image attachments. */
+function AttachmentViewer({ images, initialIndex, onClose }: AttachmentViewerProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { width } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (initialIndex !== null) setIndex(initialIndex);
+  }, [initialIndex]);
+
+  const current = images[index];
+
+  return (
+    <Modal visible={initialIndex !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.topRow, { paddingTop: insets.top + spacing.sm }]}>
+          <NeuIconButton icon="close" onPress={onClose} bgColor={colors.surface} />
+          {images.length > 1 && (
+            <Text style={styles.counter}>{index + 1} / {images.length}</Text>
+          )}
+        </View>
+        {initialIndex !== null && (
+          <FlatList
+            data={images}
+            keyExtractor={(item) => item.key}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={initialIndex}
+            getItemLayout={(_, i) => ({ length: width, offset: width * i, index: i })}
+            onMomentumScrollEnd={(e) => setIndex(Math.round(e.nativeEvent.contentOffset.x / width))}
+            renderItem={({ item }) => (
+              <Image source={{ uri: item.uri }} style={{ width, height: '100%' }} resizeMode="contain" />
+            )}
+          />
+        )}
+        {current && (
+          <Text style={[styles.label, { paddingBottom: insets.bottom + spacing.lg }]} numberOfLines={1}>
+            {current.label}
+          </Text>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+export default React.memo(AttachmentViewer);
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: { flex: 1, backgroundColor: colors.overlayHeavy },
+    topRow: {
+      position: 'absolute', top: 0, left: spacing.xl, right: spacing.xl, zIndex: 10,
+      flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    },
+    counter: { color: '#FFF', fontSize: 13, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+    label: {
+      color: '#FFF', fontSize: 12, textAlign: 'center', paddingTop: spacing.sm, paddingHorizontal: spacing.xl,
+      fontFamily: 'SpaceMono_400Regular',
+    },
+  });
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Modal, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { NeuButton } from '@/components/ui';
+import { useTheme } from '@/lib/ThemeContext';
+import { spacing, borderRadius } from '@/lib/theme';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { subtractMoney, sumMoney } from '@/lib/money';
+import { splitReceiptItems } from '@/lib/splits';
+import type { ReceiptLineItem } from '@/services/ocr';
+import type { Category, SplitInput } from '@/types';
+
+interface ReceiptItemsSheetProps {
+  visible: boolean;
+  items: ReceiptLineItem[];
+  /** The receipt's total; what the items do not cover is shared out over the lines. */
+  total: number;
+  categories: Category[];
+  /** Category every item starts in. */
+  initialCategoryId: string;
+  currencySymbol: string;
+  onApply: (lines: SplitInput[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists the items read from a receipt so they can be assigned to categories:
+ * select one or more lines, then tap a category. Applying hands back one
+ * split line per category used.
+ */
+function ReceiptItemsSheet({
+  visible,
+  items,
+  total,
+  categories,
+  initialCategoryId,
+  currencySymbol,
+  onApply,
+  onClose,
+}: ReceiptItemsSheetProps) {
+  const { colors, typography } = useTheme();
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  // Category per item, by index into `items`
+  const [assigned, setAssigned] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!visible) return;
+    setAssigned(items.map(() => initialCategoryId));
+    setSelected(new Set());
+  }, [visible, items, initialCategoryId]);
+
+  const itemsTotal = sumMoney(items, (i) => i.amount);
+  const extra = subtractMoney(total, itemsTotal);
+  const lines = useMemo(
+    () =>
+      splitReceiptItems(
+        items.map((item, i) => ({ ...item, categoryId: assigned[i] ?? initialCategoryId })),
+        total
+      ),
+    [items, assigned, total, initialCategoryId]
+  );
+  // A category holding only discounts would come out at zero or below
+  const hasEmptyLine = lines.some((l) => l.amount <= 0);
+
+  const toggleItem = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const assignSelected = (categoryId: string) => {
+    if (selected.size === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAssigned((prev) => prev.map((c, i) => (selected.has(i) ? categoryId : c)));
+    setSelected(new Set());
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={[typography.h3, { flex: 1 }]}>Receipt Items</Text>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <MaterialCommunityIcons name="close" size={22} color={colors.text} />
+            </Pressable>
+          </View>
+          <Text style={styles.hint}>
+            {selected.size > 0
+              ? `Tap a category for the ${selected.size} selected line${selected.size !== 1 ? 's' : ''}.`
+              : 'Select lines, then tap a category to assign them.'}
+          </Text>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {categories.map((cat) => (
+              <Pressable
+                key={cat.id}
+                onPress={() => assignSelected(cat.id)}
+                style={[styles.chip, selected.size === 0 && { opacity: 0.5 }]}
+              >
+                <MaterialCommunityIcons name={cat.icon as any} size={14} color={cat.color} />
+                <Text style={styles.chipText} numberOfLines={1}>{cat.name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          <ScrollView style={styles.list}>
+            {items.map((item, i) => {
+              const cat = categories.find((c) => c.id === assigned[i]);
+              const isSelected = selected.has(i);
+              return (
+                <Pressable
+                  key={i}
+                  onPress={() => toggleItem(i)}
+                  style={[styles.itemRow, isSelected && { backgroundColor: colors.cardTintBlue }]}
+                >
+                  <MaterialCommunityIcons
+                    name={isSelected ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                    size={20}
+                    color={isSelected ? colors.blue : colors.textLight}
+                  />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {item.quantity ? `${item.quantity} × ` : ''}
+                      {item.description}
+                    </Text>
+                    <View style={styles.itemCategory}>
+                      <View style={[styles.dot, { backgroundColor: cat?.color ?? colors.textLight }]} />
+                      <Text style={styles.itemCategoryText} numberOfLines={1}>{cat?.name ?? 'Uncategorized'}</Text>
+                    </View>
+                  </View>
+                  <Text style={[styles.itemAmount, item.amount < 0 && { color: colors.green }]}>
+                    {item.amount < 0 ? '-' : ''}
+                    {currencySymbol}
+                    {Math.abs(item.amount).toFixed(2)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.summary}>
+            <Text style={styles.summaryText}>
+              Items {currencySymbol}{itemsTotal.toFixed(2)}
+              {extra !== 0 ? ` · Tax & other ${currencySymbol}${extra.toFixed(2)}` : ''}
+            </Text>
+            <Text style={styles.summaryTotal}>Total {currencySymbol}{total.toFixed(2)}</Text>
+          </View>
+          {hasEmptyLine && (
+            <Text style={[styles.hint, { color: colors.error }]}>
+              Every category needs more than discounts assigned to it.
+            </Text>
+          )}
+
+          <NeuButton
+            title={lines.length > 1 ? `Split into ${lines.length} categories` : 'Use one category'}
+            onPress={() => onApply(lines)}
+            variant="primary"
+            size="lg"
+            fullWidth
+            disabled={hasEmptyLine || lines.length === 0}
+            icon={<MaterialCommunityIcons name="call-split" size={18} color={colors.text} />}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+export default React.memo(ReceiptItemsSheet);
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
+  StyleSheet.create({
+    overlay: { flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.4)' },
+    sheet: {
+      maxHeight: '85%', padding: spacing.xl, paddingBottom: spacing['3xl'], backgroundColor: colors.surface,
+      borderTopLeftRadius: borderRadius.xl, borderTopRightRadius: borderRadius.xl, borderWidth: 2,
+      borderColor: colors.border,
+    },
+    header: { flexDirection: 'row', alignItems: 'center', marginBottom: spacing.xs },
+    hint: { ...typography.caption, color: colors.textSecondary, marginBottom: spacing.sm },
+    chipRow: { gap: spacing.xs, paddingBottom: spacing.sm },
+    chip: {
+      flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: spacing.sm, paddingVertical: 4,
+      borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+    },
+    chipText: { fontSize: 11, fontWeight: '600', color: colors.text, fontFamily: 'SpaceMono_400Regular' },
+    list: { flexGrow: 0, marginBottom: spacing.md },
+    itemRow: {
+      flexDirection: 'row', alignItems: 'center', gap: spacing.sm, paddingVertical: spacing.sm,
+      paddingHorizontal: spacing.xs, borderRadius: borderRadius.sm,
+    },
+    itemName: { fontSize: 13, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    itemCategory: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 2 },
+    dot: { width: 8, height: 8, borderRadius: 4 },
+    itemCategoryText: { fontSize: 11, color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+    itemAmount: { fontSize: 13, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    summary: {
+      flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: spacing.md,
+      paddingTop: spacing.sm, borderTopWidth: 1, borderTopColor: colors.border + '30',
+    },
+    summaryText: { fontSize: 11, color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+    summaryTotal: { fontSize: 14, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+  });
@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { NeuCard } from '@/components/ui';
+import { useTheme } from '@/lib/ThemeContext';
+import { spacing, borderRadius } from '@/lib/theme';
+import type { ThemeColors, ThemeTypography } from '@/lib/theme';
+import { subtractMoney, sumMoney, toMinorUnits } from '@/lib/money';
+import type { Category, SplitInput } from '@/types';
+
+/** A split line while it is being edited; `amount` is the raw text input. */
+export interface SplitDraft {
+  key: string;
+  categoryId: string;
+  amount: string;
+  note: string;
+}
+
+let draftCounter = 0;
+
+export function createSplitDraft(categoryId: string, amount = '', note = ''): SplitDraft {
+  draftCounter += 1;
+  return { key: `split-${draftCounter}`, categoryId, amount, note };
+}
+
+function parseDraftAmount(draft: SplitDraft): number {
+  const value = parseFloat(draft.amount);
+  return isNaN(value) ? 0 : value;
+}
+
+/** What is left of `total` after the lines entered so far. */
+export function getSplitRemaining(drafts: SplitDraft[], total: number): number {
+  return subtractMoney(total, sumMoney(drafts, parseDraftAmount));
+}
+
+/**
+ * Checks the drafts against `total` and returns an error message, or null when
+ * they can be saved: at least two lines, each positive, adding up exactly.
+ */
+export function validateSplitDrafts(drafts: SplitDraft[], total: number): string | null {
+  if (drafts.length < 2) return 'A split needs at least two lines.';
+  if (drafts.some((d) => !d.categoryId)) return 'Choose a category for every line.';
+  if (drafts.some((d) => parseDraftAmount(d) <= 0)) return 'Every line needs an amount greater than 0.';
+  if (toMinorUnits(getSplitRemaining(drafts, total)) !== 0) return 'Split amounts must add up to the expense total.';
+  return null;
+}
+
+export function toSplitInputs(drafts: SplitDraft[]): SplitInput[] {
+  return drafts.map((d) => ({ categoryId: d.categoryId, amount: parseDraftAmount(d), note: d.note.trim() || null }));
+}
+
+interface SplitEditorProps {
+  drafts: SplitDraft[];
+  onChange: (drafts: SplitDraft[]) => void;
+  categories: Category[];
+  total: number;
+  currencySymbol: string;
+}
+
+function SplitEditor({ drafts, onChange, categories, total, currencySymbol }: SplitEditorProps) {
+  const { colors, typography } = useTheme();
+  const styles = useMemo(() => createStyles(colors, typography), [colors, typography]);
+
+  const remaining = getSplitRemaining(drafts, total);
+  const isBalanced = toMinorUnits(remaining) === 0;
+
+  const updateDraft = (key: string, patch: Partial<SplitDraft>) => {
+    onChange(drafts.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+  };
+
+  const handleAddLine = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // New lines start with whatever is still unallocated
+    const prefill = remaining > 0 ? remaining.toFixed(2) : '';
+    onChange([...drafts, createSplitDraft(categories[0]?.id ?? '', prefill)]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {drafts.map((draft, index) => (
+        <NeuCard key={draft.key} shadow="small" color={colors.cardTintCream} style={styles.lineCard}>
+          <View style={styles.lineHeader}>
+            <Text style={styles.lineTitle}>Line {index + 1}</Text>
+            <View style={styles.amountWrap}>
+              <Text style={styles.amountSymbol}>{currencySymbol}</Text>
+              <TextInput
+                style={styles.amountInput}
+                value={draft.amount}
+                onChangeText={(amount) => updateDraft(draft.key, { amount })}
+                placeholder="0.00"
+                placeholderTextColor={colors.textLight}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            {drafts.length > 2 && (
+              <Pressable
+                onPress={() => onChange(drafts.filter((d) => d.key !== draft.key))}
+                hitSlop={8}
+              >
+                <MaterialCommunityIcons name="close-circle-outline" size={20} color={colors.textSecondary} />
+              </Pressable>
+            )}
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {categories.map((cat) => {
+              const selected = draft.categoryId === cat.id;
+              return (
+                <Pressable
+                  key={cat.id}
+                  onPress={() => updateDraft(draft.key, { categoryId: cat.id })}
+                  style={[styles.chip, selected && { backgroundColor: cat.color + '30', borderColor: cat.color }]}
+                >
+                  <MaterialCommunityIcons name={cat.icon as any} size={14} color={selected ? cat.color : colors.textSecondary} />
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>{cat.name}</Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+          <TextInput
+            style={styles.noteInput}
+            value={draft.note}
+            onChangeText={(note) => updateDraft(draft.key, { note })}
+            placeholder="Note (optional)"
+            placeholderTextColor={colors.textLight}
+          />
+        </NeuCard>
+      ))}
+
+      <View style={styles.footer}>
+        <Pressable onPress={handleAddLine} style={styles.addLine}>
+          <MaterialCommunityIcons name="plus" size={16} color={colors.text} />
+          <Text style={styles.addLineText}>Add line</Text>
+        </Pressable>
+        <Text style={[styles.remaining, { color: isBalanced ? colors.success : colors.error }]}>
+          {isBalanced ? 'Balanced' : `${remaining > 0 ? 'Left' : 'Over'}: ${currencySymbol}${Math.abs(remaining).toFixed(2)}`}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export default React.memo(SplitEditor);
+
+const createStyles = (colors: ThemeColors, typography: ThemeTypography) =>
+  StyleSheet.create({
+    container: { marginBottom: spacing.xl },
+    lineCard: { marginBottom: spacing.sm, padding: spacing.md },
+    lineHeader: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm, marginBottom: spacing.sm },
+    lineTitle: { ...typography.label, flex: 1 },
+    amountWrap: {
+      flexDirection: 'row', alignItems: 'center', paddingHorizontal: spacing.sm, borderWidth: 2,
+      borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+    },
+    amountSymbol: { fontSize: 14, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    amountInput: {
+      minWidth: 72, paddingVertical: 4, fontSize: 14, fontWeight: '700', color: colors.text,
+      textAlign: 'right', fontFamily: 'SpaceMono_700Bold',
+    },
+    chipRow: { gap: spacing.xs, paddingBottom: spacing.xs },
+    chip: {
+      flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: spacing.sm, paddingVertical: 4,
+      borderWidth: 2, borderColor: colors.border + '30', borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+    },
+    chipText: { fontSize: 11, fontWeight: '600', color: colors.textSecondary, fontFamily: 'SpaceMono_400Regular' },
+    chipTextSelected: { color: colors.text, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+    noteInput: {
+      marginTop: spacing.xs, paddingVertical: 4, fontSize: 12, color: colors.text,
+      borderBottomWidth: 1, borderBottomColor: colors.border + '30', fontFamily: 'SpaceMono_400Regular',
+    },
+    footer: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: spacing.xs },
+    addLine: {
+      flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: spacing.md, paddingVertical: spacing.xs,
+      borderWidth: 2, borderColor: colors.border, borderRadius: borderRadius.sm, backgroundColor: colors.surface,
+    },
+    addLineText: { fontSize: 12, fontWeight: '700', color: colors.text, fontFamily: 'SpaceMono_700Bold' },
+    remaining: { fontSize: 12, fontWeight: '700', fontFamily: 'SpaceMono_700Bold' },
+  });
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text } from 'react-native';
+import { MotiView } from 'moti';
+import * as Haptics from 'expo-haptics';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useDialog } from '@/contexts/DialogContext';
+import { useTheme } from '@/lib/ThemeContext';
+import { spacing, borderRadius } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useUndoStore } from '@/stores/useUndoStore';
+
+const VISIBLE_MS = 5000;
+// Clears the custom tab bar so the snackbar stays readable on tab screens.
+const TAB_BAR_CLEARANCE = 88;
+
+/**
+ * Shows the latest recorded, undone or redone action for a few seconds with a
+ * button that reverses it. Mounted once at the root so it survives navigation.
+ */
+export default function UndoSnackbar() {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { showError } = useDialog();
+  const lastEvent = useUndoStore((s) => s.lastEvent);
+  const undo = useUndoStore((s) => s.undo);
+  const redo = useUndoStore((s) => s.redo);
+  const [visible, setVisible] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!lastEvent) {
+      setVisible(false);
+      return;
+    }
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [lastEvent]);
+
+  if (!visible || !lastEvent) return null;
+
+  const isUndone = lastEvent.kind === 'undone';
+  const message = isUndone ? `Undone: ${lastEvent.entry.label}` : lastEvent.entry.label;
+
+  const handlePress = async () => {
+    if (isBusy) return;
+    setIsBusy(true);
+    try {
+      await (isUndone ? redo() : undo());
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error('[undo] failed:', error);
+      setVisible(false);
+      showError(isUndone ? 'Redo Failed' : 'Undo Failed', 'The change could not be reversed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <MotiView
+      key={lastEvent.at}
+      from={{ opacity: 0, translateY: 20 }}
+      animate={{ opacity: 1, translateY: 0 }}
+      transition={{ type: 'timing', duration: 200 }}
+      style={[styles.container, { bottom: insets.bottom + TAB_BAR_CLEARANCE }]}
+      pointerEvents="box-none"
+    >
+      <Text style={styles.message} numberOfLines={1}>{message}</Text>
+      <Pressable onPress={handlePress} hitSlop={8} disabled={isBusy}>
+        <Text style={styles.action}>{isUndone ? 'REDO' : 'UNDO'}</Text>
+      </Pressable>
+    </MotiView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      position: 'absolute', left: spacing.xl, right: spacing.xl, flexDirection: 'row', alignItems: 'center',
+      gap: spacing.md, backgroundColor: colors.text, borderRadius: borderRadius.md,
+      paddingHorizontal: spacing.lg, paddingVertical: spacing.md,
+    },
+    message: { flex: 1, fontSize: 13, color: colors.background, fontFamily: 'SpaceMono_400Regular' },
+    action: { fontSize: 13, fontWeight: '700', color: colors.accent, fontFamily: 'SpaceMono_700Bold' },
+  });
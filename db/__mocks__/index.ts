@@ -0,0 +1,60 @@
+import type { Database, SqlJsStatic } from 'sql.js';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { drizzle } from 'drizzle-orm/sql-js';
+import * as schema from '../schema';
+import { MIGRATIONS } from '../migrations';
+
+// Stand-in for the app database in jest, used after jest.mock('@/db'). It is
+// an in-memory SQLite (sql.js) with every migration applied; call
+// resetTestDatabase() in beforeEach for a fresh, empty one.
+
+// The WebAssembly build cannot open a database under jest-expo; the asm.js one can
+const initSqlJs: (config?: object) => Promise<SqlJsStatic> = require('sql.js/dist/sql-asm.js');
+
+// sql.js is built without FTS5, so full-text tables become plain tables: the
+// triggers that fill them still run, but MATCH queries cannot be tested.
+function withoutFts5(source: string): string {
+  return source.replace(
+    /CREATE VIRTUAL TABLE IF NOT EXISTS (\w+) USING fts5\(([^)]*)\)/g,
+    (_, table: string, args: string) => {
+      const columns = args.split(',').map((a) => a.trim()).filter((a) => a && !a.includes('='));
+      return `CREATE TABLE IF NOT EXISTS ${table} (${columns.join(', ')})`;
+    }
+  );
+}
+
+export let db: ReturnType<typeof drizzle<typeof schema>>;
+
+let nextId = 0;
+
+export function generateId(): string {
+  nextId += 1;
+  return `id-${nextId}`;
+}
+
+// Just the calls migrations make on expo-sqlite's database
+function migrationAdapter(sqlite: Database): SQLiteDatabase {
+  return {
+    execSync: (source: string) => {
+      sqlite.exec(withoutFts5(source));
+    },
+    getAllSync: (source: string) => {
+      const [result] = sqlite.exec(source);
+      if (!result) return [];
+      return result.values.map((row) => Object.fromEntries(result.columns.map((c, i) => [c, row[i]])));
+    },
+    runSync: (source: string, params: (string | number | null)[] = []) => {
+      sqlite.run(source, params);
+    },
+  } as unknown as SQLiteDatabase;
+}
+
+export async function resetTestDatabase(): Promise<void> {
+  const SQL = await initSqlJs();
+  const sqlite = new SQL.Database();
+  const adapter = migrationAdapter(sqlite);
+  for (const migration of [...MIGRATIONS].sort((a, b) => a.version - b.version)) {
+    migration.up(adapter);
+  }
+  db = drizzle(sqlite, { schema });
+}
@@ -4,6 +4,7 @@ import * as Crypto from 'expo-crypto';
 import { addDays, addWeeks, addMonths, addYears } from 'date-fns';
 import * as schema from './schema';
 import { DEFAULT_CATEGORIES } from '@/lib/theme';
+import { MIGRATIONS } from './migrations';
 
 const sqlite = SQLite.openDatabaseSync('expense-tracker.db');
 
@@ -16,126 +17,49 @@ export function generateId(): string {
   return Crypto.randomUUID();
 }
 
-export async function initializeDatabase() {
-  // Create tables
+/**
+ * Applies every migration in MIGRATIONS that is not yet recorded in
+ * schema_migrations. Each migration runs in its own transaction together with
+ * its bookkeeping row, so a failure leaves the database at the last good
+ * version and is rethrown with the offending version attached.
+ */
+export function runMigrations() {
   sqlite.execSync(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
       name TEXT NOT NULL,
-      icon TEXT NOT NULL,
-      color TEXT NOT NULL,
-      budget_amount REAL,
-      budget_period TEXT,
-      is_default INTEGER NOT NULL DEFAULT 0,
-      sort_order INTEGER NOT NULL DEFAULT 0,
-      created_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS expenses (
-      id TEXT PRIMARY KEY,
-      amount REAL NOT NULL,
-      category_id TEXT NOT NULL REFERENCES categories(id),
-      description TEXT NOT NULL DEFAULT '',
-      date INTEGER NOT NULL,
-      payment_method TEXT NOT NULL DEFAULT 'cash',
-      receipt_uri TEXT,
-      is_recurring INTEGER NOT NULL DEFAULT 0,
-      recurring_frequency TEXT,
-      recurring_end_date INTEGER,
-      notes TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS budgets (
-      id TEXT PRIMARY KEY,
-      category_id TEXT REFERENCES categories(id),
-      amount REAL NOT NULL,
-      period TEXT NOT NULL DEFAULT 'monthly',
-      start_date INTEGER NOT NULL,
-      created_at INTEGER NOT NULL
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
-    CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category_id);
-    CREATE INDEX IF NOT EXISTS idx_budgets_category ON budgets(category_id);
-
-    CREATE TABLE IF NOT EXISTS income (
-      id TEXT PRIMARY KEY,
-      amount REAL NOT NULL,
-      source TEXT NOT NULL DEFAULT 'other',
-      description TEXT NOT NULL DEFAULT '',
-      date INTEGER NOT NULL,
-      notes TEXT,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_income_date ON income(date);
-
-    CREATE TABLE IF NOT EXISTS savings_goals (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      target_amount REAL NOT NULL,
-      current_amount REAL NOT NULL DEFAULT 0,
-      icon TEXT NOT NULL DEFAULT 'piggy-bank-outline',
-      color TEXT NOT NULL DEFAULT '#4ECDC4',
-      target_date INTEGER,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
+      applied_at INTEGER NOT NULL
     );
   `);
 
-  // v1.3.0 tables
-  sqlite.execSync(`
-    CREATE TABLE IF NOT EXISTS debts (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      total_amount REAL NOT NULL,
-      remaining_amount REAL NOT NULL,
-      interest_rate REAL NOT NULL DEFAULT 0,
-      minimum_payment REAL NOT NULL DEFAULT 0,
-      due_date INTEGER,
-      icon TEXT NOT NULL DEFAULT 'credit-card-outline',
-      color TEXT NOT NULL DEFAULT '#EF4444',
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS tags (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      color TEXT NOT NULL,
-      created_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS expense_tags (
-      expense_id TEXT NOT NULL REFERENCES expenses(id),
-      tag_id TEXT NOT NULL REFERENCES tags(id),
-      PRIMARY KEY (expense_id, tag_id)
-    );
-
-    CREATE TABLE IF NOT EXISTS templates (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      amount REAL NOT NULL,
-      category_id TEXT NOT NULL REFERENCES categories(id),
-      description TEXT NOT NULL DEFAULT '',
-      payment_method TEXT NOT NULL DEFAULT 'cash',
-      notes TEXT,
-      created_at INTEGER NOT NULL
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_expense_tags_expense ON expense_tags(expense_id);
-    CREATE INDEX IF NOT EXISTS idx_expense_tags_tag ON expense_tags(tag_id);
-  `);
-
-  // Migration: add next_recurring_date column
-  try {
-    sqlite.execSync('ALTER TABLE expenses ADD COLUMN next_recurring_date INTEGER;');
-  } catch {
-    // Column already exists — ignore
+  const applied = new Set(
+    (sqlite.getAllSync('SELECT version FROM schema_migrations') as { version: number }[])
+      .map((row) => row.version)
+  );
+
+  const pending = [...MIGRATIONS]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => !applied.has(m.version));
+
+  for (const migration of pending) {
+    try {
+      sqlite.withTransactionSync(() => {
+        migration.up(sqlite);
+        sqlite.runSync(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, Date.now()]
+        );
+      });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error(`[db] migration ${migration.version} (${migration.name}) failed:`, err);
+      throw new Error(`Database migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    }
   }
+}
+
+export async function initializeDatabase() {
+  runMigrations();
 
   // Backfill nextRecurringDate for existing recurring expenses
   backfillRecurringDates();
@@ -144,25 +68,36 @@ export async function initializeDatabase() {
   const existingCategories = db.select().from(schema.categories).all();
 
   if (existingCategories.length === 0) {
-    const now = Date.now();
-    for (let i = 0; i < DEFAULT_CATEGORIES.length; i++) {
-      const cat = DEFAULT_CATEGORIES[i];
+    seedDefaultCategories();
+  } else {
+    // Migrate emoji icons to Ionicon names for existing categories
+    migrateEmojiIcons();
+  }
+}
+
+/** Inserts DEFAULT_CATEGORIES and their sub-categories. */
+export function seedDefaultCategories() {
+  const now = Date.now();
+  DEFAULT_CATEGORIES.forEach((cat, i) => {
+    const parentId = generateId();
+    db.insert(schema.categories)
+      .values({ id: parentId, name: cat.name, icon: cat.icon, color: cat.color, isDefault: 1, sortOrder: i, createdAt: now })
+      .run();
+    cat.children.forEach((child, j) => {
       db.insert(schema.categories)
         .values({
           id: generateId(),
-          name: cat.name,
-          icon: cat.icon,
+          name: child.name,
+          icon: child.icon,
           color: cat.color,
+          parentId,
           isDefault: 1,
-          sortOrder: i,
+          sortOrder: j,
           createdAt: now,
         })
         .run();
-    }
-  } else {
-    // Migrate emoji icons to Ionicon names for existing categories
-    migrateEmojiIcons();
-  }
+    });
+  });
 }
 
 const EMOJI_TO_ICON: Record<string, string> = {
@@ -0,0 +1,118 @@
+import type { Migration } from './helpers';
+
+// Baseline schema as of v1.3.0. Uses IF NOT EXISTS so installs created before
+// the migration runner existed adopt it without changes.
+export const migration: Migration = {
+  version: 1,
+  name: 'initial',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        color TEXT NOT NULL,
+        budget_amount REAL,
+        budget_period TEXT,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS expenses (
+        id TEXT PRIMARY KEY,
+        amount REAL NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        date INTEGER NOT NULL,
+        payment_method TEXT NOT NULL DEFAULT 'cash',
+        receipt_uri TEXT,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        recurring_frequency TEXT,
+        recurring_end_date INTEGER,
+        notes TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS budgets (
+        id TEXT PRIMARY KEY,
+        category_id TEXT REFERENCES categories(id),
+        amount REAL NOT NULL,
+        period TEXT NOT NULL DEFAULT 'monthly',
+        start_date INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+      CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category_id);
+      CREATE INDEX IF NOT EXISTS idx_budgets_category ON budgets(category_id);
+
+      CREATE TABLE IF NOT EXISTS income (
+        id TEXT PRIMARY KEY,
+        amount REAL NOT NULL,
+        source TEXT NOT NULL DEFAULT 'other',
+        description TEXT NOT NULL DEFAULT '',
+        date INTEGER NOT NULL,
+        notes TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_income_date ON income(date);
+
+      CREATE TABLE IF NOT EXISTS savings_goals (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        target_amount REAL NOT NULL,
+        current_amount REAL NOT NULL DEFAULT 0,
+        icon TEXT NOT NULL DEFAULT 'piggy-bank-outline',
+        color TEXT NOT NULL DEFAULT '#4ECDC4',
+        target_date INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS debts (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        total_amount REAL NOT NULL,
+        remaining_amount REAL NOT NULL,
+        interest_rate REAL NOT NULL DEFAULT 0,
+        minimum_payment REAL NOT NULL DEFAULT 0,
+        due_date INTEGER,
+        icon TEXT NOT NULL DEFAULT 'credit-card-outline',
+        color TEXT NOT NULL DEFAULT '#EF4444',
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS expense_tags (
+        expense_id TEXT NOT NULL REFERENCES expenses(id),
+        tag_id TEXT NOT NULL REFERENCES tags(id),
+        PRIMARY KEY (expense_id, tag_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        amount REAL NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        payment_method TEXT NOT NULL DEFAULT 'cash',
+        notes TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_expense_tags_expense ON expense_tags(expense_id);
+      CREATE INDEX IF NOT EXISTS idx_expense_tags_tag ON expense_tags(tag_id);
+    `);
+  },
+};
@@ -0,0 +1,12 @@
+import { hasColumn, type Migration } from './helpers';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'next_recurring_date',
+  up: (sqlite) => {
+    // Installs from before the migration runner may already have the column
+    // from the old ad-hoc ALTER TABLE.
+    if (hasColumn(sqlite, 'expenses', 'next_recurring_date')) return;
+    sqlite.execSync('ALTER TABLE expenses ADD COLUMN next_recurring_date INTEGER;');
+  },
+};
@@ -0,0 +1,146 @@
+import { rebuildTable, type Migration } from './helpers';
+
+// Money columns move from REAL major units to INTEGER minor units (cents).
+// See lib/money.ts for the conversion used by the stores.
+const cents = (column: string) => `CAST(ROUND(${column} * 100) AS INTEGER)`;
+const centsOrNull = (column: string) => `CASE WHEN ${column} IS NULL THEN NULL ELSE ${cents(column)} END`;
+
+export const migration: Migration = {
+  version: 3,
+  name: 'integer_money',
+  up: (sqlite) => {
+    rebuildTable(sqlite, 'categories', `
+      CREATE TABLE categories_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        color TEXT NOT NULL,
+        budget_amount INTEGER,
+        budget_period TEXT,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, name, icon, color, ${centsOrNull('budget_amount')}, budget_period,
+        is_default, sort_order, created_at
+      FROM categories
+    `);
+
+    rebuildTable(sqlite, 'expenses', `
+      CREATE TABLE expenses_new (
+        id TEXT PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        date INTEGER NOT NULL,
+        payment_method TEXT NOT NULL DEFAULT 'cash',
+        receipt_uri TEXT,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        recurring_frequency TEXT,
+        recurring_end_date INTEGER,
+        next_recurring_date INTEGER,
+        notes TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, ${cents('amount')}, category_id, description, date, payment_method,
+        receipt_uri, is_recurring, recurring_frequency, recurring_end_date,
+        next_recurring_date, notes, created_at, updated_at
+      FROM expenses
+    `);
+
+    rebuildTable(sqlite, 'budgets', `
+      CREATE TABLE budgets_new (
+        id TEXT PRIMARY KEY,
+        category_id TEXT REFERENCES categories(id),
+        amount INTEGER NOT NULL,
+        period TEXT NOT NULL DEFAULT 'monthly',
+        start_date INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, category_id, ${cents('amount')}, period, start_date, created_at
+      FROM budgets
+    `);
+
+    rebuildTable(sqlite, 'income', `
+      CREATE TABLE income_new (
+        id TEXT PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        source TEXT NOT NULL DEFAULT 'other',
+        description TEXT NOT NULL DEFAULT '',
+        date INTEGER NOT NULL,
+        notes TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, ${cents('amount')}, source, description, date, notes, created_at, updated_at
+      FROM income
+    `);
+
+    rebuildTable(sqlite, 'savings_goals', `
+      CREATE TABLE savings_goals_new (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        target_amount INTEGER NOT NULL,
+        current_amount INTEGER NOT NULL DEFAULT 0,
+        icon TEXT NOT NULL DEFAULT 'piggy-bank-outline',
+        color TEXT NOT NULL DEFAULT '#4ECDC4',
+        target_date INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, title, ${cents('target_amount')}, ${cents('current_amount')}, icon, color,
+        target_date, created_at, updated_at
+      FROM savings_goals
+    `);
+
+    // interest_rate is a percentage, not money, and stays REAL.
+    rebuildTable(sqlite, 'debts', `
+      CREATE TABLE debts_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        total_amount INTEGER NOT NULL,
+        remaining_amount INTEGER NOT NULL,
+        interest_rate REAL NOT NULL DEFAULT 0,
+        minimum_payment INTEGER NOT NULL DEFAULT 0,
+        due_date INTEGER,
+        icon TEXT NOT NULL DEFAULT 'credit-card-outline',
+        color TEXT NOT NULL DEFAULT '#EF4444',
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, name, ${cents('total_amount')}, ${cents('remaining_amount')}, interest_rate,
+        ${cents('minimum_payment')}, due_date, icon, color, created_at, updated_at
+      FROM debts
+    `);
+
+    rebuildTable(sqlite, 'templates', `
+      CREATE TABLE templates_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        payment_method TEXT NOT NULL DEFAULT 'cash',
+        notes TEXT,
+        created_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, name, ${cents('amount')}, category_id, description, payment_method, notes, created_at
+      FROM templates
+    `);
+
+    sqlite.execSync(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+      CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category_id);
+      CREATE INDEX IF NOT EXISTS idx_budgets_category ON budgets(category_id);
+      CREATE INDEX IF NOT EXISTS idx_income_date ON income(date);
+    `);
+  },
+};
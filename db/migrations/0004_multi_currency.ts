@@ -0,0 +1,23 @@
+import type { Migration } from './helpers';
+
+// Foreign-currency transactions keep what was actually paid in
+// currency/original_amount; amount stays in the home currency so every
+// aggregate can keep summing a single column.
+export const migration: Migration = {
+  version: 4,
+  name: 'multi_currency',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      ALTER TABLE expenses ADD COLUMN currency TEXT;
+      ALTER TABLE expenses ADD COLUMN original_amount INTEGER;
+      ALTER TABLE income ADD COLUMN currency TEXT;
+      ALTER TABLE income ADD COLUMN original_amount INTEGER;
+
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        currency TEXT PRIMARY KEY,
+        rate REAL NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  },
+};
@@ -0,0 +1,92 @@
+import { rebuildTable, type Migration } from './helpers';
+
+// The old payment methods become seeded accounts whose ids are the former
+// payment_method values, so existing rows map across one-to-one.
+const SEEDED_ACCOUNTS = [
+  { id: 'cash', name: 'Cash', type: 'cash', icon: 'cash', color: '#6BCB77' },
+  { id: 'card', name: 'Card', type: 'card', icon: 'credit-card-outline', color: '#4D96FF' },
+  { id: 'bank', name: 'Bank', type: 'bank', icon: 'bank-outline', color: '#A855F7' },
+  { id: 'other', name: 'Other', type: 'other', icon: 'dots-horizontal', color: '#FB923C' },
+];
+
+const accountFor = (column: string) =>
+  `CASE WHEN ${column} IN ('cash', 'card', 'bank', 'other') THEN ${column} ELSE 'other' END`;
+
+export const migration: Migration = {
+  version: 5,
+  name: 'accounts',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'other',
+        opening_balance INTEGER NOT NULL DEFAULT 0,
+        currency TEXT,
+        icon TEXT NOT NULL,
+        color TEXT NOT NULL,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
+    const now = Date.now();
+    SEEDED_ACCOUNTS.forEach((account, index) => {
+      sqlite.runSync(
+        'INSERT OR IGNORE INTO accounts (id, name, type, opening_balance, icon, color, sort_order, created_at) VALUES (?, ?, ?, 0, ?, ?, ?, ?)',
+        [account.id, account.name, account.type, account.icon, account.color, index, now]
+      );
+    });
+
+    rebuildTable(sqlite, 'expenses', `
+      CREATE TABLE expenses_new (
+        id TEXT PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        date INTEGER NOT NULL,
+        account_id TEXT REFERENCES accounts(id),
+        receipt_uri TEXT,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        recurring_frequency TEXT,
+        recurring_end_date INTEGER,
+        next_recurring_date INTEGER,
+        currency TEXT,
+        original_amount INTEGER,
+        notes TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, amount, category_id, description, date, ${accountFor('payment_method')},
+        receipt_uri, is_recurring, recurring_frequency, recurring_end_date,
+        next_recurring_date, currency, original_amount, notes, created_at, updated_at
+      FROM expenses
+    `);
+
+    rebuildTable(sqlite, 'templates', `
+      CREATE TABLE templates_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        description TEXT NOT NULL DEFAULT '',
+        account_id TEXT REFERENCES accounts(id),
+        notes TEXT,
+        created_at INTEGER NOT NULL
+      );
+    `, `
+      SELECT id, name, amount, category_id, description, ${accountFor('payment_method')}, notes, created_at
+      FROM templates
+    `);
+
+    sqlite.execSync(`
+      ALTER TABLE income ADD COLUMN account_id TEXT REFERENCES accounts(id);
+
+      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+      CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category_id);
+      CREATE INDEX IF NOT EXISTS idx_expenses_account ON expenses(account_id);
+      CREATE INDEX IF NOT EXISTS idx_income_account ON income(account_id);
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import type { Migration } from './helpers';
+
+// Transfers move money between accounts, savings goals and debts. They live
+// in their own table so expense and income aggregates never see them.
+export const migration: Migration = {
+  version: 6,
+  name: 'transfers',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS transfers (
+        id TEXT PRIMARY KEY,
+        amount INTEGER NOT NULL,
+        date INTEGER NOT NULL,
+        from_type TEXT NOT NULL,
+        from_id TEXT NOT NULL,
+        to_type TEXT NOT NULL,
+        to_id TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_transfers_date ON transfers(date);
+    `);
+  },
+};
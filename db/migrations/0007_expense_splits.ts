@@ -0,0 +1,23 @@
+import type { Migration } from './helpers';
+
+// Split lines divide one expense across several categories. An expense with
+// no rows here is booked entirely to its own category_id.
+export const migration: Migration = {
+  version: 7,
+  name: 'expense_splits',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS expense_splits (
+        id TEXT PRIMARY KEY,
+        expense_id TEXT NOT NULL REFERENCES expenses(id),
+        category_id TEXT NOT NULL REFERENCES categories(id),
+        amount INTEGER NOT NULL,
+        note TEXT,
+        sort_order INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_expense_splits_expense ON expense_splits(expense_id);
+      CREATE INDEX IF NOT EXISTS idx_expense_splits_category ON expense_splits(category_id);
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from './helpers';
+
+// Categories nest one level deep: a category with a parent_id is a
+// sub-category, and spending in it rolls up to the parent.
+export const migration: Migration = {
+  version: 8,
+  name: 'category_parent',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      ALTER TABLE categories ADD COLUMN parent_id TEXT REFERENCES categories(id);
+
+      CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id);
+    `);
+  },
+};
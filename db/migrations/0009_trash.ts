@@ -0,0 +1,22 @@
+import type { Migration } from './helpers';
+
+// Deleted items are parked here as JSON snapshots so they can be restored;
+// rows older than the retention window are purged on launch.
+export const migration: Migration = {
+  version: 9,
+  name: 'trash',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS trash (
+        id TEXT PRIMARY KEY,
+        item_type TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        deleted_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_trash_item ON trash(item_type, item_id);
+      CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash(deleted_at);
+    `);
+  },
+};
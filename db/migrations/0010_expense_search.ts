@@ -0,0 +1,83 @@
+import type { Migration } from './helpers';
+
+// Rebuilds the search rows of the expenses matched by `where` (an expression
+// over `e`). The category column holds the expense's own category plus those
+// of its split lines; the tags column holds every tag name on the expense.
+function reindex(where: string): string {
+  return `
+    DELETE FROM expenses_fts WHERE rowid IN (SELECT e.rowid FROM expenses e WHERE ${where});
+    INSERT INTO expenses_fts (rowid, description, notes, category, tags)
+      SELECT
+        e.rowid,
+        e.description,
+        COALESCE(e.notes, ''),
+        TRIM(COALESCE(c.name, '') || ' ' || COALESCE((
+          SELECT group_concat(sc.name, ' ')
+          FROM expense_splits s JOIN categories sc ON sc.id = s.category_id
+          WHERE s.expense_id = e.id
+        ), '')),
+        COALESCE((
+          SELECT group_concat(t.name, ' ')
+          FROM expense_tags et JOIN tags t ON t.id = et.tag_id
+          WHERE et.expense_id = e.id
+        ), '')
+      FROM expenses e LEFT JOIN categories c ON c.id = e.category_id
+      WHERE ${where};`;
+}
+
+// Full-text index over expenses, keyed by the expenses table's rowid and kept
+// in sync by triggers on every table that feeds a column. The app never runs
+// VACUUM, which is the only thing that would renumber those rowids.
+export const migration: Migration = {
+  version: 10,
+  name: 'expense_search',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS expenses_fts USING fts5(
+        description, notes, category, tags,
+        tokenize = 'unicode61 remove_diacritics 2',
+        prefix = '2 3'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_insert AFTER INSERT ON expenses BEGIN
+        ${reindex('e.id = new.id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_update
+      AFTER UPDATE OF description, notes, category_id ON expenses BEGIN
+        ${reindex('e.id = new.id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_delete AFTER DELETE ON expenses BEGIN
+        DELETE FROM expenses_fts WHERE rowid = old.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_tag_link AFTER INSERT ON expense_tags BEGIN
+        ${reindex('e.id = new.expense_id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_tag_unlink AFTER DELETE ON expense_tags BEGIN
+        ${reindex('e.id = old.expense_id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_split_insert AFTER INSERT ON expense_splits BEGIN
+        ${reindex('e.id = new.expense_id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_split_delete AFTER DELETE ON expense_splits BEGIN
+        ${reindex('e.id = old.expense_id')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_category_rename AFTER UPDATE OF name ON categories BEGIN
+        ${reindex(`e.category_id = new.id
+          OR e.id IN (SELECT expense_id FROM expense_splits WHERE category_id = new.id)`)}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS expenses_fts_tag_rename AFTER UPDATE OF name ON tags BEGIN
+        ${reindex('e.id IN (SELECT expense_id FROM expense_tags WHERE tag_id = new.id)')}
+      END;
+
+      ${reindex('1 = 1')}
+    `);
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from './helpers';
+
+// Named expense filters. `filter` is the AdvancedFilter as JSON so new
+// condition types do not need a schema change.
+export const migration: Migration = {
+  version: 11,
+  name: 'saved_views',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        color TEXT NOT NULL,
+        filter TEXT NOT NULL,
+        date_filter TEXT,
+        is_pinned INTEGER NOT NULL DEFAULT 0,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './helpers';
+
+// The expenses list pages through (date, id) descending, and the recent-window
+// load pulls in every recurring template however old it is.
+export const migration: Migration = {
+  version: 12,
+  name: 'expense_paging_indexes',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE INDEX IF NOT EXISTS idx_expenses_date_id ON expenses(date, id);
+      CREATE INDEX IF NOT EXISTS idx_expenses_recurring ON expenses(is_recurring);
+    `);
+  },
+};
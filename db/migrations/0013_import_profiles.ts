@@ -0,0 +1,28 @@
+import type { Migration } from './helpers';
+
+// Saved CSV formats, one per bank. `mapping` is the CsvColumnMapping as JSON;
+// `fingerprint` is the normalized header row used to pick a profile
+// automatically.
+export const migration: Migration = {
+  version: 13,
+  name: 'import_profiles',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS import_profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        delimiter TEXT NOT NULL DEFAULT ',',
+        header_row INTEGER NOT NULL DEFAULT 0,
+        mapping TEXT NOT NULL,
+        date_format TEXT,
+        decimal_separator TEXT NOT NULL DEFAULT '.',
+        thousands_separator TEXT NOT NULL DEFAULT ',',
+        amount_sign TEXT NOT NULL DEFAULT 'all_expenses',
+        last_used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_import_profiles_fingerprint ON import_profiles(fingerprint);
+    `);
+  },
+};
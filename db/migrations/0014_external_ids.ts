@@ -0,0 +1,17 @@
+import type { Migration } from './helpers';
+
+// Source transaction ids of imported rows, e.g. an OFX FITID qualified by the
+// bank account, so importing an overlapping statement again skips rows that
+// are already in the ledger.
+export const migration: Migration = {
+  version: 14,
+  name: 'external_ids',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      ALTER TABLE expenses ADD COLUMN external_id TEXT;
+      ALTER TABLE income ADD COLUMN external_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_expenses_external_id ON expenses(external_id);
+      CREATE INDEX IF NOT EXISTS idx_income_external_id ON income(external_id);
+    `);
+  },
+};
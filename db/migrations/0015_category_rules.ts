@@ -0,0 +1,25 @@
+import type { Migration } from './helpers';
+
+// User-defined categorization rules, tried in `priority` order. The category
+// is not a foreign key: a rule outlives its category and is skipped until it
+// is pointed somewhere else.
+export const migration: Migration = {
+  version: 15,
+  name: 'category_rules',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS category_rules (
+        id TEXT PRIMARY KEY,
+        match_type TEXT NOT NULL DEFAULT 'contains',
+        pattern TEXT NOT NULL,
+        min_amount INTEGER,
+        max_amount INTEGER,
+        category_id TEXT NOT NULL,
+        tag_ids TEXT NOT NULL DEFAULT '[]',
+        priority INTEGER NOT NULL DEFAULT 0,
+        is_enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  },
+};
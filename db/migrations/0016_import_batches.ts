@@ -0,0 +1,27 @@
+import type { Migration } from './helpers';
+
+// One row per import run. Imported expenses, income and transfers point back
+// at their batch so a whole file can be rolled back; `profile_id` is not a
+// foreign key since the profile may be deleted while its batches remain.
+export const migration: Migration = {
+  version: 16,
+  name: 'import_batches',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS import_batches (
+        id TEXT PRIMARY KEY,
+        file_name TEXT NOT NULL,
+        file_kind TEXT NOT NULL DEFAULT 'csv',
+        profile_id TEXT,
+        row_count INTEGER NOT NULL DEFAULT 0,
+        imported_at INTEGER NOT NULL
+      );
+      ALTER TABLE expenses ADD COLUMN import_batch_id TEXT;
+      ALTER TABLE income ADD COLUMN import_batch_id TEXT;
+      ALTER TABLE transfers ADD COLUMN import_batch_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_expenses_import_batch ON expenses(import_batch_id);
+      CREATE INDEX IF NOT EXISTS idx_income_import_batch ON income(import_batch_id);
+      CREATE INDEX IF NOT EXISTS idx_transfers_import_batch ON transfers(import_batch_id);
+    `);
+  },
+};
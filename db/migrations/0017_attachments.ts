@@ -0,0 +1,25 @@
+import type { Migration } from './helpers';
+
+// Extra files kept with an expense (invoice, warranty, more receipt pages).
+// The primary receipt stays in `expenses.receipt_uri`; `thumbnail_uri` is only
+// set for images.
+export const migration: Migration = {
+  version: 17,
+  name: 'attachments',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        expense_id TEXT NOT NULL REFERENCES expenses(id),
+        uri TEXT NOT NULL,
+        thumbnail_uri TEXT,
+        kind TEXT NOT NULL DEFAULT 'image',
+        name TEXT NOT NULL DEFAULT '',
+        size INTEGER,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_attachments_expense ON attachments(expense_id);
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './helpers';
+
+// Imported transfers keep their source transaction id too, so importing the
+// same statement again skips them like expenses and income.
+export const migration: Migration = {
+  version: 18,
+  name: 'transfer_external_ids',
+  up: (sqlite) => {
+    sqlite.execSync(`
+      ALTER TABLE transfers ADD COLUMN external_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_transfers_external_id ON transfers(external_id);
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface Migration {
+  /** Monotonically increasing version number, recorded in schema_migrations. */
+  version: number;
+  name: string;
+  up: (sqlite: SQLiteDatabase) => void;
+}
+
+export function hasColumn(sqlite: SQLiteDatabase, table: string, column: string): boolean {
+  const columns = sqlite.getAllSync(`PRAGMA table_info(${table})`) as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Recreates `table` from `createSql` (which must create `${table}_new`) and
+ * copies rows across with `selectSql`, for column changes SQLite's ALTER TABLE
+ * cannot express. Indexes on the old table are dropped with it, so callers
+ * recreate them afterwards.
+ */
+export function rebuildTable(sqlite: SQLiteDatabase, table: string, createSql: string, selectSql: string) {
+  sqlite.execSync(createSql);
+  sqlite.execSync(`INSERT INTO ${table}_new ${selectSql};`);
+  sqlite.execSync(`DROP TABLE ${table};`);
+  sqlite.execSync(`ALTER TABLE ${table}_new RENAME TO ${table};`);
+}
@@ -0,0 +1,44 @@
+import type { Migration } from './helpers';
+import { migration as m0001 } from './0001_initial';
+import { migration as m0002 } from './0002_next_recurring_date';
+import { migration as m0003 } from './0003_integer_money';
+import { migration as m0004 } from './0004_multi_currency';
+import { migration as m0005 } from './0005_accounts';
+import { migration as m0006 } from './0006_transfers';
+import { migration as m0007 } from './0007_expense_splits';
+import { migration as m0008 } from './0008_category_parent';
+import { migration as m0009 } from './0009_trash';
+import { migration as m0010 } from './0010_expense_search';
+import { migration as m0011 } from './0011_saved_views';
+import { migration as m0012 } from './0012_expense_paging_indexes';
+import { migration as m0013 } from './0013_import_profiles';
+import { migration as m0014 } from './0014_external_ids';
+import { migration as m0015 } from './0015_category_rules';
+import { migration as m0016 } from './0016_import_batches';
+import { migration as m0017 } from './0017_attachments';
+import { migration as m0018 } from './0018_transfer_external_ids';
+
+export type { Migration } from './helpers';
+
+// Append new migrations here. Versions must be unique and increasing; never
+// edit a migration that has shipped — add a new one instead.
+export const MIGRATIONS: Migration[] = [
+  m0001,
+  m0002,
+  m0003,
+  m0004,
+  m0005,
+  m0006,
+  m0007,
+  m0008,
+  m0009,
+  m0010,
+  m0011,
+  m0012,
+  m0013,
+  m0014,
+  m0015,
+  m0016,
+  m0017,
+  m0018,
+];
@@ -1,40 +1,73 @@
 import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 
+// Money columns hold integer minor units (cents); see lib/money.ts.
+
 export const categories = sqliteTable('categories', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   icon: text('icon').notNull(),
   color: text('color').notNull(),
-  budgetAmount: real('budget_amount'),
+  budgetAmount: integer('budget_amount'),
   budgetPeriod: text('budget_period'),
+  // Null for top-level categories; sub-categories point at their parent.
+  parentId: text('parent_id'),
   isDefault: integer('is_default').notNull().default(0),
   sortOrder: integer('sort_order').notNull().default(0),
   createdAt: integer('created_at').notNull(),
 });
 
+export const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  type: text('type').notNull().default('other'),
+  openingBalance: integer('opening_balance').notNull().default(0),
+  currency: text('currency'),
+  icon: text('icon').notNull(),
+  color: text('color').notNull(),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: integer('created_at').notNull(),
+});
+
 export const expenses = sqliteTable('expenses', {
   id: text('id').primaryKey(),
-  amount: real('amount').notNull(),
+  amount: integer('amount').notNull(),
   categoryId: text('category_id')
     .notNull()
     .references(() => categories.id),
   description: text('description').notNull().default(''),
   date: integer('date').notNull(),
-  paymentMethod: text('payment_method').notNull().default('cash'),
+  accountId: text('account_id').references(() => accounts.id),
   receiptUri: text('receipt_uri'),
   isRecurring: integer('is_recurring').notNull().default(0),
   recurringFrequency: text('recurring_frequency'),
   recurringEndDate: integer('recurring_end_date'),
   nextRecurringDate: integer('next_recurring_date'),
+  currency: text('currency'),
+  originalAmount: integer('original_amount'),
   notes: text('notes'),
+  // Id of the source transaction for imported rows, e.g. "<account>:<FITID>"
+  // from an OFX statement; null for anything entered in the app.
+  externalId: text('external_id'),
+  // The import run that created the row; null for anything entered in the app.
+  importBatchId: text('import_batch_id'),
   createdAt: integer('created_at').notNull(),
   updatedAt: integer('updated_at').notNull(),
 });
 
+// Amounts are in the home currency and sum to the parent expense's amount.
+export const expenseSplits = sqliteTable('expense_splits', {
+  id: text('id').primaryKey(),
+  expenseId: text('expense_id').notNull().references(() => expenses.id),
+  categoryId: text('category_id').notNull().references(() => categories.id),
+  amount: integer('amount').notNull(),
+  note: text('note'),
+  sortOrder: integer('sort_order').notNull().default(0),
+});
+
 export const budgets = sqliteTable('budgets', {
   id: text('id').primaryKey(),
   categoryId: text('category_id').references(() => categories.id),
-  amount: real('amount').notNull(),
+  amount: integer('amount').notNull(),
   period: text('period').notNull().default('monthly'),
   startDate: integer('start_date').notNull(),
   createdAt: integer('created_at').notNull(),
@@ -42,11 +75,16 @@ export const budgets = sqliteTable('budgets', {
 
 export const income = sqliteTable('income', {
   id: text('id').primaryKey(),
-  amount: real('amount').notNull(),
+  amount: integer('amount').notNull(),
   source: text('source').notNull().default('other'),
   description: text('description').notNull().default(''),
   date: integer('date').notNull(),
+  accountId: text('account_id').references(() => accounts.id),
+  currency: text('currency'),
+  originalAmount: integer('original_amount'),
   notes: text('notes'),
+  externalId: text('external_id'),
+  importBatchId: text('import_batch_id'),
   createdAt: integer('created_at').notNull(),
   updatedAt: integer('updated_at').notNull(),
 });
@@ -54,8 +92,8 @@ export const income = sqliteTable('income', {
 export const savingsGoals = sqliteTable('savings_goals', {
   id:            text('id').primaryKey(),
   title:         text('title').notNull(),
-  targetAmount:  real('target_amount').notNull(),
-  currentAmount: real('current_amount').notNull().default(0),
+  targetAmount:  integer('target_amount').notNull(),
+  currentAmount: integer('current_amount').notNull().default(0),
   icon:          text('icon').notNull().default('piggy-bank-outline'),
   color:         text('color').notNull().default('#4ECDC4'),
   targetDate:    integer('target_date'),
@@ -66,10 +104,10 @@ export const savingsGoals = sqliteTable('savings_goals', {
 export const debts = sqliteTable('debts', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  totalAmount: real('total_amount').notNull(),
-  remainingAmount: real('remaining_amount').notNull(),
+  totalAmount: integer('total_amount').notNull(),
+  remainingAmount: integer('remaining_amount').notNull(),
   interestRate: real('interest_rate').notNull().default(0),
-  minimumPayment: real('minimum_payment').notNull().default(0),
+  minimumPayment: integer('minimum_payment').notNull().default(0),
   dueDate: integer('due_date'),
   icon: text('icon').notNull().default('credit-card-outline'),
   color: text('color').notNull().default('#EF4444'),
@@ -89,13 +127,112 @@ export const expenseTags = sqliteTable('expense_tags', {
   tagId: text('tag_id').notNull().references(() => tags.id),
 });
 
+// `kind` is 'image' | 'pdf'; `thumbnail_uri` is only set for images.
+export const attachments = sqliteTable('attachments', {
+  id: text('id').primaryKey(),
+  expenseId: text('expense_id').notNull().references(() => expenses.id),
+  uri: text('uri').notNull(),
+  thumbnailUri: text('thumbnail_uri'),
+  kind: text('kind').notNull().default('image'),
+  name: text('name').notNull().default(''),
+  size: integer('size'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: integer('created_at').notNull(),
+});
+
 export const templates = sqliteTable('templates', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
-  amount: real('amount').notNull(),
+  amount: integer('amount').notNull(),
   categoryId: text('category_id').notNull().references(() => categories.id),
   description: text('description').notNull().default(''),
-  paymentMethod: text('payment_method').notNull().default('cash'),
+  accountId: text('account_id').references(() => accounts.id),
   notes: text('notes'),
   createdAt: integer('created_at').notNull(),
 });
+
+// from_type/to_type are 'account' | 'goal' | 'debt'; the ids point into the
+// matching table.
+export const transfers = sqliteTable('transfers', {
+  id: text('id').primaryKey(),
+  amount: integer('amount').notNull(),
+  date: integer('date').notNull(),
+  fromType: text('from_type').notNull(),
+  fromId: text('from_id').notNull(),
+  toType: text('to_type').notNull(),
+  toId: text('to_id').notNull(),
+  description: text('description').notNull().default(''),
+  externalId: text('external_id'),
+  importBatchId: text('import_batch_id'),
+  createdAt: integer('created_at').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
+
+export const savedViews = sqliteTable('saved_views', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  icon: text('icon').notNull(),
+  color: text('color').notNull(),
+  filter: text('filter').notNull(),
+  dateFilter: text('date_filter'),
+  isPinned: integer('is_pinned').notNull().default(0),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: integer('created_at').notNull(),
+});
+
+export const importProfiles = sqliteTable('import_profiles', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  fingerprint: text('fingerprint').notNull(),
+  delimiter: text('delimiter').notNull().default(','),
+  headerRow: integer('header_row').notNull().default(0),
+  mapping: text('mapping').notNull(),
+  dateFormat: text('date_format'),
+  decimalSeparator: text('decimal_separator').notNull().default('.'),
+  thousandsSeparator: text('thousands_separator').notNull().default(','),
+  amountSign: text('amount_sign').notNull().default('all_expenses'),
+  lastUsedAt: integer('last_used_at'),
+  createdAt: integer('created_at').notNull(),
+});
+
+// `row_count` is how many expenses, income entries and transfers the run
+// inserted; `file_kind` is 'csv' | 'ofx' | 'qif'.
+export const importBatches = sqliteTable('import_batches', {
+  id: text('id').primaryKey(),
+  fileName: text('file_name').notNull(),
+  fileKind: text('file_kind').notNull().default('csv'),
+  profileId: text('profile_id'),
+  rowCount: integer('row_count').notNull().default(0),
+  importedAt: integer('imported_at').notNull(),
+});
+
+// Amount bounds are minor units; `tag_ids` is a JSON array of tag ids.
+export const categoryRules = sqliteTable('category_rules', {
+  id: text('id').primaryKey(),
+  matchType: text('match_type').notNull().default('contains'),
+  pattern: text('pattern').notNull(),
+  minAmount: integer('min_amount'),
+  maxAmount: integer('max_amount'),
+  categoryId: text('category_id').notNull(),
+  tagIds: text('tag_ids').notNull().default('[]'),
+  priority: integer('priority').notNull().default(0),
+  isEnabled: integer('is_enabled').notNull().default(1),
+  createdAt: integer('created_at').notNull(),
+});
+
+// Soft-deleted items kept for restore. `payload` is a JSON snapshot of the
+// item's rows as stored (minor units), keyed by `item_type`.
+export const trash = sqliteTable('trash', {
+  id: text('id').primaryKey(),
+  itemType: text('item_type').notNull(),
+  itemId: text('item_id').notNull(),
+  payload: text('payload').notNull(),
+  deletedAt: integer('deleted_at').notNull(),
+});
+
+// Units of the home currency per one unit of `currency`.
+export const exchangeRates = sqliteTable('exchange_rates', {
+  currency: text('currency').primaryKey(),
+  rate: real('rate').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
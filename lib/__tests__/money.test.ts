@@ -0,0 +1,83 @@
+import { addMoney, allocateMoney, convertMoney, formatMoney, fromMinorUnits, roundMoney, subtractMoney, sumMoney, toMinorUnits } from '@/lib/money';
+
+describe('minor units', () => {
+  it('round-trips amounts through integer minor units', () => {
+    expect(toMinorUnits(12.34)).toBe(1234);
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+    expect(fromMinorUnits(1234)).toBe(12.34);
+  });
+
+  it('rounds to the nearest storable amount', () => {
+    expect(roundMoney(1.006)).toBe(1.01);
+    expect(roundMoney(2.344)).toBe(2.34);
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds without floating-point drift', () => {
+    expect(addMoney(0.1, 0.2)).toBe(0.3);
+    expect(addMoney(19.99, 0.01, 80)).toBe(100);
+  });
+
+  it('subtracts without floating-point drift', () => {
+    expect(subtractMoney(0.3, 0.1)).toBe(0.2);
+  });
+
+  it('sums picked amounts and treats missing ones as zero', () => {
+    const items = [{ amount: 0.1 }, { amount: null }, { amount: 0.2 }, { amount: undefined }];
+    expect(sumMoney(items, (i) => i.amount)).toBe(0.3);
+    expect(sumMoney([], () => 1)).toBe(0);
+  });
+
+  it('stays exact over many small amounts', () => {
+    expect(sumMoney(Array.from({ length: 1000 }, () => 0.01), (a) => a)).toBe(10);
+  });
+});
+
+describe('formatMoney', () => {
+  it('shows two decimals, or none for zero-decimal currencies', () => {
+    expect(formatMoney(1234.5, '$', 'USD')).toBe('$1234.50');
+    expect(formatMoney(1234, '¥', 'JPY')).toBe('¥1234');
+  });
+
+  it('puts the sign before the symbol', () => {
+    expect(formatMoney(-5, '€', 'EUR')).toBe('-€5.00');
+  });
+});
+
+describe('convertMoney', () => {
+  it('converts at the rate and rounds to the nearest minor unit', () => {
+    expect(convertMoney(10, 1.2345)).toBe(12.35);
+    expect(convertMoney(19.99, 0.5)).toBe(10);
+  });
+
+  it('keeps amounts at a rate of one', () => {
+    expect(convertMoney(42.42, 1)).toBe(42.42);
+  });
+});
+
+describe('allocateMoney', () => {
+  it('divides in proportion to the weights', () => {
+    expect(allocateMoney(100, [1, 3])).toEqual([25, 75]);
+  });
+
+  it('hands leftover cents to the largest remainders so the parts add up', () => {
+    const parts = allocateMoney(10, [1, 1, 1]);
+    expect(parts).toEqual([3.34, 3.33, 3.33]);
+    expect(sumMoney(parts, (p) => p)).toBe(10);
+  });
+
+  it('re-shares lines over a new total in their old proportions', () => {
+    const parts = allocateMoney(12.35, [6, 4]);
+    expect(parts).toEqual([7.41, 4.94]);
+    expect(sumMoney(parts, (p) => p)).toBe(12.35);
+  });
+
+  it('books everything to the first part when the weights are all zero', () => {
+    expect(allocateMoney(5, [0, 0])).toEqual([5, 0]);
+  });
+
+  it('returns nothing for no weights', () => {
+    expect(allocateMoney(5, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import type { Category } from '@/types';
+
+export interface CategoryNode {
+  category: Category;
+  children: Category[];
+}
+
+const bySortOrder = (a: Category, b: Category) => a.sortOrder - b.sortOrder;
+
+/**
+ * Groups categories under their parents. Categories whose parent no longer
+ * exists are treated as top-level so they never disappear from the UI.
+ */
+export function buildCategoryTree(categories: readonly Category[]): CategoryNode[] {
+  const ids = new Set(categories.map((c) => c.id));
+  const isRoot = (c: Category) => !c.parentId || !ids.has(c.parentId);
+  return categories
+    .filter(isRoot)
+    .sort(bySortOrder)
+    .map((category) => ({
+      category,
+      children: categories.filter((c) => !isRoot(c) && c.parentId === category.id).sort(bySortOrder),
+    }));
+}
+
+/** Categories in tree order: each parent followed by its children. */
+export function flattenCategoryTree(categories: readonly Category[]): Category[] {
+  return buildCategoryTree(categories).flatMap((node) => [node.category, ...node.children]);
+}
+
+/** The category itself plus its sub-categories, for rolling spending up. */
+export function getRollupCategoryIds(categories: readonly Pick<Category, 'id' | 'parentId'>[], id: string): Set<string> {
+  const ids = new Set([id]);
+  for (const c of categories) if (c.parentId === id) ids.add(c.id);
+  return ids;
+}
+
+/** The top-level category `id` rolls up to. */
+export function getRootCategoryId(categories: readonly Category[], id: string): string {
+  const category = categories.find((c) => c.id === id);
+  const parent = category?.parentId ? categories.find((c) => c.id === category.parentId) : undefined;
+  return parent ? parent.id : id;
+}
@@ -0,0 +1,18 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/** Last path segment of a file uri. */
+export function fileName(uri: string): string {
+  return uri.split('/').pop() ?? uri;
+}
+
+/** Human-readable size such as 820 KB or 1.4 MB. */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1;
+  return `${value.toFixed(digits)} ${BYTE_UNITS[unit]}`;
+}
@@ -0,0 +1,45 @@
+import type { AdvancedFilter, FilterCondition, FilterGroup } from '@/types';
+
+export const EMPTY_FILTER: AdvancedFilter = { match: 'all', groups: [] };
+
+export function createEmptyGroup(): FilterGroup {
+  return { match: 'all', conditions: [] };
+}
+
+/** True when the filter has no conditions and so lets every expense through. */
+export function isFilterEmpty(filter: AdvancedFilter | null | undefined): boolean {
+  return !filter || filter.groups.every((g) => g.conditions.length === 0);
+}
+
+export function countConditions(filter: AdvancedFilter | null | undefined): number {
+  return filter ? filter.groups.reduce((n, g) => n + g.conditions.length, 0) : 0;
+}
+
+/** Short human-readable summary of one condition, for chips and lists. */
+export function describeCondition(
+  condition: FilterCondition,
+  names: { category: (id: string) => string; tag: (id: string) => string; amount: (value: number) => string }
+): string {
+  switch (condition.type) {
+    case 'categories':
+      return condition.categoryIds.map(names.category).join(' or ') || 'Any category';
+    case 'tags': {
+      const list = condition.tagIds.map(names.tag).join(', ');
+      if (!list) return 'Any tags';
+      return condition.mode === 'include' ? `Tagged ${list}` : `Not tagged ${list}`;
+    }
+    case 'amount':
+      if (condition.min !== null && condition.max !== null) {
+        return `${names.amount(condition.min)} – ${names.amount(condition.max)}`;
+      }
+      if (condition.min !== null) return `At least ${names.amount(condition.min)}`;
+      if (condition.max !== null) return `At most ${names.amount(condition.max)}`;
+      return 'Any amount';
+    case 'recurring':
+      return 'Recurring';
+    case 'hasReceipt':
+      return 'Has receipt';
+    case 'notes':
+      return `Notes contain "${condition.text}"`;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Money helpers.
+ *
+ * Amounts are persisted as integer minor units (hundredths of the major unit)
+ * and surfaced to the rest of the app as plain major-unit numbers. Any
+ * arithmetic that accumulates amounts should go through these helpers so the
+ * work happens on integers and totals never drift by fractions of a cent.
+ */
+
+import { CURRENCIES } from '@/lib/theme';
+
+/** Number of stored minor units per major unit, independent of currency. */
+export const MINOR_UNIT_SCALE = 100;
+
+// ISO 4217 currencies displayed without a fractional part.
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'VND', 'CLP', 'ISK', 'HUF']);
+
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * MINOR_UNIT_SCALE);
+}
+
+export function fromMinorUnits(minor: number): number {
+  return minor / MINOR_UNIT_SCALE;
+}
+
+/** Rounds a major-unit amount to the precision it can be stored at. */
+export function roundMoney(amount: number): number {
+  return fromMinorUnits(toMinorUnits(amount));
+}
+
+export function addMoney(...amounts: number[]): number {
+  let total = 0;
+  for (const amount of amounts) total += toMinorUnits(amount);
+  return fromMinorUnits(total);
+}
+
+export function subtractMoney(a: number, b: number): number {
+  return fromMinorUnits(toMinorUnits(a) - toMinorUnits(b));
+}
+
+export function sumMoney<T>(items: readonly T[], pick: (item: T) => number | null | undefined): number {
+  let total = 0;
+  for (const item of items) total += toMinorUnits(pick(item) ?? 0);
+  return fromMinorUnits(total);
+}
+
+/** Converts using `rate` (target units per source unit), rounding to the nearest minor unit. */
+export function convertMoney(amount: number, rate: number): number {
+  return fromMinorUnits(Math.round(toMinorUnits(amount) * rate));
+}
+
+/**
+ * Divides `total` in proportion to `weights`, handing leftover minor units to
+ * the largest remainders so the parts always add back up to `total` exactly.
+ */
+export function allocateMoney(total: number, weights: readonly number[]): number[] {
+  const totalMinor = toMinorUnits(total);
+  const weightMinor = weights.map(toMinorUnits);
+  const weightSum = weightMinor.reduce((a, b) => a + b, 0);
+  if (weights.length === 0) return [];
+  if (weightSum === 0) return weights.map((_, i) => (i === 0 ? fromMinorUnits(totalMinor) : 0));
+
+  const exact = weightMinor.map((w) => (totalMinor * w) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = totalMinor - parts.reduce((a, b) => a + b, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    parts[byRemainder[i].index]++;
+  }
+  return parts.map(fromMinorUnits);
+}
+
+export function getCurrencySymbol(currency: string): string {
+  return CURRENCIES.find((c) => c.code === currency)?.symbol ?? `${currency} `;
+}
+
+export function currencyDecimals(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency) ? 0 : 2;
+}
+
+export function formatMoney(amount: number, currencySymbol: string, currency: string): string {
+  const rounded = roundMoney(amount);
+  const abs = Math.abs(rounded).toFixed(currencyDecimals(currency));
+  return rounded < 0 ? `-${currencySymbol}${abs}` : `${currencySymbol}${abs}`;
+}
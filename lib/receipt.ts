@@ -1,12 +1,38 @@
 import { Paths, File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
 import * as Crypto from 'expo-crypto';
 
+// Plenty to read a receipt; camera photos are often three times the size.
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.7;
+
+/**
+ * Re-encodes an image as JPEG, scaling it down first when its longer side is
+ * over MAX_IMAGE_DIMENSION. Returns a temporary uri in the cache directory.
+ */
+export async function compressImage(uri: string): Promise<string> {
+  let image = await ImageManipulator.manipulate(uri).renderAsync();
+  if (Math.max(image.width, image.height) > MAX_IMAGE_DIMENSION) {
+    const size = image.width >= image.height ? { width: MAX_IMAGE_DIMENSION } : { height: MAX_IMAGE_DIMENSION };
+    image = await ImageManipulator.manipulate(image).resize(size).renderAsync();
+  }
+  const result = await image.saveAsync({ compress: IMAGE_QUALITY, format: SaveFormat.JPEG });
+  return result.uri;
+}
+
 export async function saveReceipt(tempUri: string): Promise<string> {
-  const ext = tempUri.split('.').pop() || 'jpg';
+  let sourceUri = tempUri;
+  try {
+    sourceUri = await compressImage(tempUri);
+  } catch (error) {
+    // Keep the original if it cannot be decoded here
+    console.warn('[receipt] could not compress receipt:', error);
+  }
+  const ext = sourceUri.split('.').pop() || 'jpg';
   const filename = `receipt_${Crypto.randomUUID()}.${ext}`;
   const destPath = `${Paths.document}/${filename}`;
 
-  const source = new File(tempUri);
+  const source = new File(sourceUri);
   const dest = new File(destPath);
 
   // Copy the file from temp to persistent storage
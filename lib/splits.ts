@@ -0,0 +1,58 @@
+import { allocateMoney, sumMoney, toMinorUnits } from '@/lib/money';
+import type { ExpenseWithCategory, SplitInput } from '@/types';
+
+export interface CategoryAmount {
+  categoryId: string;
+  amount: number;
+}
+
+/**
+ * The per-category amounts an expense contributes: its split lines when it is
+ * split, otherwise the whole amount under its own category. Anything that
+ * totals spending by category should go through this.
+ */
+export function getCategoryAmounts(expense: Pick<ExpenseWithCategory, 'categoryId' | 'amount' | 'splits'>): CategoryAmount[] {
+  if (expense.splits.length === 0) return [{ categoryId: expense.categoryId, amount: expense.amount }];
+  return expense.splits.map((s) => ({ categoryId: s.categoryId, amount: s.amount }));
+}
+
+/** Amount of `expense` booked to any of `categoryIds`, or 0 when none of it is. */
+export function getAmountForCategories(
+  expense: Pick<ExpenseWithCategory, 'categoryId' | 'amount' | 'splits'>,
+  categoryIds: ReadonlySet<string>
+): number {
+  return sumMoney(getCategoryAmounts(expense).filter((c) => categoryIds.has(c.categoryId)), (c) => c.amount);
+}
+
+export function splitsMatchTotal(lines: readonly { amount: number }[], total: number): boolean {
+  return toMinorUnits(sumMoney(lines, (l) => l.amount)) === toMinorUnits(total);
+}
+
+export interface AssignedReceiptItem {
+  description: string;
+  amount: number;
+  categoryId: string;
+}
+
+const NOTE_ITEMS = 3;
+
+/**
+ * One split line per category the receipt items were assigned to, in the
+ * order first used. The receipt total is shared out in proportion to each
+ * category's items, so tax, tip and rounding land where the items did; the
+ * note lists the items behind the line.
+ */
+export function splitReceiptItems(items: readonly AssignedReceiptItem[], total: number): SplitInput[] {
+  const groups = new Map<string, AssignedReceiptItem[]>();
+  for (const item of items) groups.set(item.categoryId, [...(groups.get(item.categoryId) ?? []), item]);
+
+  const entries = [...groups.entries()];
+  const amounts = allocateMoney(total, entries.map(([, group]) => Math.max(0, sumMoney(group, (i) => i.amount))));
+  return entries.map(([categoryId, group], i) => {
+    const names = group.map((item) => item.description);
+    const note = names.length > NOTE_ITEMS
+      ? `${names.slice(0, NOTE_ITEMS).join(', ')} +${names.length - NOTE_ITEMS} more`
+      : names.join(', ');
+    return { categoryId, amount: amounts[i], note };
+  });
+}
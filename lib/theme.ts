@@ -206,13 +206,28 @@ export const CURRENCIES = [
   { code: 'PKR', symbol: '₨', name: 'Pakistani Rupee' },
 ] as const;
 
-export const PAYMENT_METHODS = [
-  { id: 'cash', label: 'Cash', icon: 'cash' },
-  { id: 'card', label: 'Card', icon: 'credit-card-outline' },
-  { id: 'bank', label: 'Bank', icon: 'bank-outline' },
-  { id: 'other', label: 'Other', icon: 'dots-horizontal' },
+export const ACCOUNT_TYPES = [
+  { id: 'cash',    label: 'Cash',    icon: 'cash' },
+  { id: 'card',    label: 'Card',    icon: 'credit-card-outline' },
+  { id: 'bank',    label: 'Bank',    icon: 'bank-outline' },
+  { id: 'savings', label: 'Savings', icon: 'piggy-bank-outline' },
+  { id: 'credit',  label: 'Credit',  icon: 'credit-card-clock-outline' },
+  { id: 'other',   label: 'Other',   icon: 'dots-horizontal' },
 ] as const;
 
+// Ids match the former payment methods so older backups map straight across.
+export const DEFAULT_ACCOUNTS = [
+  { id: 'cash',  name: 'Cash',  type: 'cash',  icon: 'cash',                color: '#6BCB77' },
+  { id: 'card',  name: 'Card',  type: 'card',  icon: 'credit-card-outline', color: '#4D96FF' },
+  { id: 'bank',  name: 'Bank',  type: 'bank',  icon: 'bank-outline',        color: '#A855F7' },
+  { id: 'other', name: 'Other', type: 'other', icon: 'dots-horizontal',     color: '#FB923C' },
+] as const;
+
+export const ACCOUNT_COLORS = [
+  '#6BCB77', '#4D96FF', '#A855F7', '#FB923C',
+  '#FF6B6B', '#4ECDC4', '#FFD60A', '#FF6B9D',
+];
+
 export const INCOME_SOURCES = [
   { id: 'salary',      label: 'Salary',      icon: 'briefcase-outline',      color: '#4D96FF' },
   { id: 'freelance',   label: 'Freelance',   icon: 'laptop',                 color: '#A855F7' },
@@ -240,17 +255,76 @@ export const GOAL_COLORS = [
   '#FF6B6B', '#FFD60A', '#6BCB77', '#FF6B9D',
 ] as const;
 
-export const DEFAULT_CATEGORIES = [
-  { name: 'Food & Dining', icon: 'food-fork-drink', color: '#FF6B9D' },
-  { name: 'Transport', icon: 'car', color: '#4D96FF' },
-  { name: 'Shopping', icon: 'shopping', color: '#A855F7' },
-  { name: 'Entertainment', icon: 'filmstrip', color: '#FFD93D' },
-  { name: 'Bills & Utilities', icon: 'flash', color: '#EF4444' },
-  { name: 'Health', icon: 'heart-outline', color: '#6BCB77' },
-  { name: 'Education', icon: 'book-open-variant', color: '#4D96FF' },
-  { name: 'Other', icon: 'cube-outline', color: '#9CA3AF' },
+export const VIEW_COLORS = [
+  '#4D96FF', '#A855F7', '#FB923C', '#6BCB77',
+  '#FF6B9D', '#4ECDC4', '#FFD60A', '#FF6B6B',
 ] as const;
 
+// Sub-categories take their parent's color.
+export const DEFAULT_CATEGORIES: readonly {
+  name: string;
+  icon: string;
+  color: string;
+  children: readonly { name: string; icon: string }[];
+}[] = [
+  {
+    name: 'Food & Dining', icon: 'food-fork-drink', color: '#FF6B9D',
+    children: [
+      { name: 'Groceries', icon: 'cart-outline' },
+      { name: 'Restaurants', icon: 'silverware-fork-knife' },
+      { name: 'Coffee', icon: 'coffee-outline' },
+    ],
+  },
+  {
+    name: 'Transport', icon: 'car', color: '#4D96FF',
+    children: [
+      { name: 'Fuel', icon: 'gas-station' },
+      { name: 'Public Transit', icon: 'bus' },
+      { name: 'Parking', icon: 'parking' },
+    ],
+  },
+  {
+    name: 'Shopping', icon: 'shopping', color: '#A855F7',
+    children: [
+      { name: 'Clothing', icon: 'tshirt-crew-outline' },
+      { name: 'Electronics', icon: 'laptop' },
+      { name: 'Household', icon: 'home-outline' },
+    ],
+  },
+  {
+    name: 'Entertainment', icon: 'filmstrip', color: '#FFD93D',
+    children: [
+      { name: 'Streaming', icon: 'television-play' },
+      { name: 'Events', icon: 'ticket-outline' },
+      { name: 'Games', icon: 'gamepad-variant-outline' },
+    ],
+  },
+  {
+    name: 'Bills & Utilities', icon: 'flash', color: '#EF4444',
+    children: [
+      { name: 'Rent', icon: 'home-city-outline' },
+      { name: 'Electricity', icon: 'lightning-bolt' },
+      { name: 'Internet & Phone', icon: 'wifi' },
+    ],
+  },
+  {
+    name: 'Health', icon: 'heart-outline', color: '#6BCB77',
+    children: [
+      { name: 'Pharmacy', icon: 'pill' },
+      { name: 'Doctor', icon: 'medical-bag' },
+      { name: 'Fitness', icon: 'dumbbell' },
+    ],
+  },
+  {
+    name: 'Education', icon: 'book-open-variant', color: '#4D96FF',
+    children: [
+      { name: 'Courses', icon: 'school-outline' },
+      { name: 'Books', icon: 'bookshelf' },
+    ],
+  },
+  { name: 'Other', icon: 'cube-outline', color: '#9CA3AF', children: [] },
+];
+
 export const CATEGORY_ICON_OPTIONS = [
   'food-fork-drink', 'car', 'shopping', 'filmstrip',
   'flash', 'heart-outline', 'book-open-variant', 'cube-outline',
@@ -0,0 +1,119 @@
+import { attachments, categories, expenses, expenseSplits, expenseTags, tags } from '@/db/schema';
+import { queryExpenseIds, summarizeExpenses } from '@/services/expenseQueries';
+import { AdvancedFilter, FilterCondition } from '@/types';
+
+jest.mock('@/db');
+
+const testDb = jest.requireMock<typeof import('@/db/__mocks__')>('@/db');
+
+// Ids of the matching expenses, in id order
+function matching(advanced: AdvancedFilter): string[] {
+  return queryExpenseIds({ advanced }).sort();
+}
+
+function oneGroup(match: AdvancedFilter['match'], ...conditions: FilterCondition[]): AdvancedFilter {
+  return { match: 'all', groups: [{ match, conditions }] };
+}
+
+beforeEach(async () => {
+  await testDb.resetTestDatabase();
+  const { db } = testDb;
+  db.insert(categories)
+    .values([
+      { id: 'food', name: 'Food', icon: 'food', color: '#000000', createdAt: 0 },
+      { id: 'groceries', name: 'Groceries', icon: 'cart', color: '#000000', parentId: 'food', createdAt: 0 },
+      { id: 'home', name: 'Home', icon: 'home', color: '#000000', createdAt: 0 },
+    ])
+    .run();
+  const expense = (id: string, categoryId: string, amount: number, extra: Partial<typeof expenses.$inferInsert> = {}) => ({
+    id,
+    categoryId,
+    amount,
+    description: id,
+    date: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    ...extra,
+  });
+  db.insert(expenses)
+    .values([
+      expense('bread', 'groceries', 350),
+      expense('rent', 'home', 90000, { isRecurring: 1, notes: 'March 100% paid' }),
+      expense('receipt', 'home', 1200, { receiptUri: 'file:///receipt.jpg' }),
+      expense('attached', 'home', 2500),
+      // Filed under home, but split between food and groceries
+      expense('mixed', 'home', 3000),
+    ])
+    .run();
+  db.insert(expenseSplits)
+    .values([
+      { id: 's1', expenseId: 'mixed', categoryId: 'food', amount: 1000 },
+      { id: 's2', expenseId: 'mixed', categoryId: 'groceries', amount: 2000, note: 'weekly shop' },
+    ])
+    .run();
+  db.insert(attachments).values({ id: 'a1', expenseId: 'attached', uri: 'file:///a.pdf', kind: 'pdf', createdAt: 0 }).run();
+  db.insert(tags).values({ id: 'work', name: 'Work', color: '#000000', createdAt: 0 }).run();
+  db.insert(expenseTags).values({ expenseId: 'receipt', tagId: 'work' }).run();
+});
+
+describe('advanced filters', () => {
+  it('matches a parent category through its sub-categories and split lines', () => {
+    expect(matching(oneGroup('all', { type: 'categories', categoryIds: ['food'] }))).toEqual(['bread', 'mixed']);
+  });
+
+  it('does not match a split expense by the category of its header alone', () => {
+    expect(matching(oneGroup('all', { type: 'categories', categoryIds: ['home'] }))).toEqual([
+      'attached',
+      'receipt',
+      'rent',
+    ]);
+  });
+
+  it('compares amounts in major units, bounds included', () => {
+    expect(summarizeExpenses({ advanced: oneGroup('all', { type: 'amount', min: 25, max: 30 }) })).toEqual({
+      count: 2,
+      total: 55,
+    });
+  });
+
+  it('includes and excludes tags', () => {
+    expect(matching(oneGroup('all', { type: 'tags', tagIds: ['work'], mode: 'include' }))).toEqual(['receipt']);
+    expect(matching(oneGroup('all', { type: 'tags', tagIds: ['work'], mode: 'exclude' }))).toHaveLength(4);
+  });
+
+  it('finds receipts on the expense or as attachments', () => {
+    expect(matching(oneGroup('all', { type: 'hasReceipt' }))).toEqual(['attached', 'receipt']);
+  });
+
+  it('searches notes on the expense and its split lines literally', () => {
+    expect(matching(oneGroup('all', { type: 'notes', text: '100%' }))).toEqual(['rent']);
+    expect(matching(oneGroup('all', { type: 'notes', text: 'WEEKLY' }))).toEqual(['mixed']);
+  });
+
+  it('combines conditions and groups with all and any', () => {
+    const recurring: FilterCondition = { type: 'recurring' };
+    const cheap: FilterCondition = { type: 'amount', min: null, max: 5 };
+    expect(matching(oneGroup('any', recurring, cheap))).toEqual(['bread', 'rent']);
+    expect(matching(oneGroup('all', recurring, cheap))).toEqual([]);
+    expect(
+      matching({
+        match: 'any',
+        groups: [
+          { match: 'all', conditions: [recurring] },
+          { match: 'all', conditions: [{ type: 'hasReceipt' }] },
+        ],
+      })
+    ).toEqual(['attached', 'receipt', 'rent']);
+  });
+
+  it('drops conditions with nothing to test instead of matching everything', () => {
+    const anyCategory: FilterCondition = { type: 'categories', categoryIds: [] };
+    expect(matching(oneGroup('any', anyCategory, { type: 'recurring' }))).toEqual(['rent']);
+    expect(matching(oneGroup('any', { type: 'notes', text: '  ' }, { type: 'tags', tagIds: [], mode: 'include' }))).toHaveLength(5);
+  });
+
+  it('matches everything when there are no conditions', () => {
+    expect(matching({ match: 'any', groups: [] })).toHaveLength(5);
+    expect(matching({ match: 'all', groups: [{ match: 'any', conditions: [] }] })).toHaveLength(5);
+  });
+});
@@ -0,0 +1,233 @@
+import { categories, expenses, income } from '@/db/schema';
+import {
+  applyRules,
+  detectCsvFormat,
+  detectDelimiter,
+  findDuplicates,
+  flagTransfers,
+  ImportRow,
+  parseAmount,
+  parseCSV,
+} from '@/services/import';
+import { Category, CategoryRule, Tag } from '@/types';
+
+jest.mock('@/db');
+
+const testDb = jest.requireMock<typeof import('@/db/__mocks__')>('@/db');
+
+function importRow(overrides: Partial<ImportRow>): ImportRow {
+  return {
+    kind: 'expense',
+    date: new Date(2024, 0, 10),
+    amount: 10,
+    description: 'Coffee',
+    categoryId: 'food',
+    rawCategory: '',
+    categoryMatched: false,
+    source: null,
+    splits: [],
+    tagIds: [],
+    ruleId: null,
+    confidence: null,
+    isTransfer: false,
+    notes: null,
+    externalId: null,
+    ...overrides,
+  };
+}
+
+describe('parseCSV', () => {
+  it('splits on the delimiter and keeps quoted delimiters and quotes', () => {
+    const { headers, rows } = parseCSV('Date,Description,Amount\n2024-01-02,"Coffee, large",3.50\n2024-01-03,"Say ""hi""",1\n');
+    expect(headers).toEqual(['Date', 'Description', 'Amount']);
+    expect(rows).toEqual([
+      ['2024-01-02', 'Coffee, large', '3.50'],
+      ['2024-01-03', 'Say "hi"', '1'],
+    ]);
+  });
+
+  it('reads the header from the given row and skips blank lines', () => {
+    const { headers, rows } = parseCSV('Account statement\r\n\r\nDate;Amount\r\n02/01/2024;12,50\r\n', {
+      delimiter: ';',
+      headerRow: 1,
+    });
+    expect(headers).toEqual(['Date', 'Amount']);
+    expect(rows).toEqual([['02/01/2024', '12,50']]);
+  });
+
+  it('returns nothing when the file ends before the header row', () => {
+    expect(parseCSV('only line', { headerRow: 3 })).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    [',', 'Date,Amount,Note\n2024-01-02,3.50,x'],
+    [';', 'Date;Amount;Note\n02.01.2024;3,50;x'],
+    ['\t', 'Date\tAmount\n2024-01-02\t3.50'],
+    ['|', 'Date|Amount\n2024-01-02|3.50'],
+  ])('recognises %j', (delimiter, content) => {
+    expect(detectDelimiter(content)).toBe(delimiter);
+  });
+
+  it('looks past a preamble with fewer fields', () => {
+    expect(detectDelimiter('Export for account 1234\nDate;Amount;Note\n02.01.2024;3,50;x\n03.01.2024;4,00;y')).toBe(';');
+  });
+
+  it('falls back to a comma', () => {
+    expect(detectDelimiter('just text')).toBe(',');
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads plain and thousands-separated amounts', () => {
+    expect(parseAmount('12.34')).toBe(12.34);
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+  });
+
+  it('reads parentheses and a trailing minus as negative', () => {
+    expect(parseAmount('(25.00)')).toBe(-25);
+    expect(parseAmount('25.00-')).toBe(-25);
+  });
+
+  it('ignores currency symbols and spaces', () => {
+    expect(parseAmount('£ 1,000.50')).toBe(1000.5);
+    expect(parseAmount('-€3.20')).toBe(-3.2);
+  });
+
+  it('reads comma decimals with the matching separators', () => {
+    const european = { decimalSeparator: ',', thousandsSeparator: '.' } as const;
+    expect(parseAmount('1.234,56', european)).toBe(1234.56);
+    expect(parseAmount('(12,5)', european)).toBe(-12.5);
+  });
+
+  it('returns null for text that is not an amount', () => {
+    expect(parseAmount('n/a')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+  });
+});
+
+describe('detectCsvFormat', () => {
+  it('picks up a semicolon file with a preamble and comma decimals', () => {
+    const format = detectCsvFormat('Statement\nDate;Description;Amount\n02/01/2024;Coffee;-3,50\n15/01/2024;Salary;1.200,00\n');
+    expect(format.delimiter).toBe(';');
+    expect(format.headerRow).toBe(1);
+    expect(format.decimalSeparator).toBe(',');
+    expect(format.thousandsSeparator).toBe('.');
+  });
+});
+
+describe('findDuplicates', () => {
+  const day = (d: number) => new Date(2024, 0, d).getTime();
+
+  beforeEach(async () => {
+    await testDb.resetTestDatabase();
+    const { db } = testDb;
+    db.insert(categories).values({ id: 'food', name: 'Food', icon: 'food', color: '#000000', createdAt: 0 }).run();
+    db.insert(expenses)
+      .values({ id: 'e1', amount: 450, categoryId: 'food', description: 'STARBUCKS #1234', date: day(10), createdAt: 0, updatedAt: 0 })
+      .run();
+    db.insert(income)
+      .values({ id: 'i1', amount: 250000, description: 'ACME LTD PAYROLL', date: day(31), createdAt: 0, updatedAt: 0 })
+      .run();
+  });
+
+  it('flags rows already in the ledger despite differing descriptions', () => {
+    const matches = findDuplicates([importRow({ amount: 4.5, description: 'Starbucks', date: new Date(2024, 0, 11) })], 3);
+    expect(matches).toEqual([
+      { rowIndex: 0, source: 'existing', description: 'STARBUCKS #1234', date: day(10), fileRowIndex: null },
+    ]);
+  });
+
+  it('compares income with income only', () => {
+    const rows = [
+      importRow({ kind: 'income', amount: 2500, description: 'Acme Ltd payroll', date: new Date(2024, 0, 31) }),
+      importRow({ amount: 2500, description: 'Acme Ltd payroll', date: new Date(2024, 0, 31) }),
+    ];
+    expect(findDuplicates(rows, 3).map((m) => [m.rowIndex, m.source])).toEqual([[0, 'existing']]);
+  });
+
+  it('ignores entries outside the window, with another amount or an unlike description', () => {
+    const rows = [
+      importRow({ amount: 4.5, description: 'Starbucks', date: new Date(2024, 0, 20) }),
+      importRow({ amount: 4.51, description: 'Starbucks', date: new Date(2024, 0, 10) }),
+      importRow({ amount: 4.5, description: 'Shell petrol', date: new Date(2024, 0, 10) }),
+    ];
+    expect(findDuplicates(rows, 3)).toEqual([]);
+  });
+
+  it('flags a repeat of an earlier row in the same file', () => {
+    const rows = [
+      importRow({ amount: 12, description: 'Cinema', date: new Date(2024, 1, 1) }),
+      importRow({ amount: 12, description: 'CINEMA 42', date: new Date(2024, 1, 2) }),
+    ];
+    expect(findDuplicates(rows, 3)).toEqual([
+      { rowIndex: 1, source: 'file', description: 'Cinema', date: new Date(2024, 1, 1).getTime(), fileRowIndex: 0 },
+    ]);
+  });
+});
+
+describe('applyRules', () => {
+  const category = (id: string): Category => ({
+    id,
+    name: id,
+    icon: 'tag',
+    color: '#000000',
+    budgetAmount: null,
+    budgetPeriod: null,
+    parentId: null,
+    isDefault: 0,
+    sortOrder: 0,
+    createdAt: 0,
+  });
+  const tags: Tag[] = [{ id: 'work', name: 'Work', color: '#000000', createdAt: 0 }];
+  const rule: CategoryRule = {
+    id: 'r1',
+    matchType: 'contains',
+    pattern: 'starbucks',
+    minAmount: null,
+    maxAmount: null,
+    categoryId: 'coffee',
+    tagIds: ['work', 'deleted-tag'],
+    priority: 0,
+    isEnabled: true,
+    createdAt: 0,
+  };
+  const known = [category('food'), category('coffee')];
+
+  it("books matching expenses to the rule's category and existing tags", () => {
+    const [row] = applyRules([importRow({ description: 'STARBUCKS #12', categoryId: 'food' })], [rule], known, tags);
+    expect(row).toMatchObject({ categoryId: 'coffee', categoryMatched: true, tagIds: ['work'], ruleId: 'r1' });
+  });
+
+  it('leaves income, split rows and non-matching rows alone', () => {
+    const rows = [
+      importRow({ kind: 'income', description: 'Starbucks refund' }),
+      importRow({ description: 'Starbucks', splits: [{ categoryId: 'food', amount: 10, note: null }] }),
+      importRow({ description: 'Tesco' }),
+    ];
+    expect(applyRules(rows, [rule], known, tags)).toEqual(rows);
+  });
+
+  it('skips rules whose category was deleted', () => {
+    const rows = [importRow({ description: 'Starbucks' })];
+    expect(applyRules(rows, [rule], [category('food')], tags)).toEqual(rows);
+  });
+});
+
+describe('flagTransfers', () => {
+  it('flags rows whose description or category contains a keyword', () => {
+    const rows = [
+      importRow({ description: 'Transfer to SAVINGS' }),
+      importRow({ description: 'Bank', rawCategory: 'Credit card payment' }),
+      importRow({ description: 'Coffee' }),
+    ];
+    expect(flagTransfers(rows, [' savings ', 'card payment']).map((r) => r.isTransfer)).toEqual([true, true, false]);
+  });
+
+  it('keeps rows the file marked and ignores blank keywords', () => {
+    const rows = [importRow({ description: 'Coffee', isTransfer: true }), importRow({ description: 'Coffee' })];
+    expect(flagTransfers(rows, ['', '  ']).map((r) => r.isTransfer)).toEqual([true, false]);
+    expect(flagTransfers(rows, ['savings'])[0].isTransfer).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { isOFX, parseOFX } from '@/services/ofx';
+
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP
+<BANKACCTFROM><BANKID>12345<ACCTID>00112233<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20240105120000.000[0:GMT]
+<TRNAMT>-12.50
+<FITID>A1
+<NAME>Fish &amp; Chips
+<MEMO>Card 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>directdep
+<DTPOSTED>20240131
+<TRNAMT>1500,00
+<FITID>A2
+<PAYEE><NAME>Acme Ltd</PAYEE>
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>bad
+<TRNAMT>-1
+<FITID>A3
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const XML = `<?xml version="1.0"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>USD</CURDEF>
+<CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240210</DTPOSTED><TRNAMT>-4.25</TRNAMT><FITID>B1</FITID><NAME>Coffee</NAME></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+describe('isOFX', () => {
+  it('recognises both flavours and rejects CSV', () => {
+    expect(isOFX(SGML)).toBe(true);
+    expect(isOFX(XML)).toBe(true);
+    expect(isOFX('Date,Amount\n2024-01-01,3')).toBe(false);
+  });
+});
+
+describe('parseOFX', () => {
+  it('reads an SGML bank statement', () => {
+    const [statement] = parseOFX(SGML);
+    expect(statement.accountId).toBe('00112233');
+    expect(statement.currency).toBe('GBP');
+    expect(statement.transactions[0]).toEqual({
+      fitId: 'A1',
+      type: 'POS',
+      date: new Date(2024, 0, 5),
+      amount: -12.5,
+      name: 'Fish & Chips',
+      memo: 'Card 1234',
+    });
+  });
+
+  it('reads decimal commas, payee names and lower-case types', () => {
+    const income = parseOFX(SGML)[0].transactions[1];
+    expect(income.amount).toBe(1500);
+    expect(income.name).toBe('Acme Ltd');
+    expect(income.type).toBe('DIRECTDEP');
+    expect(income.memo).toBe('');
+  });
+
+  it('drops transactions without a readable date', () => {
+    expect(parseOFX(SGML)[0].transactions.map((t) => t.fitId)).toEqual(['A1', 'A2']);
+  });
+
+  it('reads an XML credit card statement', () => {
+    expect(parseOFX(XML)).toEqual([
+      {
+        accountId: '4111',
+        currency: 'USD',
+        transactions: [{ fitId: 'B1', type: 'DEBIT', date: new Date(2024, 1, 10), amount: -4.25, name: 'Coffee', memo: '' }],
+      },
+    ]);
+  });
+
+  it('throws when there is no OFX body', () => {
+    expect(() => parseOFX('OFXHEADER:100')).toThrow('This is not an OFX file.');
+  });
+});
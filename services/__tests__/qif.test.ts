@@ -0,0 +1,169 @@
+import { mapQifTransactions } from '@/services/import';
+import { isQIF, isQifTransfer, parseQIF, QifTransaction } from '@/services/qif';
+import { Category } from '@/types';
+
+jest.mock('@/db');
+
+const BANK = `!Type:Bank
+D1/15'24
+T-42.10
+PTesco
+MWeekly shop
+LFood:Groceries/Home
+^
+D1/20/2024
+T1,250.00
+PAcme Ltd
+LSalary
+^
+D1/21/2024
+T-100.00
+L[Savings]
+^
+!Type:Invst
+D1/22/2024
+T-5.00
+^
+`;
+
+describe('isQIF', () => {
+  it('recognises a header line, with or without a byte-order mark', () => {
+    expect(isQIF(BANK)).toBe(true);
+    expect(isQIF('\uFEFF!Account\nNChecking\n^')).toBe(true);
+    expect(isQIF('Date,Amount')).toBe(false);
+  });
+});
+
+describe('isQifTransfer', () => {
+  it('treats bracketed categories as transfers', () => {
+    expect(isQifTransfer('[Savings]')).toBe(true);
+    expect(isQifTransfer('Food:Groceries')).toBe(false);
+  });
+});
+
+describe('parseQIF', () => {
+  it('reads cash-flow records and skips other sections', () => {
+    const transactions = parseQIF(BANK);
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toEqual({
+      date: new Date(2024, 0, 15),
+      amount: -42.1,
+      payee: 'Tesco',
+      memo: 'Weekly shop',
+      category: 'Food:Groceries',
+      splits: [],
+      account: null,
+    });
+    expect(transactions[1].amount).toBe(1250);
+    expect(transactions[2].category).toBe('[Savings]');
+  });
+
+  it('reads split lines', () => {
+    const [t] = parseQIF('!Type:CCard\nD03/02/2024\nT-30.00\nSFood\nEBread\n$-10.00\nSHome\n$-20.00\n^\n');
+    expect(t.splits).toEqual([
+      { category: 'Food', amount: -10, memo: 'Bread' },
+      { category: 'Home', amount: -20, memo: '' },
+    ]);
+  });
+
+  it('switches to day-first dates when a day exceeds twelve', () => {
+    const dates = parseQIF('!Type:Bank\nD25/12/2023\nT-1\n^\nD03/01/2024\nT-1\n^\n').map((t) => t.date);
+    expect(dates).toEqual([new Date(2023, 11, 25), new Date(2024, 0, 3)]);
+  });
+
+  it('reads decimal commas', () => {
+    expect(parseQIF('!Type:Cash\nD2024-01-05\nT-12,50\n^\n')[0].amount).toBe(-12.5);
+  });
+
+  it('names the account records belong to', () => {
+    const [t] = parseQIF('!Account\nNChecking\nTBank\n^\n!Type:Bank\nD1/5/2024\nT-1\n^\n');
+    expect(t.account).toBe('Checking');
+  });
+
+  it('drops records without a valid date or amount', () => {
+    expect(parseQIF('!Type:Bank\nD2/30/2024\nT-1\n^\nD2/1/2024\n^\n')).toEqual([]);
+  });
+});
+
+describe('mapQifTransactions', () => {
+  const category = (id: string, name: string, parentId: string | null = null): Category => ({
+    id,
+    name,
+    icon: 'tag',
+    color: '#000000',
+    budgetAmount: null,
+    budgetPeriod: null,
+    parentId,
+    isDefault: 0,
+    sortOrder: 0,
+    createdAt: 0,
+  });
+  const categories = [category('food', 'Food'), category('groceries', 'Groceries', 'food'), category('home', 'Home')];
+  const transaction = (overrides: Partial<QifTransaction>): QifTransaction => ({
+    date: new Date(2024, 0, 1),
+    amount: -30,
+    payee: 'Shop',
+    memo: '',
+    category: '',
+    splits: [],
+    account: null,
+    ...overrides,
+  });
+
+  it('books money out by category path and money in as income', () => {
+    const [expense, income] = mapQifTransactions(
+      [transaction({ category: 'Food:Groceries' }), transaction({ amount: 1250, payee: 'Acme', category: 'Salary' })],
+      categories,
+      'other'
+    );
+    expect(expense).toMatchObject({ kind: 'expense', amount: 30, categoryId: 'groceries', categoryMatched: true });
+    expect(income).toMatchObject({ kind: 'income', amount: 1250, source: 'salary' });
+  });
+
+  it('flags transfers to other accounts', () => {
+    const [row] = mapQifTransactions([transaction({ category: '[Savings]' })], categories, 'other');
+    expect(row).toMatchObject({ isTransfer: true, description: 'Shop', categoryId: 'other' });
+  });
+
+  it('keeps split lines that add up to the total', () => {
+    const splits = [
+      { category: 'Food', amount: -10, memo: 'Bread' },
+      { category: 'Home', amount: -20, memo: '' },
+    ];
+    const [row] = mapQifTransactions([transaction({ splits })], categories, 'other');
+    expect(row.amount).toBe(30);
+    expect(row.categoryId).toBe('home');
+    expect(row.splits).toEqual([
+      { categoryId: 'food', amount: 10, note: 'Bread' },
+      { categoryId: 'home', amount: 20, note: null },
+    ]);
+  });
+
+  it('books the record total and adds the rest as a line when the splits fall short', () => {
+    const splits = [
+      { category: 'Food', amount: -10, memo: '' },
+      { category: 'Home', amount: -15, memo: '' },
+    ];
+    const [row] = mapQifTransactions([transaction({ splits })], categories, 'other');
+    expect(row.amount).toBe(30);
+    expect(row.splits).toEqual([
+      { categoryId: 'food', amount: 10, note: null },
+      { categoryId: 'home', amount: 15, note: null },
+      { categoryId: 'other', amount: 5, note: 'Not covered by the split lines' },
+    ]);
+  });
+
+  it('books the whole total unsplit when the lines exceed it or run the other way', () => {
+    const over = [
+      { category: 'Food', amount: -20, memo: '' },
+      { category: 'Home', amount: -20, memo: '' },
+    ];
+    const refund = [
+      { category: 'Home', amount: -40, memo: '' },
+      { category: 'Food', amount: 10, memo: '' },
+    ];
+    const rows = mapQifTransactions([transaction({ splits: over }), transaction({ splits: refund })], categories, 'other');
+    expect(rows.map((r) => [r.amount, r.splits.length])).toEqual([[30, 0], [30, 0]]);
+    expect(rows[1].categoryId).toBe('home');
+  });
+});
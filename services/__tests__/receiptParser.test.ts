@@ -0,0 +1,31 @@
+import { format } from 'date-fns';
+import { parseReceiptText } from '@/services/receiptParser';
+import { RECEIPT_FIXTURES } from '@/services/fixtures/receipts';
+
+describe('parseReceiptText', () => {
+  describe.each(RECEIPT_FIXTURES.map((f) => [f.name, f] as const))('%s', (_, fixture) => {
+    const result = parseReceiptText(fixture.text);
+    const { expected } = fixture;
+
+    it('reads the merchant', () => {
+      expect(result.merchant).toBe(expected.merchant);
+    });
+
+    it('reads the total, tax and currency', () => {
+      expect(result.amount).toBeCloseTo(expected.amount as number, 2);
+      if (expected.tax === null) expect(result.tax).toBeNull();
+      else expect(result.tax).toBeCloseTo(expected.tax, 2);
+      expect(result.currency).toBe(expected.currency);
+    });
+
+    it('reads the date', () => {
+      expect(result.date ? format(result.date, 'yyyy-MM-dd') : null).toBe(expected.date);
+    });
+
+    it('reads the line items', () => {
+      expect(result.lineItems.map((i) => ({ description: i.description, amount: i.amount }))).toEqual(
+        expected.lineItems
+      );
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { findMatchingRule, isValidPattern, ruleMatches, suggestRulePattern } from '@/services/rules';
+import { CategoryRule } from '@/types';
+
+function rule(overrides: Partial<CategoryRule>): CategoryRule {
+  return {
+    id: 'r1',
+    matchType: 'contains',
+    pattern: 'starbucks',
+    minAmount: null,
+    maxAmount: null,
+    categoryId: 'coffee',
+    tagIds: [],
+    priority: 0,
+    isEnabled: true,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('isValidPattern', () => {
+  it('rejects empty patterns and regexes that do not compile', () => {
+    expect(isValidPattern('contains', '  ')).toBe(false);
+    expect(isValidPattern('regex', '(unclosed')).toBe(false);
+    expect(isValidPattern('contains', '(unclosed')).toBe(true);
+    expect(isValidPattern('regex', '^uber\\s+eats')).toBe(true);
+  });
+});
+
+describe('ruleMatches', () => {
+  it('matches substrings case-insensitively and literally', () => {
+    expect(ruleMatches(rule({}), 'STARBUCKS #1234', 4.5)).toBe(true);
+    expect(ruleMatches(rule({ pattern: 'a.b' }), 'axb', 1)).toBe(false);
+    expect(ruleMatches(rule({ pattern: 'a.b' }), 'A.B store', 1)).toBe(true);
+  });
+
+  it('matches regexes', () => {
+    expect(ruleMatches(rule({ matchType: 'regex', pattern: '^uber\\s+eats' }), 'Uber  Eats London', 20)).toBe(true);
+    expect(ruleMatches(rule({ matchType: 'regex', pattern: '^uber\\s+eats' }), 'Pay Uber Eats', 20)).toBe(false);
+  });
+
+  it('treats the amount bounds as inclusive', () => {
+    const bounded = rule({ minAmount: 2, maxAmount: 4.99 });
+    expect(ruleMatches(bounded, 'Starbucks', 4.99)).toBe(true);
+    expect(ruleMatches(bounded, 'Starbucks', 2)).toBe(true);
+    expect(ruleMatches(bounded, 'Starbucks', 5)).toBe(false);
+    expect(ruleMatches(bounded, 'Starbucks', 1.99)).toBe(false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  const categoryIds = new Set(['coffee', 'treats']);
+
+  it('returns the first matching rule by priority', () => {
+    const rules = [rule({ id: 'late', priority: 2 }), rule({ id: 'early', priority: 1, categoryId: 'treats' })];
+    expect(findMatchingRule(rules, 'Starbucks', 3, categoryIds)?.id).toBe('early');
+  });
+
+  it('passes over disabled rules and rules for deleted categories', () => {
+    const rules = [
+      rule({ id: 'off', isEnabled: false }),
+      rule({ id: 'gone', categoryId: 'deleted', priority: 1 }),
+      rule({ id: 'on', priority: 2 }),
+    ];
+    expect(findMatchingRule(rules, 'Starbucks', 3, categoryIds)?.id).toBe('on');
+  });
+
+  it('matches nothing for a blank description', () => {
+    expect(findMatchingRule([rule({ matchType: 'regex', pattern: '.*' })], ' ', 3, categoryIds)).toBeNull();
+  });
+});
+
+describe('suggestRulePattern', () => {
+  it('keeps the words before store numbers and references', () => {
+    expect(suggestRulePattern('STARBUCKS #1234 SEATTLE WA')).toBe('STARBUCKS');
+    expect(suggestRulePattern('Amazon Marketplace EU Sarl')).toBe('Amazon Marketplace EU');
+    expect(suggestRulePattern('  1234 ')).toBe('1234');
+  });
+});
@@ -0,0 +1,112 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as Crypto from 'expo-crypto';
+import { asc, eq } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { attachments } from '@/db/schema';
+import { compressImage } from '@/lib/receipt';
+import type { Attachment, AttachmentKind } from '@/types';
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 0.6;
+
+export interface AttachmentSource {
+  /** Temporary uri from the image or document picker. */
+  uri: string;
+  kind: AttachmentKind;
+  /** File name shown under the thumbnail; derived from the uri when missing. */
+  name?: string | null;
+}
+
+export function attachmentsDirectory(): Directory {
+  const dir = new Directory(Paths.document, 'attachments');
+  if (!dir.exists) dir.create({ intermediates: true });
+  return dir;
+}
+
+function toAttachment(row: typeof attachments.$inferSelect): Attachment {
+  return { ...row, kind: row.kind as AttachmentKind };
+}
+
+function deleteFile(uri: string | null) {
+  if (!uri) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch {
+    // File may already be deleted
+  }
+}
+
+/** Removes an attachment's file and thumbnail; the row is left to the caller. */
+export function deleteAttachmentFiles(attachment: Pick<Attachment, 'uri' | 'thumbnailUri'>): void {
+  deleteFile(attachment.uri);
+  deleteFile(attachment.thumbnailUri);
+}
+
+async function createThumbnail(uri: string, id: string): Promise<string | null> {
+  try {
+    const image = await ImageManipulator.manipulate(uri).resize({ width: THUMBNAIL_WIDTH }).renderAsync();
+    const result = await image.saveAsync({ compress: THUMBNAIL_QUALITY, format: SaveFormat.JPEG });
+    const thumbnail = new File(attachmentsDirectory(), `thumb_${id}.jpg`);
+    new File(result.uri).move(thumbnail);
+    return thumbnail.uri;
+  } catch (error) {
+    // The full image still shows in the gallery, just without a preview
+    console.warn('[attachments] could not create thumbnail:', error);
+    return null;
+  }
+}
+
+export function getAttachments(expenseId: string): Attachment[] {
+  return db.select().from(attachments)
+    .where(eq(attachments.expenseId, expenseId))
+    .orderBy(asc(attachments.sortOrder), asc(attachments.createdAt))
+    .all()
+    .map(toAttachment);
+}
+
+/** Copies the picked file into app storage and records it against the expense. */
+export async function addAttachment(expenseId: string, source: AttachmentSource): Promise<Attachment> {
+  const fileId = Crypto.randomUUID();
+  let sourceUri = source.uri;
+  if (source.kind === 'image') {
+    try {
+      sourceUri = await compressImage(source.uri);
+    } catch (error) {
+      console.warn('[attachments] could not compress image:', error);
+    }
+  }
+  const fallbackExt = source.kind === 'pdf' ? 'pdf' : 'jpg';
+  const ext = (sourceUri.split('?')[0].split('.').pop() || fallbackExt).toLowerCase();
+  const dest = new File(attachmentsDirectory(), `attachment_${fileId}.${ext.length <= 4 ? ext : fallbackExt}`);
+  new File(sourceUri).copy(dest);
+
+  const thumbnailUri = source.kind === 'image' ? await createThumbnail(dest.uri, fileId) : null;
+  const existing = getAttachments(expenseId);
+  const row: typeof attachments.$inferSelect = {
+    id: generateId(),
+    expenseId,
+    uri: dest.uri,
+    thumbnailUri,
+    kind: source.kind,
+    name: source.name || dest.name,
+    size: dest.size || null,
+    sortOrder: existing.length === 0 ? 0 : Math.max(...existing.map((a) => a.sortOrder)) + 1,
+    createdAt: Date.now(),
+  };
+  try {
+    db.insert(attachments).values(row).run();
+  } catch (error) {
+    deleteAttachmentFiles(row);
+    throw error;
+  }
+  return toAttachment(row);
+}
+
+export function deleteAttachment(id: string): void {
+  const row = db.select().from(attachments).where(eq(attachments.id, id)).get();
+  if (!row) return;
+  db.delete(attachments).where(eq(attachments.id, id)).run();
+  deleteAttachmentFiles(row);
+}
@@ -1,6 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Sharing from 'expo-sharing';
-import { Paths, File } from 'expo-file-system';
+import { Paths, File, Directory } from 'expo-file-system';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Zippable } from 'fflate';
 import { format } from 'date-fns';
 import { db } from '@/db';
 import {
@@ -13,15 +15,204 @@ import {
   tags,
   expenseTags,
   templates,
+  exchangeRates,
+  accounts,
+  transfers,
+  expenseSplits,
+  savedViews,
+  importProfiles,
+  categoryRules,
+  importBatches,
+  attachments,
 } from '@/db/schema';
+import { toMinorUnits } from '@/lib/money';
+import { fileName } from '@/lib/files';
+import { attachmentsDirectory } from '@/services/attachments';
+import { clearTrashRows, deleteTrashedFiles } from '@/services/trash';
+import { DEFAULT_ACCOUNTS } from '@/lib/theme';
 import type { BackupData } from '@/types';
 
-const BACKUP_VERSION = '1.4.0';
+// 2.x: money columns are integer minor units (cents)
+// 2.1: transactions reference accounts instead of a payment method string
+// 2.2: adds transfers
+// 2.3: adds expense split lines
+// 2.4: adds saved filter views
+// 2.5: adds CSV import profiles
+// 2.6: adds categorization rules
+// 2.7: adds import batch history
+// 2.8: adds expense attachments
+const BACKUP_VERSION = '2.8.0';
+const INTEGER_MONEY_MAJOR = 2;
+
+// A .zip backup holds the JSON export as backup.json plus every receipt and
+// attachment file under files/, keyed by file name.
+const ARCHIVE_DATA_ENTRY = 'backup.json';
+const ARCHIVE_FILES_PREFIX = 'files/';
+
+export interface ParsedBackup {
+  data: BackupData;
+  /** File contents by name; empty for a plain JSON backup. */
+  files: Record<string, Uint8Array>;
+}
+
+export interface BackupSizeEstimate {
+  dataBytes: number;
+  fileBytes: number;
+  fileCount: number;
+}
 
 function getMajorVersion(v: string): number {
   return parseInt(v.split('.')[0], 10);
 }
 
+// Backups written before 2.0.0 store amounts as major-unit floats.
+function upgradeLegacyMoney(data: BackupData): BackupData {
+  const convert = <T extends Record<string, any>>(rows: T[] | undefined, fields: string[]): T[] =>
+    (rows ?? []).map((row) => {
+      const next: Record<string, any> = { ...row };
+      for (const field of fields) {
+        if (typeof next[field] === 'number') next[field] = toMinorUnits(next[field]);
+      }
+      return next as T;
+    });
+
+  return {
+    ...data,
+    categories: convert(data.categories, ['budgetAmount']),
+    expenses: convert(data.expenses, ['amount', 'originalAmount']),
+    budgets: convert(data.budgets, ['amount']),
+    income: convert(data.income, ['amount', 'originalAmount']),
+    savingsGoals: convert(data.savingsGoals, ['targetAmount', 'currentAmount']),
+    debts: convert(data.debts, ['totalAmount', 'remainingAmount', 'minimumPayment']),
+    templates: convert(data.templates, ['amount']),
+  };
+}
+
+// Backups without an accounts table carry a paymentMethod string on expenses
+// and templates; the seeded accounts use those strings as their ids.
+function upgradePaymentMethods(data: BackupData): BackupData {
+  const seededIds = new Set<string>(DEFAULT_ACCOUNTS.map((a) => a.id));
+  const toAccount = <T extends Record<string, any>>(rows: T[] | undefined): T[] =>
+    (rows ?? []).map((row) => {
+      const { paymentMethod, ...rest } = row;
+      return { ...rest, accountId: seededIds.has(paymentMethod) ? paymentMethod : 'other' } as unknown as T;
+    });
+
+  const now = Date.now();
+  return {
+    ...data,
+    accounts: DEFAULT_ACCOUNTS.map((a, i) => ({ ...a, openingBalance: 0, currency: null, sortOrder: i, createdAt: now })),
+    expenses: toAccount(data.expenses),
+    templates: toAccount(data.templates),
+  };
+}
+
+// ─── Files ─────────────────────────────────────────────────────────────────────
+
+/** Receipt, attachment and thumbnail paths the rows refer to, without repeats. */
+function backupFileUris(data: BackupData): string[] {
+  const uris = new Set<string>();
+  for (const row of data.expenses ?? []) if (row.receiptUri) uris.add(row.receiptUri);
+  for (const row of data.attachments ?? []) {
+    uris.add(row.uri);
+    if (row.thumbnailUri) uris.add(row.thumbnailUri);
+  }
+  return [...uris];
+}
+
+/**
+ * Contents of the files `data` refers to, keyed by name as importBackup
+ * expects. Missing files are skipped.
+ */
+export async function readBackupFiles(data: BackupData): Promise<Record<string, Uint8Array>> {
+  const files: Record<string, Uint8Array> = {};
+  for (const uri of backupFileUris(data)) {
+    const file = new File(uri);
+    if (!file.exists) continue;
+    files[fileName(uri)] = await file.bytes();
+  }
+  return files;
+}
+
+async function buildArchive(json: string, files: Record<string, Uint8Array>): Promise<Uint8Array> {
+  const entries: Zippable = { [ARCHIVE_DATA_ENTRY]: strToU8(json) };
+  for (const [name, bytes] of Object.entries(files)) {
+    // Photos and PDFs are compressed already; storing them as-is is much faster
+    entries[ARCHIVE_FILES_PREFIX + name] = [bytes, { level: 0 }];
+  }
+  return zipSync(entries);
+}
+
+// Rows carry absolute paths from the device that wrote the backup, and the app
+// container moves between installs, so files are matched by name: archive
+// files go into this install's folders, and paths to files already here are
+// pointed at them. Anything else keeps its old path. Nothing is written here;
+// the caller writes `writes` once the rows are in.
+function resolveBackupFiles(
+  data: BackupData,
+  files: Record<string, Uint8Array>
+): { data: BackupData; writes: { file: File; bytes: Uint8Array }[] } {
+  const writes = new Map<string, { file: File; bytes: Uint8Array }>();
+  const resolve = (uri: string | null, dir: Directory): string | null => {
+    if (!uri) return uri;
+    const target = new File(dir, fileName(uri));
+    const bytes = files[fileName(uri)];
+    if (bytes) writes.set(target.uri, { file: target, bytes });
+    return bytes || target.exists ? target.uri : uri;
+  };
+
+  const resolved: BackupData = {
+    ...data,
+    expenses: (data.expenses ?? []).map((row) => ({ ...row, receiptUri: resolve(row.receiptUri, Paths.document) })),
+    attachments: data.attachments?.map((row) => ({
+      ...row,
+      uri: resolve(row.uri, attachmentsDirectory()),
+      thumbnailUri: resolve(row.thumbnailUri, attachmentsDirectory()),
+    })),
+  };
+  return { data: resolved, writes: [...writes.values()] };
+}
+
+// Folders archive files are restored into, by their name inside a snapshot.
+function restoreFolders(): Record<string, Directory> {
+  return { documents: Paths.document, attachments: attachmentsDirectory() };
+}
+
+/**
+ * Copies the files that restoring `files` would overwrite into a new folder in
+ * the cache, so that undoing the restore can put them back. Returns null when
+ * nothing would be overwritten.
+ */
+export function snapshotOverwrittenFiles(files: Record<string, Uint8Array>): Directory | null {
+  const snapshot = new Directory(Paths.cache, `restore-undo-${Date.now()}`);
+  let copied = 0;
+  for (const [folder, dir] of Object.entries(restoreFolders())) {
+    for (const name of Object.keys(files)) {
+      const existing = new File(dir, name);
+      if (!existing.exists) continue;
+      const target = new Directory(snapshot, folder);
+      if (!target.exists) target.create({ intermediates: true });
+      existing.copy(new File(target, name));
+      copied += 1;
+    }
+  }
+  return copied > 0 ? snapshot : null;
+}
+
+/** Copies a snapshot's files back over the ones a restore wrote. */
+export function restoreOverwrittenFiles(snapshot: Directory): void {
+  for (const [folder, dir] of Object.entries(restoreFolders())) {
+    const source = new Directory(snapshot, folder);
+    if (!source.exists) continue;
+    for (const entry of source.list()) {
+      if (!(entry instanceof File)) continue;
+      const target = new File(dir, entry.name);
+      if (target.exists) target.delete();
+      entry.copy(target);
+    }
+  }
+}
+
 // ─── Export ────────────────────────────────────────────────────────────────────
 
 export function exportBackup(): BackupData {
@@ -34,6 +225,15 @@ export function exportBackup(): BackupData {
   const allTags = db.select().from(tags).all();
   const allExpenseTags = db.select().from(expenseTags).all();
   const allTemplates = db.select().from(templates).all();
+  const allExchangeRates = db.select().from(exchangeRates).all();
+  const allAccounts = db.select().from(accounts).all();
+  const allTransfers = db.select().from(transfers).all();
+  const allExpenseSplits = db.select().from(expenseSplits).all();
+  const allSavedViews = db.select().from(savedViews).all();
+  const allImportProfiles = db.select().from(importProfiles).all();
+  const allCategoryRules = db.select().from(categoryRules).all();
+  const allImportBatches = db.select().from(importBatches).all();
+  const allAttachments = db.select().from(attachments).all();
 
   // Settings and gamification are populated asynchronously in buildFullBackup / shareBackup.
   return {
@@ -48,13 +248,22 @@ export function exportBackup(): BackupData {
     tags: allTags,
     expenseTags: allExpenseTags,
     templates: allTemplates,
+    exchangeRates: allExchangeRates,
+    accounts: allAccounts,
+    transfers: allTransfers,
+    expenseSplits: allExpenseSplits,
+    savedViews: allSavedViews,
+    importProfiles: allImportProfiles,
+    categoryRules: allCategoryRules,
+    importBatches: allImportBatches,
+    attachments: allAttachments,
     settings: null,      // populated in shareBackup (async)
     gamification: null,  // populated in shareBackup (async)
     achievements: null,  // populated in shareBackup (async)
   };
 }
 
-async function buildFullBackup(): Promise<BackupData> {
+export async function buildFullBackup(): Promise<BackupData> {
   const base = exportBackup();
 
   const [settingsRaw, gamificationRaw] = await Promise.all([
@@ -70,9 +279,32 @@ async function buildFullBackup(): Promise<BackupData> {
   };
 }
 
+/** Sizes of the JSON export and of the files an archive backup would add. */
+export async function estimateBackupSize(): Promise<BackupSizeEstimate> {
+  const data = await buildFullBackup();
+  const estimate: BackupSizeEstimate = {
+    dataBytes: strToU8(JSON.stringify(data, null, 2)).length,
+    fileBytes: 0,
+    fileCount: 0,
+  };
+  for (const uri of backupFileUris(data)) {
+    const file = new File(uri);
+    if (!file.exists) continue;
+    estimate.fileBytes += file.size;
+    estimate.fileCount += 1;
+  }
+  return estimate;
+}
+
 // ─── Import ────────────────────────────────────────────────────────────────────
 
-export async function importBackup(data: BackupData): Promise<void> {
+/**
+ * Replaces all data with the backup's and empties the trash, whose items
+ * belong to the data being replaced. `files` come from an archive backup and
+ * are written back to disk, with receipt and attachment paths rewritten to
+ * point at them.
+ */
+export async function importBackup(data: BackupData, files: Record<string, Uint8Array> = {}): Promise<void> {
   try {
     if (!data.version) {
       throw new Error('Invalid backup: missing version field.');
@@ -86,73 +318,154 @@ export async function importBackup(data: BackupData): Promise<void> {
       );
     }
 
-    // Delete in dependency order (junction table first, then dependents, then
-    // parent tables last because categories is referenced by expenses, budgets,
-    // templates).
-    db.delete(expenseTags).run();
-    db.delete(expenses).run();
-    db.delete(budgets).run();
-    db.delete(income).run();
-    db.delete(savingsGoals).run();
-    db.delete(debts).run();
-    db.delete(templates).run();
-    db.delete(tags).run();
-    db.delete(categories).run();
-
-    // Re-insert all rows
-    if (data.categories?.length) {
-      for (const row of data.categories) {
-        db.insert(categories).values(row).run();
-      }
+    if (backupMajor < INTEGER_MONEY_MAJOR) {
+      data = upgradeLegacyMoney(data);
+    }
+    if (!data.accounts) {
+      data = upgradePaymentMethods(data);
     }
+    const { data: restored, writes } = resolveBackupFiles(data, files);
+    data = restored;
+
+    // The database is replaced in one transaction, so a failure leaves it as it
+    // was, and files are only written once that has committed.
+    const trashedFiles = db.transaction((tx) => {
+      // Delete in dependency order (junction table first, then dependents, then
+      // parent tables last because categories and accounts are referenced by
+      // expenses, budgets, templates).
+      tx.delete(expenseTags).run();
+      tx.delete(expenseSplits).run();
+      tx.delete(attachments).run();
+      tx.delete(transfers).run();
+      tx.delete(expenses).run();
+      tx.delete(budgets).run();
+      tx.delete(income).run();
+      tx.delete(savingsGoals).run();
+      tx.delete(debts).run();
+      tx.delete(templates).run();
+      tx.delete(savedViews).run();
+      tx.delete(importProfiles).run();
+      tx.delete(categoryRules).run();
+      tx.delete(importBatches).run();
+      tx.delete(tags).run();
+      tx.delete(categories).run();
+      tx.delete(exchangeRates).run();
+      tx.delete(accounts).run();
+
+      // Re-insert all rows
+      if (data.accounts?.length) {
+        for (const row of data.accounts) {
+          tx.insert(accounts).values(row).run();
+        }
+      }
 
-    if (data.expenses?.length) {
-      for (const row of data.expenses) {
-        db.insert(expenses).values(row).run();
+      if (data.categories?.length) {
+        for (const row of data.categories) {
+          tx.insert(categories).values(row).run();
+        }
       }
-    }
 
-    if (data.budgets?.length) {
-      for (const row of data.budgets) {
-        db.insert(budgets).values(row).run();
+      if (data.expenses?.length) {
+        for (const row of data.expenses) {
+          tx.insert(expenses).values(row).run();
+        }
       }
-    }
 
-    if (data.income?.length) {
-      for (const row of data.income) {
-        db.insert(income).values(row).run();
+      if (data.expenseSplits?.length) {
+        for (const row of data.expenseSplits) {
+          tx.insert(expenseSplits).values(row).run();
+        }
       }
-    }
 
-    if (data.savingsGoals?.length) {
-      for (const row of data.savingsGoals) {
-        db.insert(savingsGoals).values(row).run();
+      if (data.budgets?.length) {
+        for (const row of data.budgets) {
+          tx.insert(budgets).values(row).run();
+        }
       }
-    }
 
-    if (data.debts?.length) {
-      for (const row of data.debts) {
-        db.insert(debts).values(row).run();
+      if (data.income?.length) {
+        for (const row of data.income) {
+          tx.insert(income).values(row).run();
+        }
       }
-    }
 
-    if (data.tags?.length) {
-      for (const row of data.tags) {
-        db.insert(tags).values(row).run();
+      if (data.savingsGoals?.length) {
+        for (const row of data.savingsGoals) {
+          tx.insert(savingsGoals).values(row).run();
+        }
       }
-    }
 
-    if (data.expenseTags?.length) {
-      for (const row of data.expenseTags) {
-        db.insert(expenseTags).values(row).run();
+      if (data.debts?.length) {
+        for (const row of data.debts) {
+          tx.insert(debts).values(row).run();
+        }
       }
-    }
 
-    if (data.templates?.length) {
-      for (const row of data.templates) {
-        db.insert(templates).values(row).run();
+      if (data.tags?.length) {
+        for (const row of data.tags) {
+          tx.insert(tags).values(row).run();
+        }
+      }
+
+      if (data.expenseTags?.length) {
+        for (const row of data.expenseTags) {
+          tx.insert(expenseTags).values(row).run();
+        }
+      }
+
+      if (data.templates?.length) {
+        for (const row of data.templates) {
+          tx.insert(templates).values(row).run();
+        }
+      }
+
+      if (data.exchangeRates?.length) {
+        for (const row of data.exchangeRates) {
+          tx.insert(exchangeRates).values(row).run();
+        }
       }
-    }
+
+      if (data.transfers?.length) {
+        for (const row of data.transfers) {
+          tx.insert(transfers).values(row).run();
+        }
+      }
+
+      if (data.savedViews?.length) {
+        for (const row of data.savedViews) {
+          tx.insert(savedViews).values(row).run();
+        }
+      }
+
+      if (data.importProfiles?.length) {
+        for (const row of data.importProfiles) {
+          tx.insert(importProfiles).values(row).run();
+        }
+      }
+
+      if (data.categoryRules?.length) {
+        for (const row of data.categoryRules) {
+          tx.insert(categoryRules).values(row).run();
+        }
+      }
+
+      if (data.importBatches?.length) {
+        for (const row of data.importBatches) {
+          tx.insert(importBatches).values(row).run();
+        }
+      }
+
+      if (data.attachments?.length) {
+        for (const row of data.attachments) {
+          tx.insert(attachments).values(row).run();
+        }
+      }
+
+      // Trashed expenses belong to the data being replaced
+      return clearTrashRows(tx);
+    });
+    for (const { file, bytes } of writes) file.write(bytes);
+    deleteTrashedFiles(trashedFiles);
 
     // Restore AsyncStorage keys
     if (data.settings) {
@@ -170,31 +483,55 @@ export async function importBackup(data: BackupData): Promise<void> {
 
 // ─── Share ─────────────────────────────────────────────────────────────────────
 
-export async function shareBackup(): Promise<void> {
+/** Shares the backup as JSON, or as a zip that also holds receipts and attachments. */
+export async function shareBackup(includeFiles = false): Promise<void> {
   const data = await buildFullBackup();
   const json = JSON.stringify(data, null, 2);
 
-  const fileName = `ledgr-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
-  const file = new File(Paths.document, fileName);
-  await file.write(json);
+  const baseName = `ledgr-backup-${format(new Date(), 'yyyy-MM-dd')}`;
+  const file = new File(Paths.document, `${baseName}.${includeFiles ? 'zip' : 'json'}`);
+  if (includeFiles) {
+    file.write(await buildArchive(json, await readBackupFiles(data)));
+  } else {
+    await file.write(json);
+  }
 
   const available = await Sharing.isAvailableAsync();
   if (!available) {
     throw new Error('Sharing is not available on this device.');
   }
 
-  await Sharing.shareAsync(file.uri, {
-    mimeType: 'application/json',
-    dialogTitle: 'Save Ledgr Backup',
-    UTI: 'public.json',
-  });
+  await Sharing.shareAsync(file.uri, includeFiles
+    ? { mimeType: 'application/zip', dialogTitle: 'Save Ledgr Backup', UTI: 'public.zip-archive' }
+    : { mimeType: 'application/json', dialogTitle: 'Save Ledgr Backup', UTI: 'public.json' });
 }
 
 // ─── Parse ─────────────────────────────────────────────────────────────────────
 
-export async function parseBackupFile(uri: string): Promise<BackupData> {
-  const file = new File(uri);
-  const content = await file.text();
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/** Reads a JSON or zip backup; zip entries under files/ come back by name. */
+export async function parseBackupFile(uri: string): Promise<ParsedBackup> {
+  const bytes = await new File(uri).bytes();
+  const files: Record<string, Uint8Array> = {};
+  let content: string;
+
+  if (isZip(bytes)) {
+    const entries = unzipSync(bytes);
+    const dataEntry = entries[ARCHIVE_DATA_ENTRY];
+    if (!dataEntry) {
+      throw new Error('Invalid backup archive: missing backup.json.');
+    }
+    content = strFromU8(dataEntry);
+    for (const [path, entry] of Object.entries(entries)) {
+      const name = path.startsWith(ARCHIVE_FILES_PREFIX) ? path.slice(ARCHIVE_FILES_PREFIX.length) : '';
+      if (name && !name.includes('/')) files[name] = entry;
+    }
+  } else {
+    content = strFromU8(bytes);
+  }
 
   const parsed = JSON.parse(content) as BackupData;
 
@@ -202,5 +539,5 @@ export async function parseBackupFile(uri: string): Promise<BackupData> {
     throw new Error('Invalid backup file: missing required fields.');
   }
 
-  return parsed;
+  return { data: parsed, files };
 }
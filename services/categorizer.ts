@@ -0,0 +1,114 @@
+import { desc, ne } from 'drizzle-orm';
+import { db } from '@/db';
+import { expenses } from '@/db/schema';
+
+// ---------------------------------------------------------------------------
+// Category suggestions
+// ---------------------------------------------------------------------------
+// A multinomial naive Bayes classifier over description words, trained on
+// the user's own expenses and kept on the device. The first word also counts
+// as a separate "merchant" feature, since statements lead with the payee.
+
+export interface CategorySuggestion {
+  categoryId: string;
+  /** Share of the posterior probability, 0–1. */
+  confidence: number;
+}
+
+export interface TrainingExample {
+  description: string;
+  categoryId: string;
+}
+
+interface CategoryCounts {
+  examples: number;
+  tokens: number;
+  tokenCounts: Map<string, number>;
+}
+
+export interface CategoryModel {
+  examples: number;
+  vocabulary: Set<string>;
+  categories: Map<string, CategoryCounts>;
+}
+
+// Newest expenses first; older habits matter less than what the user does now.
+const TRAINING_LIMIT = 5000;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'from', 'with', 'at', 'of', 'to', 'in', 'on', 'pos', 'purchase', 'card']);
+
+// Digits and punctuation separate words, so "STARBUCKS#1234" and
+// "Starbucks 1234" read the same; letters outside ASCII are kept.
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[\s\d.,;:!?'"`()[\]{}/\\|*#&@+=<>~^$%_-]+/)
+    .filter((w) => w.length >= 2 && !STOP_WORDS.has(w));
+  return words.length > 0 ? [...words, `merchant:${words[0]}`] : [];
+}
+
+export function createModel(): CategoryModel {
+  return { examples: 0, vocabulary: new Set(), categories: new Map() };
+}
+
+export function learn(model: CategoryModel, description: string, categoryId: string): void {
+  const tokens = tokenize(description);
+  if (tokens.length === 0) return;
+  let counts = model.categories.get(categoryId);
+  if (!counts) {
+    counts = { examples: 0, tokens: 0, tokenCounts: new Map() };
+    model.categories.set(categoryId, counts);
+  }
+  model.examples++;
+  counts.examples++;
+  for (const token of tokens) {
+    model.vocabulary.add(token);
+    counts.tokens++;
+    counts.tokenCounts.set(token, (counts.tokenCounts.get(token) ?? 0) + 1);
+  }
+}
+
+export function trainModel(examples: TrainingExample[]): CategoryModel {
+  const model = createModel();
+  for (const example of examples) learn(model, example.description, example.categoryId);
+  return model;
+}
+
+/** Expenses with a description, newest first, as stored. */
+export function loadTrainingExamples(): TrainingExample[] {
+  return db
+    .select({ description: expenses.description, categoryId: expenses.categoryId })
+    .from(expenses)
+    .where(ne(expenses.description, ''))
+    .orderBy(desc(expenses.date))
+    .limit(TRAINING_LIMIT)
+    .all();
+}
+
+/**
+ * Categories for `description`, most likely first. Empty when none of its
+ * words has been seen before, since the prior alone says nothing about it.
+ */
+export function suggestCategories(model: CategoryModel, description: string, limit = 3): CategorySuggestion[] {
+  const tokens = tokenize(description).filter((t) => model.vocabulary.has(t));
+  if (tokens.length === 0 || model.examples === 0) return [];
+
+  // Log scores with add-one smoothing, then normalized through softmax
+  const vocabularySize = model.vocabulary.size;
+  const scores: { categoryId: string; score: number }[] = [];
+  for (const [categoryId, counts] of model.categories) {
+    let score = Math.log(counts.examples / model.examples);
+    for (const token of tokens) {
+      score += Math.log(((counts.tokenCounts.get(token) ?? 0) + 1) / (counts.tokens + vocabularySize));
+    }
+    scores.push({ categoryId, score });
+  }
+  const best = Math.max(...scores.map((s) => s.score));
+  const weights = scores.map((s) => ({ categoryId: s.categoryId, weight: Math.exp(s.score - best) }));
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+
+  return weights
+    .map((w) => ({ categoryId: w.categoryId, confidence: w.weight / total }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
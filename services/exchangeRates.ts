@@ -0,0 +1,39 @@
+import { parseCSV } from '@/services/import';
+
+// ---------------------------------------------------------------------------
+// parseExchangeRates
+// ---------------------------------------------------------------------------
+// Reads a user-supplied rate file into { CODE: rate } where rate is units of
+// the home currency per one unit of CODE. Accepts either JSON — a flat object
+// or the common { "rates": { ... } } shape — or CSV with a currency column and
+// a rate column (a header row is optional).
+export function parseExchangeRates(content: string): Record<string, number> {
+  const trimmed = content.trim();
+  if (!trimmed) return {};
+
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+    const source = (parsed.rates && typeof parsed.rates === 'object' ? parsed.rates : parsed) as Record<string, unknown>;
+    return collectRates(Object.entries(source));
+  }
+
+  const { headers, rows } = parseCSV(trimmed);
+  const headerIsData = isCurrencyCode(headers[0]) && !isNaN(parseFloat(headers[1]));
+  const dataRows = headerIsData ? [headers, ...rows] : rows;
+  return collectRates(dataRows.map((row) => [row[0], row[1]]));
+}
+
+function isCurrencyCode(value: string | undefined): boolean {
+  return !!value && /^[A-Za-z]{3}$/.test(value.trim());
+}
+
+function collectRates(entries: [string, unknown][]): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const [code, raw] of entries) {
+    if (!isCurrencyCode(code)) continue;
+    const rate = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    if (!isFinite(rate) || rate <= 0) continue;
+    rates[code.trim().toUpperCase()] = rate;
+  }
+  return rates;
+}
@@ -0,0 +1,388 @@
+import { and, desc, eq, exists, gte, inArray, lt, lte, notExists, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { attachments, categories, expenses, expenseSplits, expenseTags } from '@/db/schema';
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { getRollupCategoryIds } from '@/lib/categories';
+import type { AdvancedFilter, ExpenseSplit, ExpenseWithCategory, FilterCondition } from '@/types';
+
+// Keeps IN (...) lists well under SQLite's bound-parameter limit.
+const SQL_CHUNK_SIZE = 500;
+
+/** What to select; every field is optional and the ones given are AND-ed. */
+export interface ExpenseQuery {
+  start?: number;
+  end?: number;
+  /** Any part of the expense booked to exactly this category. */
+  categoryId?: string | null;
+  accountId?: string | null;
+  tagId?: string | null;
+  advanced?: AdvancedFilter | null;
+  /** Restricts the result to these expenses, e.g. full-text search hits. */
+  ids?: string[];
+}
+
+/** Position after the last row of a page, in (date, id) descending order. */
+export interface ExpenseCursor {
+  date: number;
+  id: string;
+}
+
+export interface ExpensePage {
+  items: ExpenseWithCategory[];
+  /** Null once the last page has been read. */
+  nextCursor: ExpenseCursor | null;
+}
+
+export interface ExpenseSummary {
+  count: number;
+  total: number;
+}
+
+// ─── Conditions ─────────────────────────────────────────────────────────────
+
+// Correlated subquery over the outer expense's split lines.
+function splitLines() {
+  return db.select({ one: sql`1` }).from(expenseSplits).where(eq(expenseSplits.expenseId, expenses.id));
+}
+
+// Mirrors getCategoryAmounts: a split expense is booked through its lines,
+// any other expense wholly to its own category.
+function bookedToCategories(categoryIds: string[]): SQL {
+  if (categoryIds.length === 0) return sql`0`;
+  return or(
+    and(inArray(expenses.categoryId, categoryIds), notExists(splitLines())),
+    exists(
+      db.select({ one: sql`1` }).from(expenseSplits).where(and(
+        eq(expenseSplits.expenseId, expenses.id),
+        inArray(expenseSplits.categoryId, categoryIds),
+      ))
+    ),
+  )!;
+}
+
+function taggedWith(tagIds: string[]): SQL {
+  if (tagIds.length === 0) return sql`0`;
+  return exists(
+    db.select({ one: sql`1` }).from(expenseTags).where(and(
+      eq(expenseTags.expenseId, expenses.id),
+      inArray(expenseTags.tagId, tagIds),
+    ))
+  );
+}
+
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+type CategoryRow = { id: string; parentId: string | null };
+
+function conditionSql(condition: FilterCondition, allCategories: CategoryRow[]): SQL | undefined {
+  switch (condition.type) {
+    case 'categories':
+      // Nothing picked yet ("Any category") places no restriction
+      if (condition.categoryIds.length === 0) return undefined;
+      // Picking a parent category also matches its sub-categories
+      return bookedToCategories(condition.categoryIds.flatMap((id) => [...getRollupCategoryIds(allCategories, id)]));
+    case 'tags':
+      if (condition.tagIds.length === 0) return undefined;
+      return condition.mode === 'include' ? taggedWith(condition.tagIds) : sql`NOT ${taggedWith(condition.tagIds)}`;
+    case 'amount':
+      return and(
+        condition.min === null ? undefined : gte(expenses.amount, toMinorUnits(condition.min)),
+        condition.max === null ? undefined : lte(expenses.amount, toMinorUnits(condition.max)),
+      );
+    case 'recurring':
+      return eq(expenses.isRecurring, 1);
+    case 'hasReceipt':
+      return or(
+        sql`COALESCE(${expenses.receiptUri}, '') != ''`,
+        exists(db.select({ one: sql`1` }).from(attachments).where(eq(attachments.expenseId, expenses.id))),
+      );
+    case 'notes': {
+      const text = condition.text.trim();
+      if (!text) return undefined;
+      const pattern = likePattern(text);
+      return or(
+        sql`${expenses.notes} LIKE ${pattern} ESCAPE '\\'`,
+        exists(
+          db.select({ one: sql`1` }).from(expenseSplits).where(and(
+            eq(expenseSplits.expenseId, expenses.id),
+            sql`${expenseSplits.note} LIKE ${pattern} ESCAPE '\\'`,
+          ))
+        ),
+      );
+    }
+  }
+}
+
+// Conditions with nothing to test (no categories picked, blank notes, ...) are
+// dropped rather than read as TRUE, which would make an "any" group match
+// everything. Groups left empty are skipped, so an empty filter matches
+// everything.
+function advancedFilterSql(filter: AdvancedFilter): SQL | undefined {
+  if (filter.groups.every((g) => g.conditions.length === 0)) return undefined;
+  const allCategories = db.select({ id: categories.id, parentId: categories.parentId }).from(categories).all();
+  const compiled = filter.groups.flatMap((g) => {
+    const parts = g.conditions
+      .map((c) => conditionSql(c, allCategories))
+      .filter((part): part is SQL => part !== undefined);
+    if (parts.length === 0) return [];
+    return [g.match === 'all' ? and(...parts)! : or(...parts)!];
+  });
+  if (compiled.length === 0) return undefined;
+  return filter.match === 'all' ? and(...compiled) : or(...compiled);
+}
+
+function whereFor(query: ExpenseQuery): SQL | undefined {
+  return and(
+    query.start !== undefined ? gte(expenses.date, query.start) : undefined,
+    query.end !== undefined ? lte(expenses.date, query.end) : undefined,
+    query.categoryId ? bookedToCategories([query.categoryId]) : undefined,
+    query.accountId ? eq(expenses.accountId, query.accountId) : undefined,
+    query.tagId ? taggedWith([query.tagId]) : undefined,
+    query.advanced ? advancedFilterSql(query.advanced) : undefined,
+    query.ids ? (query.ids.length > 0 ? inArray(expenses.id, query.ids) : sql`0`) : undefined,
+  );
+}
+
+// ─── Rows ───────────────────────────────────────────────────────────────────
+
+function selectExpenses(where: SQL | undefined, limit?: number) {
+  const query = db
+    .select({
+      id: expenses.id,
+      amount: expenses.amount,
+      categoryId: expenses.categoryId,
+      description: expenses.description,
+      date: expenses.date,
+      accountId: expenses.accountId,
+      receiptUri: expenses.receiptUri,
+      isRecurring: expenses.isRecurring,
+      recurringFrequency: expenses.recurringFrequency,
+      recurringEndDate: expenses.recurringEndDate,
+      nextRecurringDate: expenses.nextRecurringDate,
+      currency: expenses.currency,
+      originalAmount: expenses.originalAmount,
+      notes: expenses.notes,
+      createdAt: expenses.createdAt,
+      updatedAt: expenses.updatedAt,
+      category: {
+        id: categories.id,
+        name: categories.name,
+        icon: categories.icon,
+        color: categories.color,
+        budgetAmount: categories.budgetAmount,
+        budgetPeriod: categories.budgetPeriod,
+        parentId: categories.parentId,
+        isDefault: categories.isDefault,
+        sortOrder: categories.sortOrder,
+        createdAt: categories.createdAt,
+      },
+    })
+    .from(expenses)
+    .innerJoin(categories, eq(expenses.categoryId, categories.id))
+    .where(where)
+    .orderBy(desc(expenses.date), desc(expenses.id));
+  const rows = limit !== undefined ? query.limit(limit).all() : query.all();
+
+  const splitsByExpense = new Map<string, ExpenseSplit[]>();
+  const ids = rows.map((r) => r.id);
+  for (let i = 0; i < ids.length; i += SQL_CHUNK_SIZE) {
+    const part = ids.slice(i, i + SQL_CHUNK_SIZE);
+    const splitRows = db.select().from(expenseSplits)
+      .where(inArray(expenseSplits.expenseId, part))
+      .orderBy(expenseSplits.sortOrder)
+      .all();
+    for (const row of splitRows) {
+      const list = splitsByExpense.get(row.expenseId) ?? [];
+      list.push({ ...row, amount: fromMinorUnits(row.amount) });
+      splitsByExpense.set(row.expenseId, list);
+    }
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    splits: splitsByExpense.get(row.id) ?? [],
+    amount: fromMinorUnits(row.amount),
+    originalAmount: row.originalAmount != null ? fromMinorUnits(row.originalAmount) : null,
+    category: {
+      ...row.category,
+      budgetAmount: row.category.budgetAmount != null ? fromMinorUnits(row.category.budgetAmount) : null,
+    },
+  })) as ExpenseWithCategory[];
+}
+
+/** Every expense matching `query`, newest first. */
+export function queryExpenses(query: ExpenseQuery = {}): ExpenseWithCategory[] {
+  return selectExpenses(whereFor(query));
+}
+
+/** Expenses dated on or after `since`, plus every recurring template however old. */
+export function queryRecentExpenses(since: number): ExpenseWithCategory[] {
+  return selectExpenses(or(gte(expenses.date, since), eq(expenses.isRecurring, 1)));
+}
+
+/**
+ * One page of expenses matching `query`, newest first. Pass the previous
+ * page's `nextCursor` to continue; keyset paging stays fast however deep the
+ * list is scrolled and does not skip rows when earlier ones are deleted.
+ */
+export function queryExpensePage(query: ExpenseQuery, cursor: ExpenseCursor | null, limit: number): ExpensePage {
+  const after = cursor
+    ? or(lt(expenses.date, cursor.date), and(eq(expenses.date, cursor.date), lt(expenses.id, cursor.id)))
+    : undefined;
+  const rows = selectExpenses(and(whereFor(query), after), limit + 1);
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? { date: last.date, id: last.id } : null,
+  };
+}
+
+export function queryExpenseIds(query: ExpenseQuery): string[] {
+  return db.select({ id: expenses.id }).from(expenses)
+    .where(whereFor(query))
+    .orderBy(desc(expenses.date), desc(expenses.id))
+    .all()
+    .map((r) => r.id);
+}
+
+export function findExpenseById(id: string): ExpenseWithCategory | undefined {
+  return selectExpenses(eq(expenses.id, id))[0];
+}
+
+// ─── Aggregates ─────────────────────────────────────────────────────────────
+// Sums run over integer minor units, so they are exact.
+
+export function summarizeExpenses(query: ExpenseQuery = {}): ExpenseSummary {
+  const [row] = db
+    .select({ count: sql<number>`COUNT(*)`, total: sql<number | null>`SUM(${expenses.amount})` })
+    .from(expenses)
+    .where(whereFor(query))
+    .all();
+  return { count: row?.count ?? 0, total: fromMinorUnits(row?.total ?? 0) };
+}
+
+/**
+ * Spending per category between `start` and `end`, split expenses counted
+ * through their lines. Keyed by the category each amount is booked to.
+ */
+export function getCategoryTotals(start: number, end: number): Map<string, number> {
+  const rows = db.all<{ categoryId: string; total: number }>(sql`
+    SELECT category_id AS categoryId, SUM(amount) AS total FROM (
+      SELECT s.category_id, s.amount
+      FROM expense_splits s JOIN expenses e ON e.id = s.expense_id
+      WHERE e.date >= ${start} AND e.date <= ${end}
+      UNION ALL
+      SELECT e.category_id, e.amount
+      FROM expenses e
+      WHERE e.date >= ${start} AND e.date <= ${end}
+        AND NOT EXISTS (SELECT 1 FROM expense_splits s WHERE s.expense_id = e.id)
+    )
+    GROUP BY category_id
+  `);
+  return new Map(rows.map((r) => [r.categoryId, fromMinorUnits(r.total)]));
+}
+
+/**
+ * Total booked to any of `categoryIds` between `start` and `end`, in minor
+ * units, or every expense's total when `categoryIds` is null.
+ */
+export function getSpentMinorUnits(start: number, end: number, categoryIds: ReadonlySet<string> | null): number {
+  const inRange = and(gte(expenses.date, start), lte(expenses.date, end));
+  if (!categoryIds) {
+    const [row] = db.select({ total: sql<number | null>`SUM(${expenses.amount})` }).from(expenses).where(inRange).all();
+    return row?.total ?? 0;
+  }
+  if (categoryIds.size === 0) return 0;
+  const ids = [...categoryIds];
+  const [whole] = db
+    .select({ total: sql<number | null>`SUM(${expenses.amount})` })
+    .from(expenses)
+    .where(and(inRange, inArray(expenses.categoryId, ids), notExists(splitLines())))
+    .all();
+  const [lines] = db
+    .select({ total: sql<number | null>`SUM(${expenseSplits.amount})` })
+    .from(expenseSplits)
+    .innerJoin(expenses, eq(expenses.id, expenseSplits.expenseId))
+    .where(and(inRange, inArray(expenseSplits.categoryId, ids)))
+    .all();
+  return (whole?.total ?? 0) + (lines?.total ?? 0);
+}
+
+/**
+ * Total and line count per category for expenses matching `query`, split
+ * expenses counted through their lines. Keyed by the category each amount is
+ * booked to.
+ */
+export function getCategorySummary(query: ExpenseQuery = {}): Map<string, ExpenseSummary> {
+  const where = whereFor(query);
+  const lines = db
+    .select({
+      categoryId: expenseSplits.categoryId,
+      count: sql<number>`COUNT(*)`,
+      total: sql<number>`SUM(${expenseSplits.amount})`,
+    })
+    .from(expenseSplits)
+    .innerJoin(expenses, eq(expenses.id, expenseSplits.expenseId))
+    .where(where)
+    .groupBy(expenseSplits.categoryId)
+    .all();
+  const whole = db
+    .select({
+      categoryId: expenses.categoryId,
+      count: sql<number>`COUNT(*)`,
+      total: sql<number>`SUM(${expenses.amount})`,
+    })
+    .from(expenses)
+    .where(and(where, notExists(splitLines())))
+    .groupBy(expenses.categoryId)
+    .all();
+
+  const minor = new Map<string, ExpenseSummary>();
+  for (const row of [...lines, ...whole]) {
+    const existing = minor.get(row.categoryId) ?? { count: 0, total: 0 };
+    minor.set(row.categoryId, { count: existing.count + row.count, total: existing.total + row.total });
+  }
+  return new Map([...minor].map(([id, s]) => [id, { count: s.count, total: fromMinorUnits(s.total) }]));
+}
+
+/**
+ * Spending per local calendar day ('yyyy-MM-dd') or month ('yyyy-MM') for
+ * expenses matching `query`. Buckets with no spending are left out.
+ */
+export function getSpendingOverTime(query: ExpenseQuery, unit: 'day' | 'month'): Map<string, number> {
+  const bucket = unit === 'day'
+    ? sql<string>`strftime('%Y-%m-%d', ${expenses.date} / 1000, 'unixepoch', 'localtime')`
+    : sql<string>`strftime('%Y-%m', ${expenses.date} / 1000, 'unixepoch', 'localtime')`;
+  const rows = db
+    .select({ key: bucket, total: sql<number>`SUM(${expenses.amount})` })
+    .from(expenses)
+    .where(whereFor(query))
+    .groupBy(bucket)
+    .all();
+  return new Map(rows.map((r) => [r.key, fromMinorUnits(r.total)]));
+}
+
+/** Spending per account for expenses matching `query`; unassigned expenses are keyed by ''. */
+export function getAccountTotals(query: ExpenseQuery = {}): Map<string, number> {
+  const rows = db
+    .select({ accountId: expenses.accountId, total: sql<number>`SUM(${expenses.amount})` })
+    .from(expenses)
+    .where(whereFor(query))
+    .groupBy(expenses.accountId)
+    .all();
+  return new Map(rows.map((r) => [r.accountId ?? '', fromMinorUnits(r.total)]));
+}
+
+export function getLargestExpense(query: ExpenseQuery = {}): { amount: number; description: string } | null {
+  const row = db
+    .select({ amount: expenses.amount, description: expenses.description })
+    .from(expenses)
+    .where(whereFor(query))
+    .orderBy(desc(expenses.amount))
+    .limit(1)
+    .get();
+  return row ? { amount: fromMinorUnits(row.amount), description: row.description } : null;
+}
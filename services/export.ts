@@ -1,12 +1,26 @@
 import { Paths, File } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { format } from 'date-fns';
-import type { ExpenseWithCategory } from '@/types';
+import type { Account, AccountType, Category, ExpenseWithCategory } from '@/types';
+
+async function shareExport(fileName: string, content: string, mimeType: string, UTI: string): Promise<void> {
+  const file = new File(Paths.document, fileName);
+  await file.write(content);
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: 'Export Expenses', UTI });
+  }
+}
 
 export async function exportToCSV(
   expenses: ExpenseWithCategory[],
-  currencySymbol: string
+  currencySymbol: string,
+  accounts: Account[] = [],
+  categories: Category[] = []
 ): Promise<void> {
+  const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+
   const csvField = (value: string): string => {
     if (value.includes('"') || value.includes(',') || value.includes('\n')) {
       return `"${value.replace(/"/g, '""')}"`;
@@ -14,29 +28,102 @@ export async function exportToCSV(
     return value;
   };
 
-  const header = 'Date,Category,Description,Amount,Payment Method,Notes\n';
+  const header = 'Date,Category,Description,Amount,Account,Notes\n';
+  // A split expense becomes one row per split line so per-category sums of
+  // the file match the app; the line's note, if any, replaces the notes.
   const rows = expenses
-    .map((e) => {
-      const date = format(new Date(e.date), 'yyyy-MM-dd');
-      const category = csvField(e.category.name);
-      const description = csvField(e.description || '');
-      const amount = csvField(`${currencySymbol}${e.amount.toFixed(2)}`);
-      const paymentMethod = csvField(e.paymentMethod);
-      const notes = csvField((e.notes || '').replace(/\n/g, ' '));
-      return `${date},${category},${description},${amount},${paymentMethod},${notes}`;
+    .flatMap((e) => {
+      const lines = e.splits.length > 0
+        ? e.splits.map((s) => ({ categoryId: s.categoryId, amount: s.amount, notes: s.note ?? e.notes }))
+        : [{ categoryId: e.categoryId, amount: e.amount, notes: e.notes }];
+      return lines.map((line) => {
+        const date = format(new Date(e.date), 'yyyy-MM-dd');
+        const category = csvField(categoryNames.get(line.categoryId) ?? e.category.name);
+        const description = csvField(e.description || '');
+        const amount = csvField(`${currencySymbol}${line.amount.toFixed(2)}`);
+        const account = csvField(accountNames.get(e.accountId ?? '') ?? '');
+        const notes = csvField((line.notes || '').replace(/\n/g, ' '));
+        return `${date},${category},${description},${amount},${account},${notes}`;
+      });
     })
     .join('\n');
 
   const csv = header + rows;
   const fileName = `expenses_${format(new Date(), 'yyyy-MM-dd')}.csv`;
-  const file = new File(Paths.document, fileName);
-  await file.write(csv);
+  await shareExport(fileName, csv, 'text/csv', 'public.comma-separated-values-text');
+}
 
-  if (await Sharing.isAvailableAsync()) {
-    await Sharing.shareAsync(file.uri, {
-      mimeType: 'text/csv',
-      dialogTitle: 'Export Expenses',
-      UTI: 'public.comma-separated-values-text',
-    });
+const QIF_ACCOUNT_TYPES: Partial<Record<AccountType, string>> = {
+  cash: 'Cash',
+  credit: 'CCard',
+};
+
+// ":" separates category levels and "/" starts a class in QIF, so neither may
+// appear inside a name.
+function qifName(name: string): string {
+  return name.replace(/[:/]/g, '-').replace(/^\[/, '(').trim();
+}
+
+function qifLine(value: string): string {
+  return value.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * Writes expenses as QIF, one !Account section per account, with category
+ * paths like "Food:Groceries" and split expenses as split lines. Amounts are
+ * negative, as money leaving the account.
+ */
+export async function exportToQIF(
+  expenses: ExpenseWithCategory[],
+  accounts: Account[] = [],
+  categories: Category[] = []
+): Promise<void> {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const categoryPath = (id: string, fallback: string): string => {
+    const names: string[] = [];
+    let category = byId.get(id);
+    // Bounded in case of a parent cycle
+    while (category && names.length < 10) {
+      names.unshift(qifName(category.name));
+      category = category.parentId ? byId.get(category.parentId) : undefined;
+    }
+    return names.length > 0 ? names.join(':') : qifName(fallback);
+  };
+
+  const groups = new Map<string, ExpenseWithCategory[]>();
+  for (const e of expenses) {
+    const key = e.accountId ?? '';
+    const group = groups.get(key);
+    if (group) group.push(e);
+    else groups.set(key, [e]);
+  }
+
+  const sections: string[] = [];
+  for (const [accountId, items] of groups) {
+    const account = accounts.find((a) => a.id === accountId);
+    const type = (account && QIF_ACCOUNT_TYPES[account.type]) ?? 'Bank';
+    const lines: string[] = [];
+    if (account) lines.push('!Account', `N${qifName(account.name)}`, `T${type}`, '^');
+    lines.push(`!Type:${type}`);
+
+    for (const e of [...items].sort((a, b) => a.date - b.date)) {
+      lines.push(`D${format(new Date(e.date), 'MM/dd/yyyy')}`, `T${(-e.amount).toFixed(2)}`);
+      if (e.description) lines.push(`P${qifLine(e.description)}`);
+      if (e.notes) lines.push(`M${qifLine(e.notes)}`);
+      if (e.splits.length > 0) {
+        for (const split of e.splits) {
+          lines.push(`S${categoryPath(split.categoryId, e.category.name)}`);
+          if (split.note) lines.push(`E${qifLine(split.note)}`);
+          lines.push(`$${(-split.amount).toFixed(2)}`);
+        }
+      } else {
+        lines.push(`L${categoryPath(e.categoryId, e.category.name)}`);
+      }
+      lines.push('^');
+    }
+    sections.push(lines.join('\n'));
   }
+
+  const fileName = `expenses_${format(new Date(), 'yyyy-MM-dd')}.qif`;
+  await shareExport(fileName, sections.join('\n') + '\n', 'application/qif', 'public.data');
 }
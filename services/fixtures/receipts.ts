@@ -0,0 +1,235 @@
+import type { ReceiptData } from '@/services/receiptParser';
+
+// ---------------------------------------------------------------------------
+// Sample receipts
+// ---------------------------------------------------------------------------
+// Text as an OCR provider returns it, with what parseReceiptText should read
+// from each. Dates are yyyy-MM-dd; line items are compared by description and
+// amount. Add a receipt here whenever the parser gets one wrong.
+
+export interface ReceiptFixture {
+  name: string;
+  text: string;
+  expected: Omit<ReceiptData, 'date' | 'lineItems'> & {
+    date: string | null;
+    lineItems: { description: string; amount: number }[];
+  };
+}
+
+export const RECEIPT_FIXTURES: ReceiptFixture[] = [
+  {
+    name: 'US grocery with subtotal, tax and card slip',
+    text: `
+      WHOLE FOODS MARKET
+      1440 P STREET NW
+      WASHINGTON DC 20005
+      (202) 621-0000
+      BANANAS ORGANIC        1.29 F
+      2 x GREEK YOGURT       5.98 F
+      SOURDOUGH LOAF         4.99 F
+      COFFEE BEANS 12OZ     11.99 T
+      SUBTOTAL              24.25
+      SALES TAX 6%           0.72
+      TOTAL                 24.97
+      VISA ************4821 24.97
+      CHANGE DUE             0.00
+      03/14/2026 10:42 AM
+      THANK YOU FOR SHOPPING
+    `,
+    expected: {
+      amount: 24.97,
+      date: '2026-03-14',
+      merchant: 'WHOLE FOODS MARKET',
+      tax: 0.72,
+      currency: null,
+      lineItems: [
+        { description: 'BANANAS ORGANIC', amount: 1.29 },
+        { description: 'GREEK YOGURT', amount: 5.98 },
+        { description: 'SOURDOUGH LOAF', amount: 4.99 },
+        { description: 'COFFEE BEANS 12OZ', amount: 11.99 },
+      ],
+    },
+  },
+  {
+    name: 'Restaurant bill with tip and amount due',
+    text: `
+      Welcome to
+      Luigi's Trattoria
+      Server: Maria   Table 12
+      Date: Jan 5, 2026
+      Margherita Pizza          $16.50
+      Caesar Salad              $11.00
+      House Red (2 @ 9.00)      $18.00
+      Subtotal                  $45.50
+      Tax                        $4.04
+      Tip                        $9.10
+      AMOUNT DUE                $58.64
+    `,
+    expected: {
+      amount: 58.64,
+      date: '2026-01-05',
+      merchant: "Luigi's Trattoria",
+      tax: 4.04,
+      currency: 'USD',
+      lineItems: [
+        { description: 'Margherita Pizza', amount: 16.5 },
+        { description: 'Caesar Salad', amount: 11 },
+        { description: 'House Red (2 @ 9.00)', amount: 18 },
+      ],
+    },
+  },
+  {
+    name: 'German supermarket in euros with comma decimals',
+    text: `
+      REWE Markt GmbH
+      Hauptstr. 12, 10115 Berlin
+      EUR
+      Vollmilch 3,5%            1,19 A
+      Bio Eier 10er             3,49 A
+      Spülmittel                1,85 B
+      Pfand                     0,25 A
+      --------------------------------
+      SUMME               EUR   6,78
+      Geg. BAR            EUR  10,00
+      Rückgeld BAR        EUR   3,22
+      MwSt A 7%                 0,32
+      MwSt B 19%                0,30
+      Datum: 21.02.2026  18:05
+    `,
+    expected: {
+      amount: 6.78,
+      date: '2026-02-21',
+      merchant: 'REWE Markt GmbH',
+      tax: 0.62,
+      currency: 'EUR',
+      lineItems: [
+        { description: 'Vollmilch 3,5%', amount: 1.19 },
+        { description: 'Bio Eier 10er', amount: 3.49 },
+        { description: 'Spülmittel', amount: 1.85 },
+        { description: 'Pfand', amount: 0.25 },
+      ],
+    },
+  },
+  {
+    name: 'UK café with VAT included and day-first date',
+    text: `
+      PRET A MANGER
+      Store 0231 London Bridge
+      VAT No. GB 123 4567 89
+      Flat White              £3.35
+      Ham & Cheese Croissant  £3.95
+      Total                   £7.30
+      VAT included 20%        £1.22
+      Card Payment            £7.30
+      07/03/2026 08:14
+    `,
+    expected: {
+      amount: 7.3,
+      date: '2026-03-07',
+      merchant: 'PRET A MANGER',
+      tax: null,
+      currency: 'GBP',
+      lineItems: [
+        { description: 'Flat White', amount: 3.35 },
+        { description: 'Ham & Cheese Croissant', amount: 3.95 },
+      ],
+    },
+  },
+  {
+    name: 'Pharmacy with coupon, total on the next line and ISO date',
+    text: `
+      CVS pharmacy
+      Store #4412
+      2026-04-02 14:31
+      1234567 VITAMIN D3 1000IU     8.49
+      TOOTHPASTE 2PK                6.99
+      EXTRACARE COUPON              2.00-
+      SUBTOTAL                     13.48
+      TAX                           0.94
+      BALANCE DUE
+      14.42
+      TOTAL SAVINGS                 2.00
+    `,
+    expected: {
+      amount: 14.42,
+      date: '2026-04-02',
+      merchant: 'CVS pharmacy',
+      tax: 0.94,
+      currency: null,
+      lineItems: [
+        { description: 'VITAMIN D3 1000IU', amount: 8.49 },
+        { description: 'TOOTHPASTE 2PK', amount: 6.99 },
+        { description: 'EXTRACARE COUPON', amount: -2 },
+      ],
+    },
+  },
+  {
+    name: 'Canadian hardware store with GST and PST',
+    text: `
+      HOME HARDWARE
+      Kelowna BC
+      Invoice 004512
+      WOOD SCREWS 100CT       C$9.99
+      PAINT BRUSH 2IN         C$7.49
+      SUBTOTAL               C$17.48
+      GST 5%                  C$0.87
+      PST 7%                  C$1.22
+      TOTAL                  C$19.57
+      12-Mar-2026
+    `,
+    expected: {
+      amount: 19.57,
+      date: '2026-03-12',
+      merchant: 'HOME HARDWARE',
+      tax: 2.09,
+      currency: 'CAD',
+      lineItems: [
+        { description: 'WOOD SCREWS 100CT', amount: 9.99 },
+        { description: 'PAINT BRUSH 2IN', amount: 7.49 },
+      ],
+    },
+  },
+  {
+    name: 'Japanese convenience store in yen without decimals',
+    text: `
+      FamilyMart
+      2026/05/18 21:07
+      Onigiri Salmon          ¥150
+      Green Tea 500ml         ¥128
+      Total                   ¥278
+      Cash                    ¥500
+      Change                  ¥222
+    `,
+    expected: {
+      amount: 278,
+      date: '2026-05-18',
+      merchant: 'FamilyMart',
+      tax: null,
+      currency: 'JPY',
+      lineItems: [
+        { description: 'Onigiri Salmon', amount: 150 },
+        { description: 'Green Tea 500ml', amount: 128 },
+      ],
+    },
+  },
+  {
+    name: 'Faded receipt with no total label',
+    text: `
+      CORNER NEWS
+      MAGAZINE       6.50
+      GUM            1.25
+      16 June 2026
+    `,
+    expected: {
+      amount: 6.5,
+      date: '2026-06-16',
+      merchant: 'CORNER NEWS',
+      tax: null,
+      currency: null,
+      lineItems: [
+        { description: 'MAGAZINE', amount: 6.5 },
+        { description: 'GUM', amount: 1.25 },
+      ],
+    },
+  },
+];
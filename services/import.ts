@@ -1,48 +1,119 @@
-import { parse, isValid } from 'date-fns';
+import { addDays, differenceInCalendarDays, parse, isValid } from 'date-fns';
+import { and, desc, eq, gte, inArray, lt } from 'drizzle-orm';
 import { db, generateId } from '@/db';
-import { expenses } from '@/db/schema';
-import type { Category, PaymentMethod } from '@/types';
+import { expenses, expenseSplits, expenseTags, importBatches, income, transfers } from '@/db/schema';
+import { subtractMoney, sumMoney, toMinorUnits } from '@/lib/money';
+import type { OfxStatement } from '@/services/ofx';
+import { isQifTransfer, type QifTransaction } from '@/services/qif';
+import type { CategorySuggestion } from '@/services/categorizer';
+import { findMatchingRule } from '@/services/rules';
+import { moveFilesToTrash, trashExpenseRows } from '@/services/trash';
+import type {
+  AmountSign,
+  Category,
+  CategoryRule,
+  CsvColumnMapping,
+  CsvDelimiter,
+  CsvFormat,
+  ImportBatch,
+  ImportFileKind,
+  ImportProfile,
+  IncomeSource,
+  SplitInput,
+  Tag,
+} from '@/types';
+
+// Keeps IN (...) lists well under SQLite's bound-parameter limit.
+const SQL_CHUNK_SIZE = 500;
 
 // ---------------------------------------------------------------------------
 // parseCSV
 // ---------------------------------------------------------------------------
-// Splits raw CSV text into a headers array and a 2-D rows array.
-// Handles quoted fields that contain commas or newlines.
-export function parseCSV(content: string): { headers: string[]; rows: string[][] } {
+// Splits raw CSV text into a headers array and a 2-D rows array. The header
+// is the first non-empty line after skipping `headerRow` lines; quoted fields
+// may contain the delimiter.
+export function parseCSV(
+  content: string,
+  options: { delimiter?: CsvDelimiter; headerRow?: number } = {}
+): { headers: string[]; rows: string[][] } {
+  const { delimiter = ',', headerRow = 0 } = options;
+  const nonEmpty = splitLines(content);
+  if (nonEmpty.length <= headerRow) return { headers: [], rows: [] };
+
+  const headers = parseRow(nonEmpty[headerRow], delimiter);
+  const rows = nonEmpty.slice(headerRow + 1).map((line) => parseRow(line, delimiter));
+
+  return { headers, rows };
+}
+
+function splitLines(content: string): string[] {
   const lines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
-  const nonEmpty = lines.filter((l) => l.trim().length > 0);
-  if (nonEmpty.length === 0) return { headers: [], rows: [] };
-
-  const parseRow = (line: string): string[] => {
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      if (ch === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Escaped quote inside a quoted field
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (ch === ',' && !inQuotes) {
-        fields.push(current.trim());
-        current = '';
+  return lines.filter((l) => l.trim().length > 0);
+}
+
+function parseRow(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        // Escaped quote inside a quoted field
+        current += '"';
+        i++;
       } else {
-        current += ch;
+        inQuotes = !inQuotes;
       }
+    } else if (ch === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
     }
-    fields.push(current.trim());
-    return fields;
-  };
+  }
+  fields.push(current.trim());
+  return fields;
+}
 
-  const headers = parseRow(nonEmpty[0]);
-  const rows = nonEmpty.slice(1).map(parseRow);
+// ---------------------------------------------------------------------------
+// detectDelimiter
+// ---------------------------------------------------------------------------
+// Picks the candidate that splits the first few lines into the same, largest
+// number of fields. Falls back to a comma.
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
 
-  return { headers, rows };
+export function detectDelimiter(content: string): CsvDelimiter {
+  const sample = splitLines(content).slice(0, 10);
+  let best: CsvDelimiter = ',';
+  let bestFields = 1;
+  for (const delimiter of DELIMITERS) {
+    const counts = sample.map((line) => parseRow(line, delimiter).length);
+    // Preamble lines above the header may have fewer fields, so compare
+    // against the most common count rather than requiring every line to agree.
+    const fields = mostCommon(counts);
+    if (fields > bestFields) {
+      best = delimiter;
+      bestFields = fields;
+    }
+  }
+  return best;
+}
+
+function mostCommon(values: number[]): number {
+  const tally = new Map<number, number>();
+  let best = 0;
+  let bestCount = 0;
+  for (const v of values) {
+    const n = (tally.get(v) ?? 0) + 1;
+    tally.set(v, n);
+    if (n > bestCount || (n === bestCount && v > best)) {
+      best = v;
+      bestCount = n;
+    }
+  }
+  return best;
 }
 
 // ---------------------------------------------------------------------------
@@ -50,14 +121,11 @@ export function parseCSV(content: string): { headers: string[]; rows: string[][]
 // ---------------------------------------------------------------------------
 // Guesses which column index corresponds to each semantic field by matching
 // common header names. Returns -1 for any field that cannot be matched.
-export function autoMapColumns(headers: string[]): {
-  dateCol: number;
-  amountCol: number;
-  descCol: number;
-  catCol: number;
-} {
+export function autoMapColumns(headers: string[]): CsvColumnMapping {
   const DATE_NAMES = ['date', 'DATE', 'Date', 'transaction_date', 'Transaction Date', 'txn_date'];
-  const AMOUNT_NAMES = ['amount', 'Amount', 'AMOUNT', 'debit', 'Debit', 'DEBIT', 'value', 'Value'];
+  const AMOUNT_NAMES = ['amount', 'Amount', 'AMOUNT', 'value', 'Value'];
+  const DEBIT_NAMES = ['debit', 'debits', 'withdrawal', 'withdrawals', 'money out', 'paid out', 'debit amount'];
+  const CREDIT_NAMES = ['credit', 'credits', 'deposit', 'deposits', 'money in', 'paid in', 'credit amount'];
   const DESC_NAMES = [
     'description', 'Description', 'DESCRIPTION',
     'memo', 'Memo', 'MEMO',
@@ -81,6 +149,8 @@ export function autoMapColumns(headers: string[]): {
     amountCol: findCol(AMOUNT_NAMES),
     descCol: findCol(DESC_NAMES),
     catCol: findCol(CAT_NAMES),
+    debitCol: findCol(DEBIT_NAMES),
+    creditCol: findCol(CREDIT_NAMES),
   };
 }
 
@@ -96,55 +166,430 @@ export function matchCategory(name: string, categories: Category[]): string | nu
   return match?.id ?? null;
 }
 
+// ---------------------------------------------------------------------------
+// matchCategoryPath
+// ---------------------------------------------------------------------------
+// Resolves a "Parent:Child" path as written by QIF files and other finance
+// apps. Prefers a sub-category under the named parent, then any category named
+// like the last segment, then the top segment.
+export function matchCategoryPath(path: string, categories: Category[]): string | null {
+  const segments = path.split(':').map((p) => p.trim().toLowerCase()).filter(Boolean);
+  if (segments.length === 0) return null;
+  const leaf = segments[segments.length - 1];
+  const named = (c: Category, name: string) => c.name.trim().toLowerCase() === name;
+
+  if (segments.length > 1) {
+    const parentName = segments[segments.length - 2];
+    const nested = categories.find(
+      (c) => named(c, leaf) && categories.some((p) => p.id === c.parentId && named(p, parentName))
+    );
+    if (nested) return nested.id;
+  }
+  return matchCategory(leaf, categories) ?? matchCategory(segments[0], categories);
+}
+
+// ---------------------------------------------------------------------------
+// guessIncomeSource
+// ---------------------------------------------------------------------------
+// Keyword guess from whatever text describes a credit: its category, payee or
+// memo. Falls back to 'other'.
+const INCOME_KEYWORDS: [IncomeSource, RegExp][] = [
+  ['salary', /salary|payroll|wages?\b|paycheck|pay ?slip/i],
+  ['freelance', /freelanc|invoice|consult/i],
+  ['investment', /interest|dividend|invest|capital gain/i],
+  ['refund', /refund|rebate|cash ?back|reimburse/i],
+  ['gift', /gift|present/i],
+  ['side_hustle', /side ?hustle|etsy|ebay|resale/i],
+];
+
+export function guessIncomeSource(...texts: string[]): IncomeSource {
+  const text = texts.join(' ');
+  return INCOME_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+}
+
+// ---------------------------------------------------------------------------
+// flagTransfers
+// ---------------------------------------------------------------------------
+// Marks rows whose description or category contains one of `keywords` as
+// money moving between the user's own accounts. Rows the file itself marks
+// as transfers stay marked.
+export function flagTransfers(rows: ImportRow[], keywords: string[]): ImportRow[] {
+  const needles = keywords.map((k) => k.trim().toLowerCase()).filter(Boolean);
+  if (needles.length === 0) return rows;
+  return rows.map((row) => {
+    if (row.isTransfer) return row;
+    const text = `${row.description} ${row.rawCategory}`.toLowerCase();
+    return needles.some((n) => text.includes(n)) ? { ...row, isTransfer: true } : row;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// applyRules
+// ---------------------------------------------------------------------------
+// Books each expense row to the first matching rule's category and tags. A
+// rule wins over the category read from the file; split rows keep their
+// lines. Tags deleted since the rule was written are dropped.
+export function applyRules(
+  rows: ImportRow[],
+  rules: CategoryRule[],
+  categories: Category[],
+  tags: Tag[]
+): ImportRow[] {
+  if (rules.length === 0) return rows;
+  const categoryIds = new Set(categories.map((c) => c.id));
+  const tagIds = new Set(tags.map((t) => t.id));
+  return rows.map((row) => {
+    if (row.kind !== 'expense' || row.splits.length > 0) return row;
+    const rule = findMatchingRule(rules, row.description, row.amount, categoryIds);
+    if (!rule) return row;
+    return {
+      ...row,
+      categoryId: rule.categoryId,
+      categoryMatched: true,
+      tagIds: rule.tagIds.filter((id) => tagIds.has(id)),
+      ruleId: rule.id,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// applySuggestions
+// ---------------------------------------------------------------------------
+// Books expense rows the file and rules left without a category to the
+// category `suggest` is at least `minConfidence` sure of.
+export function applySuggestions(
+  rows: ImportRow[],
+  suggest: (description: string) => CategorySuggestion[],
+  minConfidence: number
+): ImportRow[] {
+  return rows.map((row) => {
+    if (row.kind !== 'expense' || row.isTransfer || row.categoryMatched || row.splits.length > 0) return row;
+    const best = suggest(row.description)[0];
+    if (!best || best.confidence < minConfidence) return row;
+    return { ...row, categoryId: best.categoryId, categoryMatched: true, confidence: best.confidence };
+  });
+}
+
 // ---------------------------------------------------------------------------
 // executeImport
 // ---------------------------------------------------------------------------
-// Inserts each prepared row as an expense via Drizzle.
-// Returns the number of rows successfully inserted.
+// Inserts each prepared row as an expense or income entry via Drizzle,
+// assigned to accountId. With a `transferAccountId`, rows flagged as transfers
+// are recorded as transfers between the two accounts instead; without one
+// they are imported like any other row. Every inserted row is linked to a new
+// import batch describing `source`. It all runs in one transaction, so a row
+// that fails to insert (e.g. a foreign-key mismatch on categoryId) rolls the
+// whole import back and the error is rethrown. Returns how many of each were
+// inserted.
+export type ImportSource = Pick<ImportBatch, 'fileName' | 'fileKind' | 'profileId'>;
+
+export interface ImportResult {
+  /** Null when nothing was inserted, so no batch was recorded. */
+  batchId: string | null;
+  expenses: number;
+  income: number;
+  transfers: number;
+}
+
 export function executeImport(
-  rows: { date: Date; amount: number; description: string; categoryId: string }[]
-): number {
+  rows: ImportRow[],
+  source: ImportSource,
+  accountId: string | null = null,
+  transferAccountId: string | null = null
+): ImportResult {
+  const result: ImportResult = { batchId: null, expenses: 0, income: 0, transfers: 0 };
+  if (rows.length === 0) return result;
+
   const now = Date.now();
-  let count = 0;
+  const importBatchId = generateId();
 
-  for (const row of rows) {
-    try {
-      db.insert(expenses)
+  db.transaction((tx) => {
+    // The batch goes in first so no row ever points at a missing batch
+    tx.insert(importBatches)
+      .values({ id: importBatchId, ...source, rowCount: rows.length, importedAt: now })
+      .run();
+
+    for (const row of rows) {
+      if (row.isTransfer && accountId && transferAccountId) {
+        const [fromId, toId] = row.kind === 'expense' ? [accountId, transferAccountId] : [transferAccountId, accountId];
+        tx.insert(transfers)
+          .values({
+            id: generateId(),
+            amount: toMinorUnits(row.amount),
+            date: row.date.getTime(),
+            fromType: 'account',
+            fromId,
+            toType: 'account',
+            toId,
+            description: row.description,
+            externalId: row.externalId,
+            importBatchId,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+        result.transfers++;
+        continue;
+      }
+      if (row.kind === 'income') {
+        tx.insert(income)
+          .values({
+            id: generateId(),
+            amount: toMinorUnits(row.amount),
+            source: row.source ?? 'other',
+            description: row.description,
+            date: row.date.getTime(),
+            accountId,
+            notes: row.notes,
+            externalId: row.externalId,
+            importBatchId,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+        result.income++;
+        continue;
+      }
+      const expenseId = generateId();
+      tx.insert(expenses)
         .values({
-          id: generateId(),
-          amount: row.amount,
+          id: expenseId,
+          amount: toMinorUnits(row.amount),
           categoryId: row.categoryId,
           description: row.description,
           date: row.date.getTime(),
-          paymentMethod: 'other' as PaymentMethod,
+          accountId,
           receiptUri: null,
           isRecurring: 0,
           recurringFrequency: null,
           recurringEndDate: null,
           nextRecurringDate: null,
-          notes: null,
+          notes: row.notes,
+          externalId: row.externalId,
+          importBatchId,
           createdAt: now,
           updatedAt: now,
         })
         .run();
-      count++;
-    } catch {
-      // Skip invalid rows (e.g. foreign-key mismatch on categoryId) but keep going
+      row.splits.forEach((split, i) => {
+        tx.insert(expenseSplits)
+          .values({
+            id: generateId(),
+            expenseId,
+            categoryId: split.categoryId,
+            amount: toMinorUnits(split.amount),
+            note: split.note?.trim() || null,
+            sortOrder: i,
+          })
+          .run();
+      });
+      for (const tagId of row.tagIds) {
+        tx.insert(expenseTags).values({ expenseId, tagId }).run();
+      }
+      result.expenses++;
+    }
+  });
+
+  result.batchId = importBatchId;
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Import batches
+// ---------------------------------------------------------------------------
+
+export function getImportBatches(): ImportBatch[] {
+  return db
+    .select()
+    .from(importBatches)
+    .orderBy(desc(importBatches.importedAt))
+    .all()
+    .map((row) => ({ ...row, fileKind: row.fileKind as ImportFileKind }));
+}
+
+/**
+ * Deletes everything `batchId` created and then the batch itself. Expenses go
+ * to the trash like any other delete and can be restored from there, unless
+ * they have been imported again since; income and transfers are removed
+ * outright. Nothing changes if any step fails.
+ */
+export function rollbackImportBatch(batchId: string): Omit<ImportResult, 'batchId'> {
+  let trashedFiles: string[] = [];
+  const result = db.transaction((tx) => {
+    const expenseIds = tx
+      .select({ id: expenses.id })
+      .from(expenses)
+      .where(eq(expenses.importBatchId, batchId))
+      .all()
+      .map((r) => r.id);
+    trashedFiles = trashExpenseRows(tx, expenseIds);
+    const incomeCount = tx.delete(income).where(eq(income.importBatchId, batchId)).run().changes;
+    const transferCount = tx.delete(transfers).where(eq(transfers.importBatchId, batchId)).run().changes;
+    tx.delete(importBatches).where(eq(importBatches.id, batchId)).run();
+    return { expenses: expenseIds.length, income: incomeCount, transfers: transferCount };
+  });
+  moveFilesToTrash(trashedFiles);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// skipImported
+// ---------------------------------------------------------------------------
+// Drops rows whose externalId is already stored on an expense, income entry or
+// transfer, or repeats one earlier in the same file. Rows without an id are kept.
+export function skipImported(rows: ImportRow[]): { rows: ImportRow[]; skipped: number } {
+  const ids = [...new Set(rows.map((r) => r.externalId).filter((id): id is string => !!id))];
+  const seen = new Set<string>();
+  for (let i = 0; i < ids.length; i += SQL_CHUNK_SIZE) {
+    const part = ids.slice(i, i + SQL_CHUNK_SIZE);
+    for (const table of [expenses, income, transfers]) {
+      const found = db.select({ id: table.externalId }).from(table).where(inArray(table.externalId, part)).all();
+      for (const row of found) if (row.id) seen.add(row.id);
     }
   }
 
-  return count;
+  const kept: ImportRow[] = [];
+  for (const row of rows) {
+    if (row.externalId) {
+      if (seen.has(row.externalId)) continue;
+      seen.add(row.externalId);
+    }
+    kept.push(row);
+  }
+  return { rows: kept, skipped: rows.length - kept.length };
+}
+
+// ---------------------------------------------------------------------------
+// findDuplicates
+// ---------------------------------------------------------------------------
+// Flags rows that are probably already in the ledger, or repeat an earlier row
+// of the same file: same amount, dates at most `windowDays` calendar days
+// apart, and descriptions that look alike. Bank descriptions differ between
+// exports ("STARBUCKS #1234" vs "Starbucks"), so they are compared loosely.
+// Each row is flagged at most once, preferring a match in the ledger.
+export interface DuplicateMatch {
+  /** Index into the rows passed to findDuplicates. */
+  rowIndex: number;
+  source: 'existing' | 'file';
+  /** The matched expense or income entry, or the earlier file row. */
+  description: string;
+  date: number;
+  /** Index of the earlier row for 'file' matches. */
+  fileRowIndex: number | null;
+}
+
+const SIMILAR_DESCRIPTION = 0.55;
+
+type Candidate = { amount: number; date: number; description: string };
+
+export function findDuplicates(rows: ImportRow[], windowDays: number): DuplicateMatch[] {
+  if (rows.length === 0) return [];
+  // Candidates keyed by kind and amount, so each row is only compared with
+  // entries of exactly the same value
+  const key = (kind: ImportRow['kind'], amount: number) => `${kind}:${amount}`;
+  const ledger = new Map<string, Candidate[]>();
+  for (const kind of ['expense', 'income'] as const) {
+    for (const c of loadCandidates(rows.filter((r) => r.kind === kind), windowDays, kind)) {
+      const list = ledger.get(key(kind, c.amount));
+      if (list) list.push(c);
+      else ledger.set(key(kind, c.amount), [c]);
+    }
+  }
+  const isMatch = (row: ImportRow, c: Candidate) =>
+    Math.abs(differenceInCalendarDays(row.date, c.date)) <= windowDays &&
+    descriptionSimilarity(row.description, c.description) >= SIMILAR_DESCRIPTION;
+
+  const matches: DuplicateMatch[] = [];
+  const earlierRows = new Map<string, { index: number; candidate: Candidate }[]>();
+  rows.forEach((row, rowIndex) => {
+    const k = key(row.kind, toMinorUnits(row.amount));
+    const earlier = earlierRows.get(k) ?? [];
+    earlierRows.set(k, earlier);
+
+    const inLedger = ledger.get(k)?.find((c) => isMatch(row, c));
+    const inFile = inLedger ? undefined : earlier.find((e) => isMatch(row, e.candidate));
+    earlier.push({
+      index: rowIndex,
+      candidate: { amount: toMinorUnits(row.amount), date: row.date.getTime(), description: row.description },
+    });
+
+    if (inLedger) {
+      matches.push({ rowIndex, source: 'existing', description: inLedger.description, date: inLedger.date, fileRowIndex: null });
+    } else if (inFile) {
+      matches.push({
+        rowIndex,
+        source: 'file',
+        description: inFile.candidate.description,
+        date: inFile.candidate.date,
+        fileRowIndex: inFile.index,
+      });
+    }
+  });
+  return matches;
+}
+
+// Entries with one of the rows' amounts, dated within the window of the
+// rows' date range. Amounts are compared in minor units.
+function loadCandidates(rows: ImportRow[], windowDays: number, kind: ImportRow['kind']): Candidate[] {
+  if (rows.length === 0) return [];
+  const times = rows.map((r) => r.date.getTime());
+  const start = addDays(new Date(Math.min(...times)), -windowDays - 1).getTime();
+  const end = addDays(new Date(Math.max(...times)), windowDays + 1).getTime();
+  const amounts = [...new Set(rows.map((r) => toMinorUnits(r.amount)))];
+  const table = kind === 'income' ? income : expenses;
+
+  const candidates: Candidate[] = [];
+  for (let i = 0; i < amounts.length; i += SQL_CHUNK_SIZE) {
+    const part = amounts.slice(i, i + SQL_CHUNK_SIZE);
+    candidates.push(
+      ...db
+        .select({ amount: table.amount, date: table.date, description: table.description })
+        .from(table)
+        .where(and(inArray(table.amount, part), gte(table.date, start), lt(table.date, end)))
+        .all()
+    );
+  }
+  return candidates;
+}
+
+function normalizeDescription(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}]+/gu, '');
+}
+
+// 1 when either description is missing or one contains the other, otherwise
+// the Dice coefficient of their letter pairs, ignoring digits and punctuation.
+export function descriptionSimilarity(a: string, b: string): number {
+  const x = normalizeDescription(a);
+  const y = normalizeDescription(b);
+  if (!x || !y) return 1;
+  if (x.includes(y) || y.includes(x)) return Math.min(x.length, y.length) >= 4 || x === y ? 1 : 0.5;
+
+  const pairs = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const pair = text.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const px = pairs(x);
+  const py = pairs(y);
+  let shared = 0;
+  for (const [pair, count] of px) shared += Math.min(count, py.get(pair) ?? 0);
+  const total = x.length - 1 + (y.length - 1);
+  return total > 0 ? (2 * shared) / total : 0;
 }
 
 // ---------------------------------------------------------------------------
 // DATE_FORMATS — ordered list of formats tried when parsing date strings
 // ---------------------------------------------------------------------------
-const DATE_FORMATS = [
+export const DATE_FORMATS = [
   'yyyy-MM-dd',
   'MM/dd/yyyy',
   'dd/MM/yyyy',
   'MM-dd-yyyy',
   'dd-MM-yyyy',
+  'dd.MM.yyyy',
   'MMM d, yyyy',
   'MMMM d, yyyy',
   'MM/dd/yy',
@@ -155,8 +600,14 @@ const DATE_FORMATS = [
 // ---------------------------------------------------------------------------
 // parseDate — helper exported for use in the UI layer
 // ---------------------------------------------------------------------------
-export function parseDate(raw: string): Date | null {
+// With a `dateFormat` only that pattern is accepted; otherwise each of
+// DATE_FORMATS is tried, then native Date parsing.
+export function parseDate(raw: string, dateFormat: string | null = null): Date | null {
   const trimmed = raw.trim();
+  if (dateFormat) {
+    const d = parse(trimmed, dateFormat, new Date());
+    return isValid(d) ? d : null;
+  }
   for (const fmt of DATE_FORMATS) {
     const d = parse(trimmed, fmt, new Date());
     if (isValid(d)) return d;
@@ -167,19 +618,417 @@ export function parseDate(raw: string): Date | null {
   return null;
 }
 
+// ---------------------------------------------------------------------------
+// detectDateFormat
+// ---------------------------------------------------------------------------
+// The first of DATE_FORMATS that reads every sample, so a column holding
+// "13/01/2024" settles on dd/MM/yyyy. Null when none fits them all.
+export function detectDateFormat(samples: string[]): string | null {
+  const values = samples.map((v) => v.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+  const now = new Date();
+  return DATE_FORMATS.find((fmt) => values.every((v) => isValid(parse(v, fmt, now)))) ?? null;
+}
+
 // ---------------------------------------------------------------------------
 // parseAmount — helper exported for use in the UI layer
 // ---------------------------------------------------------------------------
 // Strips common currency prefixes / suffixes, handles negative parentheses
-// e.g. (25.00) → -25, $1,234.56 → 1234.56
-export function parseAmount(raw: string): number | null {
+// and trailing minus signs e.g. (25.00) → -25, 25.00- → -25,
+// $1,234.56 → 1234.56, or 1.234,56 with European separators → 1234.56
+export function parseAmount(
+  raw: string,
+  separators: Pick<CsvFormat, 'decimalSeparator' | 'thousandsSeparator'> = {
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+  }
+): number | null {
   let s = raw.trim();
   // Negative in parentheses: (25.00)
-  const negative = s.startsWith('(') && s.endsWith(')');
+  let negative = s.startsWith('(') && s.endsWith(')');
   if (negative) s = s.slice(1, -1);
-  // Remove currency symbols and thousands separators
-  s = s.replace(/[£€$¥₹,\s]/g, '');
+  if (s.endsWith('-')) {
+    negative = true;
+    s = s.slice(0, -1);
+  }
+  // Remove currency symbols and whitespace, then thousands separators
+  s = s.replace(/[£€$¥₹\s]/g, '');
+  if (separators.thousandsSeparator) s = s.split(separators.thousandsSeparator).join('');
+  if (separators.decimalSeparator === ',') s = s.replace(',', '.');
   const n = parseFloat(s);
   if (isNaN(n)) return null;
   return negative ? -n : n;
 }
+
+// Comma decimals show up as a comma followed by one or two digits at the end,
+// e.g. "12,50" or "1.234,5"; anything else is read the US/UK way.
+function detectSeparators(
+  samples: string[]
+): Pick<CsvFormat, 'decimalSeparator' | 'thousandsSeparator'> {
+  const commaDecimal = samples.some((v) => /\d,\d{1,2}\)?-?$/.test(v.trim()));
+  return commaDecimal
+    ? { decimalSeparator: ',', thousandsSeparator: '.' }
+    : { decimalSeparator: '.', thousandsSeparator: ',' };
+}
+
+// ---------------------------------------------------------------------------
+// Sign conventions
+// ---------------------------------------------------------------------------
+// Which way a signed amount went under the given convention, with the
+// amount made positive.
+export function amountFlow(amount: number, sign: AmountSign): { kind: ImportRow['kind']; amount: number } {
+  switch (sign) {
+    case 'negative_is_expense':
+      return amount <= 0 ? { kind: 'expense', amount: -amount } : { kind: 'income', amount };
+    case 'positive_is_expense':
+      return amount >= 0 ? { kind: 'expense', amount } : { kind: 'income', amount: -amount };
+    case 'all_expenses':
+      return { kind: 'expense', amount: Math.abs(amount) };
+  }
+}
+
+// Mixed signs mean the file holds both directions; the more frequent sign is
+// taken to be spending. A single sign keeps every row.
+function detectAmountSign(amounts: number[]): AmountSign {
+  const negatives = amounts.filter((a) => a < 0).length;
+  const positives = amounts.filter((a) => a > 0).length;
+  if (negatives === 0 || positives === 0) return 'all_expenses';
+  return negatives >= positives ? 'negative_is_expense' : 'positive_is_expense';
+}
+
+// ---------------------------------------------------------------------------
+// detectCsvFormat
+// ---------------------------------------------------------------------------
+// Best guess at how an unknown file is laid out: the delimiter, the first line
+// with as many fields as the data (skipping any preamble), the header-name
+// column mapping, and the date, separator and sign conventions seen in the
+// first rows.
+const SAMPLE_ROWS = 50;
+
+export function detectCsvFormat(content: string): CsvFormat {
+  const delimiter = detectDelimiter(content);
+  const lines = splitLines(content).slice(0, SAMPLE_ROWS);
+  const counts = lines.map((line) => parseRow(line, delimiter).length);
+  const fields = mostCommon(counts);
+  const headerRow = Math.max(0, counts.indexOf(fields));
+
+  const { headers, rows } = parseCSV(content, { delimiter, headerRow });
+  const mapping = autoMapColumns(headers);
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const column = (index: number) => (index >= 0 ? sample.map((r) => r[index] ?? '') : []);
+
+  // Split debit/credit columns carry no sign, but their separators still count
+  const rawAmounts = mapping.amountCol >= 0
+    ? column(mapping.amountCol)
+    : [...column(mapping.debitCol), ...column(mapping.creditCol)].filter((v) => v.trim());
+  const separators = detectSeparators(rawAmounts);
+  const amounts = rawAmounts
+    .map((v) => parseAmount(v, separators))
+    .filter((v): v is number => v !== null);
+
+  return {
+    delimiter,
+    headerRow,
+    mapping,
+    dateFormat: detectDateFormat(column(mapping.dateCol)),
+    ...separators,
+    amountSign: mapping.amountCol >= 0 ? detectAmountSign(amounts) : 'all_expenses',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+// A bank's export keeps the same header row from one statement to the next,
+// so the normalized headers identify which saved profile applies.
+export function headerFingerprint(headers: string[]): string {
+  return headers.map((h) => h.trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+}
+
+// Each profile reads the header with its own delimiter and offset; the most
+// recently used match wins.
+export function findProfileForFile(content: string, profiles: ImportProfile[]): ImportProfile | null {
+  const lines = splitLines(content);
+  const candidates = [...profiles].sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0));
+  for (const profile of candidates) {
+    const line = lines[profile.headerRow];
+    if (line !== undefined && headerFingerprint(parseRow(line, profile.delimiter)) === profile.fingerprint) {
+      return profile;
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// mapImportRows
+// ---------------------------------------------------------------------------
+// Turns parsed CSV rows into expenses and income ready for executeImport.
+// Money coming in, by the format's sign convention or a credit column, becomes
+// income with a guessed source. Rows whose date or amount cannot be read are
+// reported in `warnings`.
+export interface ImportRow {
+  kind: 'expense' | 'income';
+  date: Date;
+  /** Always positive; `kind` says which way the money went. */
+  amount: number;
+  description: string;
+  /** Used for expenses only. */
+  categoryId: string;
+  rawCategory: string;
+  categoryMatched: boolean;
+  /** Used for income only. */
+  source: IncomeSource | null;
+  /** Split lines of an expense, summing to `amount`; empty when not split. */
+  splits: SplitInput[];
+  /** Tags for an expense, set by the matching rule. */
+  tagIds: string[];
+  /** The rule that booked this expense, if any. */
+  ruleId: string | null;
+  /** Set when the category was suggested from past expenses rather than read or ruled. */
+  confidence: number | null;
+  /** Money moving between the user's own accounts rather than spending or income. */
+  isTransfer: boolean;
+  notes: string | null;
+  externalId: string | null;
+}
+
+export function mapImportRows(
+  rows: string[][],
+  csvFormat: CsvFormat,
+  categories: Category[],
+  fallbackCategoryId: string
+): { rows: ImportRow[]; warnings: string[] } {
+  const { mapping } = csvFormat;
+  const mappedRows: ImportRow[] = [];
+  const warnings: string[] = [];
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '') : '');
+
+  rows.forEach((row, idx) => {
+    const rawDate = cell(row, mapping.dateCol);
+    const rawDesc = cell(row, mapping.descCol);
+    const rawCat = cell(row, mapping.catCol);
+
+    const date = parseDate(rawDate, csvFormat.dateFormat);
+    if (!date) {
+      warnings.push(`Row ${idx + 1}: Could not parse date "${rawDate}" — skipped.`);
+      return;
+    }
+
+    let flow: { kind: ImportRow['kind']; amount: number };
+    if (mapping.amountCol >= 0) {
+      const rawAmount = cell(row, mapping.amountCol);
+      const amount = parseAmount(rawAmount, csvFormat);
+      if (amount === null) {
+        warnings.push(`Row ${idx + 1}: Could not parse amount "${rawAmount}" — skipped.`);
+        return;
+      }
+      flow = amountFlow(amount, csvFormat.amountSign);
+    } else {
+      // One of the two columns is usually blank; some banks fill both
+      const rawDebit = cell(row, mapping.debitCol);
+      const rawCredit = cell(row, mapping.creditCol);
+      const debit = rawDebit.trim() ? parseAmount(rawDebit, csvFormat) : 0;
+      const credit = rawCredit.trim() ? parseAmount(rawCredit, csvFormat) : 0;
+      if (debit === null || credit === null || (!rawDebit.trim() && !rawCredit.trim())) {
+        warnings.push(`Row ${idx + 1}: Could not parse amount "${rawDebit || rawCredit}" — skipped.`);
+        return;
+      }
+      const net = Math.abs(credit) - Math.abs(debit);
+      flow = net > 0 ? { kind: 'income', amount: net } : { kind: 'expense', amount: -net };
+    }
+
+    if (flow.kind === 'income') {
+      mappedRows.push({
+        kind: 'income',
+        date,
+        amount: flow.amount,
+        description: rawDesc || 'Imported income',
+        categoryId: fallbackCategoryId,
+        rawCategory: rawCat,
+        categoryMatched: false,
+        source: guessIncomeSource(rawCat, rawDesc),
+        splits: [],
+        tagIds: [],
+        ruleId: null,
+        confidence: null,
+        isTransfer: false,
+        notes: null,
+        externalId: null,
+      });
+      return;
+    }
+
+    const matchedId = matchCategory(rawCat, categories);
+    mappedRows.push({
+      kind: 'expense',
+      date,
+      amount: flow.amount,
+      description: rawDesc || 'Imported expense',
+      categoryId: matchedId ?? fallbackCategoryId,
+      rawCategory: rawCat,
+      categoryMatched: matchedId !== null,
+      source: null,
+      splits: [],
+      tagIds: [],
+      ruleId: null,
+      confidence: null,
+      isTransfer: false,
+      notes: null,
+      externalId: null,
+    });
+  });
+
+  return { rows: mappedRows, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// mapOfxTransactions
+// ---------------------------------------------------------------------------
+// Debits become expenses in the fallback category and credits become income;
+// XFER entries are flagged as transfers. FITIDs are only unique within one account, so the external id is qualified
+// with the statement's account id.
+const OFX_INCOME_SOURCES: Record<string, IncomeSource> = {
+  DIRECTDEP: 'salary',
+  INT: 'investment',
+  DIV: 'investment',
+};
+
+export function mapOfxTransactions(statements: OfxStatement[], fallbackCategoryId: string): ImportRow[] {
+  return statements.flatMap((statement) =>
+    statement.transactions.map((t): ImportRow => {
+      const isIncome = t.amount > 0;
+      const description = t.name || t.memo || (isIncome ? 'Imported income' : 'Imported expense');
+      return {
+        kind: isIncome ? 'income' : 'expense',
+        date: t.date,
+        amount: Math.abs(t.amount),
+        description,
+        categoryId: fallbackCategoryId,
+        rawCategory: '',
+        categoryMatched: false,
+        source: isIncome ? (OFX_INCOME_SOURCES[t.type] ?? guessIncomeSource(t.name, t.memo)) : null,
+        splits: [],
+        tagIds: [],
+        ruleId: null,
+        confidence: null,
+        isTransfer: t.type === 'XFER',
+        notes: t.memo && t.memo !== description ? t.memo : null,
+        externalId: statement.accountId ? `${statement.accountId}:${t.fitId}` : t.fitId,
+      };
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// mapQifTransactions
+// ---------------------------------------------------------------------------
+// Money out becomes an expense booked by category path, with split lines kept
+// when they all run the same way as the total; money in becomes income.
+// Transfers to other accounts ("[Savings]") are flagged, since they are
+// neither spending nor income.
+export function mapQifTransactions(
+  transactions: QifTransaction[],
+  categories: Category[],
+  fallbackCategoryId: string
+): ImportRow[] {
+  const rows: ImportRow[] = [];
+
+  transactions.forEach((t) => {
+    const isTransfer =
+      t.splits.length > 0 ? t.splits.every((s) => isQifTransfer(s.category)) : isQifTransfer(t.category);
+    const isIncome = t.amount > 0;
+    const description = t.payee || t.memo || (isIncome ? 'Imported income' : 'Imported expense');
+    const notes = t.memo && t.memo !== description ? t.memo : null;
+
+    if (isTransfer) {
+      rows.push({
+        kind: isIncome ? 'income' : 'expense',
+        date: t.date,
+        amount: Math.abs(t.amount),
+        description: t.payee || t.category || description,
+        categoryId: fallbackCategoryId,
+        rawCategory: t.category,
+        categoryMatched: false,
+        source: isIncome ? 'other' : null,
+        splits: [],
+        tagIds: [],
+        ruleId: null,
+        confidence: null,
+        isTransfer: true,
+        notes,
+        externalId: null,
+      });
+      return;
+    }
+
+    if (isIncome) {
+      rows.push({
+        kind: 'income',
+        date: t.date,
+        amount: t.amount,
+        description,
+        categoryId: fallbackCategoryId,
+        rawCategory: t.category,
+        categoryMatched: false,
+        source: guessIncomeSource(t.category, ...t.splits.map((s) => s.category), t.payee, t.memo),
+        splits: [],
+        tagIds: [],
+        ruleId: null,
+        confidence: null,
+        isTransfer: false,
+        notes,
+        externalId: null,
+      });
+      return;
+    }
+
+    // Lines running against the total (a refund inside a purchase) or moving
+    // money to another account cannot be split lines; book the whole amount.
+    const usable = t.splits.length > 1 && t.splits.every((s) => s.amount < 0 && !isQifTransfer(s.category));
+    const matchedLines = usable
+      ? t.splits.map((s) => ({ split: s, categoryId: matchCategoryPath(s.category, categories) }))
+      : [];
+    let lines: SplitInput[] = matchedLines.map(({ split, categoryId }) => ({
+      categoryId: categoryId ?? fallbackCategoryId,
+      amount: -split.amount,
+      note: split.memo || null,
+    }));
+    // The record total is what left the account. Lines short of it get the
+    // rest as an uncategorised line; lines over it cannot be split at all.
+    const remainder = subtractMoney(-t.amount, sumMoney(lines, (l) => l.amount));
+    if (lines.length > 0 && remainder > 0) {
+      lines = [...lines, { categoryId: fallbackCategoryId, amount: remainder, note: 'Not covered by the split lines' }];
+    } else if (remainder < 0) {
+      lines = [];
+    }
+    // Unsplit, the largest line names the category when the record has none
+    const rawCategory =
+      t.category || t.splits.reduce((max, s) => (s.amount < max.amount ? s : max), t.splits[0])?.category || '';
+    const matchedId = lines.length > 0
+      ? lines.reduce((max, l) => (l.amount > max.amount ? l : max), lines[0]).categoryId
+      : matchCategoryPath(rawCategory, categories);
+    const categoryMatched = lines.length > 0
+      ? matchedLines.every((l) => l.categoryId !== null)
+      : matchedId !== null;
+
+    rows.push({
+      kind: 'expense',
+      date: t.date,
+      amount: -t.amount,
+      description,
+      categoryId: matchedId ?? fallbackCategoryId,
+      rawCategory,
+      categoryMatched,
+      source: null,
+      splits: lines,
+      tagIds: [],
+      ruleId: null,
+      confidence: null,
+      isTransfer: false,
+      notes,
+      externalId: null,
+    });
+  });
+
+  return rows;
+}
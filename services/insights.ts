@@ -1,14 +1,15 @@
-import { startOfMonth, endOfMonth, subMonths, format, getDaysInMonth, getDate } from 'date-fns';
-import type { ExpenseWithCategory, Insight, BudgetWithProgress } from '@/types';
+import { startOfMonth, endOfMonth, startOfDay, endOfDay, subMonths, getDaysInMonth, getDate } from 'date-fns';
+import { getCategoryTotals, queryExpenses, summarizeExpenses } from '@/services/expenseQueries';
+import type { Category, Insight, BudgetWithProgress } from '@/types';
 
 export function generateInsights(
-  expenses: ExpenseWithCategory[],
   budgets: BudgetWithProgress[],
   monthlyIncome: number,
   lastMonthIncome: number,
   streak: number,
   totalExpenseCount: number,
   currencySymbol: string = '$',
+  categories: Category[] = [],
 ): Insight[] {
   const insights: Insight[] = [];
   const now = new Date();
@@ -17,21 +18,18 @@ export function generateInsights(
   const lastMonthStart = startOfMonth(subMonths(now, 1)).getTime();
   const lastMonthEnd = endOfMonth(subMonths(now, 1)).getTime();
 
-  const thisMonthExpenses = expenses.filter((e) => e.date >= thisMonthStart && e.date <= thisMonthEnd);
-  const lastMonthExpenses = expenses.filter((e) => e.date >= lastMonthStart && e.date <= lastMonthEnd);
-
-  const thisMonthTotal = thisMonthExpenses.reduce((sum, e) => sum + e.amount, 0);
-  const lastMonthTotal = lastMonthExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const thisMonthTotal = summarizeExpenses({ start: thisMonthStart, end: thisMonthEnd }).total;
+  const lastMonthTotal = summarizeExpenses({ start: lastMonthStart, end: lastMonthEnd }).total;
 
   // 1. Category spending spike/drop
-  const thisCategoryTotals = getCategoryTotals(thisMonthExpenses);
-  const lastCategoryTotals = getCategoryTotals(lastMonthExpenses);
+  const thisCategoryTotals = getCategoryTotals(thisMonthStart, thisMonthEnd);
+  const lastCategoryTotals = getCategoryTotals(lastMonthStart, lastMonthEnd);
 
-  for (const [catId, thisTotal] of Object.entries(thisCategoryTotals)) {
-    const lastTotal = lastCategoryTotals[catId] ?? 0;
+  for (const [catId, thisTotal] of thisCategoryTotals) {
+    const lastTotal = lastCategoryTotals.get(catId) ?? 0;
     if (lastTotal === 0) continue;
     const change = ((thisTotal - lastTotal) / lastTotal) * 100;
-    const catName = thisMonthExpenses.find((e) => e.categoryId === catId)?.category.name ?? 'Unknown';
+    const catName = categories.find((c) => c.id === catId)?.name ?? 'Unknown';
 
     if (change > 20) {
       insights.push({
@@ -78,8 +76,7 @@ export function generateInsights(
   }
 
   // 3. Biggest expense today
-  const todayStr = format(now, 'yyyy-MM-dd');
-  const todayExpenses = expenses.filter((e) => format(new Date(e.date), 'yyyy-MM-dd') === todayStr);
+  const todayExpenses = queryExpenses({ start: startOfDay(now).getTime(), end: endOfDay(now).getTime() });
   if (todayExpenses.length > 0) {
     const biggest = todayExpenses.reduce((max, e) => (e.amount > max.amount ? e : max), todayExpenses[0]);
     if (biggest.amount > 0) {
@@ -129,11 +126,3 @@ export function generateInsights(
   // Sort by priority descending, return top 2
   return insights.sort((a, b) => b.priority - a.priority).slice(0, 2);
 }
-
-function getCategoryTotals(expenses: ExpenseWithCategory[]): Record<string, number> {
-  const totals: Record<string, number> = {};
-  for (const e of expenses) {
-    totals[e.categoryId] = (totals[e.categoryId] ?? 0) + e.amount;
-  }
-  return totals;
-}
@@ -1,8 +1,11 @@
 import * as Notifications from 'expo-notifications';
 import { db } from '@/db';
-import { expenses, budgets } from '@/db/schema';
+import { expenses, budgets, categories } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, startOfYear, endOfYear, subDays } from 'date-fns';
+import { fromMinorUnits } from '@/lib/money';
+import { getRollupCategoryIds } from '@/lib/categories';
+import { getSpentMinorUnits, summarizeExpenses } from '@/services/expenseQueries';
 import type { BudgetPeriod } from '@/types';
 
 // Configure notification behavior
@@ -52,18 +55,17 @@ export async function scheduleBudgetAlerts() {
   }
 
   const allBudgets = db.select().from(budgets).all();
-  const allExpenses = db.select().from(expenses).all();
+  const allCategories = db.select({ id: categories.id, parentId: categories.parentId }).from(categories).all();
 
   for (const budget of allBudgets) {
     const period = budget.period as BudgetPeriod;
     const { start, end } = getBudgetPeriodRange(period);
 
-    const spent = allExpenses
-      .filter((e) => {
-        if (budget.categoryId && e.categoryId !== budget.categoryId) return false;
-        return e.date >= start && e.date <= end;
-      })
-      .reduce((sum, e) => sum + (e.amount ?? 0), 0);
+    // Both sides are integer minor units, so the percentage is exact
+    const categoryIds = budget.categoryId
+      ? getRollupCategoryIds(allCategories, budget.categoryId)
+      : null;
+    const spent = getSpentMinorUnits(start, end, categoryIds);
 
     const percentage = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
 
@@ -123,7 +125,7 @@ export async function scheduleRecurringReminders(currencySymbol: string = '$') {
       await Notifications.scheduleNotificationAsync({
         content: {
           title: 'Upcoming Recurring Expense',
-          body: `${template.description || 'Recurring expense'} of ${currencySymbol}${template.amount.toFixed(2)} is due tomorrow.`,
+          body: `${template.description || 'Recurring expense'} of ${currencySymbol}${fromMinorUnits(template.amount).toFixed(2)} is due tomorrow.`,
           data: { type: 'recurring_reminder', expenseId: template.id },
         },
         trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: reminderDate },
@@ -188,12 +190,8 @@ export async function scheduleDailySummary(currencySymbol: string = '$') {
   const todayEnd = new Date();
   todayEnd.setHours(23, 59, 59, 999);
 
-  const allExpenses = db.select().from(expenses).all();
-  const todayExpenses = allExpenses.filter(
-    (e) => e.date >= todayStart.getTime() && e.date <= todayEnd.getTime()
-  );
-  const todayTotal = todayExpenses.reduce((sum, e) => sum + (e.amount ?? 0), 0);
-  const txCount = todayExpenses.length;
+  const today = summarizeExpenses({ start: todayStart.getTime(), end: todayEnd.getTime() });
+  const txCount = today.count;
 
   const allBudgets = db.select().from(budgets).all();
   const overallBudget = allBudgets.find((b) => !b.categoryId);
@@ -201,9 +199,7 @@ export async function scheduleDailySummary(currencySymbol: string = '$') {
   if (overallBudget) {
     const monthStart = startOfMonth(new Date()).getTime();
     const monthEnd = endOfMonth(new Date()).getTime();
-    const monthSpent = allExpenses
-      .filter((e) => e.date >= monthStart && e.date <= monthEnd)
-      .reduce((sum, e) => sum + (e.amount ?? 0), 0);
+    const monthSpent = getSpentMinorUnits(monthStart, monthEnd, null);
     const pct = overallBudget.amount > 0 ? ((monthSpent / overallBudget.amount) * 100).toFixed(0) : '0';
     budgetMsg = ` Budget: ${pct}% used.`;
   }
@@ -211,7 +207,7 @@ export async function scheduleDailySummary(currencySymbol: string = '$') {
   await Notifications.scheduleNotificationAsync({
     content: {
       title: 'Daily Summary',
-      body: `Today you spent ${currencySymbol}${todayTotal.toFixed(2)} across ${txCount} transaction${txCount !== 1 ? 's' : ''}.${budgetMsg}`,
+      body: `Today you spent ${currencySymbol}${today.total.toFixed(2)} across ${txCount} transaction${txCount !== 1 ? 's' : ''}.${budgetMsg}`,
       data: { type: 'daily_summary' },
     },
     trigger: {
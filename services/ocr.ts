@@ -1,20 +1,36 @@
 /**
  * Receipt OCR Service
  *
- * OCR requires react-native-mlkit-ocr which is not currently installed.
- * This stub returns empty data until the package is added.
+ * Text recognition itself comes from a provider registered with
+ * setOCRProvider, e.g. one wrapping an on-device ML Kit module or a cloud
+ * API. None ships with the app, so scanning stays hidden until one is set.
+ * Reading the total, date and items out of the text is left to
+ * services/receiptParser, whatever the provider.
  */
+import { EMPTY_RECEIPT, parseReceiptText, type ReceiptData } from '@/services/receiptParser';
 
-export interface ReceiptData {
-  amount: number | null;
-  date: string | null;
-  merchant: string | null;
+export type { ReceiptData, ReceiptLineItem } from '@/services/receiptParser';
+
+export interface OCRProvider {
+  name: string;
+  /** False when the provider cannot run here, e.g. its native module is missing. */
+  isAvailable: () => boolean;
+  /** Recognized text with one printed line per line, top to bottom. */
+  recognizeText: (imageUri: string) => Promise<string>;
+}
+
+let provider: OCRProvider | null = null;
+
+export function setOCRProvider(next: OCRProvider | null): void {
+  provider = next;
 }
 
 export function isOCRAvailable(): boolean {
-  return false;
+  return provider?.isAvailable() ?? false;
 }
 
-export async function extractReceiptData(_imageUri: string): Promise<ReceiptData> {
-  return { amount: null, date: null, merchant: null };
+export async function extractReceiptData(imageUri: string): Promise<ReceiptData> {
+  if (!provider || !provider.isAvailable()) return EMPTY_RECEIPT;
+  const text = await provider.recognizeText(imageUri);
+  return parseReceiptText(text);
 }
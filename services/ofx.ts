@@ -0,0 +1,101 @@
+// ---------------------------------------------------------------------------
+// OFX / QFX statements
+// ---------------------------------------------------------------------------
+// Reads bank and credit card statements from OFX 1.x (SGML) and 2.x (XML)
+// files; QFX is OFX with an Intuit header. In the SGML flavour leaf elements
+// have no end tag, so values are read up to the next tag, which works for
+// both flavours. Aggregates such as <STMTTRN> are closed in both.
+
+export interface OfxTransaction {
+  /** Bank-assigned id, unique within the account and stable across downloads. */
+  fitId: string;
+  /** TRNTYPE, e.g. DEBIT, CREDIT, POS, DIRECTDEP, INT. */
+  type: string;
+  date: Date;
+  /** Signed as in the file: negative is money leaving the account. */
+  amount: number;
+  name: string;
+  memo: string;
+}
+
+export interface OfxStatement {
+  accountId: string | null;
+  currency: string | null;
+  transactions: OfxTransaction[];
+}
+
+export function isOFX(content: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(content.slice(0, 2000));
+}
+
+// One statement per <STMTRS> (bank) or <CCSTMTRS> (credit card) aggregate.
+// Throws when the file has no OFX body.
+export function parseOFX(content: string): OfxStatement[] {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) throw new Error('This is not an OFX file.');
+  const body = content.slice(start);
+
+  const statements: OfxStatement[] = [];
+  for (const block of aggregates(body, '(?:CC)?STMTRS')) {
+    statements.push({
+      accountId: leaf(block, 'ACCTID') || null,
+      currency: leaf(block, 'CURDEF') || null,
+      transactions: aggregates(block, 'STMTTRN')
+        .map(toTransaction)
+        .filter((t): t is OfxTransaction => t !== null),
+    });
+  }
+  return statements;
+}
+
+function toTransaction(block: string): OfxTransaction | null {
+  const date = parseOfxDate(leaf(block, 'DTPOSTED'));
+  const amount = parseOfxAmount(leaf(block, 'TRNAMT'));
+  const fitId = leaf(block, 'FITID');
+  if (!date || amount === null || !fitId) return null;
+  return {
+    fitId,
+    type: leaf(block, 'TRNTYPE').toUpperCase(),
+    date,
+    amount,
+    // NAME sits either directly in the transaction or inside a <PAYEE> aggregate
+    name: leaf(block, 'NAME'),
+    memo: leaf(block, 'MEMO'),
+  };
+}
+
+function aggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(text.matchAll(pattern), (m) => m[1]);
+}
+
+function leaf(text: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<]*)`, 'i').exec(text);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+// YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]. Only the calendar day is kept,
+// as local midnight like dates read from CSV files.
+function parseOfxDate(raw: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(raw);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Some European banks write TRNAMT with a decimal comma.
+function parseOfxAmount(raw: string): number | null {
+  const normalized = raw.includes('.') ? raw : raw.replace(',', '.');
+  const n = parseFloat(normalized.replace(/\s/g, ''));
+  return isNaN(n) ? null : n;
+}
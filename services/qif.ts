@@ -0,0 +1,181 @@
+// ---------------------------------------------------------------------------
+// QIF files
+// ---------------------------------------------------------------------------
+// Quicken Interchange Format: one field per line, the first character naming
+// the field, and "^" closing each record. Only cash-flow sections are read
+// (!Type:Bank, !Type:CCard, !Type:Cash, !Type:Oth A/L); investment, memorized
+// and list sections are skipped.
+
+export interface QifSplit {
+  /** Category path such as "Food:Groceries", or "[Account]" for a transfer. */
+  category: string;
+  /** Signed like the transaction: negative is money leaving the account. */
+  amount: number;
+  memo: string;
+}
+
+export interface QifTransaction {
+  date: Date;
+  /** Negative is money leaving the account. */
+  amount: number;
+  payee: string;
+  memo: string;
+  category: string;
+  splits: QifSplit[];
+  /** Name of the !Account block the record appeared under, if any. */
+  account: string | null;
+}
+
+const CASH_FLOW_TYPES = new Set(['bank', 'ccard', 'cash', 'oth a', 'oth l']);
+
+export function isQIF(content: string): boolean {
+  return /^\uFEFF?\s*!(Type|Account|Option)/i.test(content);
+}
+
+/** `[Savings]` style categories move money to another account. */
+export function isQifTransfer(category: string): boolean {
+  return /^\[.*\]/.test(category.trim());
+}
+
+// Field values as written, before dates and amounts are interpreted.
+interface RawRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+  category: string;
+  splits: QifSplit[];
+}
+
+function emptyRecord(): RawRecord {
+  return { date: '', amount: '', payee: '', memo: '', category: '', splits: [] };
+}
+
+export function parseQIF(content: string): QifTransaction[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  const records: (RawRecord & { account: string | null })[] = [];
+  let section = '';
+  let account: string | null = null;
+  let accountName: string | null = null;
+  let current = emptyRecord();
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      if (header.startsWith('!type:')) section = header.slice(6).trim();
+      else if (header === '!account') section = 'account';
+      else if (header.startsWith('!option') || header.startsWith('!clear')) continue;
+      current = emptyRecord();
+      continue;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (section === 'account') {
+      // An !Account block names the account the following records belong to
+      if (code === 'N') accountName = value;
+      if (code === '^') account = accountName;
+      continue;
+    }
+    if (!CASH_FLOW_TYPES.has(section)) continue;
+
+    switch (code) {
+      case 'D': current.date = value; break;
+      case 'T':
+      case 'U': if (!current.amount) current.amount = value; break;
+      case 'P': current.payee = value; break;
+      case 'M': current.memo = value; break;
+      case 'L': current.category = value; break;
+      case 'S': current.splits.push({ category: value, amount: 0, memo: '' }); break;
+      case 'E': {
+        const split = current.splits[current.splits.length - 1];
+        if (split) split.memo = value;
+        break;
+      }
+      case '$': {
+        const split = current.splits[current.splits.length - 1];
+        if (split) split.amount = parseQifAmount(value) ?? 0;
+        break;
+      }
+      case '^':
+        records.push({ ...current, account });
+        current = emptyRecord();
+        break;
+    }
+  }
+
+  const dayFirst = isDayFirst(records.map((r) => r.date));
+  const transactions: QifTransaction[] = [];
+  for (const r of records) {
+    const date = parseQifDate(r.date, dayFirst);
+    const amount = parseQifAmount(r.amount);
+    if (!date || amount === null) continue;
+    transactions.push({
+      date,
+      amount,
+      payee: r.payee,
+      memo: r.memo,
+      // "Category/Class": the class part is not used
+      category: stripClass(r.category),
+      splits: r.splits.map((s) => ({ ...s, category: stripClass(s.category) })),
+      account: r.account,
+    });
+  }
+  return transactions;
+}
+
+function stripClass(category: string): string {
+  return isQifTransfer(category) ? category.replace(/\].*$/, ']') : category.split('/')[0].trim();
+}
+
+// Commas are thousands separators unless they are the only separator and
+// followed by one or two digits, as in "12,50".
+function parseQifAmount(raw: string): number | null {
+  let s = raw.replace(/\s/g, '');
+  if (/,\d{1,2}$/.test(s) && !s.includes('.')) s = s.replace(',', '.');
+  s = s.replace(/,/g, '');
+  const n = parseFloat(s);
+  return isNaN(n) ? null : n;
+}
+
+const DATE_PARTS = /^(\d{1,4})\s*[/\-.]\s*(\d{1,2})\s*[/\-.'`]\s*(\d{1,4})$/;
+
+// Quicken writes month first; a file whose first field ever exceeds 12 was
+// written day first.
+function isDayFirst(dates: string[]): boolean {
+  return dates.some((d) => {
+    const m = DATE_PARTS.exec(d.trim());
+    return !!m && m[1].length <= 2 && Number(m[1]) > 12;
+  });
+}
+
+// Handles "1/15/2024", "01/15'24" (the apostrophe marks 2000s years),
+// "15.01.2024" and "2024-01-15".
+function parseQifDate(raw: string, dayFirst: boolean): Date | null {
+  const value = raw.trim();
+  const m = DATE_PARTS.exec(value);
+  if (!m) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (m[1].length === 4) {
+    year = Number(m[1]);
+    month = Number(m[2]);
+    day = Number(m[3]);
+  } else {
+    [day, month] = dayFirst ? [Number(m[1]), Number(m[2])] : [Number(m[2]), Number(m[1])];
+    year = Number(m[3]);
+    if (m[3].length <= 2) {
+      year += /['`]/.test(value) || year < 50 ? 2000 : 1900;
+    }
+  }
+
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
@@ -0,0 +1,289 @@
+import { isValid, parse } from 'date-fns';
+
+// ---------------------------------------------------------------------------
+// Receipt text parsing
+// ---------------------------------------------------------------------------
+// Turns the text an OCR provider recognized on a receipt into a total, date,
+// merchant, tax and line items. Kept free of any device API so it can be
+// worked on against the sample receipts in services/fixtures/receipts.ts.
+
+export interface ReceiptLineItem {
+  description: string;
+  /** Line total; negative for discounts and coupons. */
+  amount: number;
+  quantity: number | null;
+}
+
+export interface ReceiptData {
+  amount: number | null;
+  date: Date | null;
+  merchant: string | null;
+  tax: number | null;
+  /** ISO code read from a symbol or code on the receipt; null when none was printed. */
+  currency: string | null;
+  lineItems: ReceiptLineItem[];
+}
+
+export const EMPTY_RECEIPT: ReceiptData = {
+  amount: null,
+  date: null,
+  merchant: null,
+  tax: null,
+  currency: null,
+  lineItems: [],
+};
+
+// Longer symbols first so "C$" is not read as "$".
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['C$', 'CAD'],
+  ['A$', 'AUD'],
+  ['US$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₨', 'PKR'],
+  ['$', 'USD'],
+];
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'INR', 'PKR', 'CHF', 'SEK', 'NOK', 'DKK', 'NZD'];
+
+// Totals by how sure they are: what is owed beats a bare "TOTAL", which may
+// be followed by tendered cash and change.
+const TOTAL_KEYWORDS: [RegExp, number][] = [
+  [/\b(amount|balance|total) due\b|\bbalance\b|\bto pay\b|\bzu zahlen\b|\bnet [àa] payer\b/i, 3],
+  [/\bgrand total\b|\btotal ttc\b|\bgesamtbetrag\b|\bsumme\b|\bimporte total\b/i, 2],
+  [/\btotal\b|\btotale\b|\bgesamt\b|\bmontant\b/i, 1],
+];
+// "TOTAL" also prints on lines that are not the amount paid
+const NOT_TOTAL = /\bsub-?\s?total\b|\btotal (tax|vat|savings|saved|discount|items?|qty|quantity)\b|\b(items?|qty) total\b|\bnet total\b/i;
+
+const TAX_KEYWORDS = /\b(sales )?tax\b|\bvat\b|\bgst\b|\bhst\b|\bpst\b|\bqst\b|\bmwst\b|\bust\b|\btva\b|\biva\b/i;
+const TAX_TOTAL = /\btotal (tax|vat)\b|\b(tax|vat) total\b/i;
+
+// Lines that end in an amount but are not something bought
+const NOT_ITEM = new RegExp(
+  [
+    NOT_TOTAL.source,
+    TAX_KEYWORDS.source,
+    ...TOTAL_KEYWORDS.map(([pattern]) => pattern.source),
+    /\b(cash|change|tendered|card|visa|mastercard|amex|debit|credit|payment|paid|tip|gratuity|rounding|auth|approval)\b/i
+      .source,
+  ].join('|'),
+  'i'
+);
+
+const MERCHANT_NOISE = /\b(welcome|receipt|invoice|tel|phone|fax|www\.|https?:|store #?\d|thank|cashier|server|table|order)\b|@/i;
+
+// An amount: optional sign and currency, digits with optional grouping, and
+// two decimals (or none for currencies like yen); a trailing minus or
+// parentheses mark a discount.
+const CODES = CURRENCY_CODES.join('|');
+const AMOUNT_PATTERN = new RegExp(
+  `(?<![\\p{L}\\d.,])(\\(?-?\\s?(?:(?:${CODES})\\s?|C\\$|A\\$|US\\$|[$€£¥₹₨])?\\s?-?\\d{1,3}(?:[ .,']\\d{3})*(?:[.,]\\d{2})?\\)?-?)` +
+    `(?:\\s?(?:${CODES}|[€£¥]))?(?=\\s|$|[A-Z]\\b)`,
+  'gu'
+);
+
+const DATE_PATTERNS: { pattern: RegExp; formats: string[] }[] = [
+  { pattern: /\b(\d{4}-\d{1,2}-\d{1,2})\b/, formats: ['yyyy-M-d'] },
+  { pattern: /\b(\d{4}\/\d{1,2}\/\d{1,2})\b/, formats: ['yyyy/M/d'] },
+  { pattern: /\b(\d{1,2}\.\d{1,2}\.\d{2,4})\b/, formats: ['d.M.yyyy', 'd.M.yy'] },
+  { pattern: /\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/, formats: ['M/d/yyyy', 'M/d/yy', 'd/M/yyyy', 'd/M/yy'] },
+  { pattern: /\b(\d{1,2}-\d{1,2}-\d{2,4})\b/, formats: ['M-d-yyyy', 'M-d-yy', 'd-M-yyyy', 'd-M-yy'] },
+  { pattern: /\b(\d{1,2} [A-Za-z]{3,9}\.? \d{2,4})\b/, formats: ['d MMM yyyy', 'd MMMM yyyy', 'd MMM yy'] },
+  { pattern: /\b([A-Za-z]{3,9}\.? \d{1,2},? \d{4})\b/, formats: ['MMM d, yyyy', 'MMMM d, yyyy', 'MMM d yyyy', 'MMMM d yyyy'] },
+  { pattern: /\b(\d{1,2}-[A-Za-z]{3}-\d{2,4})\b/, formats: ['d-MMM-yyyy', 'd-MMM-yy'] },
+];
+
+function normalizeLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/** The numeric value of one amount token, or null when it is not money. */
+export function parseReceiptAmount(raw: string): number | null {
+  let s = raw.trim();
+  let negative = /^\(.*\)$/.test(s) || s.endsWith('-') || /^-|^[^\d]*-/.test(s);
+  s = s.replace(/[()\s-]/g, '').replace(/^[A-Z]{3}|[A-Z]{3}$/g, '').replace(/C\$|A\$|US\$|[$€£¥₹₨']/g, '');
+  if (!/^\d[\d.,]*$/.test(s)) return null;
+
+  // The last separator followed by exactly two digits is the decimal point;
+  // every other separator groups thousands.
+  const decimal = /[.,]\d{2}$/.test(s) ? s.length - 3 : -1;
+  const whole = (decimal >= 0 ? s.slice(0, decimal) : s).replace(/[.,]/g, '');
+  const value = parseFloat(decimal >= 0 ? `${whole}.${s.slice(decimal + 1)}` : whole);
+  if (isNaN(value)) return null;
+  if (value === 0) negative = false;
+  return negative ? -value : value;
+}
+
+interface AmountMatch {
+  raw: string;
+  value: number;
+  index: number;
+}
+
+// Percentages ("8.25%") and quantities glued to "x" or "@" are not amounts.
+function findAmounts(line: string): AmountMatch[] {
+  const found: AmountMatch[] = [];
+  for (const match of line.matchAll(AMOUNT_PATTERN)) {
+    const raw = match[1].trim();
+    const index = match.index ?? 0;
+    const after = line.slice(index + match[0].length).trimStart();
+    if (after.startsWith('%') || /^[x@]\s/i.test(after) || /^[x@]\d/i.test(after)) continue;
+    // Bare integers are store numbers, quantities or codes, not prices
+    if (!/[.,]\d{2}\)?-?$/.test(raw) && !/[$€£¥₹₨]|[A-Z]{3}/.test(match[0])) continue;
+    const value = parseReceiptAmount(raw);
+    if (value !== null) found.push({ raw, value, index });
+  }
+  return found;
+}
+
+function lastAmount(line: string): number | null {
+  const amounts = findAmounts(line);
+  return amounts.length > 0 ? amounts[amounts.length - 1].value : null;
+}
+
+export function detectCurrency(text: string): string | null {
+  const codes = new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`);
+  const code = text.match(codes)?.[1];
+  if (code) return code;
+  return CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))?.[1] ?? null;
+}
+
+// Slashed dates are ambiguous; receipts in dollars read month first, the rest
+// of the world day first, unless a part above 12 settles it.
+function parseDateToken(token: string, formats: string[], monthFirst: boolean): Date | null {
+  const ordered = token.includes('/') || /^\d{1,2}-\d{1,2}-/.test(token)
+    ? [...formats].sort((a, b) => {
+        const aMonthFirst = a.startsWith('M') ? 0 : 1;
+        const bMonthFirst = b.startsWith('M') ? 0 : 1;
+        return monthFirst ? aMonthFirst - bMonthFirst : bMonthFirst - aMonthFirst;
+      })
+    : formats;
+  for (const fmt of ordered) {
+    // Two-digit years only match the short patterns, and the other way round
+    const year = token.match(/\d+$/)?.[0] ?? '';
+    if (/[dMy]yy$/.test(fmt) && !fmt.endsWith('yyyy') && year.length !== 2) continue;
+    if (fmt.endsWith('yyyy') && /\d$/.test(token) && year.length === 2) continue;
+    const date = parse(token.replace(/\.(?= )/, ''), fmt, new Date(2000, 0, 1));
+    if (isValid(date) && date.getFullYear() >= 1990 && date.getFullYear() <= 2100) return date;
+  }
+  return null;
+}
+
+export function findReceiptDate(lines: string[], monthFirst = true): Date | null {
+  for (const line of lines) {
+    for (const { pattern, formats } of DATE_PATTERNS) {
+      const token = line.match(pattern)?.[1];
+      if (!token) continue;
+      const date = parseDateToken(token, formats, monthFirst);
+      if (date) return date;
+    }
+  }
+  return null;
+}
+
+// The store name is printed first; addresses, phone numbers and greetings
+// around it are passed over.
+function findMerchant(lines: string[]): string | null {
+  for (const line of lines.slice(0, 6)) {
+    const letters = (line.match(/\p{L}/gu) ?? []).length;
+    const digits = (line.match(/\d/g) ?? []).length;
+    if (letters < 3 || digits > letters || MERCHANT_NOISE.test(line)) continue;
+    if (findAmounts(line).length > 0) continue;
+    return line.replace(/[*=_#~]+/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+  return null;
+}
+
+function isBareAmount(line: string): boolean {
+  const amounts = findAmounts(line);
+  return amounts.length === 1 && line.slice(0, amounts[0].index).trim() === '';
+}
+
+function findTotal(lines: string[]): { amount: number; index: number } | null {
+  let best: { amount: number; index: number; rank: number } | null = null;
+  lines.forEach((line, i) => {
+    if (NOT_TOTAL.test(line)) return;
+    const rank = TOTAL_KEYWORDS.find(([pattern]) => pattern.test(line))?.[1];
+    if (!rank) return;
+    // Some printers put the figure alone on the line below the label
+    const next = lines[i + 1];
+    const amount = lastAmount(line) ?? (next && isBareAmount(next) ? lastAmount(next) : null);
+    if (amount === null || amount <= 0) return;
+    // The first of equally sure totals is the bill; later ones repeat it on a card slip
+    if (!best || rank > best.rank) best = { amount, index: i, rank };
+  });
+  return best;
+}
+
+function findTax(lines: string[]): number | null {
+  const taxLines = lines.filter((line) => TAX_KEYWORDS.test(line) && !/\b(incl|included|exempt)\b/i.test(line));
+  const total = taxLines.find((line) => TAX_TOTAL.test(line));
+  if (total) return lastAmount(total);
+  const amounts = taxLines
+    .filter((line) => !NOT_TOTAL.test(line) || TAX_TOTAL.test(line))
+    .map(lastAmount)
+    .filter((v): v is number => v !== null && v > 0);
+  if (amounts.length === 0) return null;
+  return Math.round(amounts.reduce((sum, v) => sum + v, 0) * 100) / 100;
+}
+
+// "2 x COFFEE 3.00", "COFFEE 2 @ 1.50 3.00" and "COFFEE 3.00" all read as one
+// line item; the last amount on the line is its total.
+function parseLineItem(line: string): ReceiptLineItem | null {
+  const amounts = findAmounts(line);
+  if (amounts.length === 0) return null;
+  const last = amounts[amounts.length - 1];
+  let description = line.slice(0, last.index).trim();
+  let quantity: number | null = null;
+
+  const leading = description.match(/^(\d+)\s?[x*]\s?(.*)$/i);
+  const trailing = description.match(/^(.*?)\s(\d+)\s?[x@]\s?[\d.,]*$/i);
+  if (leading) {
+    quantity = parseInt(leading[1], 10);
+    description = leading[2];
+  } else if (trailing) {
+    description = trailing[1];
+    quantity = parseInt(trailing[2], 10);
+  }
+  // Drop a leading item code and trailing tax flags such as "A" or "T"
+  description = description.replace(/^\d{4,}\s/, '').replace(/\s[A-Z]$/, '').trim();
+  if ((description.match(/\p{L}/gu) ?? []).length < 2) return null;
+  return { description, amount: last.value, quantity };
+}
+
+function findLineItems(lines: string[], totalIndex: number): ReceiptLineItem[] {
+  const end = totalIndex >= 0 ? totalIndex : lines.length;
+  const items: ReceiptLineItem[] = [];
+  for (const line of lines.slice(0, end)) {
+    if (NOT_ITEM.test(line)) continue;
+    const item = parseLineItem(line);
+    if (item) items.push(item);
+  }
+  return items;
+}
+
+/** Everything that could be read from `text`; fields not found are null. */
+export function parseReceiptText(text: string): ReceiptData {
+  const lines = normalizeLines(text);
+  if (lines.length === 0) return EMPTY_RECEIPT;
+
+  const currency = detectCurrency(text);
+  const total = findTotal(lines);
+  const lineItems = findLineItems(lines, total?.index ?? -1);
+  // Without a labelled total, the biggest figure on the receipt is the best guess
+  const fallback = lines.flatMap((line) => findAmounts(line).map((a) => a.value)).filter((v) => v > 0);
+
+  return {
+    amount: total?.amount ?? (fallback.length > 0 ? Math.max(...fallback) : null),
+    date: findReceiptDate(lines, currency === null || currency === 'USD'),
+    merchant: findMerchant(lines),
+    tax: findTax(lines),
+    currency,
+    lineItems,
+  };
+}
@@ -1,6 +1,6 @@
 import { addDays, addWeeks, addMonths, addYears } from 'date-fns';
 import { db, generateId } from '@/db';
-import { expenses } from '@/db/schema';
+import { expenses, expenseSplits } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import type { RecurringFrequency } from '@/types';
 
@@ -38,30 +38,37 @@ export function processRecurringExpenses(): number {
     if (!frequency) continue;
 
     let created = 0;
+    const splits = db.select().from(expenseSplits).where(eq(expenseSplits.expenseId, template.id)).all();
 
     while (nextDate <= now && created < MAX_INSTANCES_PER_TEMPLATE) {
       // Respect end date
       if (template.recurringEndDate && nextDate > template.recurringEndDate) break;
 
       const instanceNow = Date.now();
+      const instanceId = generateId();
       db.insert(expenses)
         .values({
-          id: generateId(),
+          id: instanceId,
           amount: template.amount,
           categoryId: template.categoryId,
           description: template.description,
           date: nextDate,
-          paymentMethod: template.paymentMethod,
+          accountId: template.accountId,
           receiptUri: null,
           isRecurring: 0,
           recurringFrequency: null,
           recurringEndDate: null,
           nextRecurringDate: null,
+          currency: template.currency,
+          originalAmount: template.originalAmount,
           notes: template.notes,
           createdAt: instanceNow,
           updatedAt: instanceNow,
         })
         .run();
+      for (const split of splits) {
+        db.insert(expenseSplits).values({ ...split, id: generateId(), expenseId: instanceId }).run();
+      }
 
       created++;
       nextDate = advanceDate(nextDate, frequency);
@@ -0,0 +1,62 @@
+import { toMinorUnits } from '@/lib/money';
+import type { CategoryRule, RuleMatchType } from '@/types';
+
+// ---------------------------------------------------------------------------
+// Categorization rules
+// ---------------------------------------------------------------------------
+// Matches an expense's description and amount against the user's rules. Both
+// import and manual entry go through findMatchingRule, so a rule behaves the
+// same wherever the expense comes from.
+
+/** Null when `pattern` cannot be used: empty, or a regex that does not compile. */
+function compile(matchType: RuleMatchType, pattern: string): RegExp | null {
+  const source = pattern.trim();
+  if (!source) return null;
+  try {
+    return new RegExp(matchType === 'regex' ? source : source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  } catch {
+    return null;
+  }
+}
+
+export function isValidPattern(matchType: RuleMatchType, pattern: string): boolean {
+  return compile(matchType, pattern) !== null;
+}
+
+// Bounds are inclusive and compared in minor units, so 4.99 ≤ 4.99 holds.
+export function ruleMatches(rule: CategoryRule, description: string, amount: number): boolean {
+  const minor = toMinorUnits(amount);
+  if (rule.minAmount !== null && minor < toMinorUnits(rule.minAmount)) return false;
+  if (rule.maxAmount !== null && minor > toMinorUnits(rule.maxAmount)) return false;
+  return compile(rule.matchType, rule.pattern)?.test(description) ?? false;
+}
+
+/**
+ * The first enabled rule, in priority order, matching the expense. Rules whose
+ * category is no longer in `categoryIds` are passed over.
+ */
+export function findMatchingRule(
+  rules: CategoryRule[],
+  description: string,
+  amount: number,
+  categoryIds: ReadonlySet<string>
+): CategoryRule | null {
+  if (!description.trim()) return null;
+  const ordered = rules
+    .filter((r) => r.isEnabled && categoryIds.has(r.categoryId))
+    .sort((a, b) => a.priority - b.priority);
+  return ordered.find((r) => ruleMatches(r, description, amount)) ?? null;
+}
+
+// Card statements pad merchant names with store numbers, cities and
+// reference codes ("STARBUCKS #1234 SEATTLE WA"); the words before the first
+// of those make a pattern that also catches the next visit.
+export function suggestRulePattern(description: string): string {
+  const words: string[] = [];
+  for (const word of description.trim().split(/\s+/)) {
+    if (/[\d#*]/.test(word)) break;
+    words.push(word);
+    if (words.length === 3) break;
+  }
+  return words.length > 0 ? words.join(' ') : description.trim();
+}
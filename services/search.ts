@@ -0,0 +1,73 @@
+import { sql } from 'drizzle-orm';
+import { db } from '@/db';
+
+/** Marks the start and end of a matched term inside a snippet. */
+export const SNIPPET_OPEN = '\u0002';
+export const SNIPPET_CLOSE = '\u0003';
+
+const SNIPPET_TOKENS = 8;
+const MAX_RESULTS = 500;
+
+export interface ExpenseSearchMatch {
+  expenseId: string;
+  /** Position in the ranked results; 0 is the best match. */
+  rank: number;
+  snippet: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must match, each as a
+ * prefix, so "star lat" finds "Starbucks latte". Returns null when nothing
+ * searchable is left.
+ */
+export function buildFtsQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((term) => `"${term}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Searches description, notes, category and tag names, best match first.
+ * Description hits weigh most, then category and tags, then notes.
+ */
+export function searchExpenses(text: string): ExpenseSearchMatch[] | null {
+  const query = buildFtsQuery(text);
+  if (!query) return null;
+
+  const rows = db.all<{ id: string; snippet: string }>(sql`
+    SELECT e.id AS id,
+      snippet(expenses_fts, -1, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM expenses_fts
+    JOIN expenses e ON e.rowid = expenses_fts.rowid
+    WHERE expenses_fts MATCH ${query}
+    ORDER BY bm25(expenses_fts, 10.0, 2.0, 5.0, 5.0)
+    LIMIT ${MAX_RESULTS}
+  `);
+  return rows.map((row, rank) => ({ expenseId: row.id, rank, snippet: row.snippet }));
+}
+
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = snippet;
+  while (rest.length > 0) {
+    const open = rest.indexOf(SNIPPET_OPEN);
+    if (open === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (open > 0) parts.push({ text: rest.slice(0, open), highlighted: false });
+    const close = rest.indexOf(SNIPPET_CLOSE, open);
+    const end = close === -1 ? rest.length : close;
+    parts.push({ text: rest.slice(open + 1, end), highlighted: true });
+    rest = close === -1 ? '' : rest.slice(close + 1);
+  }
+  return parts;
+}
@@ -0,0 +1,132 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { and, isNotNull, lt } from 'drizzle-orm';
+import { startOfDay, subMonths } from 'date-fns';
+import { db } from '@/db';
+import { attachments, expenses } from '@/db/schema';
+import { fileName } from '@/lib/files';
+import { attachmentsDirectory } from '@/services/attachments';
+import { trashDirectory } from '@/services/trash';
+
+// Name prefix lib/receipt gives receipts saved in the document directory.
+const RECEIPT_PREFIX = 'receipt_';
+
+export interface StorageGroup {
+  count: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  receipts: StorageGroup;
+  /** Attachment files and their thumbnails. */
+  attachments: StorageGroup;
+  /** Files of trashed expenses, freed when the trash empties. */
+  trash: StorageGroup;
+  orphans: StorageGroup;
+}
+
+function listFiles(dir: Directory): File[] {
+  if (!dir.exists) return [];
+  return dir.list().filter((entry): entry is File => entry instanceof File);
+}
+
+function measure(files: File[]): StorageGroup {
+  return { count: files.length, bytes: files.reduce((sum, f) => sum + f.size, 0) };
+}
+
+function referencedReceipts(): Set<string> {
+  const rows = db.select({ uri: expenses.receiptUri }).from(expenses).where(isNotNull(expenses.receiptUri)).all();
+  return new Set(rows.map((r) => fileName(r.uri as string)));
+}
+
+function referencedAttachments(): Set<string> {
+  const names = new Set<string>();
+  for (const row of db.select().from(attachments).all()) {
+    names.add(fileName(row.uri));
+    if (row.thumbnailUri) names.add(fileName(row.thumbnailUri));
+  }
+  return names;
+}
+
+function receiptFiles(): File[] {
+  return listFiles(Paths.document).filter((f) => f.name.startsWith(RECEIPT_PREFIX));
+}
+
+/**
+ * Receipts and attachment files no row points at any more, e.g. a receipt
+ * picked on the add screen that was never saved, or files left behind when a
+ * restore replaced the database. Trashed files are not included.
+ */
+export function findOrphanedFiles(): File[] {
+  const receipts = referencedReceipts();
+  const attached = referencedAttachments();
+  return [
+    ...receiptFiles().filter((f) => !receipts.has(f.name)),
+    ...listFiles(attachmentsDirectory()).filter((f) => !attached.has(f.name)),
+  ];
+}
+
+/** Deletes every orphaned file. Returns how many went. */
+export function deleteOrphanedFiles(): number {
+  let removed = 0;
+  for (const file of findOrphanedFiles()) {
+    try {
+      file.delete();
+      removed += 1;
+    } catch (error) {
+      console.warn('[storage] could not delete orphaned file:', error);
+    }
+  }
+  return removed;
+}
+
+export function getStorageUsage(): StorageUsage {
+  const receipts = referencedReceipts();
+  const attached = referencedAttachments();
+  const receiptFileList = receiptFiles();
+  const attachmentFileList = listFiles(attachmentsDirectory());
+  return {
+    receipts: measure(receiptFileList.filter((f) => receipts.has(f.name))),
+    attachments: measure(attachmentFileList.filter((f) => attached.has(f.name))),
+    trash: measure(listFiles(trashDirectory())),
+    orphans: measure([
+      ...receiptFileList.filter((f) => !receipts.has(f.name)),
+      ...attachmentFileList.filter((f) => !attached.has(f.name)),
+    ]),
+  };
+}
+
+function receiptCutoff(months: number): number {
+  return subMonths(startOfDay(new Date()), months).getTime();
+}
+
+/** How many expenses dated more than `months` ago still have a receipt. */
+export function countReceiptsOlderThan(months: number): number {
+  return db.select({ id: expenses.id }).from(expenses)
+    .where(and(isNotNull(expenses.receiptUri), lt(expenses.date, receiptCutoff(months))))
+    .all().length;
+}
+
+/**
+ * Removes the receipt from expenses dated more than `months` ago and deletes
+ * the files, keeping any a newer expense still shares. Attachments stay.
+ * Returns how many expenses lost their receipt.
+ */
+export function clearReceiptsOlderThan(months: number): number {
+  const olderThan = and(isNotNull(expenses.receiptUri), lt(expenses.date, receiptCutoff(months)));
+  const rows = db.select({ uri: expenses.receiptUri }).from(expenses).where(olderThan).all();
+  if (rows.length === 0) return 0;
+
+  db.update(expenses).set({ receiptUri: null, updatedAt: Date.now() }).where(olderThan).run();
+
+  const stillUsed = referencedReceipts();
+  for (const uri of new Set(rows.map((r) => r.uri as string))) {
+    if (stillUsed.has(fileName(uri))) continue;
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch {
+      // File may already be deleted
+    }
+  }
+  return rows.length;
+}
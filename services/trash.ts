@@ -0,0 +1,250 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { eq, and, inArray, lt } from 'drizzle-orm';
+import { subDays } from 'date-fns';
+import { db, generateId } from '@/db';
+import { attachments, expenses, expenseSplits, expenseTags, trash } from '@/db/schema';
+import { fromMinorUnits } from '@/lib/money';
+import type { Expense, TrashedExpense } from '@/types';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const EXPENSE_ITEM = 'expense';
+// Keep IN (...) lists well under SQLite's bound-parameter limit.
+const SQL_CHUNK_SIZE = 500;
+
+interface ExpensePayload {
+  expense: typeof expenses.$inferSelect;
+  splits: (typeof expenseSplits.$inferSelect)[];
+  tags: (typeof expenseTags.$inferSelect)[];
+  /** Missing on items trashed before attachments existed. */
+  attachments?: (typeof attachments.$inferSelect)[];
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const parts: T[][] = [];
+  for (let i = 0; i < items.length; i += SQL_CHUNK_SIZE) parts.push(items.slice(i, i + SQL_CHUNK_SIZE));
+  return parts;
+}
+
+export function trashDirectory(): Directory {
+  return new Directory(Paths.document, 'trash');
+}
+
+// Receipts and attachments move into the trash directory under their own file
+// name, so the original path recorded in the payload is enough to find them.
+function trashedFile(uri: string): File {
+  return new File(trashDirectory(), uri.split('/').pop() ?? uri);
+}
+
+/** Receipt, attachment and thumbnail paths recorded in a payload. */
+function payloadFiles(payload: ExpensePayload): string[] {
+  const uris: string[] = [];
+  if (payload.expense.receiptUri) uris.push(payload.expense.receiptUri);
+  for (const attachment of payload.attachments ?? []) {
+    uris.push(attachment.uri);
+    if (attachment.thumbnailUri) uris.push(attachment.thumbnailUri);
+  }
+  return uris;
+}
+
+function moveFileToTrash(uri: string) {
+  try {
+    const source = new File(uri);
+    if (!source.exists) return;
+    const dir = trashDirectory();
+    if (!dir.exists) dir.create({ intermediates: true });
+    source.move(trashedFile(uri));
+  } catch (error) {
+    console.warn('[trash] could not move file to trash:', error);
+  }
+}
+
+function restoreFileFromTrash(uri: string) {
+  try {
+    const trashed = trashedFile(uri);
+    if (trashed.exists) trashed.move(new File(uri));
+  } catch (error) {
+    console.warn('[trash] could not restore file:', error);
+  }
+}
+
+function deleteTrashedFile(uri: string) {
+  try {
+    const trashed = trashedFile(uri);
+    if (trashed.exists) trashed.delete();
+  } catch {
+    // File may already be deleted
+  }
+}
+
+function parsePayload(row: typeof trash.$inferSelect): ExpensePayload {
+  return JSON.parse(row.payload) as ExpensePayload;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Deletes expenses together with their split lines, tag links and attachments
+ * inside `tx`, keeping a snapshot of every row in the trash. Returns the
+ * receipt and attachment files to pass to moveFilesToTrash once `tx` commits.
+ */
+export function trashExpenseRows(tx: Tx, ids: string[]): string[] {
+  const now = Date.now();
+  const files: string[] = [];
+  for (const part of chunk(ids)) {
+    const rows = tx.select().from(expenses).where(inArray(expenses.id, part)).all();
+    const splits = tx.select().from(expenseSplits).where(inArray(expenseSplits.expenseId, part)).all();
+    const tagLinks = tx.select().from(expenseTags).where(inArray(expenseTags.expenseId, part)).all();
+    const attachmentRows = tx.select().from(attachments).where(inArray(attachments.expenseId, part)).all();
+
+    for (const row of rows) {
+      const payload: ExpensePayload = {
+        expense: row,
+        splits: splits.filter((s) => s.expenseId === row.id),
+        tags: tagLinks.filter((t) => t.expenseId === row.id),
+        attachments: attachmentRows.filter((a) => a.expenseId === row.id),
+      };
+      tx.insert(trash).values({
+        id: generateId(),
+        itemType: EXPENSE_ITEM,
+        itemId: row.id,
+        payload: JSON.stringify(payload),
+        deletedAt: now,
+      }).run();
+      files.push(...payloadFiles(payload));
+    }
+
+    tx.delete(attachments).where(inArray(attachments.expenseId, part)).run();
+    tx.delete(expenseTags).where(inArray(expenseTags.expenseId, part)).run();
+    tx.delete(expenseSplits).where(inArray(expenseSplits.expenseId, part)).run();
+    tx.delete(expenses).where(inArray(expenses.id, part)).run();
+  }
+  return files;
+}
+
+export function moveFilesToTrash(uris: string[]): void {
+  uris.forEach(moveFileToTrash);
+}
+
+/**
+ * Deletes expenses together with their split lines, tag links and
+ * attachments, keeping a snapshot of every row in the trash and moving receipt
+ * and attachment files alongside it.
+ */
+export function moveExpensesToTrash(ids: string[]): void {
+  if (ids.length === 0) return;
+  const files = db.transaction((tx) => trashExpenseRows(tx, ids));
+  moveFilesToTrash(files);
+}
+
+export interface TrashRestoreResult {
+  restored: number;
+  /** Items left in the trash because the expense exists again, e.g. after a backup restore or re-import. */
+  skipped: number;
+}
+
+/**
+ * Puts trashed expenses back by expense id; ids not in the trash are ignored.
+ * An expense whose id is in use again, or whose bank id has been imported
+ * again, stays in the trash rather than failing the restore or duplicating.
+ */
+export function restoreExpensesFromTrash(expenseIds: string[]): TrashRestoreResult {
+  const result: TrashRestoreResult = { restored: 0, skipped: 0 };
+  if (expenseIds.length === 0) return result;
+  const files: string[] = [];
+
+  db.transaction((tx) => {
+    for (const part of chunk(expenseIds)) {
+      const rows = tx.select().from(trash)
+        .where(and(eq(trash.itemType, EXPENSE_ITEM), inArray(trash.itemId, part)))
+        .all();
+      const payloads = rows.map((row) => ({ row, payload: parsePayload(row) }));
+      const existing = new Set(
+        tx.select({ id: expenses.id }).from(expenses).where(inArray(expenses.id, part)).all().map((r) => r.id)
+      );
+      // A rolled-back import that was imported again would come back twice
+      const externalIds = payloads.map((p) => p.payload.expense.externalId).filter((id): id is string => !!id);
+      const reimported = new Set(
+        externalIds.length === 0 ? [] : tx.select({ id: expenses.externalId }).from(expenses)
+          .where(inArray(expenses.externalId, externalIds))
+          .all()
+          .map((r) => r.id)
+      );
+      for (const { row, payload } of payloads) {
+        const { externalId } = payload.expense;
+        if (existing.has(row.itemId) || (externalId && reimported.has(externalId))) {
+          result.skipped += 1;
+          continue;
+        }
+        tx.insert(expenses).values(payload.expense).run();
+        for (const split of payload.splits) tx.insert(expenseSplits).values(split).run();
+        for (const link of payload.tags) tx.insert(expenseTags).values(link).run();
+        for (const attachment of payload.attachments ?? []) tx.insert(attachments).values(attachment).run();
+        tx.delete(trash).where(eq(trash.id, row.id)).run();
+        files.push(...payloadFiles(payload));
+        result.restored += 1;
+      }
+    }
+  });
+
+  files.forEach(restoreFileFromTrash);
+  return result;
+}
+
+export function getTrashedExpenses(): TrashedExpense[] {
+  return db.select().from(trash).where(eq(trash.itemType, EXPENSE_ITEM)).all()
+    .map((row) => {
+      const payload = parsePayload(row);
+      const expense: Expense = {
+        ...(payload.expense as Expense),
+        amount: fromMinorUnits(payload.expense.amount),
+        originalAmount: payload.expense.originalAmount === null ? null : fromMinorUnits(payload.expense.originalAmount),
+      };
+      return {
+        id: row.id,
+        deletedAt: row.deletedAt,
+        expense,
+        splitCount: payload.splits.length,
+        tagCount: payload.tags.length,
+        attachmentCount: payload.attachments?.length ?? 0,
+      };
+    })
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/** Permanently removes trash rows (and their receipt and attachment files) by trash id. */
+export function deleteFromTrash(trashIds: string[]): void {
+  const files: string[] = [];
+  for (const part of chunk(trashIds)) {
+    const rows = db.select().from(trash).where(inArray(trash.id, part)).all();
+    for (const row of rows) files.push(...payloadFiles(parsePayload(row)));
+    db.delete(trash).where(inArray(trash.id, part)).run();
+  }
+  files.forEach(deleteTrashedFile);
+}
+
+/**
+ * Removes every trash row inside `tx`. Returns the trashed files to pass to
+ * deleteTrashedFiles once `tx` commits.
+ */
+export function clearTrashRows(tx: Tx): string[] {
+  const files = tx.select().from(trash).all().flatMap((row) => payloadFiles(parsePayload(row)));
+  tx.delete(trash).run();
+  return files;
+}
+
+export function deleteTrashedFiles(uris: string[]): void {
+  uris.forEach(deleteTrashedFile);
+}
+
+export function emptyTrash(): void {
+  deleteFromTrash(db.select({ id: trash.id }).from(trash).all().map((r) => r.id));
+}
+
+/** Drops items deleted more than TRASH_RETENTION_DAYS ago. Returns how many. */
+export function purgeExpiredTrash(): number {
+  const cutoff = subDays(new Date(), TRASH_RETENTION_DAYS).getTime();
+  const expired = db.select({ id: trash.id }).from(trash).where(lt(trash.deletedAt, cutoff)).all();
+  deleteFromTrash(expired.map((r) => r.id));
+  return expired.length;
+}
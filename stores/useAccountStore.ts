@@ -0,0 +1,175 @@
+import { create } from 'zustand';
+import { and, eq, or, sql } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { accounts, expenses, income, templates, transfers } from '@/db/schema';
+import { DEFAULT_ACCOUNTS } from '@/lib/theme';
+import { fromMinorUnits, roundMoney, toMinorUnits } from '@/lib/money';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useTemplateStore } from '@/stores/useTemplateStore';
+import type { Account, AccountType } from '@/types';
+
+interface AccountState {
+  accounts: Account[];
+  isLoading: boolean;
+  loadAccounts: () => void;
+  addAccount: (data: {
+    name: string;
+    type: AccountType;
+    openingBalance: number;
+    currency?: string | null;
+    icon: string;
+    color: string;
+  }) => Account;
+  updateAccount: (id: string, data: Partial<Pick<Account, 'name' | 'type' | 'openingBalance' | 'currency' | 'icon' | 'color'>>) => void;
+  deleteAccount: (id: string) => void;
+  getAccountById: (id: string | null | undefined) => Account | undefined;
+  getBalances: () => Record<string, number>;
+  resetAccounts: () => void;
+}
+
+export const useAccountStore = create<AccountState>((set, get) => ({
+  accounts: [],
+  isLoading: false,
+
+  loadAccounts: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(accounts).orderBy(accounts.sortOrder).all()
+        .map((row) => ({ ...row, openingBalance: fromMinorUnits(row.openingBalance) }));
+      set({ accounts: result as Account[], isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  addAccount: (data) => {
+    const account: Account = {
+      id: generateId(),
+      name: data.name,
+      type: data.type,
+      openingBalance: roundMoney(data.openingBalance),
+      currency: data.currency ?? null,
+      icon: data.icon,
+      color: data.color,
+      sortOrder: get().accounts.length,
+      createdAt: Date.now(),
+    };
+    db.insert(accounts).values({ ...account, openingBalance: toMinorUnits(account.openingBalance) }).run();
+    set((state) => ({ accounts: [...state.accounts, account] }));
+    return account;
+  },
+
+  updateAccount: (id, data) => {
+    const updateData: Record<string, unknown> = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.openingBalance !== undefined) updateData.openingBalance = toMinorUnits(data.openingBalance);
+    if (data.currency !== undefined) updateData.currency = data.currency;
+    if (data.icon !== undefined) updateData.icon = data.icon;
+    if (data.color !== undefined) updateData.color = data.color;
+
+    db.update(accounts).set(updateData).where(eq(accounts.id, id)).run();
+    set((state) => ({
+      accounts: state.accounts.map((a) => (a.id === id ? { ...a, ...data } : a)),
+    }));
+  },
+
+  // Transactions and templates on a deleted account are kept and become
+  // unassigned. Transfers need an account on both ends, so this throws while
+  // any still use the account.
+  deleteAccount: (id) => {
+    db.transaction((tx) => {
+      const [row] = tx.select({ count: sql<number>`COUNT(*)` }).from(transfers)
+        .where(or(
+          and(eq(transfers.fromType, 'account'), eq(transfers.fromId, id)),
+          and(eq(transfers.toType, 'account'), eq(transfers.toId, id)),
+        ))
+        .all();
+      const transferCount = row?.count ?? 0;
+      if (transferCount > 0) {
+        throw new Error(
+          `This account has ${transferCount} transfer${transferCount === 1 ? '' : 's'}. Delete them before deleting the account.`
+        );
+      }
+      tx.update(expenses).set({ accountId: null }).where(eq(expenses.accountId, id)).run();
+      tx.update(income).set({ accountId: null }).where(eq(income.accountId, id)).run();
+      tx.update(templates).set({ accountId: null }).where(eq(templates.accountId, id)).run();
+      tx.delete(accounts).where(eq(accounts.id, id)).run();
+    });
+    set((state) => ({ accounts: state.accounts.filter((a) => a.id !== id) }));
+    useExpenseStore.getState().loadExpenses();
+    useIncomeStore.getState().loadIncome();
+    useTemplateStore.getState().loadTemplates();
+  },
+
+  getAccountById: (id) => {
+    if (!id) return undefined;
+    return get().accounts.find((a) => a.id === id);
+  },
+
+  // Running balance per account: opening balance + income - expenses, plus
+  // transfers in and out, summed in SQL over integer minor units.
+  getBalances: () => {
+    const spent = db
+      .select({ accountId: expenses.accountId, total: sql<number>`SUM(${expenses.amount})` })
+      .from(expenses)
+      .groupBy(expenses.accountId)
+      .all();
+    const received = db
+      .select({ accountId: income.accountId, total: sql<number>`SUM(${income.amount})` })
+      .from(income)
+      .groupBy(income.accountId)
+      .all();
+    const transferredOut = db
+      .select({ accountId: transfers.fromId, total: sql<number>`SUM(${transfers.amount})` })
+      .from(transfers)
+      .where(eq(transfers.fromType, 'account'))
+      .groupBy(transfers.fromId)
+      .all();
+    const transferredIn = db
+      .select({ accountId: transfers.toId, total: sql<number>`SUM(${transfers.amount})` })
+      .from(transfers)
+      .where(eq(transfers.toType, 'account'))
+      .groupBy(transfers.toId)
+      .all();
+
+    const minor = new Map<string, number>();
+    for (const account of get().accounts) minor.set(account.id, toMinorUnits(account.openingBalance));
+    const apply = (rows: { accountId: string | null; total: number | null }[], sign: 1 | -1) => {
+      for (const row of rows) {
+        if (row.accountId && minor.has(row.accountId)) {
+          minor.set(row.accountId, minor.get(row.accountId)! + sign * (row.total ?? 0));
+        }
+      }
+    };
+    apply(received, 1);
+    apply(spent, -1);
+    apply(transferredIn, 1);
+    apply(transferredOut, -1);
+
+    const balances: Record<string, number> = {};
+    for (const [id, value] of minor) balances[id] = fromMinorUnits(value);
+    return balances;
+  },
+
+  resetAccounts: () => {
+    db.delete(accounts).run();
+    const now = Date.now();
+    const seeded: Account[] = DEFAULT_ACCOUNTS.map((a, i) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      openingBalance: 0,
+      currency: null,
+      icon: a.icon,
+      color: a.color,
+      sortOrder: i,
+      createdAt: now,
+    }));
+    for (const account of seeded) {
+      db.insert(accounts).values(account).run();
+    }
+    set({ accounts: seeded });
+  },
+}));
@@ -3,8 +3,10 @@ import { eq } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { budgets } from '@/db/schema';
 import type { Budget, BudgetPeriod, BudgetWithProgress } from '@/types';
-import { useExpenseStore } from '@/stores/useExpenseStore';
 import { useCategoryStore } from '@/stores/useCategoryStore';
+import { getSpentMinorUnits } from '@/services/expenseQueries';
+import { fromMinorUnits, roundMoney, subtractMoney, toMinorUnits } from '@/lib/money';
+import { getRollupCategoryIds } from '@/lib/categories';
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 
 interface BudgetState {
@@ -39,7 +41,8 @@ export const useBudgetStore = create<BudgetState>((set, get) => ({
     set({ isLoading: true });
     try {
       const result = db.select().from(budgets).all();
-      set({ budgets: result as Budget[], isLoading: false });
+      const mapped = result.map((row) => ({ ...row, amount: fromMinorUnits(row.amount) }));
+      set({ budgets: mapped as Budget[], isLoading: false });
     } catch {
       set({ isLoading: false });
     }
@@ -51,19 +54,19 @@ export const useBudgetStore = create<BudgetState>((set, get) => ({
     const budget: Budget = {
       id,
       categoryId: data.categoryId,
-      amount: data.amount,
+      amount: roundMoney(data.amount),
       period: data.period,
       startDate: now,
       createdAt: now,
     };
 
-    db.insert(budgets).values(budget).run();
+    db.insert(budgets).values({ ...budget, amount: toMinorUnits(budget.amount) }).run();
     set((state) => ({ budgets: [...state.budgets, budget] }));
   },
 
   updateBudget: (id, data) => {
     const updateData: Record<string, unknown> = {};
-    if (data.amount !== undefined) updateData.amount = data.amount;
+    if (data.amount !== undefined) updateData.amount = toMinorUnits(data.amount);
     if (data.period !== undefined) updateData.period = data.period;
 
     db.update(budgets).set(updateData).where(eq(budgets.id, id)).run();
@@ -83,7 +86,6 @@ export const useBudgetStore = create<BudgetState>((set, get) => ({
 
   getBudgetsWithProgress: () => {
     const allBudgets = get().budgets;
-    const allExpenses = useExpenseStore.getState().expenses;
     const allCategories = useCategoryStore.getState().categories;
 
     const categoryMap = new Map(allCategories.map((c) => [c.id, c]));
@@ -93,20 +95,15 @@ export const useBudgetStore = create<BudgetState>((set, get) => ({
       .map((budget) => {
         const { start, end } = getPeriodRange(budget.period as BudgetPeriod);
         const cat = categoryMap.get(budget.categoryId!);
+        // A budget on a parent category covers its sub-categories too
+        const categoryIds = getRollupCategoryIds(allCategories, budget.categoryId!);
 
-        const spent = allExpenses
-          .filter(
-            (e) =>
-              e.categoryId === budget.categoryId &&
-              e.date >= start &&
-              e.date <= end
-          )
-          .reduce((sum, e) => sum + (e.amount ?? 0), 0);
+        const spent = fromMinorUnits(getSpentMinorUnits(start, end, categoryIds));
 
         return {
           ...budget,
           spent,
-          remaining: Math.max(0, budget.amount - spent),
+          remaining: Math.max(0, subtractMoney(budget.amount, spent)),
           percentage: budget.amount > 0 ? (spent / budget.amount) * 100 : 0,
           categoryName: cat?.name,
           categoryIcon: cat?.icon,
@@ -121,11 +118,7 @@ export const useBudgetStore = create<BudgetState>((set, get) => ({
     if (!overallBudget) return null;
 
     const { start, end } = getPeriodRange(overallBudget.period as BudgetPeriod);
-    const allExpenses = useExpenseStore.getState().expenses;
-
-    const spent = allExpenses
-      .filter((e) => e.date >= start && e.date <= end)
-      .reduce((sum, e) => sum + (e.amount ?? 0), 0);
+    const spent = fromMinorUnits(getSpentMinorUnits(start, end, null));
 
     return {
       total: overallBudget.amount,
@@ -1,21 +1,40 @@
 import { create } from 'zustand';
 import { eq } from 'drizzle-orm';
-import { db, generateId } from '@/db';
+import { db, generateId, seedDefaultCategories } from '@/db';
 import { categories } from '@/db/schema';
-import { DEFAULT_CATEGORIES } from '@/lib/theme';
+import { flattenCategoryTree } from '@/lib/categories';
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
 import type { Category } from '@/types';
 
 interface CategoryState {
   categories: Category[];
   isLoading: boolean;
   loadCategories: () => void;
-  addCategory: (data: { name: string; icon: string; color: string }) => Category;
+  addCategory: (data: { name: string; icon: string; color: string; parentId?: string | null }) => Category;
   updateCategory: (id: string, data: Partial<Pick<Category, 'name' | 'icon' | 'color' | 'budgetAmount' | 'budgetPeriod'>>) => void;
+  moveCategory: (id: string, parentId: string | null) => void;
   deleteCategory: (id: string) => void;
   getCategoryById: (id: string) => Category | undefined;
   resetCategories: () => void;
 }
 
+// Only top-level categories can have children, so the tree stays one level deep.
+function assertValidParent(all: Category[], id: string | null, parentId: string | null) {
+  if (!parentId) return;
+  const parent = all.find((c) => c.id === parentId);
+  if (!parent) throw new Error('Parent category not found.');
+  if (parent.id === id) throw new Error('A category cannot be its own parent.');
+  if (parent.parentId) throw new Error('Sub-categories cannot have sub-categories of their own.');
+  if (id && all.some((c) => c.parentId === id)) {
+    throw new Error('Move or delete this category\'s sub-categories first.');
+  }
+}
+
+function nextSortOrder(all: Category[], parentId: string | null): number {
+  const siblings = all.filter((c) => (c.parentId ?? null) === parentId);
+  return siblings.reduce((max, c) => Math.max(max, c.sortOrder + 1), 0);
+}
+
 export const useCategoryStore = create<CategoryState>((set, get) => ({
   categories: [],
   isLoading: false,
@@ -28,7 +47,11 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
         .from(categories)
         .orderBy(categories.sortOrder)
         .all();
-      set({ categories: result as Category[], isLoading: false });
+      const mapped = result.map((row) => ({
+        ...row,
+        budgetAmount: row.budgetAmount != null ? fromMinorUnits(row.budgetAmount) : null,
+      }));
+      set({ categories: flattenCategoryTree(mapped as Category[]), isLoading: false });
     } catch {
       set({ isLoading: false });
     }
@@ -37,7 +60,9 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
   addCategory: (data) => {
     const now = Date.now();
     const id = generateId();
-    const sortOrder = get().categories.length;
+    const parentId = data.parentId ?? null;
+    assertValidParent(get().categories, null, parentId);
+    const sortOrder = nextSortOrder(get().categories, parentId);
 
     db.insert(categories)
       .values({
@@ -45,6 +70,7 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
         name: data.name,
         icon: data.icon,
         color: data.color,
+        parentId,
         isDefault: 0,
         sortOrder,
         createdAt: now,
@@ -53,7 +79,10 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
 
     const newCategory: Category = {
       id,
-      ...data,
+      name: data.name,
+      icon: data.icon,
+      color: data.color,
+      parentId,
       budgetAmount: null,
       budgetPeriod: null,
       isDefault: 0,
@@ -61,7 +90,7 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
       createdAt: now,
     };
 
-    set((state) => ({ categories: [...state.categories, newCategory] }));
+    set((state) => ({ categories: flattenCategoryTree([...state.categories, newCategory]) }));
     return newCategory;
   },
 
@@ -70,7 +99,9 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
     if (data.name !== undefined) updateData.name = data.name;
     if (data.icon !== undefined) updateData.icon = data.icon;
     if (data.color !== undefined) updateData.color = data.color;
-    if (data.budgetAmount !== undefined) updateData.budgetAmount = data.budgetAmount;
+    if (data.budgetAmount !== undefined) {
+      updateData.budgetAmount = data.budgetAmount != null ? toMinorUnits(data.budgetAmount) : null;
+    }
     if (data.budgetPeriod !== undefined) updateData.budgetPeriod = data.budgetPeriod;
 
     db.update(categories).set(updateData).where(eq(categories.id, id)).run();
@@ -82,10 +113,33 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
     }));
   },
 
+  moveCategory: (id, parentId) => {
+    const all = get().categories;
+    const current = all.find((c) => c.id === id);
+    if (!current || (current.parentId ?? null) === parentId) return;
+    assertValidParent(all, id, parentId);
+    const sortOrder = nextSortOrder(all, parentId);
+
+    db.update(categories).set({ parentId, sortOrder }).where(eq(categories.id, id)).run();
+    set((state) => ({
+      categories: flattenCategoryTree(
+        state.categories.map((cat) => (cat.id === id ? { ...cat, parentId, sortOrder } : cat))
+      ),
+    }));
+  },
+
+  // Sub-categories of a deleted category move up to the top level.
   deleteCategory: (id) => {
-    db.delete(categories).where(eq(categories.id, id)).run();
+    db.transaction((tx) => {
+      tx.update(categories).set({ parentId: null }).where(eq(categories.parentId, id)).run();
+      tx.delete(categories).where(eq(categories.id, id)).run();
+    });
     set((state) => ({
-      categories: state.categories.filter((cat) => cat.id !== id),
+      categories: flattenCategoryTree(
+        state.categories
+          .filter((cat) => cat.id !== id)
+          .map((cat) => (cat.parentId === id ? { ...cat, parentId: null } : cat))
+      ),
     }));
   },
 
@@ -95,16 +149,7 @@ export const useCategoryStore = create<CategoryState>((set, get) => ({
 
   resetCategories: () => {
     db.delete(categories).run();
-    const now = Date.now();
-    const newCats: Category[] = [];
-    for (let i = 0; i < DEFAULT_CATEGORIES.length; i++) {
-      const cat = DEFAULT_CATEGORIES[i];
-      const id = generateId();
-      db.insert(categories)
-        .values({ id, name: cat.name, icon: cat.icon, color: cat.color, isDefault: 1, sortOrder: i, createdAt: now })
-        .run();
-      newCats.push({ id, name: cat.name, icon: cat.icon, color: cat.color, budgetAmount: null, budgetPeriod: null, isDefault: 1, sortOrder: i, createdAt: now });
-    }
-    set({ categories: newCats });
+    seedDefaultCategories();
+    get().loadCategories();
   },
 }));
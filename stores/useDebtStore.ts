@@ -2,7 +2,9 @@ import { create } from 'zustand';
 import { eq } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { debts } from '@/db/schema';
+import { fromMinorUnits, roundMoney, subtractMoney, sumMoney, toMinorUnits } from '@/lib/money';
 import type { Debt } from '@/types';
+import { useUndoStore } from '@/stores/useUndoStore';
 
 const FREE_DEBT_LIMIT = 1;
 
@@ -36,7 +38,12 @@ export const useDebtStore = create<DebtState>((set, get) => ({
   loadDebts: () => {
     set({ isLoading: true });
     try {
-      const result = db.select().from(debts).all();
+      const result = db.select().from(debts).all().map((row) => ({
+        ...row,
+        totalAmount: fromMinorUnits(row.totalAmount),
+        remainingAmount: fromMinorUnits(row.remainingAmount),
+        minimumPayment: fromMinorUnits(row.minimumPayment),
+      }));
       const sorted = (result as Debt[]).sort((a, b) => b.createdAt - a.createdAt);
       set({ debts: sorted, isLoading: false });
     } catch {
@@ -50,17 +57,22 @@ export const useDebtStore = create<DebtState>((set, get) => ({
     const debt: Debt = {
       id,
       name: data.name,
-      totalAmount: data.totalAmount,
-      remainingAmount: data.remainingAmount,
+      totalAmount: roundMoney(data.totalAmount),
+      remainingAmount: roundMoney(data.remainingAmount),
       interestRate: data.interestRate,
-      minimumPayment: data.minimumPayment,
+      minimumPayment: roundMoney(data.minimumPayment),
       dueDate: data.dueDate ?? null,
       icon: data.icon,
       color: data.color,
       createdAt: now,
       updatedAt: now,
     };
-    db.insert(debts).values(debt).run();
+    db.insert(debts).values({
+      ...debt,
+      totalAmount: toMinorUnits(debt.totalAmount),
+      remainingAmount: toMinorUnits(debt.remainingAmount),
+      minimumPayment: toMinorUnits(debt.minimumPayment),
+    }).run();
     set((state) => ({ debts: [debt, ...state.debts] }));
   },
 
@@ -68,10 +80,10 @@ export const useDebtStore = create<DebtState>((set, get) => ({
     const now = Date.now();
     const updateData: Record<string, unknown> = { updatedAt: now };
     if (data.name !== undefined) updateData.name = data.name;
-    if (data.totalAmount !== undefined) updateData.totalAmount = data.totalAmount;
-    if (data.remainingAmount !== undefined) updateData.remainingAmount = data.remainingAmount;
+    if (data.totalAmount !== undefined) updateData.totalAmount = toMinorUnits(data.totalAmount);
+    if (data.remainingAmount !== undefined) updateData.remainingAmount = toMinorUnits(data.remainingAmount);
     if (data.interestRate !== undefined) updateData.interestRate = data.interestRate;
-    if (data.minimumPayment !== undefined) updateData.minimumPayment = data.minimumPayment;
+    if (data.minimumPayment !== undefined) updateData.minimumPayment = toMinorUnits(data.minimumPayment);
     if (data.dueDate !== undefined) updateData.dueDate = data.dueDate;
     if (data.icon !== undefined) updateData.icon = data.icon;
     if (data.color !== undefined) updateData.color = data.color;
@@ -85,17 +97,30 @@ export const useDebtStore = create<DebtState>((set, get) => ({
   makePayment: (id, amount) => {
     const debt = get().debts.find((d) => d.id === id);
     if (!debt) return;
-    const newRemaining = Math.max(debt.remainingAmount - amount, 0);
+    const newRemaining = Math.max(subtractMoney(debt.remainingAmount, amount), 0);
     const now = Date.now();
-    db.update(debts).set({ remainingAmount: newRemaining, updatedAt: now }).where(eq(debts.id, id)).run();
+    db.update(debts).set({ remainingAmount: toMinorUnits(newRemaining), updatedAt: now }).where(eq(debts.id, id)).run();
     set((state) => ({
       debts: state.debts.map((d) => (d.id === id ? { ...d, remainingAmount: newRemaining, updatedAt: now } : d)),
     }));
   },
 
   deleteDebt: (id) => {
+    const row = db.select().from(debts).where(eq(debts.id, id)).get();
+    if (!row) return;
     db.delete(debts).where(eq(debts.id, id)).run();
     set((state) => ({ debts: state.debts.filter((d) => d.id !== id) }));
+    useUndoStore.getState().record({
+      label: `Debt "${row.name}" deleted`,
+      undo: () => {
+        db.insert(debts).values(row).run();
+        get().loadDebts();
+      },
+      redo: () => {
+        db.delete(debts).where(eq(debts.id, id)).run();
+        set((state) => ({ debts: state.debts.filter((d) => d.id !== id) }));
+      },
+    });
   },
 
   clearAllDebts: () => {
@@ -108,7 +133,7 @@ export const useDebtStore = create<DebtState>((set, get) => ({
     return get().debts.length < FREE_DEBT_LIMIT;
   },
 
-  getTotalDebt: () => get().debts.reduce((sum, d) => sum + d.remainingAmount, 0),
+  getTotalDebt: () => sumMoney(get().debts, (d) => d.remainingAmount),
 
   getMonthsToPayoff: (debt) => {
     if (debt.remainingAmount <= 0) return 0;
@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { asc, eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { exchangeRates, expenses, expenseSplits, income } from '@/db/schema';
+import { allocateMoney, convertMoney, fromMinorUnits, roundMoney, toMinorUnits } from '@/lib/money';
+import type { ExchangeRate } from '@/types';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+
+interface ExchangeRateState {
+  rates: ExchangeRate[];
+  isLoading: boolean;
+  loadRates: () => void;
+  setRate: (currency: string, rate: number) => void;
+  importRates: (rates: Record<string, number>) => number;
+  deleteRate: (currency: string) => void;
+  getRate: (currency: string) => number | null;
+  convertToHome: (amount: number, currency: string) => number | null;
+  resolveAmount: (amount: number, currency?: string | null) => {
+    amount: number;
+    currency: string | null;
+    originalAmount: number | null;
+  };
+  clearAllRates: () => void;
+}
+
+// Re-derives the home-currency amount of every transaction recorded in
+// `currency` so aggregates follow the edited rate. Split lines are re-shared
+// over the new total in the proportions they already had.
+function reconvertTransactions(currency: string, rate: number) {
+  db.transaction((tx) => {
+    tx.update(expenses)
+      .set({ amount: sql`CAST(ROUND(${expenses.originalAmount} * ${rate}) AS INTEGER)` })
+      .where(eq(expenses.currency, currency))
+      .run();
+    tx.update(income)
+      .set({ amount: sql`CAST(ROUND(${income.originalAmount} * ${rate}) AS INTEGER)` })
+      .where(eq(income.currency, currency))
+      .run();
+
+    const lines = tx
+      .select({ id: expenseSplits.id, expenseId: expenseSplits.expenseId, amount: expenseSplits.amount, total: expenses.amount })
+      .from(expenseSplits)
+      .innerJoin(expenses, eq(expenseSplits.expenseId, expenses.id))
+      .where(eq(expenses.currency, currency))
+      .orderBy(asc(expenseSplits.expenseId), asc(expenseSplits.sortOrder))
+      .all();
+    const byExpense = new Map<string, typeof lines>();
+    for (const line of lines) {
+      const group = byExpense.get(line.expenseId);
+      if (group) group.push(line);
+      else byExpense.set(line.expenseId, [line]);
+    }
+    for (const group of byExpense.values()) {
+      const amounts = allocateMoney(fromMinorUnits(group[0].total), group.map((l) => fromMinorUnits(l.amount)));
+      group.forEach((line, i) => {
+        tx.update(expenseSplits).set({ amount: toMinorUnits(amounts[i]) }).where(eq(expenseSplits.id, line.id)).run();
+      });
+    }
+  });
+}
+
+export const useExchangeRateStore = create<ExchangeRateState>((set, get) => ({
+  rates: [],
+  isLoading: false,
+
+  loadRates: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(exchangeRates).all();
+      const sorted = (result as ExchangeRate[]).sort((a, b) => a.currency.localeCompare(b.currency));
+      set({ rates: sorted, isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  setRate: (currency, rate) => {
+    const code = currency.trim().toUpperCase();
+    const now = Date.now();
+    db.insert(exchangeRates)
+      .values({ currency: code, rate, updatedAt: now })
+      .onConflictDoUpdate({ target: exchangeRates.currency, set: { rate, updatedAt: now } })
+      .run();
+    reconvertTransactions(code, rate);
+
+    set((state) => ({
+      rates: [...state.rates.filter((r) => r.currency !== code), { currency: code, rate, updatedAt: now }]
+        .sort((a, b) => a.currency.localeCompare(b.currency)),
+    }));
+    useExpenseStore.getState().loadExpenses();
+    useIncomeStore.getState().loadIncome();
+  },
+
+  importRates: (rates) => {
+    const home = useSettingsStore.getState().currency;
+    const now = Date.now();
+    let count = 0;
+    for (const [currency, rate] of Object.entries(rates)) {
+      const code = currency.trim().toUpperCase();
+      if (code === home || !(rate > 0)) continue;
+      db.insert(exchangeRates)
+        .values({ currency: code, rate, updatedAt: now })
+        .onConflictDoUpdate({ target: exchangeRates.currency, set: { rate, updatedAt: now } })
+        .run();
+      reconvertTransactions(code, rate);
+      count++;
+    }
+    get().loadRates();
+    useExpenseStore.getState().loadExpenses();
+    useIncomeStore.getState().loadIncome();
+    return count;
+  },
+
+  deleteRate: (currency) => {
+    db.delete(exchangeRates).where(eq(exchangeRates.currency, currency)).run();
+    set((state) => ({ rates: state.rates.filter((r) => r.currency !== currency) }));
+  },
+
+  getRate: (currency) => {
+    if (currency === useSettingsStore.getState().currency) return 1;
+    return get().rates.find((r) => r.currency === currency)?.rate ?? null;
+  },
+
+  convertToHome: (amount, currency) => {
+    const rate = get().getRate(currency);
+    return rate == null ? null : convertMoney(amount, rate);
+  },
+
+  // Splits an entered amount into the stored home-currency amount plus the
+  // original foreign amount. Throws when no rate is known for `currency`.
+  resolveAmount: (amount, currency) => {
+    const home = useSettingsStore.getState().currency;
+    if (!currency || currency === home) {
+      return { amount: roundMoney(amount), currency: null, originalAmount: null };
+    }
+    const converted = get().convertToHome(amount, currency);
+    if (converted == null) {
+      throw new Error(`No exchange rate set for ${currency}.`);
+    }
+    return { amount: converted, currency, originalAmount: roundMoney(amount) };
+  },
+
+  clearAllRates: () => {
+    db.delete(exchangeRates).run();
+    set({ rates: [] });
+  },
+}));
@@ -1,58 +1,119 @@
 import { create } from 'zustand';
-import { eq, desc, and, gte, lte, like } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import { db, generateId } from '@/db';
-import { expenses, categories } from '@/db/schema';
-import type { Expense, ExpenseWithCategory, PaymentMethod, RecurringFrequency, DateFilter } from '@/types';
+import { attachments, expenses, expenseSplits, expenseTags } from '@/db/schema';
+import type {
+  AdvancedFilter, BulkExpenseChanges, Expense, SavedView, ExpenseSplit, ExpenseWithCategory, RecurringFrequency, DateFilter, SplitInput,
+} from '@/types';
 import {
   startOfDay, endOfDay, startOfWeek, endOfWeek,
-  startOfMonth, endOfMonth, startOfYear, endOfYear, subMonths,
+  startOfMonth, endOfMonth, startOfYear, endOfYear, subMonths, addDays,
 } from 'date-fns';
 import { advanceDate } from '@/services/recurring';
+import { moveExpensesToTrash, restoreExpensesFromTrash } from '@/services/trash';
+import { deleteAttachmentFiles } from '@/services/attachments';
+import { deleteReceipt } from '@/lib/receipt';
+import { searchExpenses, type ExpenseSearchMatch } from '@/services/search';
+import {
+  loadTrainingExamples, suggestCategories, trainModel, type CategoryModel, type CategorySuggestion,
+} from '@/services/categorizer';
+import {
+  findExpenseById, queryExpenseIds, queryExpensePage, queryExpenses, queryRecentExpenses, summarizeExpenses,
+  type ExpenseCursor, type ExpenseQuery,
+} from '@/services/expenseQueries';
 import { useCategoryStore } from '@/stores/useCategoryStore';
+import { useTagStore } from '@/stores/useTagStore';
+import { useUndoStore } from '@/stores/useUndoStore';
+import { allocateMoney, sumMoney, toMinorUnits } from '@/lib/money';
+import { splitsMatchTotal } from '@/lib/splits';
+import { isFilterEmpty } from '@/lib/filters';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
 
 interface ExpenseFilters {
   dateFilter: DateFilter;
   categoryId: string | null;
-  paymentMethod: PaymentMethod | null;
+  accountId: string | null;
+  tagId: string | null;
   searchQuery: string;
   customStartDate: Date | null;
   customEndDate: Date | null;
+  /** Conditions from the filter builder, applied on top of the fields above. */
+  advanced: AdvancedFilter | null;
+  /** The saved view the advanced filter came from, while it is unmodified. */
+  viewId: string | null;
+}
+
+/** The expenses list for the current filters, read from SQL a page at a time. */
+interface ExpenseList {
+  items: ExpenseWithCategory[];
+  cursor: ExpenseCursor | null;
+  /** Matching expenses and their total, including pages not loaded yet. */
+  count: number;
+  total: number;
 }
 
 interface ExpenseState {
+  /**
+   * Expenses from the last RECENT_MONTHS plus every recurring template, for
+   * screens that work on recent periods. Anything older is read through the
+   * query service or the list below.
+   */
   expenses: ExpenseWithCategory[];
+  /** Bumped on every write so paged lists and aggregates know to re-query. */
+  revision: number;
+  list: ExpenseList;
   isLoading: boolean;
   filters: ExpenseFilters;
   addExpenseCount: number;
 
   loadExpenses: () => void;
+  /** Re-reads the list from its first page, e.g. after the filters change. */
+  loadList: () => void;
+  loadMoreList: () => void;
   addExpense: (data: {
     amount: number;
     categoryId: string;
     description: string;
     date: Date;
-    paymentMethod: PaymentMethod;
+    accountId: string | null;
     isRecurring?: boolean;
     recurringFrequency?: RecurringFrequency;
     notes?: string;
     receiptUri?: string;
+    currency?: string | null;
+    splits?: SplitInput[];
   }) => Expense;
   updateExpense: (id: string, data: Partial<{
     amount: number;
     categoryId: string;
     description: string;
     date: Date;
-    paymentMethod: PaymentMethod;
+    accountId: string | null;
     isRecurring: boolean;
     recurringFrequency: RecurringFrequency | null;
     notes: string | null;
     receiptUri: string | null;
+    currency: string | null;
+    splits: SplitInput[];
   }>) => void;
   deleteExpense: (id: string) => void;
+  bulkUpdateExpenses: (ids: string[], changes: BulkExpenseChanges) => void;
+  bulkDeleteExpenses: (ids: string[]) => void;
   setFilter: <K extends keyof ExpenseFilters>(key: K, value: ExpenseFilters[K]) => void;
   resetFilters: () => void;
-  getFilteredExpenses: () => ExpenseWithCategory[];
+  /** Applies a saved view's conditions (and date preset), or clears them with null. */
+  applyView: (view: SavedView | null) => void;
+  /** Ids of every expense matching the filters, loaded or not. */
+  getFilteredExpenseIds: () => string[];
+  /** Full-text matches for the current search query, or null when not searching. */
+  getSearchMatches: () => Map<string, ExpenseSearchMatch> | null;
+  /** Likely categories for a new expense, learned from past ones; best first. */
+  suggestCategories: (description: string) => CategorySuggestion[];
+  /** Expenses matching a view's conditions within `range`, or the view's own date preset without one. */
+  getExpensesInView: (view: SavedView, range?: { start: number; end: number }) => ExpenseWithCategory[];
+  getFilterDateRange: () => { start: number; end: number };
   getMonthlyTotal: (date?: Date) => number;
+  getExpenseCount: () => number;
   getExpenseById: (id: string) => ExpenseWithCategory | undefined;
   incrementAddCount: () => boolean; // returns true if should show interstitial
   clearAllExpenses: () => void;
@@ -61,12 +122,155 @@ interface ExpenseState {
 const DEFAULT_FILTERS: ExpenseFilters = {
   dateFilter: 'month',
   categoryId: null,
-  paymentMethod: null,
+  accountId: null,
+  tagId: null,
   searchQuery: '',
   customStartDate: null,
   customEndDate: null,
+  advanced: null,
+  viewId: null,
 };
 
+const SPLIT_TOTAL_ERROR = 'Split amounts must add up to the expense total.';
+
+// Long enough for this year and last month whatever the date; the analytics,
+// insights and report screens only look that far back.
+const RECENT_MONTHS = 12;
+const LIST_PAGE_SIZE = 50;
+const SEARCH_FALLBACK_LIMIT = 500;
+
+const EMPTY_LIST: ExpenseList = { items: [], cursor: null, count: 0, total: 0 };
+
+// Split lines are entered in the expense's own currency; their home-currency
+// amounts are allocated from the converted total so they still sum exactly.
+function buildSplits(expenseId: string, lines: SplitInput[], homeAmount: number): ExpenseSplit[] {
+  const amounts = allocateMoney(homeAmount, lines.map((l) => l.amount));
+  return lines.map((line, i) => ({
+    id: generateId(),
+    expenseId,
+    categoryId: line.categoryId,
+    amount: amounts[i],
+    note: line.note?.trim() || null,
+    sortOrder: i,
+  }));
+}
+
+// A split expense is listed under the category holding the largest share.
+function primaryCategoryId(splits: ExpenseSplit[]): string {
+  return splits.reduce((max, s) => (s.amount > max.amount ? s : max), splits[0]).categoryId;
+}
+
+function toSplitRow(split: ExpenseSplit) {
+  return { ...split, amount: toMinorUnits(split.amount) };
+}
+
+// Bulk edits can touch thousands of rows; keep IN (...) lists well under
+// SQLite's bound-parameter limit.
+const SQL_CHUNK_SIZE = 500;
+
+function chunk<T>(items: T[], size = SQL_CHUNK_SIZE): T[][] {
+  const parts: T[][] = [];
+  for (let i = 0; i < items.length; i += size) parts.push(items.slice(i, i + size));
+  return parts;
+}
+
+/** Raw rows for a set of expenses, enough to put them back exactly as they were. */
+interface ExpenseSnapshot {
+  ids: string[];
+  expenses: (typeof expenses.$inferSelect)[];
+  splits: (typeof expenseSplits.$inferSelect)[];
+  tags: (typeof expenseTags.$inferSelect)[];
+}
+
+function takeSnapshot(ids: string[]): ExpenseSnapshot {
+  const snapshot: ExpenseSnapshot = { ids, expenses: [], splits: [], tags: [] };
+  for (const part of chunk(ids)) {
+    snapshot.expenses.push(...db.select().from(expenses).where(inArray(expenses.id, part)).all());
+    snapshot.splits.push(...db.select().from(expenseSplits).where(inArray(expenseSplits.expenseId, part)).all());
+    snapshot.tags.push(...db.select().from(expenseTags).where(inArray(expenseTags.expenseId, part)).all());
+  }
+  return snapshot;
+}
+
+function restoreSnapshot(snapshot: ExpenseSnapshot) {
+  db.transaction((tx) => {
+    for (const part of chunk(snapshot.ids)) {
+      tx.delete(expenseTags).where(inArray(expenseTags.expenseId, part)).run();
+      tx.delete(expenseSplits).where(inArray(expenseSplits.expenseId, part)).run();
+      tx.delete(expenses).where(inArray(expenses.id, part)).run();
+    }
+    for (const row of snapshot.expenses) tx.insert(expenses).values(row).run();
+    for (const row of snapshot.splits) tx.insert(expenseSplits).values(row).run();
+    for (const row of snapshot.tags) tx.insert(expenseTags).values(row).run();
+  });
+}
+
+function reloadExpenseData() {
+  useExpenseStore.getState().loadExpenses();
+  useTagStore.getState().loadTags();
+}
+
+function plural(count: number): string {
+  return `${count} expense${count === 1 ? '' : 's'}`;
+}
+
+// Deleted expenses go to the trash, so undo restores them from there.
+function recordTrashUndo(ids: string[], label: string) {
+  useUndoStore.getState().record({
+    label,
+    undo: () => {
+      restoreExpensesFromTrash(ids);
+      reloadExpenseData();
+    },
+    redo: () => {
+      moveExpensesToTrash(ids);
+      reloadExpenseData();
+    },
+  });
+}
+
+// The index is updated by triggers, so matches only go stale when the data
+// does; caching on the revision keeps re-renders from re-querying.
+let searchCache: {
+  query: string;
+  revision: number;
+  matches: Map<string, ExpenseSearchMatch> | null;
+} | null = null;
+
+function findSearchMatches(query: string, revision: number): Map<string, ExpenseSearchMatch> | null {
+  if (searchCache && searchCache.query === query && searchCache.revision === revision) return searchCache.matches;
+  let matches: Map<string, ExpenseSearchMatch> | null = null;
+  try {
+    const results = searchExpenses(query);
+    if (results) matches = new Map(results.map((m) => [m.expenseId, m]));
+  } catch (error) {
+    // Without the search index, fall back to plain substring matching
+    console.warn('[search] full-text query failed:', error);
+  }
+  searchCache = { query, revision, matches };
+  return matches;
+}
+
+// Trained on the ledger itself, so saved and re-categorized expenses are
+// learned from as soon as the revision moves on.
+let categoryModel: { revision: number; model: CategoryModel } | null = null;
+
+function getCategoryModel(revision: number): CategoryModel {
+  if (categoryModel?.revision !== revision) {
+    categoryModel = { revision, model: trainModel(loadTrainingExamples()) };
+  }
+  return categoryModel.model;
+}
+
+function matchesSubstring(expense: ExpenseWithCategory, query: string): boolean {
+  const q = query.toLowerCase();
+  return (
+    expense.description.toLowerCase().includes(q) ||
+    expense.category.name.toLowerCase().includes(q) ||
+    !!expense.notes?.toLowerCase().includes(q)
+  );
+}
+
 function getDateRange(filter: DateFilter, customStart?: Date | null, customEnd?: Date | null): { start: number; end: number } {
   const now = new Date();
   switch (filter) {
@@ -86,8 +290,56 @@ function getDateRange(filter: DateFilter, customStart?: Date | null, customEnd?:
   }
 }
 
+function listQuery(filters: ExpenseFilters): ExpenseQuery {
+  const { start, end } = getDateRange(filters.dateFilter, filters.customStartDate, filters.customEndDate);
+  return {
+    start,
+    end,
+    categoryId: filters.categoryId,
+    accountId: filters.accountId,
+    tagId: filters.tagId,
+    advanced: isFilterEmpty(filters.advanced) ? null : filters.advanced,
+  };
+}
+
+// Search results come back ranked and capped by the search service, so they
+// are read in one go; everything else pages through SQL.
+function readList(state: ExpenseState, limit: number): ExpenseList {
+  const query = listQuery(state.filters);
+  const search = state.filters.searchQuery.trim();
+  if (search) {
+    const matches = state.getSearchMatches();
+    const ids = matches
+      ? [...matches.keys()]
+      : state.expenses.filter((e) => matchesSubstring(e, search)).slice(0, SEARCH_FALLBACK_LIMIT).map((e) => e.id);
+    const items = queryExpenses({ ...query, ids });
+    if (matches) items.sort((a, b) => matches.get(a.id)!.rank - matches.get(b.id)!.rank);
+    return { items, cursor: null, count: items.length, total: sumMoney(items, (e) => e.amount) };
+  }
+  const page = queryExpensePage(query, null, limit);
+  const summary = summarizeExpenses(query);
+  return { items: page.items, cursor: page.nextCursor, count: summary.count, total: summary.total };
+}
+
+function refreshList(limit: number) {
+  try {
+    useExpenseStore.setState((state) => ({ list: readList(state, limit) }));
+  } catch (error) {
+    console.error('[expenses] list query failed:', error);
+  }
+}
+
+// Every write ends here: bumping the revision tells screens to re-query, and
+// the list re-reads as many rows as were already loaded so it does not jump.
+function afterWrite() {
+  useExpenseStore.setState((state) => ({ revision: state.revision + 1 }));
+  refreshList(Math.max(LIST_PAGE_SIZE, useExpenseStore.getState().list.items.length));
+}
+
 export const useExpenseStore = create<ExpenseState>((set, get) => ({
   expenses: [],
+  revision: 0,
+  list: EMPTY_LIST,
   isLoading: false,
   filters: DEFAULT_FILTERS,
   addExpenseCount: 0,
@@ -95,57 +347,49 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
   loadExpenses: () => {
     set({ isLoading: true });
     try {
-      const result = db
-        .select({
-          id: expenses.id,
-          amount: expenses.amount,
-          categoryId: expenses.categoryId,
-          description: expenses.description,
-          date: expenses.date,
-          paymentMethod: expenses.paymentMethod,
-          receiptUri: expenses.receiptUri,
-          isRecurring: expenses.isRecurring,
-          recurringFrequency: expenses.recurringFrequency,
-          recurringEndDate: expenses.recurringEndDate,
-          nextRecurringDate: expenses.nextRecurringDate,
-          notes: expenses.notes,
-          createdAt: expenses.createdAt,
-          updatedAt: expenses.updatedAt,
-          category: {
-            id: categories.id,
-            name: categories.name,
-            icon: categories.icon,
-            color: categories.color,
-            budgetAmount: categories.budgetAmount,
-            budgetPeriod: categories.budgetPeriod,
-            isDefault: categories.isDefault,
-            sortOrder: categories.sortOrder,
-            createdAt: categories.createdAt,
-          },
-        })
-        .from(expenses)
-        .innerJoin(categories, eq(expenses.categoryId, categories.id))
-        .orderBy(desc(expenses.date))
-        .all();
-
-      set({ expenses: result as ExpenseWithCategory[], isLoading: false });
+      const since = startOfMonth(subMonths(new Date(), RECENT_MONTHS)).getTime();
+      set({ expenses: queryRecentExpenses(since), isLoading: false });
+      afterWrite();
     } catch {
       set({ isLoading: false });
     }
   },
 
+  loadList: () => {
+    refreshList(LIST_PAGE_SIZE);
+  },
+
+  loadMoreList: () => {
+    const { list, filters } = get();
+    if (!list.cursor) return;
+    try {
+      const page = queryExpensePage(listQuery(filters), list.cursor, LIST_PAGE_SIZE);
+      set({ list: { ...list, items: [...list.items, ...page.items], cursor: page.nextCursor } });
+    } catch (error) {
+      console.error('[expenses] list query failed:', error);
+    }
+  },
+
   addExpense: (data) => {
     const now = Date.now();
     const id = generateId();
 
+    const splitLines = data.splits ?? [];
+    if (splitLines.length > 0 && !splitsMatchTotal(splitLines, data.amount)) {
+      throw new Error(SPLIT_TOTAL_ERROR);
+    }
+
     const dateMs = data.date.getTime();
+    const money = useExchangeRateStore.getState().resolveAmount(data.amount, data.currency);
+    const splits = buildSplits(id, splitLines, money.amount);
+    const categoryId = splits.length > 0 ? primaryCategoryId(splits) : data.categoryId;
     const expense: Expense = {
       id,
-      amount: data.amount,
-      categoryId: data.categoryId,
+      amount: money.amount,
+      categoryId,
       description: data.description,
       date: dateMs,
-      paymentMethod: data.paymentMethod,
+      accountId: data.accountId,
       receiptUri: data.receiptUri || null,
       isRecurring: data.isRecurring ? 1 : 0,
       recurringFrequency: data.recurringFrequency || null,
@@ -153,18 +397,28 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
       nextRecurringDate: data.isRecurring && data.recurringFrequency
         ? advanceDate(dateMs, data.recurringFrequency)
         : null,
+      currency: money.currency,
+      originalAmount: money.originalAmount,
       notes: data.notes || null,
       createdAt: now,
       updatedAt: now,
     };
 
-    db.insert(expenses).values(expense).run();
+    db.transaction((tx) => {
+      tx.insert(expenses).values({
+        ...expense,
+        amount: toMinorUnits(expense.amount),
+        originalAmount: expense.originalAmount != null ? toMinorUnits(expense.originalAmount) : null,
+      }).run();
+      for (const split of splits) tx.insert(expenseSplits).values(toSplitRow(split)).run();
+    });
 
     // Optimistic update: prepend to state with category data
-    const category = useCategoryStore.getState().categories.find((c) => c.id === data.categoryId);
+    const category = useCategoryStore.getState().categories.find((c) => c.id === categoryId);
     if (category) {
       const expenseWithCategory: ExpenseWithCategory = {
         ...expense,
+        splits,
         category: {
           id: category.id,
           name: category.name,
@@ -172,6 +426,7 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
           color: category.color,
           budgetAmount: category.budgetAmount,
           budgetPeriod: category.budgetPeriod,
+          parentId: category.parentId,
           isDefault: category.isDefault,
           sortOrder: category.sortOrder,
           createdAt: category.createdAt,
@@ -180,6 +435,7 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
       set((state) => ({
         expenses: [expenseWithCategory, ...state.expenses].sort((a, b) => b.date - a.date),
       }));
+      afterWrite();
     } else {
       // Fallback: full reload if category not found
       get().loadExpenses();
@@ -190,17 +446,54 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
 
   updateExpense: (id, data) => {
     const updateData: Record<string, unknown> = { updatedAt: Date.now() };
-    if (data.amount !== undefined) updateData.amount = data.amount;
-    if (data.categoryId !== undefined) updateData.categoryId = data.categoryId;
+    const existing = get().getExpenseById(id);
+    const entered = data.amount ?? existing?.originalAmount ?? existing?.amount ?? 0;
+    if (data.splits?.length && !splitsMatchTotal(data.splits, entered)) {
+      throw new Error(SPLIT_TOTAL_ERROR);
+    }
+
+    // Amount and currency are resolved together so the home-currency amount
+    // always matches the original amount and rate.
+    let money: { amount: number; currency: string | null; originalAmount: number | null } | null = null;
+    if (data.amount !== undefined || data.currency !== undefined) {
+      const currency = data.currency !== undefined ? data.currency : existing?.currency ?? null;
+      money = useExchangeRateStore.getState().resolveAmount(entered, currency);
+      updateData.amount = toMinorUnits(money.amount);
+      updateData.currency = money.currency;
+      updateData.originalAmount = money.originalAmount != null ? toMinorUnits(money.originalAmount) : null;
+    }
+
+    // New split lines replace the old ones. Without them, a new amount is
+    // spread over the existing lines in proportion, and choosing a single
+    // category books the whole expense to it again.
+    const homeAmount = money?.amount ?? existing?.amount ?? 0;
+    let splits: ExpenseSplit[] | null = null;
+    if (data.splits !== undefined) {
+      splits = buildSplits(id, data.splits, homeAmount);
+    } else if (data.categoryId !== undefined) {
+      splits = [];
+    } else if (money && existing?.splits.length) {
+      const amounts = allocateMoney(homeAmount, existing.splits.map((s) => s.amount));
+      splits = existing.splits.map((s, i) => ({ ...s, amount: amounts[i] }));
+    }
+    const categoryId = splits?.length ? primaryCategoryId(splits) : data.categoryId;
+
+    if (categoryId !== undefined) updateData.categoryId = categoryId;
     if (data.description !== undefined) updateData.description = data.description;
     if (data.date !== undefined) updateData.date = data.date.getTime();
-    if (data.paymentMethod !== undefined) updateData.paymentMethod = data.paymentMethod;
+    if (data.accountId !== undefined) updateData.accountId = data.accountId;
     if (data.isRecurring !== undefined) updateData.isRecurring = data.isRecurring ? 1 : 0;
     if (data.recurringFrequency !== undefined) updateData.recurringFrequency = data.recurringFrequency;
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.receiptUri !== undefined) updateData.receiptUri = data.receiptUri;
 
-    db.update(expenses).set(updateData).where(eq(expenses.id, id)).run();
+    db.transaction((tx) => {
+      tx.update(expenses).set(updateData).where(eq(expenses.id, id)).run();
+      if (splits) {
+        tx.delete(expenseSplits).where(eq(expenseSplits.expenseId, id)).run();
+        for (const split of splits) tx.insert(expenseSplits).values(toSplitRow(split)).run();
+      }
+    });
 
     // Optimistic update: patch in state
     const allCategories = useCategoryStore.getState().categories;
@@ -208,21 +501,26 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
       expenses: state.expenses.map((e) => {
         if (e.id !== id) return e;
         const updated = { ...e, updatedAt: Date.now() } as ExpenseWithCategory;
-        if (data.amount !== undefined) updated.amount = data.amount;
+        if (money) {
+          updated.amount = money.amount;
+          updated.currency = money.currency;
+          updated.originalAmount = money.originalAmount;
+        }
         if (data.description !== undefined) updated.description = data.description;
         if (data.date !== undefined) updated.date = data.date.getTime();
-        if (data.paymentMethod !== undefined) updated.paymentMethod = data.paymentMethod;
+        if (data.accountId !== undefined) updated.accountId = data.accountId;
         if (data.isRecurring !== undefined) updated.isRecurring = data.isRecurring ? 1 : 0;
         if (data.recurringFrequency !== undefined) updated.recurringFrequency = data.recurringFrequency;
         if (data.notes !== undefined) updated.notes = data.notes;
         if (data.receiptUri !== undefined) updated.receiptUri = data.receiptUri;
-        if (data.categoryId !== undefined) {
-          updated.categoryId = data.categoryId;
-          const cat = allCategories.find((c) => c.id === data.categoryId);
+        if (splits) updated.splits = splits;
+        if (categoryId !== undefined) {
+          updated.categoryId = categoryId;
+          const cat = allCategories.find((c) => c.id === categoryId);
           if (cat) {
             updated.category = {
               id: cat.id, name: cat.name, icon: cat.icon, color: cat.color,
-              budgetAmount: cat.budgetAmount, budgetPeriod: cat.budgetPeriod,
+              budgetAmount: cat.budgetAmount, budgetPeriod: cat.budgetPeriod, parentId: cat.parentId,
               isDefault: cat.isDefault, sortOrder: cat.sortOrder, createdAt: cat.createdAt,
             };
           }
@@ -230,56 +528,152 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
         return updated;
       }).sort((a, b) => b.date - a.date),
     }));
+    afterWrite();
   },
 
   deleteExpense: (id) => {
-    db.delete(expenses).where(eq(expenses.id, id)).run();
+    moveExpensesToTrash([id]);
     set((state) => ({
       expenses: state.expenses.filter((e) => e.id !== id),
     }));
+    useTagStore.getState().removeExpenseTags(id);
+    afterWrite();
+    recordTrashUndo([id], 'Expense deleted');
+  },
+
+  bulkUpdateExpenses: (ids, changes) => {
+    if (ids.length === 0) return;
+    const snapshot = takeSnapshot(ids);
+    const now = Date.now();
+
+    db.transaction((tx) => {
+      for (const part of chunk(ids)) {
+        const set: Record<string, unknown> = { updatedAt: now };
+        if (changes.categoryId !== undefined) set.categoryId = changes.categoryId;
+        if (changes.accountId !== undefined) set.accountId = changes.accountId;
+        tx.update(expenses).set(set).where(inArray(expenses.id, part)).run();
+        if (changes.categoryId !== undefined) {
+          tx.delete(expenseSplits).where(inArray(expenseSplits.expenseId, part)).run();
+        }
+        if (changes.removeTagIds?.length) {
+          tx.delete(expenseTags)
+            .where(and(inArray(expenseTags.expenseId, part), inArray(expenseTags.tagId, changes.removeTagIds)))
+            .run();
+        }
+      }
+
+      if (changes.dateShiftDays) {
+        for (const row of snapshot.expenses) {
+          tx.update(expenses)
+            .set({ date: addDays(new Date(row.date), changes.dateShiftDays).getTime() })
+            .where(eq(expenses.id, row.id))
+            .run();
+        }
+      }
+
+      if (changes.addTagIds?.length) {
+        const existing = new Set(snapshot.tags.map((t) => `${t.expenseId}:${t.tagId}`));
+        for (const expenseId of ids) {
+          for (const tagId of changes.addTagIds) {
+            if (!existing.has(`${expenseId}:${tagId}`)) tx.insert(expenseTags).values({ expenseId, tagId }).run();
+          }
+        }
+      }
+    });
+
+    const after = takeSnapshot(ids);
+    reloadExpenseData();
+    useUndoStore.getState().record({
+      label: `Updated ${plural(ids.length)}`,
+      undo: () => {
+        restoreSnapshot(snapshot);
+        reloadExpenseData();
+      },
+      redo: () => {
+        restoreSnapshot(after);
+        reloadExpenseData();
+      },
+    });
+  },
+
+  bulkDeleteExpenses: (ids) => {
+    if (ids.length === 0) return;
+    moveExpensesToTrash(ids);
+    reloadExpenseData();
+    recordTrashUndo(ids, `Deleted ${plural(ids.length)}`);
   },
 
   setFilter: (key, value) => {
     set((state) => ({
       filters: { ...state.filters, [key]: value },
     }));
+    get().loadList();
   },
 
   resetFilters: () => {
     set({ filters: DEFAULT_FILTERS });
+    get().loadList();
   },
 
-  getFilteredExpenses: () => {
-    const { expenses: allExpenses, filters } = get();
-    const { start, end } = getDateRange(filters.dateFilter, filters.customStartDate, filters.customEndDate);
-
-    return allExpenses.filter((expense) => {
-      if (expense.date < start || expense.date > end) return false;
-      if (filters.categoryId && expense.categoryId !== filters.categoryId) return false;
-      if (filters.paymentMethod && expense.paymentMethod !== filters.paymentMethod) return false;
-      if (filters.searchQuery) {
-        const query = filters.searchQuery.toLowerCase();
-        return (
-          expense.description.toLowerCase().includes(query) ||
-          expense.category.name.toLowerCase().includes(query) ||
-          expense.notes?.toLowerCase().includes(query)
-        );
-      }
-      return true;
-    });
+  applyView: (view) => {
+    set((state) => ({
+      filters: {
+        ...state.filters,
+        advanced: view ? view.filter : null,
+        viewId: view ? view.id : null,
+        dateFilter: view?.dateFilter ?? state.filters.dateFilter,
+      },
+    }));
+    get().loadList();
+  },
+
+  getFilteredExpenseIds: () => {
+    const { list, filters } = get();
+    // Search results are never paged, so the list already holds all of them
+    if (filters.searchQuery.trim()) return list.items.map((e) => e.id);
+    return queryExpenseIds(listQuery(filters));
+  },
+
+  getSearchMatches: () => {
+    const { revision, filters } = get();
+    const query = filters.searchQuery.trim();
+    return query ? findSearchMatches(query, revision) : null;
+  },
+
+  suggestCategories: (description) => {
+    if (!description.trim()) return [];
+    const known = new Set(useCategoryStore.getState().categories.map((c) => c.id));
+    try {
+      return suggestCategories(getCategoryModel(get().revision), description, known.size)
+        .filter((s) => known.has(s.categoryId))
+        .slice(0, 3);
+    } catch (error) {
+      console.warn('[suggestions] could not train on history:', error);
+      return [];
+    }
+  },
+
+  getExpensesInView: (view, range) => {
+    const dates = range ?? (view.dateFilter ? getDateRange(view.dateFilter) : null);
+    return queryExpenses({ ...dates, advanced: view.filter });
+  },
+
+  getFilterDateRange: () => {
+    const { filters } = get();
+    return getDateRange(filters.dateFilter, filters.customStartDate, filters.customEndDate);
   },
 
   getMonthlyTotal: (date?: Date) => {
     const target = date || new Date();
-    const start = startOfMonth(target).getTime();
-    const end = endOfMonth(target).getTime();
-    return get().expenses
-      .filter((e) => e.date >= start && e.date <= end)
-      .reduce((sum, e) => sum + e.amount, 0);
+    return summarizeExpenses({ start: startOfMonth(target).getTime(), end: endOfMonth(target).getTime() }).total;
+  },
+
+  getExpenseCount: () => {
+    return summarizeExpenses().count;
   },
 
   getExpenseById: (id) => {
-    return get().expenses.find((e) => e.id === id);
+    return get().expenses.find((e) => e.id === id) ?? findExpenseById(id);
   },
 
   incrementAddCount: () => {
@@ -288,8 +682,21 @@ export const useExpenseStore = create<ExpenseState>((set, get) => ({
     return count % 5 === 0; // Show interstitial every 5 additions
   },
 
+  // Part of Clear All Data, which also re-seeds categories and drops tags that
+  // trashed expenses would point at, so this deletes for good.
   clearAllExpenses: () => {
-    db.delete(expenses).run();
+    const receiptUris = db.select({ uri: expenses.receiptUri }).from(expenses).all();
+    const attachmentRows = db.select().from(attachments).all();
+    db.transaction((tx) => {
+      tx.delete(attachments).run();
+      tx.delete(expenseTags).run();
+      tx.delete(expenseSplits).run();
+      tx.delete(expenses).run();
+    });
+    receiptUris.forEach((r) => { if (r.uri) deleteReceipt(r.uri); });
+    attachmentRows.forEach(deleteAttachmentFiles);
     set({ expenses: [], addExpenseCount: 0 });
+    afterWrite();
+    useTagStore.getState().loadTags();
   },
 }));
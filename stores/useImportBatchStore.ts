@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { db } from '@/db';
+import { importBatches } from '@/db/schema';
+import { getImportBatches, rollbackImportBatch } from '@/services/import';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useIncomeStore } from '@/stores/useIncomeStore';
+import { useTransferStore } from '@/stores/useTransferStore';
+import { useTagStore } from '@/stores/useTagStore';
+import { useTrashStore } from '@/stores/useTrashStore';
+import type { ImportBatch } from '@/types';
+
+interface ImportBatchState {
+  batches: ImportBatch[];
+  isLoading: boolean;
+  loadBatches: () => void;
+  /** Deletes the rows the batch created; returns how many of each went. */
+  rollbackBatch: (id: string) => { expenses: number; income: number; transfers: number };
+  /** Forgets the history; imported rows are kept. */
+  clearAllBatches: () => void;
+}
+
+export const useImportBatchStore = create<ImportBatchState>((set) => ({
+  batches: [],
+  isLoading: false,
+
+  loadBatches: () => {
+    set({ isLoading: true });
+    try {
+      set({ batches: getImportBatches(), isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  rollbackBatch: (id) => {
+    const removed = rollbackImportBatch(id);
+    set((state) => ({ batches: state.batches.filter((b) => b.id !== id) }));
+    if (removed.expenses > 0) {
+      useExpenseStore.getState().loadExpenses();
+      useTagStore.getState().loadTags();
+      useTrashStore.getState().loadTrash();
+    }
+    if (removed.income > 0) useIncomeStore.getState().loadIncome();
+    if (removed.transfers > 0) useTransferStore.getState().loadTransfers();
+    return removed;
+  },
+
+  clearAllBatches: () => {
+    db.delete(importBatches).run();
+    set({ batches: [] });
+  },
+}));
@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { eq } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { importProfiles } from '@/db/schema';
+import type { AmountSign, CsvColumnMapping, CsvDelimiter, CsvFormat, ImportProfile } from '@/types';
+
+type ProfileData = CsvFormat & { name: string; fingerprint: string };
+
+interface ImportProfileState {
+  profiles: ImportProfile[];
+  isLoading: boolean;
+  loadProfiles: () => void;
+  addProfile: (data: ProfileData) => ImportProfile;
+  updateProfile: (id: string, data: Partial<ProfileData>) => void;
+  markUsed: (id: string) => void;
+  deleteProfile: (id: string) => void;
+  clearAllProfiles: () => void;
+}
+
+function toProfile(row: typeof importProfiles.$inferSelect): ImportProfile {
+  return {
+    ...row,
+    delimiter: row.delimiter as CsvDelimiter,
+    // Profiles saved before debit/credit columns existed lack them
+    mapping: { debitCol: -1, creditCol: -1, ...(JSON.parse(row.mapping) as Partial<CsvColumnMapping>) } as CsvColumnMapping,
+    decimalSeparator: row.decimalSeparator as ImportProfile['decimalSeparator'],
+    thousandsSeparator: row.thousandsSeparator as ImportProfile['thousandsSeparator'],
+    amountSign: row.amountSign as AmountSign,
+  };
+}
+
+export const useImportProfileStore = create<ImportProfileState>((set) => ({
+  profiles: [],
+  isLoading: false,
+
+  loadProfiles: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(importProfiles).orderBy(importProfiles.name).all().map(toProfile);
+      set({ profiles: result, isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  addProfile: (data) => {
+    const now = Date.now();
+    const profile: ImportProfile = {
+      id: generateId(),
+      ...data,
+      name: data.name.trim(),
+      lastUsedAt: now,
+      createdAt: now,
+    };
+    db.insert(importProfiles).values({ ...profile, mapping: JSON.stringify(profile.mapping) }).run();
+    set((state) => ({
+      profiles: [...state.profiles, profile].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+    return profile;
+  },
+
+  updateProfile: (id, data) => {
+    const updateData: Record<string, unknown> = { ...data };
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.mapping !== undefined) updateData.mapping = JSON.stringify(data.mapping);
+
+    db.update(importProfiles).set(updateData).where(eq(importProfiles.id, id)).run();
+    set((state) => ({
+      profiles: state.profiles.map((p) =>
+        p.id === id ? { ...p, ...data, name: data.name?.trim() ?? p.name } : p
+      ),
+    }));
+  },
+
+  markUsed: (id) => {
+    const lastUsedAt = Date.now();
+    db.update(importProfiles).set({ lastUsedAt }).where(eq(importProfiles.id, id)).run();
+    set((state) => ({
+      profiles: state.profiles.map((p) => (p.id === id ? { ...p, lastUsedAt } : p)),
+    }));
+  },
+
+  deleteProfile: (id) => {
+    db.delete(importProfiles).where(eq(importProfiles.id, id)).run();
+    set((state) => ({ profiles: state.profiles.filter((p) => p.id !== id) }));
+  },
+
+  clearAllProfiles: () => {
+    db.delete(importProfiles).run();
+    set({ profiles: [] });
+  },
+}));
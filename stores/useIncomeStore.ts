@@ -3,6 +3,8 @@ import { eq, desc } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { income } from '@/db/schema';
 import { startOfMonth, endOfMonth } from 'date-fns';
+import { fromMinorUnits, sumMoney, toMinorUnits } from '@/lib/money';
+import { useExchangeRateStore } from '@/stores/useExchangeRateStore';
 import type { Income, IncomeSource } from '@/types';
 
 const FREE_MONTHLY_LIMIT = 5;
@@ -17,7 +19,9 @@ interface IncomeState {
     source: IncomeSource;
     description: string;
     date: Date;
+    accountId?: string | null;
     notes?: string;
+    currency?: string | null;
   }) => Income;
   deleteIncome: (id: string) => void;
   clearAllIncome: () => void;
@@ -38,7 +42,12 @@ export const useIncomeStore = create<IncomeState>((set, get) => ({
         .select()
         .from(income)
         .orderBy(desc(income.date))
-        .all();
+        .all()
+        .map((row) => ({
+          ...row,
+          amount: fromMinorUnits(row.amount),
+          originalAmount: row.originalAmount != null ? fromMinorUnits(row.originalAmount) : null,
+        }));
       set({ incomes: result as Income[], isLoading: false });
     } catch {
       set({ isLoading: false });
@@ -48,17 +57,25 @@ export const useIncomeStore = create<IncomeState>((set, get) => ({
   addIncome: (data) => {
     const now = Date.now();
     const id = generateId();
+    const money = useExchangeRateStore.getState().resolveAmount(data.amount, data.currency);
     const entry: Income = {
       id,
-      amount: data.amount,
+      amount: money.amount,
       source: data.source,
       description: data.description,
       date: data.date.getTime(),
+      accountId: data.accountId ?? null,
+      currency: money.currency,
+      originalAmount: money.originalAmount,
       notes: data.notes || null,
       createdAt: now,
       updatedAt: now,
     };
-    db.insert(income).values(entry).run();
+    db.insert(income).values({
+      ...entry,
+      amount: toMinorUnits(entry.amount),
+      originalAmount: entry.originalAmount != null ? toMinorUnits(entry.originalAmount) : null,
+    }).run();
     get().loadIncome();
     return entry;
   },
@@ -79,9 +96,10 @@ export const useIncomeStore = create<IncomeState>((set, get) => ({
     const target = date || new Date();
     const start = startOfMonth(target).getTime();
     const end = endOfMonth(target).getTime();
-    return get().incomes
-      .filter((i) => i.date >= start && i.date <= end)
-      .reduce((sum, i) => sum + i.amount, 0);
+    return sumMoney(
+      get().incomes.filter((i) => i.date >= start && i.date <= end),
+      (i) => i.amount,
+    );
   },
 
   getMonthlyCount: (date?: Date) => {
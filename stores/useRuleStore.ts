@@ -0,0 +1,112 @@
+import { create } from 'zustand';
+import { eq } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { categoryRules } from '@/db/schema';
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
+import type { CategoryRule, RuleMatchType } from '@/types';
+
+type RuleData = Pick<CategoryRule, 'matchType' | 'pattern' | 'minAmount' | 'maxAmount' | 'categoryId' | 'tagIds'>;
+
+interface RuleState {
+  rules: CategoryRule[];
+  isLoading: boolean;
+  loadRules: () => void;
+  addRule: (data: RuleData) => CategoryRule;
+  updateRule: (id: string, data: Partial<RuleData & { isEnabled: boolean }>) => void;
+  /** Swaps the rule with its neighbour: -1 tries it earlier, 1 later. */
+  moveRule: (id: string, direction: -1 | 1) => void;
+  deleteRule: (id: string) => void;
+  clearAllRules: () => void;
+}
+
+function toRule(row: typeof categoryRules.$inferSelect): CategoryRule {
+  return {
+    ...row,
+    matchType: row.matchType as RuleMatchType,
+    minAmount: row.minAmount != null ? fromMinorUnits(row.minAmount) : null,
+    maxAmount: row.maxAmount != null ? fromMinorUnits(row.maxAmount) : null,
+    tagIds: JSON.parse(row.tagIds) as string[],
+    isEnabled: row.isEnabled === 1,
+  };
+}
+
+export const useRuleStore = create<RuleState>((set, get) => ({
+  rules: [],
+  isLoading: false,
+
+  loadRules: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(categoryRules).orderBy(categoryRules.priority).all().map(toRule);
+      set({ rules: result, isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  addRule: (data) => {
+    const rules = get().rules;
+    const rule: CategoryRule = {
+      id: generateId(),
+      ...data,
+      pattern: data.pattern.trim(),
+      priority: rules.reduce((max, r) => Math.max(max, r.priority + 1), 0),
+      isEnabled: true,
+      createdAt: Date.now(),
+    };
+    db.insert(categoryRules).values({
+      ...rule,
+      minAmount: rule.minAmount != null ? toMinorUnits(rule.minAmount) : null,
+      maxAmount: rule.maxAmount != null ? toMinorUnits(rule.maxAmount) : null,
+      tagIds: JSON.stringify(rule.tagIds),
+      isEnabled: 1,
+    }).run();
+    set({ rules: [...rules, rule] });
+    return rule;
+  },
+
+  updateRule: (id, data) => {
+    const updateData: Record<string, unknown> = {};
+    if (data.matchType !== undefined) updateData.matchType = data.matchType;
+    if (data.pattern !== undefined) updateData.pattern = data.pattern.trim();
+    if (data.minAmount !== undefined) updateData.minAmount = data.minAmount != null ? toMinorUnits(data.minAmount) : null;
+    if (data.maxAmount !== undefined) updateData.maxAmount = data.maxAmount != null ? toMinorUnits(data.maxAmount) : null;
+    if (data.categoryId !== undefined) updateData.categoryId = data.categoryId;
+    if (data.tagIds !== undefined) updateData.tagIds = JSON.stringify(data.tagIds);
+    if (data.isEnabled !== undefined) updateData.isEnabled = data.isEnabled ? 1 : 0;
+
+    db.update(categoryRules).set(updateData).where(eq(categoryRules.id, id)).run();
+    set((state) => ({
+      rules: state.rules.map((r) =>
+        r.id === id ? { ...r, ...data, pattern: data.pattern?.trim() ?? r.pattern } : r
+      ),
+    }));
+  },
+
+  moveRule: (id, direction) => {
+    const rules = get().rules;
+    const index = rules.findIndex((r) => r.id === id);
+    const other = rules[index + direction];
+    if (index === -1 || !other) return;
+    const rule = rules[index];
+
+    db.transaction((tx) => {
+      tx.update(categoryRules).set({ priority: other.priority }).where(eq(categoryRules.id, rule.id)).run();
+      tx.update(categoryRules).set({ priority: rule.priority }).where(eq(categoryRules.id, other.id)).run();
+    });
+    const next = [...rules];
+    next[index] = { ...other, priority: rule.priority };
+    next[index + direction] = { ...rule, priority: other.priority };
+    set({ rules: next });
+  },
+
+  deleteRule: (id) => {
+    db.delete(categoryRules).where(eq(categoryRules.id, id)).run();
+    set((state) => ({ rules: state.rules.filter((r) => r.id !== id) }));
+  },
+
+  clearAllRules: () => {
+    db.delete(categoryRules).run();
+    set({ rules: [] });
+  },
+}));
@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { eq } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { savedViews } from '@/db/schema';
+import type { AdvancedFilter, DateFilter, SavedView } from '@/types';
+
+interface SavedViewState {
+  views: SavedView[];
+  isLoading: boolean;
+  loadViews: () => void;
+  addView: (data: {
+    name: string;
+    icon: string;
+    color: string;
+    filter: AdvancedFilter;
+    dateFilter: DateFilter | null;
+    isPinned: boolean;
+  }) => SavedView;
+  updateView: (id: string, data: Partial<Pick<SavedView, 'name' | 'icon' | 'color' | 'filter' | 'dateFilter' | 'isPinned'>>) => void;
+  togglePinned: (id: string) => void;
+  deleteView: (id: string) => void;
+  getPinnedViews: () => SavedView[];
+  clearAllViews: () => void;
+}
+
+function toView(row: typeof savedViews.$inferSelect): SavedView {
+  return {
+    ...row,
+    filter: JSON.parse(row.filter) as AdvancedFilter,
+    dateFilter: row.dateFilter as DateFilter | null,
+    isPinned: row.isPinned === 1,
+  };
+}
+
+export const useSavedViewStore = create<SavedViewState>((set, get) => ({
+  views: [],
+  isLoading: false,
+
+  loadViews: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(savedViews).orderBy(savedViews.sortOrder).all().map(toView);
+      set({ views: result, isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  addView: (data) => {
+    const view: SavedView = {
+      id: generateId(),
+      ...data,
+      name: data.name.trim(),
+      sortOrder: get().views.length,
+      createdAt: Date.now(),
+    };
+    db.insert(savedViews).values({
+      ...view,
+      filter: JSON.stringify(view.filter),
+      isPinned: view.isPinned ? 1 : 0,
+    }).run();
+    set((state) => ({ views: [...state.views, view] }));
+    return view;
+  },
+
+  updateView: (id, data) => {
+    const updateData: Record<string, unknown> = {};
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.icon !== undefined) updateData.icon = data.icon;
+    if (data.color !== undefined) updateData.color = data.color;
+    if (data.filter !== undefined) updateData.filter = JSON.stringify(data.filter);
+    if (data.dateFilter !== undefined) updateData.dateFilter = data.dateFilter;
+    if (data.isPinned !== undefined) updateData.isPinned = data.isPinned ? 1 : 0;
+
+    db.update(savedViews).set(updateData).where(eq(savedViews.id, id)).run();
+    set((state) => ({
+      views: state.views.map((v) => (v.id === id ? { ...v, ...data } : v)),
+    }));
+  },
+
+  togglePinned: (id) => {
+    const view = get().views.find((v) => v.id === id);
+    if (view) get().updateView(id, { isPinned: !view.isPinned });
+  },
+
+  deleteView: (id) => {
+    db.delete(savedViews).where(eq(savedViews.id, id)).run();
+    set((state) => ({ views: state.views.filter((v) => v.id !== id) }));
+  },
+
+  getPinnedViews: () => get().views.filter((v) => v.isPinned),
+
+  clearAllViews: () => {
+    db.delete(savedViews).run();
+    set({ views: [] });
+  },
+}));
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { eq } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { savingsGoals } from '@/db/schema';
+import { addMoney, fromMinorUnits, roundMoney, toMinorUnits } from '@/lib/money';
 import type { SavingsGoal } from '@/types';
 
 const FREE_GOAL_LIMIT = 1;
@@ -27,7 +28,11 @@ export const useSavingsGoalStore = create<SavingsGoalState>((set, get) => ({
   loadGoals: () => {
     set({ isLoading: true });
     try {
-      const result = db.select().from(savingsGoals).all();
+      const result = db.select().from(savingsGoals).all().map((row) => ({
+        ...row,
+        targetAmount: fromMinorUnits(row.targetAmount),
+        currentAmount: fromMinorUnits(row.currentAmount),
+      }));
       const sorted = (result as SavingsGoal[]).sort((a, b) => b.createdAt - a.createdAt);
       set({ goals: sorted, isLoading: false });
     } catch {
@@ -41,7 +46,7 @@ export const useSavingsGoalStore = create<SavingsGoalState>((set, get) => ({
     const goal: SavingsGoal = {
       id,
       title: data.title,
-      targetAmount: data.targetAmount,
+      targetAmount: roundMoney(data.targetAmount),
       currentAmount: 0,
       icon: data.icon,
       color: data.color,
@@ -49,7 +54,11 @@ export const useSavingsGoalStore = create<SavingsGoalState>((set, get) => ({
       createdAt: now,
       updatedAt: now,
     };
-    db.insert(savingsGoals).values(goal).run();
+    db.insert(savingsGoals).values({
+      ...goal,
+      targetAmount: toMinorUnits(goal.targetAmount),
+      currentAmount: toMinorUnits(goal.currentAmount),
+    }).run();
     set((state) => ({ goals: [goal, ...state.goals] }));
   },
 
@@ -57,7 +66,7 @@ export const useSavingsGoalStore = create<SavingsGoalState>((set, get) => ({
     const now = Date.now();
     const updateData: Record<string, unknown> = { updatedAt: now };
     if (data.title !== undefined) updateData.title = data.title;
-    if (data.targetAmount !== undefined) updateData.targetAmount = data.targetAmount;
+    if (data.targetAmount !== undefined) updateData.targetAmount = toMinorUnits(data.targetAmount);
     if (data.icon !== undefined) updateData.icon = data.icon;
     if (data.color !== undefined) updateData.color = data.color;
     if (data.targetDate !== undefined) updateData.targetDate = data.targetDate;
@@ -71,9 +80,9 @@ export const useSavingsGoalStore = create<SavingsGoalState>((set, get) => ({
   contributeToGoal: (id, amount) => {
     const goal = get().goals.find((g) => g.id === id);
     if (!goal) return;
-    const newAmount = Math.min(goal.currentAmount + amount, goal.targetAmount);
+    const newAmount = Math.min(addMoney(goal.currentAmount, amount), goal.targetAmount);
     const now = Date.now();
-    db.update(savingsGoals).set({ currentAmount: newAmount, updatedAt: now }).where(eq(savingsGoals.id, id)).run();
+    db.update(savingsGoals).set({ currentAmount: toMinorUnits(newAmount), updatedAt: now }).where(eq(savingsGoals.id, id)).run();
     set((state) => ({
       goals: state.goals.map((g) => g.id === id ? { ...g, currentAmount: newAmount, updatedAt: now } : g),
     }));
@@ -1,13 +1,14 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Settings, PaymentMethod, Theme } from '@/types';
+import { formatMoney } from '@/lib/money';
+import type { Settings, Theme } from '@/types';
 
 const SETTINGS_KEY = 'app_settings';
 
 const DEFAULT_SETTINGS: Settings = {
   currency: 'USD',
   currencySymbol: '$',
-  defaultPaymentMethod: 'cash',
+  defaultAccountId: 'cash',
   hasCompletedOnboarding: false,
   notificationsEnabled: false,
   budgetAlerts: true,
@@ -16,6 +17,9 @@ const DEFAULT_SETTINGS: Settings = {
   theme: 'system',
   gamificationEnabled: true,
   lastBackupDate: null,
+  importDuplicateWindowDays: 3,
+  applyRulesOnManualEntry: true,
+  importTransferKeywords: ['transfer', 'xfer', 'payment thank you', 'autopay', 'credit card payment'],
 };
 
 interface SettingsState extends Settings {
@@ -34,12 +38,16 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     try {
       const stored = await AsyncStorage.getItem(SETTINGS_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored) as Partial<Settings> & { mascotEnabled?: boolean };
+        const parsed = JSON.parse(stored) as Partial<Settings> & { mascotEnabled?: boolean; defaultPaymentMethod?: string };
         // Migrate old mascotEnabled -> gamificationEnabled
         if ('mascotEnabled' in parsed && !('gamificationEnabled' in parsed)) {
           (parsed as Partial<Settings>).gamificationEnabled = parsed.mascotEnabled;
         }
-        const { mascotEnabled: _, ...clean } = parsed;
+        // Migrate old defaultPaymentMethod -> defaultAccountId (seeded accounts reuse the same ids)
+        if ('defaultPaymentMethod' in parsed && !('defaultAccountId' in parsed)) {
+          (parsed as Partial<Settings>).defaultAccountId = parsed.defaultPaymentMethod ?? null;
+        }
+        const { mascotEnabled: _, defaultPaymentMethod: __, ...clean } = parsed;
         set({ ...DEFAULT_SETTINGS, ...clean, isLoaded: true });
       } else {
         set({ isLoaded: true });
@@ -55,7 +63,7 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     const settings: Settings = {
       currency: state.currency,
       currencySymbol: state.currencySymbol,
-      defaultPaymentMethod: state.defaultPaymentMethod,
+      defaultAccountId: state.defaultAccountId,
       hasCompletedOnboarding: state.hasCompletedOnboarding,
       notificationsEnabled: state.notificationsEnabled,
       budgetAlerts: state.budgetAlerts,
@@ -64,6 +72,9 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       theme: state.theme,
       gamificationEnabled: state.gamificationEnabled,
       lastBackupDate: state.lastBackupDate,
+      importDuplicateWindowDays: state.importDuplicateWindowDays,
+      applyRulesOnManualEntry: state.applyRulesOnManualEntry,
+      importTransferKeywords: state.importTransferKeywords,
     };
     await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
   },
@@ -73,8 +84,7 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
   },
 
   formatAmount: (amount: number) => {
-    const { currencySymbol } = get();
-    if (amount < 0) return `-${currencySymbol}${Math.abs(amount).toFixed(2)}`;
-    return `${currencySymbol}${amount.toFixed(2)}`;
+    const { currency, currencySymbol } = get();
+    return formatMoney(amount, currencySymbol, currency);
   },
 }));
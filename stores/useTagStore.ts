@@ -3,6 +3,7 @@ import { eq } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { tags, expenseTags } from '@/db/schema';
 import type { Tag } from '@/types';
+import { useUndoStore } from '@/stores/useUndoStore';
 
 const FREE_TAG_LIMIT = 3;
 
@@ -36,6 +37,14 @@ function buildExpenseTagMap(allTags: Tag[]): Map<string, Tag[]> {
   return map;
 }
 
+// Expense-tag associations go first so no link outlives its tag.
+function removeTagRows(id: string) {
+  db.transaction((tx) => {
+    tx.delete(expenseTags).where(eq(expenseTags.tagId, id)).run();
+    tx.delete(tags).where(eq(tags.id, id)).run();
+  });
+}
+
 export const useTagStore = create<TagState>((set, get) => ({
   tags: [],
   expenseTagMap: new Map(),
@@ -79,10 +88,25 @@ export const useTagStore = create<TagState>((set, get) => ({
   },
 
   deleteTag: (id) => {
-    // Remove all expense-tag associations first
-    db.delete(expenseTags).where(eq(expenseTags.tagId, id)).run();
-    db.delete(tags).where(eq(tags.id, id)).run();
-    set((state) => ({ tags: state.tags.filter((t) => t.id !== id) }));
+    const tag = db.select().from(tags).where(eq(tags.id, id)).get();
+    if (!tag) return;
+    const links = db.select().from(expenseTags).where(eq(expenseTags.tagId, id)).all();
+    removeTagRows(id);
+    get().loadTags();
+    useUndoStore.getState().record({
+      label: `Tag "${tag.name}" deleted`,
+      undo: () => {
+        db.transaction((tx) => {
+          tx.insert(tags).values(tag).run();
+          for (const link of links) tx.insert(expenseTags).values(link).run();
+        });
+        get().loadTags();
+      },
+      redo: () => {
+        removeTagRows(id);
+        get().loadTags();
+      },
+    });
   },
 
   canAddTag: (isPremium) => {
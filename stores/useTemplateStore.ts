@@ -2,7 +2,8 @@ import { create } from 'zustand';
 import { eq } from 'drizzle-orm';
 import { db, generateId } from '@/db';
 import { templates } from '@/db/schema';
-import type { Template, PaymentMethod } from '@/types';
+import { fromMinorUnits, roundMoney, toMinorUnits } from '@/lib/money';
+import type { Template } from '@/types';
 
 const FREE_TEMPLATE_LIMIT = 3;
 
@@ -15,7 +16,7 @@ interface TemplateState {
     amount: number;
     categoryId: string;
     description: string;
-    paymentMethod: PaymentMethod;
+    accountId: string | null;
     notes?: string | null;
   }) => Template;
   deleteTemplate: (id: string) => void;
@@ -30,7 +31,8 @@ export const useTemplateStore = create<TemplateState>((set, get) => ({
   loadTemplates: () => {
     set({ isLoading: true });
     try {
-      const result = db.select().from(templates).all();
+      const result = db.select().from(templates).all()
+        .map((row) => ({ ...row, amount: fromMinorUnits(row.amount) }));
       const sorted = (result as Template[]).sort((a, b) => b.createdAt - a.createdAt);
       set({ templates: sorted, isLoading: false });
     } catch {
@@ -44,14 +46,14 @@ export const useTemplateStore = create<TemplateState>((set, get) => ({
     const template: Template = {
       id,
       name: data.name,
-      amount: data.amount,
+      amount: roundMoney(data.amount),
       categoryId: data.categoryId,
       description: data.description,
-      paymentMethod: data.paymentMethod,
+      accountId: data.accountId,
       notes: data.notes ?? null,
       createdAt: now,
     };
-    db.insert(templates).values(template).run();
+    db.insert(templates).values({ ...template, amount: toMinorUnits(template.amount) }).run();
     set((state) => ({ templates: [template, ...state.templates] }));
     return template;
   },
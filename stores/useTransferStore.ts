@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import { eq, desc, sql } from 'drizzle-orm';
+import { db, generateId } from '@/db';
+import { transfers, savingsGoals, debts } from '@/db/schema';
+import { fromMinorUnits, roundMoney, toMinorUnits } from '@/lib/money';
+import { useSavingsGoalStore } from '@/stores/useSavingsGoalStore';
+import { useDebtStore } from '@/stores/useDebtStore';
+import type { Transfer, TransferEndpoint } from '@/types';
+
+interface TransferState {
+  transfers: Transfer[];
+  isLoading: boolean;
+  loadTransfers: () => void;
+  addTransfer: (data: {
+    amount: number;
+    date: Date;
+    from: TransferEndpoint;
+    to: TransferEndpoint;
+    description?: string;
+  }) => Transfer;
+  deleteTransfer: (id: string) => void;
+  clearAllTransfers: () => void;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Goals and debts store their running amounts, so a transfer touching one is
+// applied to that row. `minor` is positive for money arriving at the endpoint
+// and negative for money leaving it. Account balances are derived on read.
+function applyToEndpoint(tx: Tx, endpoint: TransferEndpoint, minor: number) {
+  const now = Date.now();
+  if (endpoint.type === 'goal') {
+    tx.update(savingsGoals)
+      .set({ currentAmount: sql`${savingsGoals.currentAmount} + ${minor}`, updatedAt: now })
+      .where(eq(savingsGoals.id, endpoint.id))
+      .run();
+  } else if (endpoint.type === 'debt') {
+    // Paying into a debt reduces what is owed; drawing from it increases it.
+    tx.update(debts)
+      .set({ remainingAmount: sql`${debts.remainingAmount} - ${minor}`, updatedAt: now })
+      .where(eq(debts.id, endpoint.id))
+      .run();
+  }
+}
+
+function reloadEndpointStores(...endpoints: TransferEndpoint[]) {
+  if (endpoints.some((e) => e.type === 'goal')) useSavingsGoalStore.getState().loadGoals();
+  if (endpoints.some((e) => e.type === 'debt')) useDebtStore.getState().loadDebts();
+}
+
+export const useTransferStore = create<TransferState>((set, get) => ({
+  transfers: [],
+  isLoading: false,
+
+  loadTransfers: () => {
+    set({ isLoading: true });
+    try {
+      const result = db.select().from(transfers).orderBy(desc(transfers.date)).all()
+        .map((row) => ({ ...row, amount: fromMinorUnits(row.amount) }));
+      set({ transfers: result as Transfer[], isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  addTransfer: (data) => {
+    const now = Date.now();
+    const transfer: Transfer = {
+      id: generateId(),
+      amount: roundMoney(data.amount),
+      date: data.date.getTime(),
+      fromType: data.from.type,
+      fromId: data.from.id,
+      toType: data.to.type,
+      toId: data.to.id,
+      description: data.description ?? '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const minor = toMinorUnits(transfer.amount);
+
+    db.transaction((tx) => {
+      tx.insert(transfers).values({ ...transfer, amount: minor }).run();
+      applyToEndpoint(tx, data.from, -minor);
+      applyToEndpoint(tx, data.to, minor);
+    });
+
+    set((state) => ({
+      transfers: [transfer, ...state.transfers].sort((a, b) => b.date - a.date),
+    }));
+    reloadEndpointStores(data.from, data.to);
+    return transfer;
+  },
+
+  // Deleting a transfer reverses its effect on goals and debts.
+  deleteTransfer: (id) => {
+    const transfer = get().transfers.find((t) => t.id === id);
+    if (!transfer) return;
+    const from: TransferEndpoint = { type: transfer.fromType, id: transfer.fromId };
+    const to: TransferEndpoint = { type: transfer.toType, id: transfer.toId };
+    const minor = toMinorUnits(transfer.amount);
+
+    db.transaction((tx) => {
+      tx.delete(transfers).where(eq(transfers.id, id)).run();
+      applyToEndpoint(tx, from, minor);
+      applyToEndpoint(tx, to, -minor);
+    });
+
+    set((state) => ({ transfers: state.transfers.filter((t) => t.id !== id) }));
+    reloadEndpointStores(from, to);
+  },
+
+  clearAllTransfers: () => {
+    db.delete(transfers).run();
+    set({ transfers: [] });
+  },
+}));
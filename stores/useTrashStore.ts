@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import {
+  deleteFromTrash,
+  emptyTrash,
+  getTrashedExpenses,
+  purgeExpiredTrash,
+  restoreExpensesFromTrash,
+} from '@/services/trash';
+import type { TrashRestoreResult } from '@/services/trash';
+import { useExpenseStore } from '@/stores/useExpenseStore';
+import { useTagStore } from '@/stores/useTagStore';
+import type { TrashedExpense } from '@/types';
+
+interface TrashState {
+  items: TrashedExpense[];
+  isLoading: boolean;
+  loadTrash: () => void;
+  restoreItems: (trashIds: string[]) => TrashRestoreResult;
+  deleteItems: (trashIds: string[]) => void;
+  emptyTrash: () => void;
+  purgeExpired: () => void;
+}
+
+export const useTrashStore = create<TrashState>((set, get) => ({
+  items: [],
+  isLoading: false,
+
+  loadTrash: () => {
+    set({ isLoading: true });
+    try {
+      set({ items: getTrashedExpenses(), isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  restoreItems: (trashIds) => {
+    const ids = new Set(trashIds);
+    const expenseIds = get().items.filter((i) => ids.has(i.id)).map((i) => i.expense.id);
+    const result = restoreExpensesFromTrash(expenseIds);
+    // Skipped items are still in the trash, so re-read it rather than filter
+    get().loadTrash();
+    useExpenseStore.getState().loadExpenses();
+    useTagStore.getState().loadTags();
+    return result;
+  },
+
+  deleteItems: (trashIds) => {
+    const ids = new Set(trashIds);
+    deleteFromTrash(trashIds);
+    set((state) => ({ items: state.items.filter((i) => !ids.has(i.id)) }));
+  },
+
+  emptyTrash: () => {
+    emptyTrash();
+    set({ items: [] });
+  },
+
+  purgeExpired: () => {
+    if (purgeExpiredTrash() > 0) get().loadTrash();
+  },
+}));
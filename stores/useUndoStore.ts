@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { generateId } from '@/db';
+
+const MAX_HISTORY = 20;
+
+/** A recorded action together with the operations that reverse and replay it. */
+export interface UndoEntry {
+  id: string;
+  label: string;
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+  /** Frees what the entry holds on to, such as temporary files, once it leaves the history. */
+  dispose?: () => void;
+}
+
+/** The last thing that happened to the history, for the undo snackbar. */
+export interface UndoEvent {
+  entry: UndoEntry;
+  kind: 'done' | 'undone' | 'redone';
+  at: number;
+}
+
+interface UndoState {
+  past: UndoEntry[];
+  future: UndoEntry[];
+  lastEvent: UndoEvent | null;
+  record: (entry: Omit<UndoEntry, 'id'>) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clearHistory: () => void;
+}
+
+function disposeAll(entries: UndoEntry[]) {
+  for (const entry of entries) {
+    try {
+      entry.dispose?.();
+    } catch (error) {
+      console.warn('[undo] could not dispose entry:', error);
+    }
+  }
+}
+
+// Stores record the inverse of each destructive action here right after
+// performing it. Recording a new action drops anything that was undone.
+export const useUndoStore = create<UndoState>((set, get) => ({
+  past: [],
+  future: [],
+  lastEvent: null,
+
+  record: (data) => {
+    const entry: UndoEntry = { id: generateId(), ...data };
+    const { past, future } = get();
+    const kept = [...past, entry].slice(-MAX_HISTORY);
+    disposeAll([...past.slice(0, past.length + 1 - kept.length), ...future]);
+    set({ past: kept, future: [], lastEvent: { entry, kind: 'done', at: Date.now() } });
+  },
+
+  undo: async () => {
+    const entry = get().past[get().past.length - 1];
+    if (!entry) return;
+    await entry.undo();
+    set((state) => ({
+      past: state.past.slice(0, -1),
+      future: [...state.future, entry],
+      lastEvent: { entry, kind: 'undone', at: Date.now() },
+    }));
+  },
+
+  redo: async () => {
+    const entry = get().future[get().future.length - 1];
+    if (!entry) return;
+    await entry.redo();
+    set((state) => ({
+      past: [...state.past, entry],
+      future: state.future.slice(0, -1),
+      lastEvent: { entry, kind: 'redone', at: Date.now() },
+    }));
+  },
+
+  clearHistory: () => {
+    const { past, future } = get();
+    disposeAll([...past, ...future]);
+    set({ past: [], future: [], lastEvent: null });
+  },
+}));
@@ -1,4 +1,4 @@
-export type PaymentMethod = 'cash' | 'card' | 'bank' | 'other';
+export type AccountType = 'cash' | 'card' | 'bank' | 'savings' | 'credit' | 'other';
 export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
 export type IncomeSource = 'salary' | 'freelance' | 'investment' | 'side_hustle' | 'gift' | 'refund' | 'other';
@@ -9,6 +9,11 @@ export interface Income {
   source: IncomeSource;
   description: string;
   date: number;
+  accountId: string | null;
+  /** ISO code when received in a foreign currency; null means home currency. */
+  currency: string | null;
+  /** Amount in `currency`; `amount` holds the home-currency conversion. */
+  originalAmount: number | null;
   notes: string | null;
   createdAt: number;
   updatedAt: number;
@@ -75,7 +80,7 @@ export interface Template {
   amount: number;
   categoryId: string;
   description: string;
-  paymentMethod: PaymentMethod;
+  accountId: string | null;
   notes: string | null;
   createdAt: number;
 }
@@ -118,6 +123,51 @@ export interface Achievement {
   earnedAt: number | null;
 }
 
+// Accounts
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  /** Balance before the first recorded transaction, in the home currency. */
+  openingBalance: number;
+  /** Default entry currency for transactions on this account; null means home currency. */
+  currency: string | null;
+  icon: string;
+  color: string;
+  sortOrder: number;
+  createdAt: number;
+}
+
+// Transfers
+export type TransferEndpointType = 'account' | 'goal' | 'debt';
+
+export interface TransferEndpoint {
+  type: TransferEndpointType;
+  id: string;
+}
+
+/** Money moved between accounts, savings goals and debts; never counted as spending or income. */
+export interface Transfer {
+  id: string;
+  amount: number;
+  date: number;
+  fromType: TransferEndpointType;
+  fromId: string;
+  toType: TransferEndpointType;
+  toId: string;
+  description: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Exchange rates
+export interface ExchangeRate {
+  currency: string;
+  /** Units of the home currency per one unit of `currency`. */
+  rate: number;
+  updatedAt: number;
+}
+
 // Backup
 export interface BackupData {
   version: string;
@@ -131,6 +181,15 @@ export interface BackupData {
   tags: any[];
   expenseTags: any[];
   templates: any[];
+  exchangeRates?: any[];
+  accounts?: any[];
+  transfers?: any[];
+  expenseSplits?: any[];
+  savedViews?: any[];
+  importProfiles?: any[];
+  categoryRules?: any[];
+  importBatches?: any[];
+  attachments?: any[];
   settings: any;
   gamification: any;
   achievements: any;
@@ -143,6 +202,8 @@ export interface Category {
   color: string;
   budgetAmount: number | null;
   budgetPeriod: BudgetPeriod | null;
+  /** Parent category for sub-categories; null at the top level. */
+  parentId: string | null;
   isDefault: number;
   sortOrder: number;
   createdAt: number;
@@ -154,19 +215,198 @@ export interface Expense {
   categoryId: string;
   description: string;
   date: number;
-  paymentMethod: PaymentMethod;
+  accountId: string | null;
   receiptUri: string | null;
   isRecurring: number;
   recurringFrequency: RecurringFrequency | null;
   recurringEndDate: number | null;
   nextRecurringDate: number | null;
+  /** ISO code when paid in a foreign currency; null means home currency. */
+  currency: string | null;
+  /** Amount in `currency`; `amount` holds the home-currency conversion. */
+  originalAmount: number | null;
   notes: string | null;
   createdAt: number;
   updatedAt: number;
 }
 
+export type AttachmentKind = 'image' | 'pdf';
+
+/** A file kept with an expense besides its receipt, e.g. an invoice or warranty. */
+export interface Attachment {
+  id: string;
+  expenseId: string;
+  uri: string;
+  /** Small JPEG preview; null for PDFs. */
+  thumbnailUri: string | null;
+  kind: AttachmentKind;
+  name: string;
+  /** Bytes, when the file system reported it. */
+  size: number | null;
+  sortOrder: number;
+  createdAt: number;
+}
+
+/** A deleted expense held in the trash until it is restored or expires. */
+export interface TrashedExpense {
+  /** Id of the trash row, not of the expense. */
+  id: string;
+  deletedAt: number;
+  expense: Expense;
+  splitCount: number;
+  tagCount: number;
+  attachmentCount: number;
+}
+
+/** One category's share of a split expense, in the home currency. */
+export interface ExpenseSplit {
+  id: string;
+  expenseId: string;
+  categoryId: string;
+  amount: number;
+  note: string | null;
+  sortOrder: number;
+}
+
+/** A split line as entered, in the same currency as the expense amount. */
+export interface SplitInput {
+  categoryId: string;
+  amount: number;
+  note?: string | null;
+}
+
 export interface ExpenseWithCategory extends Expense {
   category: Category;
+  /** Empty unless the expense is split; the lines sum to `amount`. */
+  splits: ExpenseSplit[];
+}
+
+/** Changes applied to every selected expense by a bulk edit. */
+export interface BulkExpenseChanges {
+  /** Books each expense wholly to this category, dropping any split lines. */
+  categoryId?: string;
+  accountId?: string | null;
+  /** Moves each expense's date by this many days; negative moves it earlier. */
+  dateShiftDays?: number;
+  addTagIds?: string[];
+  removeTagIds?: string[];
+}
+
+/** One test an expense must pass. Amounts are in the home currency. */
+export type FilterCondition =
+  /** Booked to any of these categories, including through split lines. */
+  | { type: 'categories'; categoryIds: string[] }
+  | { type: 'tags'; tagIds: string[]; mode: 'include' | 'exclude' }
+  | { type: 'amount'; min: number | null; max: number | null }
+  | { type: 'recurring' }
+  | { type: 'hasReceipt' }
+  | { type: 'notes'; text: string };
+
+export type FilterMatch = 'all' | 'any';
+
+export interface FilterGroup {
+  match: FilterMatch;
+  conditions: FilterCondition[];
+}
+
+/** Groups combined with `match`; each group combines its own conditions. */
+export interface AdvancedFilter {
+  match: FilterMatch;
+  groups: FilterGroup[];
+}
+
+/** A named, reusable filter shown in the expenses tab and as a scope elsewhere. */
+export interface SavedView {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  filter: AdvancedFilter;
+  /** Date preset applied with the view in the expenses tab and export; null keeps the current one. */
+  dateFilter: DateFilter | null;
+  isPinned: boolean;
+  sortOrder: number;
+  createdAt: number;
+}
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+/** How a bank's amount column tells money going out from money coming in. */
+export type AmountSign =
+  | 'negative_is_expense'
+  | 'positive_is_expense'
+  | 'all_expenses';
+
+/** Column indexes into a CSV row; -1 when the file has no such column. */
+export interface CsvColumnMapping {
+  dateCol: number;
+  amountCol: number;
+  descCol: number;
+  catCol: number;
+  /** Money out and money in as separate columns; used when amountCol is -1. */
+  debitCol: number;
+  creditCol: number;
+}
+
+/** Everything needed to read one bank's CSV export. */
+export interface CsvFormat {
+  delimiter: CsvDelimiter;
+  /** Non-empty lines above the header row, e.g. account details some banks print first. */
+  headerRow: number;
+  mapping: CsvColumnMapping;
+  /** date-fns pattern; null tries the common formats in turn. */
+  dateFormat: string | null;
+  decimalSeparator: '.' | ',';
+  /** '' when amounts are written without grouping. */
+  thousandsSeparator: ',' | '.' | ' ' | "'" | '';
+  amountSign: AmountSign;
+}
+
+/**
+ * A saved CsvFormat, picked automatically when a file's header row matches
+ * `fingerprint`.
+ */
+export interface ImportProfile extends CsvFormat {
+  id: string;
+  name: string;
+  fingerprint: string;
+  lastUsedAt: number | null;
+  createdAt: number;
+}
+
+export type ImportFileKind = 'csv' | 'ofx' | 'qif';
+
+/** One run of the import wizard; rolling it back deletes the rows it created. */
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  fileKind: ImportFileKind;
+  /** The CSV profile used, if any; may point at a profile deleted since. */
+  profileId: string | null;
+  /** Expenses, income entries and transfers inserted. */
+  rowCount: number;
+  importedAt: number;
+}
+
+export type RuleMatchType = 'contains' | 'regex';
+
+/**
+ * Books expenses whose description matches `pattern`, and whose amount falls
+ * within the optional bounds, to `categoryId` with `tagIds`. Rules are tried
+ * in `priority` order and the first match wins.
+ */
+export interface CategoryRule {
+  id: string;
+  matchType: RuleMatchType;
+  /** Case-insensitive: a plain substring for 'contains', a JavaScript regex for 'regex'. */
+  pattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  categoryId: string;
+  tagIds: string[];
+  priority: number;
+  isEnabled: boolean;
+  createdAt: number;
 }
 
 export interface Budget {
@@ -190,7 +430,7 @@ export interface BudgetWithProgress extends Budget {
 export interface Settings {
   currency: string;
   currencySymbol: string;
-  defaultPaymentMethod: PaymentMethod;
+  defaultAccountId: string | null;
   hasCompletedOnboarding: boolean;
   notificationsEnabled: boolean;
   budgetAlerts: boolean;
@@ -199,6 +439,12 @@ export interface Settings {
   theme: Theme;
   gamificationEnabled: boolean;
   lastBackupDate: number | null;
+  /** How many days apart an imported row and an existing expense may be and still count as duplicates. */
+  importDuplicateWindowDays: number;
+  /** Whether categorization rules also pick the category and tags while adding an expense by hand. */
+  applyRulesOnManualEntry: boolean;
+  /** Lowercase phrases that mark an imported row as a transfer between the user's own accounts. */
+  importTransferKeywords: string[];
 }
 
 export interface SpendingByCategory {